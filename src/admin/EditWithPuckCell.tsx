@@ -1,5 +1,7 @@
 'use client'
 
+import { useEffect, useState } from 'react'
+import { useConfig } from '@payloadcms/ui'
 import type { DefaultCellComponentProps } from 'payload'
 
 /**
@@ -13,10 +15,47 @@ export interface EditWithPuckCellConfig {
   collectionSlug?: string
   /**
    * Custom editor path pattern
-   * Use {id} as placeholder for the document ID
-   * @default '/admin/puck/{collectionSlug}/{id}/edit'
+   * Use {id} as placeholder for the document ID, {collection} for collection slug
+   * @default Uses admin view: '/admin/puck-editor/{collection}/{id}'
    */
   editorPathPattern?: string
+  /**
+   * Show a lock badge on rows that are open in the editor.
+   * Set by the plugin when `editLocking` is enabled.
+   * @default false
+   */
+  showLockStatus?: boolean
+}
+
+/**
+ * Lock holder for a document, as returned by `/api/puck/:collection/locks`
+ */
+interface EditLockSummary {
+  userLabel: string
+  since: string
+  editors: number
+}
+
+// Every row in a list view needs the same lock list - share one request per collection
+const LOCKS_CACHE_TTL = 5000
+const locksCache = new Map<string, { fetchedAt: number; promise: Promise<Record<string, EditLockSummary>> }>()
+
+function fetchLocks(url: string): Promise<Record<string, EditLockSummary>> {
+  const cached = locksCache.get(url)
+  if (cached && Date.now() - cached.fetchedAt < LOCKS_CACHE_TTL) {
+    return cached.promise
+  }
+
+  const promise = fetch(url)
+    .then(async (response) => {
+      if (!response.ok) return {}
+      const data = await response.json()
+      return (data.locks || {}) as Record<string, EditLockSummary>
+    })
+    .catch(() => ({}))
+
+  locksCache.set(url, { fetchedAt: Date.now(), promise })
+  return promise
 }
 
 /**
@@ -41,6 +80,28 @@ function PuckIcon({ size = 16 }: { size?: number }) {
   )
 }
 
+/**
+ * Padlock icon component
+ */
+function LockIcon({ size = 12 }: { size?: number }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      width={size}
+      height={size}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <rect width="18" height="11" x="3" y="11" rx="2" ry="2" />
+      <path d="M7 11V7a5 5 0 0 1 10 0v4" />
+    </svg>
+  )
+}
+
 /**
  * Custom cell component that renders an "Edit with Puck" button in list views
  *
@@ -75,17 +136,36 @@ export const EditWithPuckCell: React.FC<DefaultCellComponentProps> = ({
   // Get custom config from field
   const customConfig = (field as any)?.custom as EditWithPuckCellConfig | undefined
   const collectionSlug = customConfig?.collectionSlug || contextCollectionSlug || 'pages'
+  const showLockStatus = customConfig?.showLockStatus ?? false
+
+  const { config } = useConfig()
+  const apiRoute = config.routes?.api || '/api'
+  const adminRoute = config.routes?.admin || '/admin'
+  const [lock, setLock] = useState<EditLockSummary | null>(null)
+
+  useEffect(() => {
+    if (!showLockStatus || !id) return
+    let cancelled = false
+
+    fetchLocks(`${apiRoute}/puck/${collectionSlug}/locks`).then((locks) => {
+      if (!cancelled) setLock(locks[String(id)] ?? null)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [showLockStatus, id, apiRoute, collectionSlug])
 
   if (!id) {
     return null
   }
 
-  // Build editor URL
+  // Build editor URL - defaults to admin view, like EditWithPuckButton
   const editorPath = customConfig?.editorPathPattern
-    ? customConfig.editorPathPattern.replace('{id}', id).replace('{collectionSlug}', collectionSlug)
-    : `/admin/puck/${collectionSlug}/${id}/edit`
+    ? customConfig.editorPathPattern.replace('{id}', id).replace('{collection}', collectionSlug)
+    : `${adminRoute}/puck-editor/${collectionSlug}/${id}`
 
-  return (
+  const editButton = (
     <a
       href={editorPath}
       onClick={(e) => e.stopPropagation()}
@@ -116,6 +196,34 @@ export const EditWithPuckCell: React.FC<DefaultCellComponentProps> = ({
       <span>Visual Editor</span>
     </a>
   )
+
+  if (!lock) {
+    return editButton
+  }
+
+  return (
+    <span style={{ display: 'inline-flex', alignItems: 'center', gap: '6px' }}>
+      {editButton}
+      <span
+        style={{
+          display: 'inline-flex',
+          alignItems: 'center',
+          gap: '4px',
+          padding: '2px 6px',
+          backgroundColor: '#fef3c7',
+          color: '#92400e',
+          borderRadius: '4px',
+          fontSize: '11px',
+          fontWeight: 500,
+          whiteSpace: 'nowrap',
+        }}
+        title={`${lock.userLabel} is editing${lock.editors > 1 ? ` (${lock.editors} open)` : ''}`}
+      >
+        <LockIcon size={12} />
+        <span>{lock.userLabel}</span>
+      </span>
+    </span>
+  )
 }
 
 export default EditWithPuckCell
@@ -0,0 +1,263 @@
+'use client'
+
+import { useCallback, useRef, useState, type CSSProperties } from 'react'
+import { useConfig, useDocumentInfo } from '@payloadcms/ui'
+
+/**
+ * Props passed by the plugin through `clientProps`
+ */
+interface PageBundleActionProps {
+  collectionSlug?: string
+}
+
+/**
+ * Import report, as returned by `/api/puck/:collection/import`
+ */
+interface ImportReport {
+  dryRun: boolean
+  imported: boolean
+  collisions: Array<{ type: string; message: string; blocking: boolean }>
+  page: { action: 'create' | 'update'; id?: string | number; slug?: string }
+  templates: Array<{ name: string; action: 'create' | 'reuse' }>
+  media: Array<{ filename: string; action: 'create' | 'reuse' | 'skip' }>
+}
+
+const buttonStyle: CSSProperties = {
+  display: 'inline-flex',
+  alignItems: 'center',
+  gap: '6px',
+  padding: '6px 12px',
+  border: '1px solid var(--theme-elevation-150)',
+  borderRadius: '4px',
+  backgroundColor: 'var(--theme-elevation-0)',
+  color: 'var(--theme-elevation-800)',
+  fontSize: '13px',
+  textDecoration: 'none',
+  cursor: 'pointer',
+}
+
+function countActions(items: Array<{ action: string }>, action: string): number {
+  return items.filter((item) => item.action === action).length
+}
+
+/**
+ * Downloads the current page as a portable JSON bundle.
+ * Added to the document controls when the plugin's `bundles` option is enabled.
+ */
+export function PageBundleExportButton({ collectionSlug }: PageBundleActionProps) {
+  const { id, collectionSlug: documentCollection } = useDocumentInfo()
+  const { config } = useConfig()
+  const apiRoute = config.routes?.api || '/api'
+  const collection = collectionSlug || documentCollection
+
+  if (!id || !collection) {
+    return null
+  }
+
+  return (
+    <a
+      href={`${apiRoute}/puck/${collection}/${id}/export`}
+      download
+      title="Download this page with its templates and media as a JSON bundle"
+      style={buttonStyle}
+    >
+      Export
+    </a>
+  )
+}
+
+/**
+ * Imports a page bundle into the collection. Shows a dry-run report with
+ * collisions (e.g. an existing slug or homepage) before importing.
+ * Added above the list view when the plugin's `bundles` option is enabled.
+ */
+export function PageBundleImportButton({ collectionSlug = 'pages' }: PageBundleActionProps) {
+  const { config } = useConfig()
+  const apiRoute = config.routes?.api || '/api'
+  const adminRoute = config.routes?.admin || '/admin'
+
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [bundle, setBundle] = useState<unknown>(null)
+  const [report, setReport] = useState<ImportReport | null>(null)
+  const [overwrite, setOverwrite] = useState(false)
+  const [publish, setPublish] = useState(false)
+  const [isBusy, setIsBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const runImport = useCallback(
+    async (data: unknown, options: { dryRun: boolean; overwrite: boolean; publish: boolean }) => {
+      const params = new URLSearchParams({
+        dryRun: String(options.dryRun),
+        overwrite: String(options.overwrite),
+        publish: String(options.publish),
+      })
+      const response = await fetch(`${apiRoute}/puck/${collectionSlug}/import?${params}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      })
+      const result = await response.json()
+      // 409 still carries the report (blocked by a collision)
+      if (!response.ok && response.status !== 409) {
+        throw new Error(result.error || 'Import failed')
+      }
+      return result as ImportReport
+    },
+    [apiRoute, collectionSlug]
+  )
+
+  const reset = useCallback(() => {
+    setBundle(null)
+    setReport(null)
+    setOverwrite(false)
+    setPublish(false)
+    setError(null)
+  }, [])
+
+  const handleFile = useCallback(
+    async (file: File | undefined) => {
+      if (!file) return
+      reset()
+      setIsBusy(true)
+      try {
+        const data = JSON.parse(await file.text())
+        setBundle(data)
+        setReport(await runImport(data, { dryRun: true, overwrite: false, publish: false }))
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Invalid bundle')
+      } finally {
+        setIsBusy(false)
+        if (inputRef.current) inputRef.current.value = ''
+      }
+    },
+    [reset, runImport]
+  )
+
+  // Re-run the dry run when options change, so the report matches
+  const handleOverwriteChange = useCallback(
+    async (value: boolean) => {
+      setOverwrite(value)
+      setIsBusy(true)
+      try {
+        setReport(await runImport(bundle, { dryRun: true, overwrite: value, publish }))
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Import failed')
+      } finally {
+        setIsBusy(false)
+      }
+    },
+    [bundle, publish, runImport]
+  )
+
+  const handleImport = useCallback(async () => {
+    setIsBusy(true)
+    try {
+      const result = await runImport(bundle, { dryRun: false, overwrite, publish })
+      if (result.imported && result.page.id !== undefined) {
+        window.location.href = `${adminRoute}/puck-editor/${collectionSlug}/${result.page.id}`
+        return
+      }
+      setReport(result)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed')
+    } finally {
+      setIsBusy(false)
+    }
+  }, [adminRoute, bundle, collectionSlug, overwrite, publish, runImport])
+
+  const isBlocked = !!report?.collisions.some((collision) => collision.blocking)
+
+  return (
+    <div style={{ marginBottom: '1rem' }}>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="application/json,.json"
+        style={{ display: 'none' }}
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={isBusy}
+        style={buttonStyle}
+      >
+        {isBusy && !report ? 'Checking...' : 'Import page'}
+      </button>
+
+      {error && <p style={{ color: 'var(--theme-error-500)', fontSize: '13px' }}>{error}</p>}
+
+      {report && (
+        <div
+          style={{
+            marginTop: '12px',
+            padding: '12px 16px',
+            border: '1px solid var(--theme-elevation-150)',
+            borderRadius: '4px',
+            fontSize: '13px',
+          }}
+        >
+          <p style={{ margin: '0 0 8px', fontWeight: 500 }}>
+            {report.page.action === 'update' ? 'Update' : 'Create'} page
+            {report.page.slug ? ` "${report.page.slug}"` : ''}
+          </p>
+          <p style={{ margin: '0 0 8px', color: 'var(--theme-elevation-600)' }}>
+            Templates: {countActions(report.templates, 'create')} new,{' '}
+            {countActions(report.templates, 'reuse')} existing. Media:{' '}
+            {countActions(report.media, 'create')} new, {countActions(report.media, 'reuse')} existing
+            {countActions(report.media, 'skip') > 0 && `, ${countActions(report.media, 'skip')} skipped`}.
+          </p>
+
+          {report.collisions.length > 0 && (
+            <ul style={{ margin: '0 0 8px', paddingLeft: '18px' }}>
+              {report.collisions.map((collision, index) => (
+                <li
+                  key={index}
+                  style={{
+                    color: collision.blocking
+                      ? 'var(--theme-error-500)'
+                      : 'var(--theme-warning-600, var(--theme-elevation-700))',
+                  }}
+                >
+                  {collision.message}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div style={{ display: 'flex', alignItems: 'center', gap: '16px', flexWrap: 'wrap' }}>
+            <label style={{ display: 'inline-flex', alignItems: 'center', gap: '6px' }}>
+              <input
+                type="checkbox"
+                checked={overwrite}
+                disabled={isBusy}
+                onChange={(e) => handleOverwriteChange(e.target.checked)}
+              />
+              Update the existing page with this slug
+            </label>
+            <label style={{ display: 'inline-flex', alignItems: 'center', gap: '6px' }}>
+              <input
+                type="checkbox"
+                checked={publish}
+                disabled={isBusy}
+                onChange={(e) => setPublish(e.target.checked)}
+              />
+              Publish
+            </label>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={isBusy || isBlocked}
+              style={{ ...buttonStyle, ...(isBusy || isBlocked ? { opacity: 0.5, cursor: 'not-allowed' } : {}) }}
+            >
+              {isBusy ? 'Importing...' : 'Import'}
+            </button>
+            <button type="button" onClick={reset} disabled={isBusy} style={buttonStyle}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
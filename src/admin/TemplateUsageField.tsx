@@ -0,0 +1,129 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { UIFieldClientComponent } from 'payload'
+import { useDocumentInfo, useConfig } from '@payloadcms/ui'
+
+interface TemplateUsageEntry {
+  collection: string
+  id: string | number
+  title?: string
+  slug?: string
+  modes: Array<'copy' | 'linked'>
+  count: number
+}
+
+/**
+ * Template usage list for the puck-templates edit view
+ *
+ * Shows which pages reference the template and whether they are linked
+ * (updated when the template changes) or hold a detached copy.
+ *
+ * @example
+ * ```tsx
+ * {
+ *   name: 'usage',
+ *   type: 'ui',
+ *   admin: {
+ *     components: {
+ *       Field: '@delmaredigital/payload-puck/admin/client#TemplateUsageField',
+ *     },
+ *   },
+ * }
+ * ```
+ */
+export const TemplateUsageField: UIFieldClientComponent = () => {
+  const { id } = useDocumentInfo()
+  const { config } = useConfig()
+  const [usage, setUsage] = useState<TemplateUsageEntry[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const adminRoute = config.routes?.admin || '/admin'
+  const apiRoute = config.routes?.api || '/api'
+
+  useEffect(() => {
+    if (!id) return
+    let cancelled = false
+
+    fetch(`${apiRoute}/puck/templates/${id}/usage`)
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to load usage')
+        if (!cancelled) setUsage(data.usage)
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load usage')
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [id, apiRoute])
+
+  if (!id) {
+    return null
+  }
+
+  const linkedCount = usage?.filter((entry) => entry.modes.includes('linked')).length ?? 0
+
+  return (
+    <div style={{ marginBottom: '1.5rem' }}>
+      <label className="field-label">Usage</label>
+      {error && <p style={{ color: 'var(--theme-error-500)', fontSize: '13px' }}>{error}</p>}
+      {!error && !usage && (
+        <p style={{ color: 'var(--theme-elevation-500)', fontSize: '13px' }}>Loading...</p>
+      )}
+      {usage && usage.length === 0 && (
+        <p style={{ color: 'var(--theme-elevation-500)', fontSize: '13px' }}>
+          Not used on any page.
+        </p>
+      )}
+      {usage && usage.length > 0 && (
+        <>
+          <p style={{ color: 'var(--theme-elevation-600)', fontSize: '13px', margin: '0 0 8px' }}>
+            Used on {usage.length} page{usage.length === 1 ? '' : 's'}. Changes to this template
+            update {linkedCount} linked page{linkedCount === 1 ? '' : 's'}.
+          </p>
+          <ul style={{ margin: 0, padding: 0, listStyle: 'none', fontSize: '13px' }}>
+            {usage.map((entry) => (
+              <li
+                key={`${entry.collection}-${entry.id}`}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '8px',
+                  padding: '6px 0',
+                  borderBottom: '1px solid var(--theme-elevation-100)',
+                }}
+              >
+                <a href={`${adminRoute}/puck-editor/${entry.collection}/${entry.id}`}>
+                  {entry.title || entry.slug || entry.id}
+                </a>
+                <span style={{ color: 'var(--theme-elevation-500)' }}>{entry.collection}</span>
+                <span
+                  style={{
+                    marginLeft: 'auto',
+                    padding: '2px 8px',
+                    borderRadius: '9999px',
+                    fontSize: '11px',
+                    fontWeight: 500,
+                    backgroundColor: entry.modes.includes('linked')
+                      ? 'var(--theme-success-100)'
+                      : 'var(--theme-elevation-100)',
+                    color: entry.modes.includes('linked')
+                      ? 'var(--theme-success-700)'
+                      : 'var(--theme-elevation-600)',
+                  }}
+                >
+                  {entry.modes.includes('linked') ? 'Linked' : 'Copy'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default TemplateUsageField
@@ -19,3 +19,9 @@ export {
 
 // Cell component for list view
 export { EditWithPuckCell, type EditWithPuckCellConfig } from './EditWithPuckCell.js'
+
+// Usage list for the puck-templates edit view
+export { TemplateUsageField } from './TemplateUsageField.js'
+
+// Page bundle export/import actions
+export { PageBundleExportButton, PageBundleImportButton } from './PageBundleActions.js'
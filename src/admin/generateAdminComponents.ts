@@ -11,8 +11,8 @@ export interface AdminComponentsConfig {
   collectionSlug?: string
   /**
    * URL pattern for the Puck editor page
-   * Use {id} as placeholder for document ID
-   * @default '/pages/{id}/edit'
+   * Use {id} as placeholder for document ID, {collection} for collection slug
+   * @default the integrated admin view, '/admin/puck-editor/{collection}/{id}'
    */
   editorPathPattern?: string
   /**
@@ -42,7 +42,6 @@ export interface AdminComponentsConfig {
  *   fields: [
  *     // ... other fields
  *     generatePuckEditField({
- *       editorPathPattern: '/pages/{id}/edit',
  *       buttonLabel: 'Visual Editor',
  *     }),
  *   ],
@@ -52,7 +51,7 @@ export interface AdminComponentsConfig {
 export function generatePuckEditField(config: AdminComponentsConfig = {}): Field {
   const {
     collectionSlug = 'pages',
-    editorPathPattern = '/pages/{id}/edit',
+    editorPathPattern,
     buttonLabel = 'Visual Editor',
     buttonPosition = 'sidebar',
   } = config
@@ -22,6 +22,16 @@ type FieldWithAi = {
   [key: string]: unknown
 }
 
+/**
+ * Uses the value schema the field factories attach (`metadata.schema`) as the
+ * AI schema, unless one was set explicitly
+ */
+function withMetadataSchema(field: FieldWithAi): FieldWithAi {
+  const schema = (field.metadata as { schema?: object } | undefined)?.schema
+  if (!schema || field.ai?.schema) return field
+  return { ...field, ai: { ...field.ai, schema } }
+}
+
 /**
  * Injects AI configuration into an existing Puck config
  *
@@ -29,6 +39,8 @@ type FieldWithAi = {
  * 1. Applies component-level and field-level AI overrides from the provided config
  * 2. **Automatically excludes ALL `type: 'custom'` fields** from AI generation
  *    (custom fields are UI-only interactive fields that AI cannot generate values for)
+ * 3. Custom fields that do have AI instructions get their value schema from
+ *    `metadata.schema` (set by the field factories) when no AI schema is given
  *
  * @example Basic usage
  * ```typescript
@@ -157,7 +169,8 @@ export function injectAiConfig(
         // If the field has AI instructions, DON'T auto-exclude it
         // The presence of instructions indicates we want AI to use this field
         if (existingAi?.instructions) {
-          updatedFields[fieldName] = field as FieldWithAi
+          updatedFields[fieldName] = withMetadataSchema(field as FieldWithAi)
+          if (updatedFields[fieldName] !== field) hasChanges = true
         }
         // Otherwise, auto-exclude custom fields from AI generation
         // (unless already excluded)
@@ -201,7 +214,8 @@ export function injectAiConfig(
       if ((field as any).type === 'custom') {
         // If the field has AI instructions, DON'T auto-exclude it
         if (existingAi?.instructions) {
-          updatedRootFields[fieldName] = field as FieldWithAi
+          updatedRootFields[fieldName] = withMetadataSchema(field as FieldWithAi)
+          if (updatedRootFields[fieldName] !== field) hasRootChanges = true
         }
         // Otherwise, auto-exclude custom fields from AI generation
         else if (!existingAi?.exclude) {
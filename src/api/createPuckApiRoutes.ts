@@ -8,6 +8,8 @@ import type {
   CreatePageBody,
   RouteHandlerContext,
 } from './types.js'
+import { parseListQuery, ListQueryError } from './utils/listQuery.js'
+import { checkLimits, resolveLimits } from '../endpoints/limits.js'
 
 /**
  * Default Puck data for new pages
@@ -22,6 +24,20 @@ const DEFAULT_PUCK_DATA: PuckData = {
   zones: {},
 }
 
+/**
+ * Fields the list route can filter and sort by unless `queryFields` is set
+ */
+const DEFAULT_QUERY_FIELDS = [
+  'id',
+  'title',
+  'slug',
+  '_status',
+  'editorVersion',
+  'isHomepage',
+  'createdAt',
+  'updatedAt',
+]
+
 /**
  * Create API route handlers for /api/puck/pages
  *
@@ -59,8 +75,11 @@ export function createPuckApiRoutes(
     auth,
     defaultPuckData = DEFAULT_PUCK_DATA,
     enableDrafts = true,
+    searchFields,
+    queryFields = [...DEFAULT_QUERY_FIELDS, ...(searchFields ?? [])],
     onError,
   } = routeConfig
+  const saveLimits = routeConfig.limits ? resolveLimits(routeConfig.limits).saves : null
 
   /**
    * GET /api/puck/pages
@@ -68,11 +87,14 @@ export function createPuckApiRoutes(
    *
    * Query Parameters:
    * - page: Page number (default: 1)
-   * - limit: Items per page (default: 10)
-   * - search: Search in title field
+   * - limit: Items per page (default: 10, max: 100)
+   * - sort: Sort field(s), comma-separated (default: '-updatedAt')
+   * - where: Payload query as JSON or bracket notation (where[field][operator]=value),
+   *   limited to `queryFields`
+   * - search: Search in `searchFields` (default: title and slug)
    * - status: Filter by _status ('draft', 'published', 'all')
    * - editorVersion: Filter by editorVersion field
-   * - sort: Sort field (default: '-updatedAt')
+   * - select: Comma-separated fields to return, or '*' to include puckData
    */
   async function GET(request: NextRequest, _context: RouteHandlerContext): Promise<Response> {
     try {
@@ -98,49 +120,33 @@ export function createPuckApiRoutes(
 
       // Parse query parameters
       const { searchParams } = new URL(request.url)
-      const page = parseInt(searchParams.get('page') || '1', 10)
-      const limit = Math.min(parseInt(searchParams.get('limit') || '10', 10), 100)
-      const search = searchParams.get('search') || ''
-      const status = searchParams.get('status')
+      const query = parseListQuery(searchParams, {
+        defaultLimit: 10,
+        searchFields,
+        drafts: enableDrafts,
+        queryFields,
+      })
+
       const editorVersion = searchParams.get('editorVersion')
-      const sort = searchParams.get('sort') || '-updatedAt'
+      if (editorVersion && editorVersion !== 'all') {
+        const condition: Where = { editorVersion: { equals: editorVersion } }
+        query.where = query.where ? { and: [query.where, condition] } : condition
+      }
 
       // Get Payload instance with provided config
       const config = await payloadConfig
       const payload = await getPayload({ config })
 
-      // Build where clause
-      const conditions: Where[] = []
-
-      if (search) {
-        conditions.push({ title: { contains: search } })
-      }
-
-      if (status && status !== 'all') {
-        conditions.push({ _status: { equals: status } })
-      }
-
-      if (editorVersion && editorVersion !== 'all') {
-        conditions.push({ editorVersion: { equals: editorVersion } })
-      }
-
-      const where: Where | undefined =
-        conditions.length > 0
-          ? conditions.length === 1
-            ? conditions[0]
-            : { and: conditions }
-          : undefined
-
       const result = await payload.find({
         collection,
-        page,
-        limit,
-        sort,
-        where,
+        ...query,
       })
 
       return NextResponse.json(result)
     } catch (error) {
+      if (error instanceof ListQueryError) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
       if (onError) {
         onError(error, { operation: 'list', request })
       }
@@ -184,6 +190,12 @@ export function createPuckApiRoutes(
         }
       }
 
+      // Check rate and size limits
+      if (saveLimits) {
+        const limited = await checkLimits(request, saveLimits, authResult.user)
+        if (limited) return limited
+      }
+
       // Parse request body
       const body = (await request.json()) as CreatePageBody
       const { title, slug, puckData, status = 'draft' } = body
@@ -7,6 +7,8 @@ import type {
   RouteHandlerWithIdContext,
 } from './types.js'
 import { mapRootPropsToPayloadFields, deepMerge } from './utils/mapRootProps.js'
+import { isStaleUpdate, STALE_UPDATE_MESSAGE } from '../utils/concurrency.js'
+import { checkLimits, resolveLimits } from '../endpoints/limits.js'
 
 /**
  * Create API route handlers for /api/puck/pages/[id]
@@ -49,6 +51,7 @@ export function createPuckApiRoutesWithId(
     rootPropsMapping,
     onError,
   } = routeConfig
+  const saveLimits = routeConfig.limits ? resolveLimits(routeConfig.limits).saves : null
 
   /**
    * GET /api/puck/pages/[id]
@@ -132,6 +135,8 @@ export function createPuckApiRoutesWithId(
    * - title?: string - Override title (also synced from root.props)
    * - slug?: string - Override slug (also synced from root.props)
    * - status?: 'draft' | 'published' - Publishing status
+   * - expectedUpdatedAt?: string - Version the editor loaded. Stale saves get
+   *   a 409 response with the newer page.
    *
    * Root props from puckData are automatically synced to Payload fields
    * based on the configured mappings.
@@ -172,9 +177,26 @@ export function createPuckApiRoutesWithId(
         }
       }
 
+      // Check rate and size limits
+      if (saveLimits) {
+        const limited = await checkLimits(request, saveLimits, authResult.user)
+        if (limited) return limited
+      }
+
       // Parse request body
       const body = (await request.json()) as UpdatePageBody
-      const { puckData, title, slug, status, draft, isHomepage, swapHomepage, folder, pageSegment } = body
+      const {
+        puckData,
+        title,
+        slug,
+        status,
+        draft,
+        isHomepage,
+        swapHomepage,
+        folder,
+        pageSegment,
+        expectedUpdatedAt,
+      } = body
 
       // Check publish permission only if explicitly publishing
       if (status === 'published') {
@@ -194,6 +216,23 @@ export function createPuckApiRoutesWithId(
       const config = await payloadConfig
       const payload = await getPayload({ config })
 
+      // Reject saves based on an outdated version (optimistic concurrency)
+      if (expectedUpdatedAt) {
+        const currentPage = await payload.findByID({
+          collection,
+          id,
+          draft: true,
+          depth: 0,
+        })
+
+        if (isStaleUpdate(expectedUpdatedAt, currentPage?.updatedAt)) {
+          return NextResponse.json(
+            { error: STALE_UPDATE_MESSAGE, doc: currentPage },
+            { status: 409 }
+          )
+        }
+      }
+
       // Handle homepage swap - if swapHomepage is true and isHomepage is being set,
       // unset the existing homepage first
       if (swapHomepage && isHomepage === true) {
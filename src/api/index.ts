@@ -48,6 +48,17 @@ export {
   mergeMappings,
   deepMerge,
 } from './utils/mapRootProps.js'
+export { parseListQuery, ListQueryError } from './utils/listQuery.js'
+
+// JSON Schemas (used by the OpenAPI document)
+export {
+  puckDataSchema,
+  createPageBodySchema,
+  updatePageBodySchema,
+  pageVersionSchema,
+  apiResponseSchema,
+} from './schemas.js'
+export type { JsonSchema } from './schemas.js'
 
 // Types
 export type {
@@ -81,3 +92,4 @@ export type {
   PageVersion,
   PuckApiVersionsRouteHandlers,
 } from './types.js'
+export type { ParseListQueryOptions, PuckListQuery } from './utils/listQuery.js'
@@ -0,0 +1,150 @@
+/**
+ * JSON Schemas for the Puck API request and response types
+ *
+ * These mirror the interfaces in `./types.ts` and are used by the OpenAPI
+ * document served at `/api/puck/openapi.json`. Keep both in sync.
+ */
+
+/**
+ * A JSON Schema object (JSON Schema 2020-12, as used by OpenAPI 3.1)
+ */
+export type JsonSchema = Record<string, unknown>
+
+/**
+ * Puck editor data (`Data` from @puckeditor/core)
+ */
+export const puckDataSchema: JsonSchema = {
+  type: 'object',
+  description: 'Puck editor data',
+  properties: {
+    root: {
+      type: 'object',
+      properties: {
+        props: { type: 'object', additionalProperties: true },
+      },
+      additionalProperties: true,
+    },
+    content: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['type', 'props'],
+        properties: {
+          type: { type: 'string' },
+          props: { type: 'object', additionalProperties: true },
+        },
+      },
+    },
+    zones: {
+      type: 'object',
+      description: 'Legacy drop zones, keyed by `<componentId>:<zone>`',
+      additionalProperties: { type: 'array', items: { type: 'object' } },
+    },
+  },
+  required: ['root', 'content'],
+  additionalProperties: true,
+}
+
+const statusSchema: JsonSchema = { type: 'string', enum: ['draft', 'published'] }
+
+/**
+ * Request body for creating a new page
+ */
+export const createPageBodySchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    slug: { type: 'string' },
+    puckData: { $ref: '#/components/schemas/PuckData' },
+    status: statusSchema,
+  },
+  required: ['title', 'slug'],
+  additionalProperties: true,
+}
+
+/**
+ * Request body for updating a page
+ */
+export const updatePageBodySchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    puckData: { $ref: '#/components/schemas/PuckData' },
+    title: { type: 'string' },
+    slug: { type: 'string' },
+    status: statusSchema,
+    draft: {
+      type: 'boolean',
+      description: 'Save as draft without publishing',
+    },
+    isHomepage: {
+      type: 'boolean',
+      description: 'Mark this page as the homepage',
+    },
+    swapHomepage: {
+      type: 'boolean',
+      description: 'Unset the existing homepage when isHomepage is true',
+    },
+    folder: {
+      type: ['string', 'null'],
+      description: 'Page-tree folder ID',
+    },
+    pageSegment: {
+      type: 'string',
+      description: 'Page-tree slug segment, combined with the folder path',
+    },
+    expectedUpdatedAt: {
+      type: 'string',
+      format: 'date-time',
+      description: '`updatedAt` of the loaded page. Responds with 409 if the page was saved since.',
+    },
+  },
+  additionalProperties: true,
+}
+
+/**
+ * A version entry from Payload's versions system
+ */
+export const pageVersionSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    parent: { type: 'string' },
+    version: {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        slug: { type: 'string' },
+        puckData: { $ref: '#/components/schemas/PuckData' },
+        _status: statusSchema,
+        updatedAt: { type: 'string', format: 'date-time' },
+        createdAt: { type: 'string', format: 'date-time' },
+      },
+      required: ['updatedAt', 'createdAt'],
+      additionalProperties: true,
+    },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+    autosave: { type: 'boolean' },
+    latest: { type: 'boolean' },
+  },
+  required: ['id', 'parent', 'version', 'createdAt', 'updatedAt'],
+}
+
+/**
+ * Standard API response wrapper
+ */
+export const apiResponseSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    doc: { type: 'object', additionalProperties: true },
+    docs: { type: 'array', items: { type: 'object', additionalProperties: true } },
+    error: { type: 'string' },
+    success: { type: 'boolean' },
+    totalDocs: { type: 'integer' },
+    totalPages: { type: 'integer' },
+    page: { type: 'integer' },
+    limit: { type: 'integer' },
+    hasPrevPage: { type: 'boolean' },
+    hasNextPage: { type: 'boolean' },
+  },
+}
@@ -1,5 +1,6 @@
 import type { NextRequest } from 'next/server'
 import type { Data as PuckData } from '@puckeditor/core'
+import type { PuckLimitOptions } from '../types/index.js'
 
 // =============================================================================
 // Authentication Types
@@ -236,6 +237,30 @@ export interface PuckApiRoutesConfig {
    */
   enableDrafts?: boolean
 
+  /**
+   * Fields matched by the `search` query parameter when listing pages
+   * @default ['title', 'slug']
+   */
+  searchFields?: string[]
+
+  /**
+   * Fields allowed in the `where` and `sort` query parameters when listing
+   * pages. The query runs without Payload access control, so other fields
+   * are rejected with a 400.
+   * @default `searchFields` plus id, title, slug, _status, editorVersion,
+   * isHomepage, createdAt and updatedAt
+   */
+  queryFields?: string[]
+
+  /**
+   * Rate and size limits for page saves (POST and PATCH), the same as the
+   * plugin's `limits` option. Only the `saves`, `maxBodySize`,
+   * `maxComponents` and `store` settings apply.
+   *
+   * @default false
+   */
+  limits?: boolean | PuckLimitOptions
+
   /**
    * Custom error handler for logging/monitoring
    */
@@ -340,6 +365,12 @@ export interface UpdatePageBody {
    * Combined with folder path to generate the full slug.
    */
   pageSegment?: string
+  /**
+   * `updatedAt` of the page version the editor loaded.
+   * When the page has been saved since, the update is rejected with a 409
+   * that includes the newer page.
+   */
+  expectedUpdatedAt?: string
 }
 
 /**
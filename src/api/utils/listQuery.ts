@@ -0,0 +1,228 @@
+import type { SelectType, Where } from 'payload'
+
+/**
+ * Options for parsing list query parameters
+ */
+export interface ParseListQueryOptions {
+  /**
+   * Page size when `limit` is not set
+   * @default 10
+   */
+  defaultLimit?: number
+  /**
+   * Largest allowed page size
+   * @default 100
+   */
+  maxLimit?: number
+  /**
+   * Fields matched by the `search` parameter
+   * @default ['title', 'slug']
+   */
+  searchFields?: string[]
+  /**
+   * Whether the collection has drafts (enables `status`)
+   * @default true
+   */
+  drafts?: boolean
+  /**
+   * Fields allowed in `where` and `sort`. Nested paths are checked by their
+   * first segment. Leave undefined only when the query runs with access
+   * control, so users can't filter or sort by fields they can't read.
+   */
+  queryFields?: string[]
+}
+
+/**
+ * Payload `find` arguments built from list query parameters
+ */
+export interface PuckListQuery {
+  page: number
+  limit: number
+  sort: string | string[]
+  where?: Where
+  /**
+   * Fields to return. Leaves out `puckData` unless requested.
+   * Undefined returns full documents.
+   */
+  select?: SelectType
+  /**
+   * Whether to query the latest drafts instead of published documents
+   */
+  draft: boolean
+}
+
+/**
+ * Thrown for invalid list query parameters. Handlers respond with a 400.
+ */
+export class ListQueryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ListQueryError'
+  }
+}
+
+/**
+ * Parses `where[field][operator]=value` bracket notation (as used by
+ * Payload's REST API) into a nested object. Objects whose keys are all
+ * numeric become arrays, so `where[or][0][...]` works.
+ */
+function parseBracketParams(searchParams: URLSearchParams, name: string): Record<string, unknown> | undefined {
+  let result: Record<string, unknown> | undefined
+
+  for (const [key, value] of searchParams) {
+    if (!key.startsWith(`${name}[`)) continue
+    const path = key
+      .slice(name.length)
+      .split(/[[\]]+/)
+      .filter(Boolean)
+    if (path.length === 0) continue
+
+    result ??= {}
+    let current = result
+    for (let i = 0; i < path.length - 1; i++) {
+      const next = current[path[i]]
+      if (typeof next !== 'object' || next === null) {
+        current[path[i]] = {}
+      }
+      current = current[path[i]] as Record<string, unknown>
+    }
+    current[path[path.length - 1]] = value
+  }
+
+  const toArrays = (value: unknown): unknown => {
+    if (typeof value !== 'object' || value === null) return value
+    const entries = Object.entries(value as Record<string, unknown>).map(
+      ([key, child]) => [key, toArrays(child)] as const
+    )
+    return entries.length > 0 && entries.every(([key]) => /^\d+$/.test(key))
+      ? entries.sort(([a], [b]) => Number(a) - Number(b)).map(([, child]) => child)
+      : Object.fromEntries(entries)
+  }
+
+  return result ? (toArrays(result) as Record<string, unknown>) : undefined
+}
+
+/**
+ * Checks that a `where` query only uses allowed fields
+ *
+ * @throws ListQueryError for any other field
+ */
+function assertQueryFields(where: unknown, allowed: Set<string>): void {
+  if (Array.isArray(where)) {
+    for (const condition of where) assertQueryFields(condition, allowed)
+    return
+  }
+  if (typeof where !== 'object' || where === null) {
+    throw new ListQueryError('Invalid where parameter: expected an object')
+  }
+
+  for (const [key, value] of Object.entries(where)) {
+    if (key === 'and' || key === 'or') {
+      assertQueryFields(value, allowed)
+    } else if (!allowed.has(key.split('.')[0])) {
+      throw new ListQueryError(`Querying '${key}' is not allowed`)
+    }
+  }
+}
+
+function parsePositiveInt(value: string | null, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+/**
+ * Builds Payload `find` arguments from list query parameters.
+ *
+ * Supported parameters:
+ * - `page`: Page number (default: 1)
+ * - `limit`: Items per page, capped at `maxLimit`
+ * - `sort`: Sort field(s), comma-separated, prefix with `-` for descending (default: '-updatedAt')
+ * - `where`: Payload query as JSON or `where[field][operator]=value` bracket notation
+ * - `status`: 'draft', 'published' or 'all' (default: 'all', latest drafts)
+ * - `search`: Case-insensitive search across `searchFields`
+ * - `select`: Comma-separated fields to return, or '*' for full documents
+ *   (default: everything except `puckData`)
+ *
+ * @throws ListQueryError if `where` is not valid JSON, `where` or `sort` use a
+ * field outside `queryFields`, or `status` is unknown
+ */
+export function parseListQuery(
+  searchParams: URLSearchParams,
+  options: ParseListQueryOptions = {}
+): PuckListQuery {
+  const {
+    defaultLimit = 10,
+    maxLimit = 100,
+    searchFields = ['title', 'slug'],
+    drafts = true,
+    queryFields,
+  } = options
+  const allowedFields = queryFields ? new Set(queryFields) : null
+
+  const page = parsePositiveInt(searchParams.get('page'), 1)
+  const limit = Math.min(parsePositiveInt(searchParams.get('limit'), defaultLimit), maxLimit)
+  const sortParam = searchParams.get('sort') || '-updatedAt'
+  const sort = sortParam.includes(',') ? sortParam.split(',').map((s) => s.trim()) : sortParam
+  if (allowedFields) {
+    for (const field of Array.isArray(sort) ? sort : [sort]) {
+      if (!allowedFields.has(field.replace(/^-/, '').split('.')[0])) {
+        throw new ListQueryError(`Sorting by '${field}' is not allowed`)
+      }
+    }
+  }
+
+  const conditions: Where[] = []
+
+  const whereParam = searchParams.get('where')
+  if (whereParam) {
+    try {
+      conditions.push(JSON.parse(whereParam) as Where)
+    } catch {
+      throw new ListQueryError('Invalid where parameter: expected JSON')
+    }
+  } else {
+    const where = parseBracketParams(searchParams, 'where')
+    if (where) conditions.push(where as Where)
+  }
+  if (allowedFields && conditions[0]) {
+    assertQueryFields(conditions[0], allowedFields)
+  }
+
+  const search = searchParams.get('search')?.trim()
+  if (search && searchFields.length > 0) {
+    conditions.push({ or: searchFields.map((field) => ({ [field]: { like: search } })) })
+  }
+
+  // 'published' reads the published documents, otherwise the latest drafts
+  const status = searchParams.get('status') || 'all'
+  if (!['all', 'draft', 'published'].includes(status)) {
+    throw new ListQueryError(`Invalid status '${status}': expected 'draft', 'published' or 'all'`)
+  }
+  const draft = drafts && status !== 'published'
+  if (drafts && status !== 'all') {
+    conditions.push({ _status: { equals: status } })
+  }
+
+  const selectParam = searchParams.get('select')
+  let select: SelectType | undefined = { puckData: false }
+  if (selectParam === '*') {
+    select = undefined
+  } else if (selectParam) {
+    select = Object.fromEntries(
+      selectParam
+        .split(',')
+        .map((field) => field.trim())
+        .filter(Boolean)
+        .map((field) => [field, true as const])
+    )
+  }
+
+  return {
+    page,
+    limit,
+    sort,
+    where: conditions.length === 0 ? undefined : conditions.length === 1 ? conditions[0] : { and: conditions },
+    select,
+    draft,
+  }
+}
@@ -0,0 +1,98 @@
+import type { CollectionConfig } from 'payload'
+
+/**
+ * Slug of the audit log collection
+ */
+export const AUDIT_LOG_COLLECTION = 'puck-audit-log'
+
+/**
+ * Audit Log Collection - Who did what in the Puck editor
+ *
+ * Entries are written by the plugin's hooks and endpoints with
+ * `overrideAccess`, so the log is read-only in the admin UI.
+ */
+export const AuditLogCollection: CollectionConfig = {
+  slug: AUDIT_LOG_COLLECTION,
+  admin: {
+    useAsTitle: 'summary',
+    group: 'Puck',
+    description: 'Editor actions on Puck pages',
+    defaultColumns: ['action', 'documentTitle', 'userLabel', 'summary', 'createdAt'],
+    listSearchableFields: ['documentTitle', 'userLabel', 'summary'],
+  },
+  access: {
+    read: ({ req }) => !!req.user,
+    create: () => false,
+    update: () => false,
+    delete: () => false,
+  },
+  lockDocuments: false,
+  defaultSort: '-createdAt',
+  fields: [
+    {
+      name: 'action',
+      type: 'select',
+      required: true,
+      index: true,
+      options: [
+        { label: 'Created', value: 'create' },
+        { label: 'Saved', value: 'save' },
+        { label: 'Published', value: 'publish' },
+        { label: 'Unpublished', value: 'unpublish' },
+        { label: 'Restored', value: 'restore' },
+        { label: 'Deleted', value: 'delete' },
+        { label: 'Homepage Swap', value: 'homepageSwap' },
+        { label: 'Template Saved', value: 'templateSave' },
+        { label: 'AI Generation', value: 'aiGeneration' },
+      ],
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'documentCollection',
+          type: 'text',
+          index: true,
+        },
+        {
+          name: 'documentId',
+          type: 'text',
+          index: true,
+        },
+        {
+          name: 'documentTitle',
+          type: 'text',
+        },
+      ],
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'userId',
+          type: 'text',
+          index: true,
+        },
+        {
+          name: 'userLabel',
+          type: 'text',
+        },
+        {
+          name: 'userCollection',
+          type: 'text',
+        },
+      ],
+    },
+    {
+      name: 'summary',
+      type: 'textarea',
+    },
+    {
+      name: 'changes',
+      type: 'json',
+      admin: {
+        description: 'Change counts and changed fields',
+      },
+    },
+  ],
+}
@@ -0,0 +1,66 @@
+import type { CollectionConfig } from 'payload'
+
+/**
+ * Slug of the edit locks collection
+ */
+export const EDIT_LOCKS_COLLECTION = 'puck-edit-locks'
+
+/**
+ * Edit Locks Collection - Tracks who has a page open in the Puck editor
+ *
+ * Each open editor session keeps one entry alive through the lock heartbeat
+ * endpoint. Entries without a recent heartbeat are ignored and cleaned up.
+ * The lock holder is the session that took over most recently, otherwise the
+ * session that opened the page first.
+ */
+export const EditLocksCollection: CollectionConfig = {
+  slug: EDIT_LOCKS_COLLECTION,
+  admin: {
+    hidden: true,
+  },
+  access: {
+    read: ({ req }) => !!req.user,
+    create: ({ req }) => !!req.user,
+    update: ({ req }) => !!req.user,
+    delete: ({ req }) => !!req.user,
+  },
+  lockDocuments: false,
+  fields: [
+    {
+      name: 'documentCollection',
+      type: 'text',
+      required: true,
+      index: true,
+    },
+    {
+      name: 'documentId',
+      type: 'text',
+      required: true,
+      index: true,
+    },
+    {
+      name: 'sessionId',
+      type: 'text',
+      required: true,
+      index: true,
+    },
+    {
+      name: 'userId',
+      type: 'text',
+    },
+    {
+      name: 'userLabel',
+      type: 'text',
+    },
+    {
+      name: 'lastSeen',
+      type: 'date',
+      required: true,
+      index: true,
+    },
+    {
+      name: 'takenOverAt',
+      type: 'date',
+    },
+  ],
+}
@@ -4,7 +4,9 @@ import type { CollectionConfig } from 'payload'
  * Templates Collection - Stores reusable Puck component configurations
  *
  * This collection stores serialized Puck component data that can be
- * loaded into Template components for reuse across pages.
+ * loaded into Template components for reuse across pages. Templates used
+ * in linked mode are resolved at render time, so edits here reach every
+ * linked page.
  */
 export const TemplatesCollection: CollectionConfig = {
   slug: 'puck-templates',
@@ -58,6 +60,15 @@ export const TemplatesCollection: CollectionConfig = {
         description: 'Optional thumbnail URL for template preview',
       },
     },
+    {
+      name: 'usage',
+      type: 'ui',
+      admin: {
+        components: {
+          Field: '@delmaredigital/payload-puck/admin/client#TemplateUsageField',
+        },
+      },
+    },
   ],
   timestamps: true,
 }
@@ -0,0 +1,115 @@
+import type { CollectionConfig } from 'payload'
+
+/**
+ * Slug of the webhook delivery log collection
+ */
+export const WEBHOOK_DELIVERIES_COLLECTION = 'puck-webhook-deliveries'
+
+/**
+ * Webhook Deliveries Collection - Log of webhook notifications
+ *
+ * One entry per event and endpoint, updated after each attempt. Entries are
+ * written by the webhook hooks with `overrideAccess`, so the log is
+ * read-only in the admin UI apart from deleting entries.
+ */
+export const WebhookDeliveriesCollection: CollectionConfig = {
+  slug: WEBHOOK_DELIVERIES_COLLECTION,
+  admin: {
+    useAsTitle: 'event',
+    group: 'Puck',
+    description: 'Webhook notifications for page lifecycle events',
+    defaultColumns: ['event', 'url', 'status', 'attempts', 'updatedAt'],
+  },
+  access: {
+    read: ({ req }) => !!req.user,
+    create: () => false,
+    update: () => false,
+    delete: ({ req }) => !!req.user,
+  },
+  lockDocuments: false,
+  fields: [
+    {
+      name: 'event',
+      type: 'select',
+      required: true,
+      index: true,
+      options: [
+        { label: 'Created', value: 'page.created' },
+        { label: 'Published', value: 'page.published' },
+        { label: 'Unpublished', value: 'page.unpublished' },
+        { label: 'Restored', value: 'page.restored' },
+        { label: 'Deleted', value: 'page.deleted' },
+      ],
+    },
+    {
+      name: 'url',
+      type: 'text',
+      required: true,
+    },
+    {
+      name: 'status',
+      type: 'select',
+      required: true,
+      index: true,
+      defaultValue: 'pending',
+      options: [
+        { label: 'Pending', value: 'pending' },
+        { label: 'Delivered', value: 'delivered' },
+        { label: 'Failed', value: 'failed' },
+      ],
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'documentCollection',
+          type: 'text',
+          index: true,
+        },
+        {
+          name: 'documentId',
+          type: 'text',
+          index: true,
+        },
+      ],
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'attempts',
+          type: 'number',
+          defaultValue: 0,
+        },
+        {
+          name: 'responseStatus',
+          type: 'number',
+          admin: {
+            description: 'HTTP status of the last attempt',
+          },
+        },
+        {
+          name: 'deliveredAt',
+          type: 'date',
+          admin: {
+            date: { pickerAppearance: 'dayAndTime' },
+          },
+        },
+      ],
+    },
+    {
+      name: 'error',
+      type: 'textarea',
+      admin: {
+        description: 'Error of the last failed attempt',
+      },
+    },
+    {
+      name: 'payload',
+      type: 'json',
+      admin: {
+        description: 'The JSON body that was sent',
+      },
+    },
+  ],
+}
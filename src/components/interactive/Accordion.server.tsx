@@ -27,6 +27,8 @@ interface AccordionItemData {
 export interface AccordionProps {
   items: AccordionItemData[]
   allowMultiple: boolean
+  /** Include the items in the page's FAQPage structured data */
+  faqSchema: boolean
   textColor: ColorValue | null
   margin: PaddingValue | null
   background: BackgroundValue | null
@@ -50,6 +52,7 @@ const defaultProps: AccordionProps = {
     },
   ],
   allowMultiple: false,
+  faqSchema: true,
   textColor: null,
   margin: null,
   background: null,
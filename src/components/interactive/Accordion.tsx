@@ -213,6 +213,8 @@ const DEFAULT_PADDING: PaddingValue = {
 export interface AccordionProps {
   items: AccordionItemData[]
   allowMultiple: boolean
+  /** Include the items in the page's FAQPage structured data */
+  faqSchema: boolean
   textColor: ColorValue | null
   margin: PaddingValue | null
   background: BackgroundValue | null
@@ -236,6 +238,7 @@ const defaultProps: AccordionProps = {
     },
   ],
   allowMultiple: false,
+  faqSchema: true,
   textColor: null,
   margin: null,
   background: null,
@@ -285,6 +288,14 @@ export const AccordionConfig: ComponentConfig = {
         { label: 'No', value: false },
       ],
     },
+    faqSchema: {
+      type: 'radio',
+      label: 'Include in FAQ Structured Data',
+      options: [
+        { label: 'Yes', value: true },
+        { label: 'No', value: false },
+      ],
+    },
     textColor: createColorPickerField({ label: 'Text Color' }),
     background: createBackgroundField({ label: 'Background' }),
     dimensions: createDimensionsField({ label: 'Dimensions' }),
@@ -33,6 +33,7 @@ import { createAlignmentField, type Alignment } from '../../fields/AlignmentFiel
 import { createAnimationField } from '../../fields/AnimationField.js'
 import { createTransformField } from '../../fields/TransformField.js'
 import type { MediaReference } from '../../fields/MediaField.js'
+import { withDataBinding } from '../../fields/DataBindingField.js'
 
 // Default content padding for card (replaces hardcoded p-4)
 const DEFAULT_CONTENT_PADDING: PaddingValue = {
@@ -78,7 +79,7 @@ const defaultProps: CardProps = {
   contentPadding: DEFAULT_CONTENT_PADDING, // Default 16px padding, visible in editor
 }
 
-export const CardConfig: ComponentConfig = {
+const cardConfig: ComponentConfig = {
   label: 'Card',
   fields: {
     _reset: createResetField({ defaultProps }),
@@ -231,3 +232,10 @@ export const CardConfig: ComponentConfig = {
     )
   },
 }
+
+export const CardConfig = withDataBinding(cardConfig, [
+  { name: 'heading', label: 'Heading' },
+  { name: 'text', label: 'Text' },
+  { name: 'image', label: 'Image', kind: 'media' },
+  { name: 'link', label: 'Link URL' },
+])
@@ -6,6 +6,23 @@
  *
  * For the full editor experience with template loading, use Template.tsx
  *
+ * Linked templates (mode: 'linked') render the current content of the
+ * puck-templates document. Pass a resolver to `PageRenderer`, or resolve the
+ * page data with a Payload instance in metadata before rendering:
+ *
+ * ```tsx
+ * <PageRenderer
+ *   data={page.puckData}
+ *   config={config}
+ *   resolveTemplates={createPayloadTemplateResolver({ payload })}
+ * />
+ *
+ * // or
+ * const data = await resolveAllData(page.puckData, config, { payload })
+ * ```
+ *
+ * Without either, linked templates show the content saved with the page.
+ *
  * Responsive Controls:
  * - dimensions: Different dimensions at different breakpoints
  * - customPadding: Different padding at different breakpoints
@@ -14,6 +31,8 @@
  */
 
 import type { ComponentConfig } from '@puckeditor/core'
+import type { CollectionSlug, Payload } from 'payload'
+import { prepareLinkedTemplateContent, type TemplateMode } from '../../utils/templates.js'
 import {
   cn,
   dimensionsValueToCSS,
@@ -40,8 +59,10 @@ function generateUniqueId(): string {
 export interface TemplateProps {
   /** Slot for nested components */
   content: unknown
-  /** ID of the currently loaded template (for tracking only) */
+  /** ID of the currently loaded template */
   templateId: string | null
+  /** Copy the template content into the page, or keep it linked to the template */
+  mode: TemplateMode
   /** Responsive dimensions */
   dimensions: ResponsiveValue<DimensionsValue> | DimensionsValue | null
   /** Responsive padding */
@@ -59,12 +80,44 @@ export interface TemplateProps {
 const defaultProps: TemplateProps = {
   content: [],
   templateId: null,
+  mode: 'copy',
   dimensions: null,
   customPadding: null,
   margin: null,
   visibility: null,
 }
 
+// =============================================================================
+// Linked Template Resolution
+// =============================================================================
+
+/**
+ * Loads the current content of a template via the Payload instance passed in metadata
+ */
+async function loadTemplateContent(
+  templateId: string,
+  payload: Payload | undefined
+): Promise<unknown[] | null> {
+  if (!payload) {
+    console.warn(
+      '[payload-puck] Linked template could not be resolved - pass { payload } as metadata to resolveAllData'
+    )
+    return null
+  }
+
+  try {
+    const template = await payload.findByID({
+      collection: 'puck-templates' as CollectionSlug,
+      id: templateId,
+      depth: 0,
+    })
+    return prepareLinkedTemplateContent((template as { content?: unknown }).content, templateId)
+  } catch (error) {
+    console.error(`[payload-puck] Failed to resolve linked template ${templateId}:`, error)
+    return null
+  }
+}
+
 // =============================================================================
 // Component Configuration (Server-safe)
 // =============================================================================
@@ -77,11 +130,29 @@ export const TemplateServerConfig: ComponentConfig = {
       type: 'text',
       label: 'Template ID',
     },
+    mode: {
+      type: 'radio',
+      label: 'Mode',
+      options: [
+        { label: 'Copy', value: 'copy' },
+        { label: 'Linked', value: 'linked' },
+      ],
+    },
     content: {
       type: 'slot',
     },
   },
   defaultProps,
+  // Linked templates always render the template's current content
+  resolveData: async (data, { metadata }) => {
+    const { mode, templateId } = data.props as Partial<TemplateProps>
+    if (mode !== 'linked' || !templateId) return data
+
+    const content = await loadTemplateContent(templateId, metadata?.payload as Payload | undefined)
+    if (!content) return data
+
+    return { ...data, props: { ...data.props, content } }
+  },
   render: ({ content: Content, dimensions, customPadding, margin, visibility }) => {
     // Generate unique IDs for CSS targeting (server-safe)
     const uniqueId = generateUniqueId()
@@ -8,6 +8,7 @@
  * - Create reusable page sections
  * - Save common component patterns as templates
  * - Quickly load pre-built layouts
+ * - Link a template so every page shows its latest content (synced block)
  *
  * Responsive Controls:
  * - dimensions: Different dimensions at different breakpoints
@@ -18,6 +19,7 @@
 
 import { useId } from 'react'
 import type { ComponentConfig } from '@puckeditor/core'
+import { prepareLinkedTemplateContent, type TemplateMode } from '../../utils/templates.js'
 import {
   cn,
   dimensionsValueToCSS,
@@ -63,6 +65,8 @@ export interface TemplateProps {
   content: unknown
   /** ID of the currently loaded template (or null if none) */
   templateId: string | null
+  /** Copy the template content into the page, or keep it linked to the template */
+  mode: TemplateMode
   /** Responsive dimensions */
   dimensions: ResponsiveValue<DimensionsValue> | DimensionsValue | null
   /** Responsive padding */
@@ -80,12 +84,55 @@ export interface TemplateProps {
 const defaultProps: TemplateProps = {
   content: [],
   templateId: null,
+  mode: 'copy',
   dimensions: null,
   customPadding: null,
   margin: null,
   visibility: null,
 }
 
+// =============================================================================
+// Linked Template Resolution
+// =============================================================================
+
+/**
+ * Fetches the current content of a template from the Payload REST API
+ */
+async function fetchTemplateContent(templateId: string): Promise<unknown[] | null> {
+  try {
+    const response = await fetch(`/api/puck-templates/${templateId}?depth=0`)
+    if (!response.ok) throw new Error(`Failed to fetch template (${response.status})`)
+    const template = await response.json()
+    return prepareLinkedTemplateContent(template.content, templateId)
+  } catch (error) {
+    console.error(`[payload-puck] Failed to resolve linked template ${templateId}:`, error)
+    return null
+  }
+}
+
+const linkedOverlayStyles: React.CSSProperties = {
+  position: 'absolute',
+  inset: 0,
+  zIndex: 1,
+  display: 'flex',
+  alignItems: 'flex-start',
+  justifyContent: 'flex-end',
+  padding: '6px',
+  outline: '2px dashed var(--puck-color-azure-06, #3b82f6)',
+  outlineOffset: '-2px',
+  pointerEvents: 'auto',
+}
+
+const linkedBadgeStyles: React.CSSProperties = {
+  padding: '2px 8px',
+  borderRadius: '9999px',
+  fontSize: '11px',
+  fontWeight: 500,
+  fontFamily: 'system-ui, sans-serif',
+  backgroundColor: 'var(--puck-color-azure-06, #3b82f6)',
+  color: '#fff',
+}
+
 // =============================================================================
 // Component Configuration
 // =============================================================================
@@ -95,6 +142,14 @@ export const TemplateConfig: ComponentConfig = {
   fields: {
     _reset: createResetField({ defaultProps }),
     templateId: createTemplateField({ label: 'Template' }),
+    mode: {
+      type: 'radio',
+      label: 'Mode',
+      options: [
+        { label: 'Copy', value: 'copy' },
+        { label: 'Linked', value: 'linked' },
+      ],
+    },
     content: {
       type: 'slot',
     },
@@ -119,7 +174,31 @@ export const TemplateConfig: ComponentConfig = {
     }),
   },
   defaultProps,
-  render: ({ content: Content, dimensions, customPadding, margin, visibility }) => {
+  // Linked templates show the master content read-only; it is stripped again on save
+  resolveData: async (data, { changed, trigger }) => {
+    const { mode, templateId } = data.props as Partial<TemplateProps>
+    if (mode !== 'linked' || !templateId) {
+      return { ...data, readOnly: { content: false } }
+    }
+
+    const shouldFetch =
+      trigger === 'load' ||
+      trigger === 'insert' ||
+      trigger === 'force' ||
+      changed.templateId ||
+      changed.mode
+    if (!shouldFetch) {
+      return { ...data, readOnly: { content: true } }
+    }
+
+    const content = await fetchTemplateContent(templateId)
+    return {
+      ...data,
+      props: content ? { ...data.props, content } : data.props,
+      readOnly: { content: true },
+    }
+  },
+  render: ({ content: Content, mode, dimensions, customPadding, margin, visibility, puck }) => {
     // Generate unique IDs for CSS targeting
     // eslint-disable-next-line react-hooks/rules-of-hooks
     const uniqueId = useId().replace(/:/g, '')
@@ -173,6 +252,8 @@ export const TemplateConfig: ComponentConfig = {
     // Combine all media queries
     const allMediaQueryCSS = mediaQueries.join('\n')
 
+    const isLinkedInEditor = mode === 'linked' && puck?.isEditing
+
     // Content is a slot component that Puck provides
     // It renders all the nested components within this template
     return (
@@ -180,9 +261,21 @@ export const TemplateConfig: ComponentConfig = {
         {allMediaQueryCSS && <style>{allMediaQueryCSS}</style>}
         <div
           className={cn('template-wrapper', wrapperClass)}
-          style={Object.keys(wrapperStyles).length > 0 ? wrapperStyles : undefined}
+          style={
+            isLinkedInEditor
+              ? { ...wrapperStyles, position: 'relative' }
+              : Object.keys(wrapperStyles).length > 0
+                ? wrapperStyles
+                : undefined
+          }
         >
           <Content className={contentClass} style={dimensionsResult.baseStyles} />
+          {/* Block editing of linked content - changes belong in the master template */}
+          {isLinkedInEditor && (
+            <div style={linkedOverlayStyles}>
+              <span style={linkedBadgeStyles}>Synced template</span>
+            </div>
+          )}
         </div>
       </>
     )
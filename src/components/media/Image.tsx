@@ -38,6 +38,7 @@ import { createAnimationField } from '../../fields/AnimationField.js'
 import { createTransformField } from '../../fields/TransformField.js'
 import { createResetField } from '../../fields/ResetField.js'
 import { createResponsiveVisibilityField } from '../../fields/ResponsiveVisibilityField.js'
+import { withDataBinding } from '../../fields/DataBindingField.js'
 
 // Default padding with standard spacing (replaces hardcoded py-4 px-4)
 const DEFAULT_PADDING: PaddingValue = {
@@ -81,7 +82,7 @@ const defaultProps: ImageProps = {
   visibility: null,
 }
 
-export const ImageConfig: ComponentConfig = {
+const imageConfig: ComponentConfig = {
   label: 'Image',
   fields: {
     _reset: createResetField({ defaultProps }),
@@ -220,3 +221,9 @@ export const ImageConfig: ComponentConfig = {
     )
   },
 }
+
+export const ImageConfig = withDataBinding(imageConfig, [
+  { name: 'image', label: 'Image', kind: 'media' },
+  { name: 'alt', label: 'Alt Text' },
+  { name: 'link', label: 'Link URL' },
+])
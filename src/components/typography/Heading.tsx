@@ -29,6 +29,7 @@ import { createAlignmentField, type Alignment } from '../../fields/AlignmentFiel
 import { createDimensionsField } from '../../fields/DimensionsField.js'
 import { createAnimationField } from '../../fields/AnimationField.js'
 import { createResetField } from '../../fields/ResetField.js'
+import { withDataBinding } from '../../fields/DataBindingField.js'
 
 export interface HeadingProps {
   text: string
@@ -52,7 +53,7 @@ const defaultProps: HeadingProps = {
   customPadding: null,
 }
 
-export const HeadingConfig: ComponentConfig = {
+const headingConfig: ComponentConfig = {
   label: 'Heading',
   fields: {
     _reset: createResetField({ defaultProps }),
@@ -106,3 +107,5 @@ export const HeadingConfig: ComponentConfig = {
     )
   },
 }
+
+export const HeadingConfig = withDataBinding(headingConfig, [{ name: 'text', label: 'Text' }])
@@ -28,6 +28,7 @@ import { createAlignmentField, type Alignment } from '../../fields/AlignmentFiel
 import { createDimensionsField } from '../../fields/DimensionsField.js'
 import { createAnimationField } from '../../fields/AnimationField.js'
 import { createResetField } from '../../fields/ResetField.js'
+import { withDataBinding } from '../../fields/DataBindingField.js'
 
 export interface TextProps {
   content: string
@@ -51,7 +52,7 @@ const defaultProps: TextProps = {
   customPadding: null,
 }
 
-export const TextConfig: ComponentConfig = {
+const textConfig: ComponentConfig = {
   label: 'Text',
   fields: {
     _reset: createResetField({ defaultProps }),
@@ -106,3 +107,5 @@ export const TextConfig: ComponentConfig = {
     )
   },
 }
+
+export const TextConfig = withDataBinding(textConfig, [{ name: 'content', label: 'Content' }])
@@ -14,6 +14,7 @@ import type { Config as PuckConfig, ComponentConfig } from '@puckeditor/core'
 import type { ReactNode } from 'react'
 import { createBackgroundField } from '../fields/BackgroundField.js'
 import { lockedSlugField, lockedHomepageField } from '../fields/LockedField.js'
+import { withStructuredData } from '../fields/StructuredDataField.js'
 
 // Layout Components
 import { ContainerConfig } from '../components/layout/Container.js'
@@ -44,7 +45,7 @@ import { AccordionConfig } from '../components/interactive/Accordion.js'
  */
 // Using type assertion since Puck's strict typing conflicts with our generic configs
 export const editorConfig = {
-  root: {
+  root: withStructuredData({
     fields: {
       // Page identity (locked fields)
       slug: lockedSlugField,
@@ -109,7 +110,7 @@ export const editorConfig = {
       pageMaxWidth: 'default',
     },
     render: ({ children }: { children: ReactNode }) => <>{children}</>,
-  },
+  }),
   categories: {
     layout: {
       title: 'Layout',
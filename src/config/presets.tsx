@@ -50,11 +50,12 @@ import { lockedSlugField, lockedHomepageField } from '../fields/LockedField.js'
 import { createFolderPickerField } from '../fields/FolderPickerField.js'
 import { createLockedPageSegmentField } from '../fields/PageSegmentField.js'
 import { createSlugPreviewField } from '../fields/SlugPreviewField.js'
+import { withStructuredData } from '../fields/StructuredDataField.js'
 
 /**
  * Default root configuration used by presets
  */
-export const defaultRoot = {
+export const defaultRoot = withStructuredData({
   fields: {
     // Page identity (locked fields)
     slug: lockedSlugField,
@@ -119,7 +120,7 @@ export const defaultRoot = {
     pageMaxWidth: 'default',
   },
   render: ({ children }: { children: ReactNode }) => <>{children}</>,
-}
+})
 
 /**
  * Root configuration for use with @delmaredigital/payload-page-tree
@@ -139,7 +140,7 @@ export const defaultRoot = {
  * })
  * ```
  */
-export const pageTreeRoot = {
+export const pageTreeRoot = withStructuredData({
   fields: {
     // Page identity
     title: {
@@ -212,7 +213,7 @@ export const pageTreeRoot = {
     pageMaxWidth: 'default',
   },
   render: ({ children }: { children: ReactNode }) => <>{children}</>,
-}
+})
 
 /**
  * Full configuration with all built-in components
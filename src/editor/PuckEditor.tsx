@@ -8,6 +8,8 @@ import type { LayoutStyle } from './components/IframeWrapper.js'
 import type { ThemeConfig } from '../theme/index.js'
 import type { LayoutDefinition } from '../layouts/index.js'
 import type { AiExamplePrompt, ComponentAiOverrides } from '../ai/types.js'
+import type { LocaleOption } from './components/LocaleSwitcher.js'
+import type { PublishSchedule } from './components/ScheduleControl.js'
 import { LoadingState } from './components/LoadingState.js'
 import { injectPageTreeFields } from './utils/injectPageTreeFields.js'
 import { hasPageTreeFields } from './utils/detectPageTree.js'
@@ -270,6 +272,83 @@ export interface PuckEditorProps {
    * @default false (light mode)
    */
   initialPreviewDarkMode?: boolean
+
+  // Localization props
+
+  /**
+   * Locale being edited when puckData is localized.
+   * Saves are sent with `?locale=` and the header shows a locale switcher.
+   * Typically set automatically by PuckEditorView from plugin config.
+   */
+  locale?: string
+
+  /**
+   * Locales available in the locale switcher.
+   * Typically set automatically by PuckEditorView from the Payload localization config.
+   */
+  locales?: LocaleOption[]
+
+  // Scheduling props
+
+  /**
+   * Saved publish schedule. When set, the header shows a scheduling control.
+   * Typically set automatically by PuckEditorView when scheduling is enabled.
+   */
+  initialSchedule?: PublishSchedule
+
+  // Concurrency props
+
+  /**
+   * `updatedAt` of the loaded document. Saves are rejected when the page
+   * has been saved by someone else since, and a conflict dialog is shown.
+   * Automatically populated when using PuckEditorView.
+   */
+  initialUpdatedAt?: string
+
+  // Edit locking props
+
+  /**
+   * Hold an edit lock while the editor is open and show who else has the
+   * page open. Requires the plugin's `editLocking` option.
+   * Automatically set by PuckEditorView when edit locking is enabled.
+   * @default false
+   */
+  enableEditLocking?: boolean
+  /**
+   * Milliseconds between edit lock heartbeats
+   * @default 20000
+   */
+  lockHeartbeatInterval?: number
+
+  // Preview link props
+
+  /**
+   * Show a "Share" button that creates a signed preview link to the saved
+   * draft. Requires the plugin's `previewLinks` option.
+   * Automatically set by PuckEditorView when preview links are enabled.
+   * @default false
+   */
+  enablePreviewLinks?: boolean
+
+  // Duplicate props
+
+  /**
+   * Show a "Duplicate" button that copies the saved page with new component
+   * IDs and opens the copy. Requires the plugin's duplicate endpoint.
+   * Automatically set by PuckEditorView.
+   * @default false
+   */
+  enableDuplicate?: boolean
+
+  // Audit log props
+
+  /**
+   * Show an "Activity" tab in the History panel that lists who did what to
+   * the page. Requires the plugin's `auditLog` option.
+   * Automatically set by PuckEditorView when the audit log is enabled.
+   * @default false
+   */
+  enableAuditLog?: boolean
 }
 
 /**
@@ -362,6 +441,16 @@ export function PuckEditor({
   autoDetectDarkMode = true,
   showPreviewDarkModeToggle = true,
   initialPreviewDarkMode = false,
+  // Localization props
+  locale,
+  locales,
+  initialSchedule,
+  initialUpdatedAt,
+  enableEditLocking,
+  lockHeartbeatInterval,
+  enablePreviewLinks,
+  enableDuplicate,
+  enableAuditLog,
 }: PuckEditorProps) {
   // Get config from context as fallback
   const {
@@ -593,6 +682,15 @@ export function PuckEditor({
       autoDetectDarkMode={autoDetectDarkMode}
       showPreviewDarkModeToggle={showPreviewDarkModeToggle}
       initialPreviewDarkMode={initialPreviewDarkMode}
+      locale={locale}
+      locales={locales}
+      initialSchedule={initialSchedule}
+      initialUpdatedAt={initialUpdatedAt}
+      enableEditLocking={enableEditLocking}
+      lockHeartbeatInterval={lockHeartbeatInterval}
+      enablePreviewLinks={enablePreviewLinks}
+      enableDuplicate={enableDuplicate}
+      enableAuditLog={enableAuditLog}
     />
   )
 }
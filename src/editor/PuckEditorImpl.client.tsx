@@ -15,13 +15,38 @@ import { HeaderActions } from './components/HeaderActions.js'
 import { IframeWrapper, type LayoutStyle } from './components/IframeWrapper.js'
 import { PreviewModal } from './components/PreviewModal.js'
 import { DarkModeStyles } from './components/DarkModeStyles.js'
+import { SaveConflictDialog, type SaveConflict } from './components/SaveConflictDialog.js'
+import { EditorToast } from './components/EditorToast.js'
 import { useUnsavedChanges } from './hooks/useUnsavedChanges.js'
+import { useEditLock } from './hooks/useEditLock.js'
 import { createVersionHistoryPlugin } from './plugins/versionHistoryPlugin.js'
 import { ThemeProvider, type ThemeConfig } from '../theme/index.js'
 import { usePuckConfig } from '../views/PuckConfigContext.js'
 import type { LayoutDefinition } from '../layouts/index.js'
+import type { LocaleOption } from './components/LocaleSwitcher.js'
+import type { PublishSchedule } from './components/ScheduleControl.js'
 import type { AiExamplePrompt } from '../ai/types.js'
 import { useAiPrompts } from '../ai/hooks/useAiPrompts.js'
+import { mapPayloadFieldsToRootProps } from '../api/utils/mapRootProps.js'
+import type { PuckDataIssue } from '../utils/validation.js'
+
+/**
+ * puckData issues from a save rejected by the plugin's `validation` option
+ */
+function getPuckDataIssues(errorData: any): PuckDataIssue[] {
+  const errors = errorData?.data?.errors
+  if (!Array.isArray(errors)) return []
+  return errors.filter(
+    (error): error is PuckDataIssue =>
+      typeof error?.path === 'string' && error.path.startsWith('puckData')
+  )
+}
+
+// Rate limit (429) and size limit (413) responses are shown as a toast
+// instead of the error modal, and the changes stay unsaved
+function isLimitResponse(response: Response): boolean {
+  return response.status === 429 || response.status === 413
+}
 
 /**
  * Default viewports for responsive preview
@@ -72,6 +97,32 @@ interface PuckDataWithMeta extends Data {
   }
 }
 
+/**
+ * A rejected save, along with what to retry when overwriting
+ */
+interface PendingSaveConflict extends SaveConflict {
+  action: 'save' | 'publish' | 'schedule'
+  schedule?: PublishSchedule
+}
+
+/**
+ * Builds editor data from a saved document, syncing Payload fields to root.props
+ */
+function getDocumentPuckData(doc: Record<string, any> | undefined): Data {
+  const puckData: Data = doc?.puckData || { content: [], root: { props: {} } }
+  const rootProps = mapPayloadFieldsToRootProps(doc || {})
+  if (rootProps.folder && typeof rootProps.folder === 'object') {
+    rootProps.folder = (rootProps.folder as { id?: string }).id ?? null
+  }
+  return {
+    ...puckData,
+    root: {
+      ...puckData.root,
+      props: { ...puckData.root?.props, ...rootProps },
+    },
+  }
+}
+
 export interface PuckEditorImplProps {
   /**
    * Page ID for save operations
@@ -242,6 +293,75 @@ export interface PuckEditorImplProps {
    * @default false (light mode)
    */
   initialPreviewDarkMode?: boolean
+
+  // Localization props
+
+  /**
+   * Locale being edited. When set, saves are sent with `?locale=`
+   * and the header shows a locale switcher.
+   */
+  locale?: string
+  /**
+   * Locales available in the locale switcher
+   */
+  locales?: LocaleOption[]
+
+  // Scheduling props
+
+  /**
+   * Saved publish schedule. When set, the header shows a scheduling
+   * control next to the publish button.
+   */
+  initialSchedule?: PublishSchedule
+
+  // Concurrency props
+
+  /**
+   * `updatedAt` of the loaded document. Sent with every save so saves
+   * based on an outdated version are rejected and open a conflict dialog.
+   */
+  initialUpdatedAt?: string
+
+  // Edit locking props
+
+  /**
+   * Hold an edit lock while the editor is open and show who else has the
+   * page open. Requires the plugin's `editLocking` option.
+   * @default false
+   */
+  enableEditLocking?: boolean
+  /**
+   * Milliseconds between edit lock heartbeats
+   * @default 20000
+   */
+  lockHeartbeatInterval?: number
+
+  // Preview link props
+
+  /**
+   * Show a "Share" button that creates a signed preview link to the saved
+   * draft. Requires the plugin's `previewLinks` option.
+   * @default false
+   */
+  enablePreviewLinks?: boolean
+
+  // Duplicate props
+
+  /**
+   * Show a "Duplicate" button that copies the saved page with new component
+   * IDs and opens the copy. Requires the plugin's duplicate endpoint.
+   * @default false
+   */
+  enableDuplicate?: boolean
+
+  // Audit log props
+
+  /**
+   * Show an "Activity" tab in the History panel that lists who did what to
+   * the page. Requires the plugin's `auditLog` option.
+   * @default false
+   */
+  enableAuditLog?: boolean
 }
 
 /**
@@ -290,15 +410,36 @@ export function PuckEditorImpl({
   autoDetectDarkMode = true,
   showPreviewDarkModeToggle = true,
   initialPreviewDarkMode = false,
+  locale,
+  locales,
+  initialSchedule,
+  initialUpdatedAt,
+  enableEditLocking = false,
+  lockHeartbeatInterval,
+  enablePreviewLinks = false,
+  enableDuplicate = false,
+  enableAuditLog = false,
 }: PuckEditorImplProps) {
   const router = useRouter()
   const [isSaving, setIsSaving] = useState(false)
   const [lastSaved, setLastSaved] = useState<Date | null>(null)
   const [saveError, setSaveError] = useState<string | null>(null)
+  const [toastMessage, setToastMessage] = useState<string | null>(null)
+  const dismissToast = useCallback(() => setToastMessage(null), [])
+  // Components rejected by server-side puckData validation, outlined in the preview
+  const [invalidComponentIds, setInvalidComponentIds] = useState<string[]>([])
   const [documentStatus, setDocumentStatus] = useState<'draft' | 'published' | undefined>(initialStatus)
   // Track if document was ever published (initially or during this session)
   const [wasPublished, setWasPublished] = useState(initialStatus === 'published')
+  const [schedule, setSchedule] = useState<PublishSchedule | undefined>(initialSchedule)
+  const [saveConflict, setSaveConflict] = useState<PendingSaveConflict | null>(null)
   const { hasUnsavedChanges, markClean, markDirty } = useUnsavedChanges()
+  const { lock: editLock, takeOver: handleTakeOverLock } = useEditLock({
+    apiEndpoint,
+    pageId,
+    enabled: enableEditLocking,
+    heartbeatInterval: lockHeartbeatInterval,
+  })
 
   // Preview modal state
   const [isPreviewOpen, setIsPreviewOpen] = useState(false)
@@ -324,6 +465,10 @@ export function PuckEditorImpl({
   // Use a ref to track latest data without causing re-renders
   const latestDataRef = useRef<PuckDataWithMeta>(dataWithSlug)
 
+  // Version the next save is based on (optimistic concurrency), and its data for merging
+  const versionRef = useRef<string | undefined>(initialUpdatedAt)
+  const baseDataRef = useRef<Data>(dataWithSlug)
+
   // Get editor stylesheets from PuckConfigProvider context (as fallback)
   const { editorStylesheets: contextStylesheets, editorCss: contextCss } = usePuckConfig()
 
@@ -350,14 +495,17 @@ export function PuckEditorImpl({
     return parts.length > 0 ? parts.join('\n') : undefined
   }, [baseCss, currentLayout?.editorCss])
 
+  // Document URL, scoped to the edited locale when puckData is localized
+  const documentUrl = `${apiEndpoint}/${pageId}${locale ? `?locale=${encodeURIComponent(locale)}` : ''}`
+
   // Helper to make save request with optional homepage swap
   const makeSaveRequest = useCallback(
     async (
       data: Data,
-      options: { publish?: boolean; swapHomepage?: boolean } = {}
+      options: { publish?: boolean; swapHomepage?: boolean; schedule?: PublishSchedule } = {}
     ): Promise<Response> => {
       const typedData = data as PuckDataWithMeta
-      return fetch(`${apiEndpoint}/${pageId}`, {
+      return fetch(documentUrl, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -369,13 +517,53 @@ export function PuckEditorImpl({
           // Page-tree integration: include folder and pageSegment if present
           folder: typedData.root?.props?.folder,
           pageSegment: typedData.root?.props?.pageSegment,
+          ...(options.schedule && {
+            publishAt: options.schedule.publishAt,
+            unpublishAt: options.schedule.unpublishAt,
+          }),
           ...(options.publish ? { _status: 'published' } : { draft: true }),
+          expectedUpdatedAt: versionRef.current,
         }),
       })
     },
-    [apiEndpoint, pageId, pageTitle, pageSlug]
+    [documentUrl, pageTitle, pageSlug]
   )
 
+  // Remember the saved version so the next save is checked against it
+  const trackSavedVersion = useCallback((doc: { updatedAt?: string } | undefined, data: Data) => {
+    if (doc?.updatedAt) {
+      versionRef.current = doc.updatedAt
+    }
+    baseDataRef.current = data
+  }, [])
+
+  // Open the conflict dialog for a save rejected because the page changed
+  const openSaveConflict = useCallback(
+    (doc: Record<string, any> | undefined, action: PendingSaveConflict['action'], nextSchedule?: PublishSchedule) => {
+      setSaveConflict({
+        base: baseDataRef.current,
+        theirs: getDocumentPuckData(doc),
+        updatedAt: doc?.updatedAt,
+        action,
+        schedule: nextSchedule,
+      })
+    },
+    []
+  )
+
+  // Error message for a failed save. puckData validation errors are listed one per
+  // line and their components are outlined in the preview until the next save.
+  const readSaveError = useCallback((errorData: any, fallback: string): string => {
+    const issues = getPuckDataIssues(errorData)
+    setInvalidComponentIds([
+      ...new Set(issues.map((issue) => issue.componentId).filter((id): id is string => !!id)),
+    ])
+    if (issues.length > 0) {
+      return issues.map((issue) => issue.message).join('\n')
+    }
+    return errorData.error || errorData.message || fallback
+  }, [])
+
   // Handle homepage conflict - prompt user to swap
   const handleHomepageConflict = useCallback(
     async (
@@ -396,9 +584,11 @@ export function PuckEditorImpl({
         const errorData = await response.json()
         throw new Error(errorData.error || errorData.message || 'Failed to swap homepage')
       }
+      const { doc } = await response.json()
+      trackSavedVersion(doc, data)
       return true
     },
-    [makeSaveRequest]
+    [makeSaveRequest, trackSavedVersion]
   )
 
   // Handle save (as draft)
@@ -412,6 +602,17 @@ export function PuckEditorImpl({
         if (!response.ok) {
           const errorData = await response.json()
 
+          // Someone else saved the page since it was loaded
+          if (response.status === 409) {
+            openSaveConflict(errorData.doc, 'save')
+            return
+          }
+
+          if (isLimitResponse(response)) {
+            setToastMessage(errorData.error || 'Request limit reached')
+            return
+          }
+
           // Check for homepage conflict error
           if (errorData.data?.existingHomepage) {
             const swapped = await handleHomepageConflict(
@@ -426,16 +627,20 @@ export function PuckEditorImpl({
             }
             // Successfully swapped - continue to success handling below
           } else {
-            const errorMessage = errorData.error || errorData.message || 'Failed to save page'
+            const errorMessage = readSaveError(errorData, 'Failed to save page')
             const err = new Error(errorMessage) as Error & { field?: string; details?: unknown }
             err.field = errorData.field
             err.details = errorData.details
             throw err
           }
+        } else {
+          const { doc } = await response.json()
+          trackSavedVersion(doc, data)
         }
 
         setLastSaved(new Date())
         setSaveError(null) // Clear any previous error
+        setInvalidComponentIds([])
         // After saving as draft, update status to draft (shows "Unpublished Changes" if was published)
         setDocumentStatus('draft')
         markClean()
@@ -448,7 +653,7 @@ export function PuckEditorImpl({
         setIsSaving(false)
       }
     },
-    [makeSaveRequest, handleHomepageConflict, markClean, onSaveSuccess, onSaveError]
+    [makeSaveRequest, handleHomepageConflict, trackSavedVersion, openSaveConflict, readSaveError, markClean, onSaveSuccess, onSaveError]
   )
 
   // Handle publish
@@ -462,6 +667,17 @@ export function PuckEditorImpl({
         if (!response.ok) {
           const errorData = await response.json()
 
+          // Someone else saved the page since it was loaded
+          if (response.status === 409) {
+            openSaveConflict(errorData.doc, 'publish')
+            return
+          }
+
+          if (isLimitResponse(response)) {
+            setToastMessage(errorData.error || 'Request limit reached')
+            return
+          }
+
           // Check for homepage conflict error
           if (errorData.data?.existingHomepage) {
             const swapped = await handleHomepageConflict(
@@ -476,16 +692,20 @@ export function PuckEditorImpl({
             }
             // Successfully swapped - continue to success handling below
           } else {
-            const errorMessage = errorData.error || errorData.message || 'Failed to publish page'
+            const errorMessage = readSaveError(errorData, 'Failed to publish page')
             const err = new Error(errorMessage) as Error & { field?: string; details?: unknown }
             err.field = errorData.field
             err.details = errorData.details
             throw err
           }
+        } else {
+          const { doc } = await response.json()
+          trackSavedVersion(doc, data)
         }
 
         setLastSaved(new Date())
         setSaveError(null) // Clear any previous error
+        setInvalidComponentIds([])
         setDocumentStatus('published') // Update status after successful publish
         setWasPublished(true) // Mark as having been published
         markClean()
@@ -498,7 +718,7 @@ export function PuckEditorImpl({
         setIsSaving(false)
       }
     },
-    [makeSaveRequest, handleHomepageConflict, markClean, onSaveSuccess, onSaveError]
+    [makeSaveRequest, handleHomepageConflict, trackSavedVersion, openSaveConflict, readSaveError, markClean, onSaveSuccess, onSaveError]
   )
 
   // Handle unpublish (revert to draft)
@@ -510,20 +730,29 @@ export function PuckEditorImpl({
 
       setIsSaving(true)
       try {
-        const response = await fetch(`${apiEndpoint}/${pageId}`, {
+        const response = await fetch(documentUrl, {
           method: 'PATCH',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             _status: 'draft',
+            expectedUpdatedAt: versionRef.current,
           }),
         })
 
         if (!response.ok) {
           const errorData = await response.json()
+          if (isLimitResponse(response)) {
+            setToastMessage(errorData.error || 'Request limit reached')
+            return
+          }
+          // A 409 carries the stale-update message: reload to see the newer version
           const errorMessage = errorData.error || errorData.message || 'Failed to unpublish page'
           throw new Error(errorMessage)
         }
 
+        // Unpublishing bumps updatedAt, so the next save is checked against it
+        const { doc } = await response.json()
+        trackSavedVersion(doc, getDocumentPuckData(doc))
         setLastSaved(new Date())
         setSaveError(null)
         setDocumentStatus('draft')
@@ -534,7 +763,88 @@ export function PuckEditorImpl({
         setIsSaving(false)
       }
     },
-    [apiEndpoint, pageId]
+    [documentUrl, trackSavedVersion]
+  )
+
+  // Handle schedule change - saves the current changes as a draft along with the schedule
+  const handleSchedule = useCallback(
+    async (nextSchedule: PublishSchedule, data: Data) => {
+      setIsSaving(true)
+      try {
+        const response = await makeSaveRequest(data, { schedule: nextSchedule })
+
+        if (!response.ok) {
+          const errorData = await response.json()
+          if (response.status === 409) {
+            openSaveConflict(errorData.doc, 'schedule', nextSchedule)
+            return
+          }
+          if (isLimitResponse(response)) {
+            setToastMessage(errorData.error || 'Request limit reached')
+            return
+          }
+          const errorMessage = readSaveError(errorData, 'Failed to schedule page')
+          throw new Error(errorMessage)
+        }
+
+        const { doc } = await response.json()
+        trackSavedVersion(doc, data)
+        setSchedule({
+          publishAt: doc?.publishAt ?? nextSchedule.publishAt,
+          unpublishAt: doc?.unpublishAt ?? nextSchedule.unpublishAt,
+          scheduledBy: doc?.scheduledBy ?? null,
+        })
+        setLastSaved(new Date())
+        setSaveError(null)
+        setInvalidComponentIds([])
+        setDocumentStatus('draft')
+        markClean()
+        onSaveSuccess?.(data)
+      } catch (error) {
+        console.error('Error scheduling page:', error)
+        setSaveError(error instanceof Error ? error.message : 'Unknown error')
+        onSaveError?.(error instanceof Error ? error : new Error('Unknown error'))
+      } finally {
+        setIsSaving(false)
+      }
+    },
+    [makeSaveRequest, trackSavedVersion, openSaveConflict, readSaveError, markClean, onSaveSuccess, onSaveError]
+  )
+
+  // Conflict dialog: discard local changes and load the newer version
+  const handleReloadConflict = useCallback(() => {
+    markClean()
+    window.location.reload()
+  }, [markClean])
+
+  // Conflict dialog: retry the rejected save on top of the newer version
+  const handleOverwriteConflict = useCallback(
+    (data: Data) => {
+      if (!saveConflict) return
+      versionRef.current = saveConflict.updatedAt
+      setSaveConflict(null)
+      if (saveConflict.action === 'publish') {
+        void handlePublish(data)
+      } else if (saveConflict.action === 'schedule' && saveConflict.schedule) {
+        void handleSchedule(saveConflict.schedule, data)
+      } else {
+        void handleSave(data)
+      }
+    },
+    [saveConflict, handleSave, handlePublish, handleSchedule]
+  )
+
+  // Conflict dialog: merged data is now in the editor and based on the newer version
+  const handleMergeConflict = useCallback(
+    (data: Data) => {
+      if (!saveConflict) return
+      versionRef.current = saveConflict.updatedAt
+      baseDataRef.current = saveConflict.theirs
+      latestDataRef.current = data as PuckDataWithMeta
+      setSaveConflict(null)
+      markDirty()
+    },
+    [saveConflict, markDirty]
   )
 
   // Handle data change
@@ -579,6 +889,72 @@ export function PuckEditorImpl({
     window.open(url, '_blank')
   }, [pageSlug, previewUrl])
 
+  // Handle locale switch - reload the editor with the selected locale
+  const handleLocaleChange = useCallback(
+    (nextLocale: string) => {
+      if (hasUnsavedChanges) {
+        if (!confirm('You have unsaved changes. Are you sure you want to switch locale?')) {
+          return
+        }
+      }
+      const url = new URL(window.location.href)
+      url.searchParams.set('locale', nextLocale)
+      window.location.assign(url.toString())
+    },
+    [hasUnsavedChanges]
+  )
+
+  // Load another locale's saved Puck data (for "Copy from")
+  const handleLoadLocaleData = useCallback(
+    async (sourceLocale: string): Promise<Data | null> => {
+      const response = await fetch(
+        `${apiEndpoint}/${pageId}?locale=${encodeURIComponent(sourceLocale)}`
+      )
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || errorData.message || 'Failed to load locale content')
+      }
+      const { doc } = await response.json()
+      return doc?.puckData ?? null
+    },
+    [apiEndpoint, pageId]
+  )
+
+  // Create a shareable preview link for the saved draft
+  const handleCreatePreviewLink = useCallback(async (): Promise<string> => {
+    const response = await fetch(
+      `${apiEndpoint}/${pageId}/preview-link${locale ? `?locale=${encodeURIComponent(locale)}` : ''}`,
+      { method: 'POST' }
+    )
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to create preview link')
+    }
+    // Relative when the Payload serverURL isn't configured
+    return new URL(data.url, window.location.origin).toString()
+  }, [apiEndpoint, pageId, locale])
+
+  // Duplicate the saved page and open the copy in the editor
+  const handleDuplicate = useCallback(async () => {
+    const response = await fetch(`${apiEndpoint}/${pageId}/duplicate`, { method: 'POST' })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to duplicate page')
+    }
+
+    const newId = String(data.doc.id)
+    // The editor route ends with the page ID (e.g. /admin/puck-editor/pages/:id)
+    const { pathname, search } = window.location
+    const segments = pathname.split('/')
+    const idIndex = segments.lastIndexOf(String(pageId))
+    if (idIndex === -1) {
+      alert(`Page duplicated as "${data.doc.title ?? newId}".`)
+      return
+    }
+    segments[idIndex] = newId
+    router.push(`${segments.join('/')}${search}`)
+  }, [apiEndpoint, pageId, router])
+
   // Handle opening preview modal
   const handleOpenPreview = useCallback(() => {
     setIsPreviewOpen(true)
@@ -589,7 +965,7 @@ export function PuckEditorImpl({
     const data = latestDataRef.current
     setIsSaving(true)
     try {
-      const response = await fetch(`${apiEndpoint}/${pageId}`, {
+      const response = await fetch(documentUrl, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -600,59 +976,99 @@ export function PuckEditorImpl({
           folder: data?.root?.props?.folder,
           pageSegment: data?.root?.props?.pageSegment,
           draft: true,
+          expectedUpdatedAt: versionRef.current,
         }),
       })
 
       if (!response.ok) {
         const errorData = await response.json()
-        const errorMessage = errorData.error || errorData.message || 'Failed to save page'
+        const errorMessage = readSaveError(errorData, 'Failed to save page')
+
+        // Resolve in the conflict dialog instead of the error modal
+        if (response.status === 409) {
+          setIsPreviewOpen(false)
+          openSaveConflict(errorData.doc, 'save')
+          throw Object.assign(new Error(errorMessage), { conflict: true })
+        }
+
+        if (isLimitResponse(response)) {
+          setToastMessage(errorMessage)
+          throw Object.assign(new Error(errorMessage), { limited: true })
+        }
+
         throw new Error(errorMessage)
       }
 
+      const { doc } = await response.json()
+      trackSavedVersion(doc, data)
       setLastSaved(new Date())
       setSaveError(null)
+      setInvalidComponentIds([])
       setDocumentStatus('draft')
       markClean()
       onSaveSuccess?.(data)
     } catch (error) {
       console.error('Error saving page:', error)
-      setSaveError(error instanceof Error ? error.message : 'Unknown error')
+      const { conflict, limited } = error as { conflict?: boolean; limited?: boolean }
+      if (!conflict && !limited) {
+        setSaveError(error instanceof Error ? error.message : 'Unknown error')
+      }
       onSaveError?.(error instanceof Error ? error : new Error('Unknown error'))
       throw error // Re-throw so preview modal knows save failed
     } finally {
       setIsSaving(false)
     }
-  }, [apiEndpoint, pageId, pageTitle, pageSlug, markClean, onSaveSuccess, onSaveError])
+  }, [documentUrl, pageTitle, pageSlug, trackSavedVersion, openSaveConflict, readSaveError, markClean, onSaveSuccess, onSaveError])
 
   // Memoized overrides
   const overrides = useMemo<Partial<PuckOverrides>>(
     () => ({
       headerActions: ({ children }: { children: ReactNode }) => (
-        <HeaderActions
-          onBack={handleBack}
-          onPreview={handlePreview}
-          onSave={handleSave}
-          onPublish={handlePublish}
-          onUnpublish={handleUnpublish}
-          onOpenPreview={handleOpenPreview}
-          isSaving={isSaving}
-          hasUnsavedChanges={hasUnsavedChanges}
-          lastSaved={lastSaved}
-          documentStatus={documentStatus}
-          wasPublished={wasPublished}
-          actionsStart={headerActionsStart}
-          actionsEnd={headerActionsEnd}
-          pageId={pageId}
-          apiEndpoint={apiEndpoint}
-          saveError={saveError}
-          onDismissError={() => setSaveError(null)}
-          showVersionHistory={false}
-          showPreviewDarkModeToggle={showPreviewDarkModeToggle}
-          previewDarkMode={previewDarkMode}
-          onPreviewDarkModeChange={setPreviewDarkMode}
-        >
-          {children}
-        </HeaderActions>
+        <>
+          <HeaderActions
+            onBack={handleBack}
+            onPreview={handlePreview}
+            onSave={handleSave}
+            onPublish={handlePublish}
+            onUnpublish={handleUnpublish}
+            onOpenPreview={handleOpenPreview}
+            isSaving={isSaving}
+            hasUnsavedChanges={hasUnsavedChanges}
+            lastSaved={lastSaved}
+            documentStatus={documentStatus}
+            wasPublished={wasPublished}
+            actionsStart={headerActionsStart}
+            actionsEnd={headerActionsEnd}
+            pageId={pageId}
+            apiEndpoint={apiEndpoint}
+            saveError={saveError}
+            onDismissError={() => setSaveError(null)}
+            showVersionHistory={false}
+            showPreviewDarkModeToggle={showPreviewDarkModeToggle}
+            previewDarkMode={previewDarkMode}
+            onPreviewDarkModeChange={setPreviewDarkMode}
+            locale={locale}
+            locales={locales}
+            onLocaleChange={handleLocaleChange}
+            onLoadLocaleData={handleLoadLocaleData}
+            schedule={schedule}
+            onSchedule={schedule ? handleSchedule : undefined}
+            editLock={editLock}
+            onTakeOverLock={handleTakeOverLock}
+            onCreatePreviewLink={enablePreviewLinks ? handleCreatePreviewLink : undefined}
+            onDuplicate={enableDuplicate ? handleDuplicate : undefined}
+          >
+            {children}
+          </HeaderActions>
+          {/* Rendered inside Puck so the dialog can update the editor data */}
+          <SaveConflictDialog
+            conflict={saveConflict}
+            onReload={handleReloadConflict}
+            onOverwrite={handleOverwriteConflict}
+            onMerge={handleMergeConflict}
+            onCancel={() => setSaveConflict(null)}
+          />
+        </>
       ),
       // Always wrap iframe for richtext styles injection and theme-aware background
       iframe: ({ children, document }: { children: ReactNode; document?: Document }) => (
@@ -664,6 +1080,7 @@ export function PuckEditorImpl({
           editorStylesheets={mergedEditorStylesheets}
           editorCss={mergedEditorCss}
           previewDarkModeOverride={showPreviewDarkModeToggle ? previewDarkMode : undefined}
+          invalidComponentIds={invalidComponentIds}
         >
           {children}
         </IframeWrapper>
@@ -697,21 +1114,51 @@ export function PuckEditorImpl({
       showPreviewDarkModeToggle,
       previewDarkMode,
       setPreviewDarkMode,
+      invalidComponentIds,
+      locale,
+      locales,
+      handleLocaleChange,
+      handleLoadLocaleData,
+      schedule,
+      handleSchedule,
+      saveConflict,
+      handleReloadConflict,
+      handleOverwriteConflict,
+      handleMergeConflict,
+      editLock,
+      handleTakeOverLock,
+      enablePreviewLinks,
+      handleCreatePreviewLink,
+      enableDuplicate,
+      handleDuplicate,
     ]
   )
 
   // Default plugins - headingAnalyzer is always included unless plugins is explicitly false
   const defaultPlugins: PuckPlugin[] = [headingAnalyzer]
 
+  // Restoring a version saves the page, so later saves are based on the restored version
+  const handleRestoreSuccess = useCallback(
+    (doc?: Record<string, any>) => {
+      markClean()
+      if (doc) {
+        trackSavedVersion(doc, getDocumentPuckData(doc))
+      }
+    },
+    [markClean, trackSavedVersion]
+  )
+
   // Version history plugin for the plugin rail
   const versionHistoryPlugin = useMemo(() => {
     if (!pageId) return null
     return createVersionHistoryPlugin({
       pageId,
       apiEndpoint,
-      onRestoreSuccess: markClean,
+      onRestoreSuccess: handleRestoreSuccess,
+      layouts,
+      showActivity: enableAuditLog,
     })
-  }, [pageId, apiEndpoint, markClean])
+  }, [pageId, apiEndpoint, handleRestoreSuccess, layouts, enableAuditLog])
 
   // Fetch AI prompts client-side when prompts collection is enabled
   // This allows prompts to update in real-time when edited via the prompt editor panel
@@ -863,6 +1310,7 @@ export function PuckEditorImpl({
         editorCss={mergedEditorCss}
         config={config}
       />
+      <EditorToast message={toastMessage} onDismiss={dismissToast} />
     </>
   )
 
@@ -0,0 +1,127 @@
+'use client'
+
+import { memo, useState, useCallback, type CSSProperties } from 'react'
+import { Lock, Users, Loader2 } from 'lucide-react'
+import type { EditLockState } from '../hooks/useEditLock.js'
+
+const styles = {
+  banner: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '8px',
+    padding: '4px 10px',
+    fontSize: '12px',
+    fontWeight: 500,
+    borderRadius: '6px',
+    whiteSpace: 'nowrap',
+  } as CSSProperties,
+  bannerLocked: {
+    backgroundColor: 'var(--theme-warning-100)',
+    color: 'var(--theme-warning-700)',
+    border: '1px solid var(--theme-warning-200)',
+  } as CSSProperties,
+  bannerPresence: {
+    backgroundColor: 'var(--theme-elevation-100)',
+    color: 'var(--theme-elevation-600)',
+    border: '1px solid var(--theme-elevation-200)',
+  } as CSSProperties,
+  icon: {
+    width: '14px',
+    height: '14px',
+    flexShrink: 0,
+  } as CSSProperties,
+  takeOverButton: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '4px',
+    padding: '2px 8px',
+    fontSize: '12px',
+    fontWeight: 500,
+    borderRadius: '4px',
+    border: '1px solid var(--theme-warning-300)',
+    backgroundColor: 'var(--theme-bg)',
+    color: 'var(--theme-warning-700)',
+    cursor: 'pointer',
+  } as CSSProperties,
+}
+
+export interface EditLockBannerProps {
+  /**
+   * Current lock state
+   */
+  lock: EditLockState
+  /**
+   * Callback to take over the lock (shown when the user is allowed to)
+   */
+  onTakeOver?: () => Promise<void> | void
+}
+
+function formatNames(names: string[]): string {
+  const unique = Array.from(new Set(names))
+  if (unique.length <= 2) return unique.join(' and ')
+  return `${unique.slice(0, 2).join(', ')} and ${unique.length - 2} more`
+}
+
+/**
+ * Editor header banner showing who else has the page open.
+ *
+ * When another session holds the lock it shows who is editing, with a
+ * "Take over" action for users allowed to take over. Otherwise it lists
+ * the other people viewing the page. Renders nothing when the editor is
+ * the only one on the page.
+ */
+export const EditLockBanner = memo(function EditLockBanner({
+  lock,
+  onTakeOver,
+}: EditLockBannerProps) {
+  const [isTakingOver, setIsTakingOver] = useState(false)
+
+  const handleTakeOver = useCallback(async () => {
+    if (!onTakeOver) return
+    if (!confirm(`Take over editing from ${lock.holder?.userLabel}? Their unsaved changes may be lost.`)) {
+      return
+    }
+    setIsTakingOver(true)
+    try {
+      await onTakeOver()
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to take over')
+    } finally {
+      setIsTakingOver(false)
+    }
+  }, [onTakeOver, lock.holder?.userLabel])
+
+  if (!lock.isHolder && lock.holder) {
+    return (
+      <span
+        style={{ ...styles.banner, ...styles.bannerLocked }}
+        title={`Editing since ${new Date(lock.holder.since).toLocaleTimeString()}`}
+      >
+        <Lock style={styles.icon} />
+        {lock.holder.userLabel} is editing
+        {lock.canTakeOver && onTakeOver && (
+          <button
+            type="button"
+            onClick={handleTakeOver}
+            disabled={isTakingOver}
+            style={styles.takeOverButton}
+          >
+            {isTakingOver && (
+              <Loader2 style={{ ...styles.icon, animation: 'spin 1s linear infinite' }} />
+            )}
+            Take over
+          </button>
+        )}
+      </span>
+    )
+  }
+
+  if (lock.editors.length === 0) return null
+
+  return (
+    <span style={{ ...styles.banner, ...styles.bannerPresence }}>
+      <Users style={styles.icon} />
+      {formatNames(lock.editors.map((editor) => editor.userLabel))} also viewing
+    </span>
+  )
+})
@@ -0,0 +1,88 @@
+'use client'
+
+import { memo, useEffect, type CSSProperties } from 'react'
+import { AlertTriangle, X } from 'lucide-react'
+
+const styles = {
+  toast: {
+    position: 'fixed',
+    bottom: '24px',
+    left: '50%',
+    transform: 'translateX(-50%)',
+    zIndex: 10001,
+    display: 'flex',
+    alignItems: 'flex-start',
+    gap: '10px',
+    maxWidth: 'min(480px, calc(100vw - 32px))',
+    padding: '12px 14px',
+    fontSize: '13px',
+    lineHeight: 1.4,
+    borderRadius: '8px',
+    backgroundColor: 'var(--theme-elevation-800)',
+    color: 'var(--theme-elevation-0)',
+    boxShadow: '0 8px 24px rgba(0, 0, 0, 0.2)',
+  } as CSSProperties,
+  icon: {
+    width: '16px',
+    height: '16px',
+    flexShrink: 0,
+    marginTop: '1px',
+    color: 'var(--theme-warning-400)',
+  } as CSSProperties,
+  message: {
+    flex: 1,
+    margin: 0,
+  } as CSSProperties,
+  closeButton: {
+    display: 'flex',
+    padding: 0,
+    background: 'none',
+    border: 'none',
+    color: 'inherit',
+    opacity: 0.7,
+    cursor: 'pointer',
+  } as CSSProperties,
+}
+
+export interface EditorToastProps {
+  /**
+   * Message to show, or null to hide the toast
+   */
+  message: string | null
+  /**
+   * Called when the toast is closed or times out
+   */
+  onDismiss: () => void
+  /**
+   * Milliseconds before the toast closes by itself
+   * @default 6000
+   */
+  duration?: number
+}
+
+/**
+ * Short-lived notice at the bottom of the editor, e.g. for rate limited saves
+ */
+export const EditorToast = memo(function EditorToast({
+  message,
+  onDismiss,
+  duration = 6000,
+}: EditorToastProps) {
+  useEffect(() => {
+    if (!message) return
+    const timer = setTimeout(onDismiss, duration)
+    return () => clearTimeout(timer)
+  }, [message, onDismiss, duration])
+
+  if (!message) return null
+
+  return (
+    <div style={styles.toast} role="status" aria-live="polite">
+      <AlertTriangle style={styles.icon} />
+      <p style={styles.message}>{message}</p>
+      <button type="button" onClick={onDismiss} style={styles.closeButton} aria-label="Dismiss">
+        <X style={{ width: '14px', height: '14px' }} />
+      </button>
+    </div>
+  )
+})
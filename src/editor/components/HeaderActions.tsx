@@ -1,6 +1,6 @@
 'use client'
 
-import { memo, useCallback, type ReactNode, type CSSProperties } from 'react'
+import { memo, useCallback, useState, type ReactNode, type CSSProperties } from 'react'
 import { createUsePuck, type Data } from '@puckeditor/core'
 import {
   ArrowLeft,
@@ -14,9 +14,15 @@ import {
   X,
   AlertTriangle,
   Eye,
+  Link2,
+  Copy,
 } from 'lucide-react'
 import { VersionHistory } from './VersionHistory.js'
 import { PreviewModeToggle } from './PreviewModeToggle.js'
+import { LocaleSwitcher, type LocaleOption } from './LocaleSwitcher.js'
+import { ScheduleControl, type PublishSchedule } from './ScheduleControl.js'
+import { EditLockBanner } from './EditLockBanner.js'
+import type { EditLockState } from '../hooks/useEditLock.js'
 import { VERSION } from '../../version.js'
 
 // Create usePuck hook for accessing editor state
@@ -141,6 +147,63 @@ export interface HeaderActionsProps {
    * Handler for toggling preview dark mode
    */
   onPreviewDarkModeChange?: (isDarkMode: boolean) => void
+
+  // Localization props
+
+  /**
+   * Locale currently being edited (only set when puckData is localized)
+   */
+  locale?: string
+  /**
+   * Locales available in the locale switcher
+   */
+  locales?: LocaleOption[]
+  /**
+   * Handler for switching the edited locale
+   */
+  onLocaleChange?: (locale: string) => void
+  /**
+   * Loads the saved Puck data of another locale, used by "Copy from"
+   */
+  onLoadLocaleData?: (locale: string) => Promise<Data | null>
+
+  // Scheduling props
+
+  /**
+   * Current publish schedule (the scheduling control is shown when set together with onSchedule)
+   */
+  schedule?: PublishSchedule
+  /**
+   * Handler for saving the publish schedule
+   */
+  onSchedule?: (schedule: PublishSchedule, data: Data) => Promise<void> | void
+
+  // Edit locking props
+
+  /**
+   * Edit lock state. Saving is disabled while another session holds the lock.
+   */
+  editLock?: EditLockState | null
+  /**
+   * Handler for taking over the edit lock
+   */
+  onTakeOverLock?: () => Promise<void> | void
+
+  // Preview link props
+
+  /**
+   * Handler that creates a shareable preview link for the saved draft.
+   * When provided, a "Share" button copies the link to the clipboard.
+   */
+  onCreatePreviewLink?: () => Promise<string>
+
+  // Duplicate props
+
+  /**
+   * Handler that duplicates the saved page. When provided, a "Duplicate"
+   * button is shown.
+   */
+  onDuplicate?: () => Promise<void>
 }
 
 // Shared styles
@@ -300,6 +363,8 @@ const styles = {
     fontSize: '14px',
     color: 'var(--theme-elevation-700)',
     margin: 0,
+    // Validation errors list one issue per line
+    whiteSpace: 'pre-line',
   } as CSSProperties,
   modalFooter: {
     padding: '16px 20px',
@@ -368,12 +433,29 @@ export const HeaderActions = memo(function HeaderActions({
   showPreviewDarkModeToggle = false,
   previewDarkMode = false,
   onPreviewDarkModeChange,
+  locale,
+  locales,
+  onLocaleChange,
+  onLoadLocaleData,
+  schedule,
+  onSchedule,
+  editLock,
+  onTakeOverLock,
+  onCreatePreviewLink,
+  onDuplicate,
 }: HeaderActionsProps) {
   const appState = usePuck((s) => s.appState)
   const dispatch = usePuck((s) => s.dispatch)
 
+  // Another session holds the edit lock - saving would overwrite their work
+  const isLockedByOther = !!editLock && !editLock.isHolder && !!editLock.holder
+  const isSaveDisabled = isSaving || isLockedByOther
+
   const isInteractive = appState.ui.previewMode === 'interactive'
 
+  const [previewLinkState, setPreviewLinkState] = useState<'idle' | 'creating' | 'copied'>('idle')
+  const [isDuplicating, setIsDuplicating] = useState(false)
+
   const togglePreviewMode = useCallback(() => {
     dispatch({
       type: 'setUi',
@@ -393,6 +475,88 @@ export const HeaderActions = memo(function HeaderActions({
     }
   }, [onPublish, appState.data])
 
+  const handleSharePreviewClick = useCallback(async () => {
+    if (!onCreatePreviewLink) return
+    if (
+      hasUnsavedChanges &&
+      !confirm('The preview link shows the last saved draft. Unsaved changes will not be visible until you save. Continue?')
+    ) {
+      return
+    }
+
+    setPreviewLinkState('creating')
+    try {
+      const url = await onCreatePreviewLink()
+      try {
+        await navigator.clipboard.writeText(url)
+        setPreviewLinkState('copied')
+        setTimeout(() => setPreviewLinkState('idle'), 2000)
+      } catch {
+        // Clipboard unavailable (e.g. insecure context) - show the link instead
+        prompt('Preview link', url)
+        setPreviewLinkState('idle')
+      }
+    } catch (error) {
+      setPreviewLinkState('idle')
+      alert(error instanceof Error ? error.message : 'Failed to create preview link')
+    }
+  }, [onCreatePreviewLink, hasUnsavedChanges])
+
+  const handleDuplicateClick = useCallback(async () => {
+    if (!onDuplicate) return
+    if (
+      hasUnsavedChanges &&
+      !confirm('The copy is made from the last saved draft. Unsaved changes will not be included. Continue?')
+    ) {
+      return
+    }
+
+    setIsDuplicating(true)
+    try {
+      await onDuplicate()
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to duplicate page')
+    } finally {
+      setIsDuplicating(false)
+    }
+  }, [onDuplicate, hasUnsavedChanges])
+
+  const handleScheduleChange = useCallback(
+    (nextSchedule: PublishSchedule) => onSchedule?.(nextSchedule, appState.data),
+    [onSchedule, appState.data]
+  )
+
+  // Replace content with another locale's structure, keeping this locale's root props
+  const handleCopyFromLocale = useCallback(
+    async (sourceLocale: string) => {
+      if (!onLoadLocaleData) return
+      const label = locales?.find((l) => l.code === sourceLocale)?.label || sourceLocale
+      if (!confirm(`Replace the current content with the structure from ${label}?`)) {
+        return
+      }
+
+      try {
+        const sourceData = await onLoadLocaleData(sourceLocale)
+        if (!sourceData) {
+          alert(`${label} has no saved content to copy.`)
+          return
+        }
+        dispatch({
+          type: 'setData',
+          data: {
+            ...appState.data,
+            content: sourceData.content,
+            zones: sourceData.zones,
+          },
+        })
+      } catch (error) {
+        console.error('Error copying locale content:', error)
+        alert(error instanceof Error ? error.message : 'Failed to copy content')
+      }
+    },
+    [onLoadLocaleData, locales, dispatch, appState.data]
+  )
+
   return (
     <>
       {/* Custom actions at start */}
@@ -433,6 +597,20 @@ export const HeaderActions = memo(function HeaderActions({
         return <span style={badgeStyle}>{badgeLabel}</span>
       })()}
 
+      {/* Edit lock / presence banner */}
+      {editLock && <EditLockBanner lock={editLock} onTakeOver={onTakeOverLock} />}
+
+      {/* Locale switcher (localized puckData only) */}
+      {locale && locales && locales.length > 1 && onLocaleChange && (
+        <LocaleSwitcher
+          locale={locale}
+          locales={locales}
+          onLocaleChange={onLocaleChange}
+          onCopyFromLocale={onLoadLocaleData ? handleCopyFromLocale : undefined}
+          disabled={isSaving}
+        />
+      )}
+
       {/* Interactive mode toggle */}
       {showInteractiveToggle && (
         <div style={styles.toggleContainer}>
@@ -550,6 +728,52 @@ export const HeaderActions = memo(function HeaderActions({
         </button>
       )}
 
+      {/* Shareable draft preview link */}
+      {onCreatePreviewLink && (
+        <button
+          type="button"
+          onClick={handleSharePreviewClick}
+          disabled={previewLinkState === 'creating'}
+          title="Copy a preview link for people without an admin account"
+          style={{
+            ...styles.buttonBase,
+            ...styles.buttonSecondary,
+            ...(previewLinkState === 'creating' ? styles.buttonDisabled : {}),
+          }}
+        >
+          {previewLinkState === 'creating' ? (
+            <Loader2 style={{ ...styles.icon, animation: 'spin 1s linear infinite' }} />
+          ) : previewLinkState === 'copied' ? (
+            <Check style={styles.icon} />
+          ) : (
+            <Link2 style={styles.icon} />
+          )}
+          {previewLinkState === 'copied' ? 'Link copied' : 'Share'}
+        </button>
+      )}
+
+      {/* Duplicate page */}
+      {onDuplicate && (
+        <button
+          type="button"
+          onClick={handleDuplicateClick}
+          disabled={isDuplicating}
+          title="Create a draft copy of this page"
+          style={{
+            ...styles.buttonBase,
+            ...styles.buttonSecondary,
+            ...(isDuplicating ? styles.buttonDisabled : {}),
+          }}
+        >
+          {isDuplicating ? (
+            <Loader2 style={{ ...styles.icon, animation: 'spin 1s linear infinite' }} />
+          ) : (
+            <Copy style={styles.icon} />
+          )}
+          Duplicate
+        </button>
+      )}
+
       {/* View published page in new tab */}
       {showViewPage && (
         <button
@@ -576,11 +800,11 @@ export const HeaderActions = memo(function HeaderActions({
         <button
           type="button"
           onClick={handleSaveClick}
-          disabled={isSaving || !hasUnsavedChanges}
+          disabled={isSaveDisabled || !hasUnsavedChanges}
           style={{
             ...styles.buttonBase,
             ...styles.buttonSecondary,
-            ...((isSaving || !hasUnsavedChanges) ? styles.buttonDisabled : {}),
+            ...((isSaveDisabled || !hasUnsavedChanges) ? styles.buttonDisabled : {}),
           }}
         >
           {isSaving ? (
@@ -592,16 +816,25 @@ export const HeaderActions = memo(function HeaderActions({
         </button>
       )}
 
+      {/* Scheduled publish/unpublish */}
+      {schedule && onSchedule && (
+        <ScheduleControl
+          schedule={schedule}
+          onScheduleChange={handleScheduleChange}
+          disabled={isSaveDisabled}
+        />
+      )}
+
       {/* Custom publish button if handler provided */}
       {onPublish && (
         <button
           type="button"
           onClick={handlePublishClick}
-          disabled={isSaving}
+          disabled={isSaveDisabled}
           style={{
             ...styles.buttonBase,
             ...styles.buttonPrimary,
-            ...(isSaving ? styles.buttonDisabled : {}),
+            ...(isSaveDisabled ? styles.buttonDisabled : {}),
           }}
         >
           {isSaving ? (
@@ -618,10 +851,10 @@ export const HeaderActions = memo(function HeaderActions({
         <button
           type="button"
           onClick={onUnpublish}
-          disabled={isSaving}
+          disabled={isSaveDisabled}
           style={{
             ...styles.linkButton,
-            ...(isSaving ? { opacity: 0.5, cursor: 'not-allowed' } : {}),
+            ...(isSaveDisabled ? { opacity: 0.5, cursor: 'not-allowed' } : {}),
           }}
         >
           Unpublish
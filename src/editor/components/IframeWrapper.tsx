@@ -119,6 +119,10 @@ export interface IframeWrapperProps {
    * When undefined, uses the layout's editorDarkMode setting.
    */
   previewDarkModeOverride?: boolean
+  /**
+   * Component IDs to outline as invalid, e.g. after the server rejected a save
+   */
+  invalidComponentIds?: string[]
 }
 
 /**
@@ -163,6 +167,7 @@ export const IframeWrapper = memo(function IframeWrapper({
   editorStylesheets,
   editorCss,
   previewDarkModeOverride,
+  invalidComponentIds,
 }: IframeWrapperProps) {
   const appState = usePuck((s) => s.appState)
 
@@ -471,6 +476,31 @@ export const IframeWrapper = memo(function IframeWrapper({
     }
   }, [iframeDoc, layoutConfig, pageBackground, editorStylesheets, editorCss, stylesLoaded, previewDarkModeOverride])
 
+  // Outline components rejected by server-side validation
+  useEffect(() => {
+    if (!iframeDoc) return
+
+    const INVALID_STYLES_ID = 'puck-invalid-components'
+    let style = iframeDoc.getElementById(INVALID_STYLES_ID) as HTMLStyleElement | null
+
+    if (!invalidComponentIds?.length) {
+      style?.remove()
+      return
+    }
+
+    if (!style) {
+      style = iframeDoc.createElement('style')
+      style.id = INVALID_STYLES_ID
+      iframeDoc.head.appendChild(style)
+    }
+    style.textContent = `
+      ${invalidComponentIds.map((id) => `[data-puck-component="${CSS.escape(id)}"]`).join(',\n      ')} {
+        outline: 2px dashed #dc2626 !important;
+        outline-offset: -2px;
+      }
+    `
+  }, [iframeDoc, invalidComponentIds])
+
   // Get header/footer components from layout config
   const LayoutHeader = layoutConfig.header
   const LayoutFooter = layoutConfig.footer
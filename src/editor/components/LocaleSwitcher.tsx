@@ -0,0 +1,127 @@
+'use client'
+
+import { memo, type CSSProperties } from 'react'
+import { Languages } from 'lucide-react'
+
+const styles = {
+  container: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+  } as CSSProperties,
+  icon: {
+    width: '16px',
+    height: '16px',
+    color: 'var(--theme-elevation-500)',
+    flexShrink: 0,
+  } as CSSProperties,
+  select: {
+    padding: '5px 8px',
+    fontSize: '13px',
+    fontWeight: 500,
+    borderRadius: '6px',
+    border: '1px solid var(--theme-elevation-200)',
+    backgroundColor: 'var(--theme-bg)',
+    color: 'var(--theme-elevation-700)',
+    cursor: 'pointer',
+  } as CSSProperties,
+}
+
+export interface LocaleOption {
+  code: string
+  label: string
+}
+
+export interface LocaleSwitcherProps {
+  /**
+   * Locale currently being edited
+   */
+  locale: string
+  /**
+   * Locales available for editing
+   */
+  locales: LocaleOption[]
+  /**
+   * Callback when another locale is selected for editing
+   */
+  onLocaleChange: (locale: string) => void
+  /**
+   * Callback to copy the page structure from another locale.
+   * The "Copy from" select is hidden when not provided.
+   */
+  onCopyFromLocale?: (locale: string) => void
+  /**
+   * Whether the switcher is disabled
+   */
+  disabled?: boolean
+}
+
+/**
+ * Locale switcher for editing localized Puck data.
+ *
+ * Switching locale reloads the editor with that locale's content.
+ * "Copy from" replaces the current content with another locale's
+ * structure so translators don't have to rebuild the layout.
+ *
+ * @example
+ * ```tsx
+ * <LocaleSwitcher
+ *   locale="en"
+ *   locales={[{ code: 'en', label: 'English' }, { code: 'de', label: 'Deutsch' }]}
+ *   onLocaleChange={(code) => router.push(`?locale=${code}`)}
+ *   onCopyFromLocale={handleCopyFromLocale}
+ * />
+ * ```
+ */
+export const LocaleSwitcher = memo(function LocaleSwitcher({
+  locale,
+  locales,
+  onLocaleChange,
+  onCopyFromLocale,
+  disabled = false,
+}: LocaleSwitcherProps) {
+  const otherLocales = locales.filter((l) => l.code !== locale)
+
+  return (
+    <div
+      style={{
+        ...styles.container,
+        ...(disabled ? { opacity: 0.5, pointerEvents: 'none' } : {}),
+      }}
+    >
+      <Languages style={styles.icon} />
+      <select
+        value={locale}
+        onChange={(e) => onLocaleChange(e.target.value)}
+        style={styles.select}
+        aria-label="Editing locale"
+        title="Switch the locale being edited"
+      >
+        {locales.map((l) => (
+          <option key={l.code} value={l.code}>
+            {l.label}
+          </option>
+        ))}
+      </select>
+      {onCopyFromLocale && otherLocales.length > 0 && (
+        <select
+          // Reset after each pick so the same locale can be copied again
+          value=""
+          onChange={(e) => {
+            if (e.target.value) onCopyFromLocale(e.target.value)
+          }}
+          style={styles.select}
+          aria-label="Copy structure from another locale"
+          title="Replace this locale's content with the structure from another locale"
+        >
+          <option value="">Copy from…</option>
+          {otherLocales.map((l) => (
+            <option key={l.code} value={l.code}>
+              {l.label}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  )
+})
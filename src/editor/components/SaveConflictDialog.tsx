@@ -0,0 +1,268 @@
+'use client'
+
+import { memo, useMemo, useCallback, type CSSProperties } from 'react'
+import { createPortal } from 'react-dom'
+import { createUsePuck, type Data } from '@puckeditor/core'
+import { AlertTriangle, RefreshCw, Upload, GitMerge } from 'lucide-react'
+import { diffPuckData, mergePuckData } from '../../utils/diff.js'
+
+// Create usePuck hook for accessing editor state and dispatch
+const usePuck = createUsePuck()
+
+const styles = {
+  overlay: {
+    position: 'fixed',
+    inset: 0,
+    zIndex: 9999,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  } as CSSProperties,
+  container: {
+    backgroundColor: 'var(--theme-bg)',
+    borderRadius: '8px',
+    boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.25)',
+    maxWidth: '520px',
+    width: '100%',
+    margin: '0 16px',
+    overflow: 'hidden',
+  } as CSSProperties,
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '12px',
+    padding: '16px 20px',
+    borderBottom: '1px solid var(--theme-elevation-150)',
+    backgroundColor: 'var(--theme-warning-50)',
+  } as CSSProperties,
+  iconWrapper: {
+    flexShrink: 0,
+    width: '40px',
+    height: '40px',
+    borderRadius: '50%',
+    backgroundColor: 'var(--theme-warning-100)',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+  } as CSSProperties,
+  title: {
+    fontSize: '16px',
+    fontWeight: 600,
+    color: 'var(--theme-elevation-900)',
+    margin: 0,
+  } as CSSProperties,
+  subtitle: {
+    fontSize: '14px',
+    color: 'var(--theme-elevation-500)',
+    margin: 0,
+  } as CSSProperties,
+  body: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+    padding: '16px 20px',
+  } as CSSProperties,
+  text: {
+    fontSize: '14px',
+    color: 'var(--theme-elevation-700)',
+    margin: 0,
+  } as CSSProperties,
+  list: {
+    margin: 0,
+    paddingLeft: '20px',
+    fontSize: '13px',
+    color: 'var(--theme-elevation-600)',
+  } as CSSProperties,
+  footer: {
+    padding: '16px 20px',
+    backgroundColor: 'var(--theme-elevation-50)',
+    borderTop: '1px solid var(--theme-elevation-150)',
+    display: 'flex',
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+    gap: '8px',
+  } as CSSProperties,
+  button: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '6px',
+    padding: '6px 12px',
+    fontSize: '14px',
+    fontWeight: 500,
+    borderRadius: '6px',
+    border: '1px solid var(--theme-elevation-200)',
+    backgroundColor: 'var(--theme-bg)',
+    color: 'var(--theme-elevation-700)',
+    cursor: 'pointer',
+  } as CSSProperties,
+  buttonPrimary: {
+    border: '1px solid var(--theme-elevation-900)',
+    backgroundColor: 'var(--theme-elevation-900)',
+    color: 'var(--theme-bg)',
+  } as CSSProperties,
+  buttonDanger: {
+    border: '1px solid var(--theme-error-200)',
+    backgroundColor: 'var(--theme-error-50)',
+    color: 'var(--theme-error-700)',
+  } as CSSProperties,
+  icon: {
+    width: '16px',
+    height: '16px',
+    flexShrink: 0,
+  } as CSSProperties,
+}
+
+/**
+ * A save rejected because the page was saved by someone else in the meantime
+ */
+export interface SaveConflict {
+  /**
+   * Puck data as last loaded or saved by this editor
+   */
+  base: Data
+  /**
+   * Puck data of the newer saved version
+   */
+  theirs: Data
+  /**
+   * When the newer version was saved
+   */
+  updatedAt?: string
+}
+
+export interface SaveConflictDialogProps {
+  /**
+   * Conflict to resolve (dialog is hidden when null)
+   */
+  conflict: SaveConflict | null
+  /**
+   * Discard local changes and load the newer version
+   */
+  onReload: () => void
+  /**
+   * Save the current editor data over the newer version
+   */
+  onOverwrite: (data: Data) => void
+  /**
+   * Called after the merged data has been applied to the editor
+   */
+  onMerge: (data: Data) => void
+  /**
+   * Close the dialog without resolving the conflict
+   */
+  onCancel: () => void
+}
+
+/**
+ * Dialog shown when a save is rejected because someone else saved the page.
+ *
+ * Offers to reload the newer version, overwrite it, or merge both sets of
+ * changes into the editor. The merge keeps the other version for components
+ * that were changed on both sides.
+ *
+ * Must be rendered inside Puck (e.g. from a header override).
+ */
+export const SaveConflictDialog = memo(function SaveConflictDialog({
+  conflict,
+  onReload,
+  onOverwrite,
+  onMerge,
+  onCancel,
+}: SaveConflictDialogProps) {
+  const data = usePuck((s) => s.appState.data)
+  const dispatch = usePuck((s) => s.dispatch)
+
+  const theirChanges = useMemo(
+    () => (conflict ? diffPuckData(conflict.base, conflict.theirs) : null),
+    [conflict]
+  )
+
+  const merge = useMemo(
+    () => (conflict ? mergePuckData(conflict.base, data, conflict.theirs) : null),
+    [conflict, data]
+  )
+
+  const handleMerge = useCallback(() => {
+    if (!merge) return
+    dispatch({ type: 'setData', data: merge.data })
+    onMerge(merge.data)
+  }, [merge, dispatch, onMerge])
+
+  if (!conflict || !merge || !theirChanges || typeof document === 'undefined') return null
+
+  const { summary } = theirChanges
+  const changeCounts = [
+    summary.added && `${summary.added} added`,
+    summary.removed && `${summary.removed} removed`,
+    summary.moved && `${summary.moved} moved`,
+    summary.changed && `${summary.changed} edited`,
+    theirChanges.root.length > 0 && 'page settings changed',
+  ].filter(Boolean)
+
+  return createPortal(
+    <div style={styles.overlay} onClick={onCancel}>
+      <div style={styles.container} onClick={(e) => e.stopPropagation()}>
+        <div style={styles.header}>
+          <div style={styles.iconWrapper}>
+            <AlertTriangle style={{ width: '20px', height: '20px', color: 'var(--theme-warning-600)' }} />
+          </div>
+          <div>
+            <h3 style={styles.title}>This page was changed</h3>
+            <p style={styles.subtitle}>
+              Someone else saved it
+              {conflict.updatedAt ? ` at ${new Date(conflict.updatedAt).toLocaleString()}` : ''}
+            </p>
+          </div>
+        </div>
+
+        <div style={styles.body}>
+          <p style={styles.text}>
+            Their changes: {changeCounts.length > 0 ? changeCounts.join(', ') : 'no content changes'}.
+          </p>
+          {merge.conflicts.length > 0 ? (
+            <>
+              <p style={styles.text}>
+                Merging keeps their version of {merge.conflicts.length} item
+                {merge.conflicts.length === 1 ? '' : 's'} you both changed:
+              </p>
+              <ul style={styles.list}>
+                {merge.conflicts.map((item) => (
+                  <li key={`${item.id}:${item.key ?? ''}`}>
+                    {item.type === 'root' ? `Page setting "${item.key}"` : item.type}
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : (
+            <p style={styles.text}>Your changes don't overlap and can be merged.</p>
+          )}
+        </div>
+
+        <div style={styles.footer}>
+          <button type="button" onClick={onReload} style={styles.button}>
+            <RefreshCw style={styles.icon} />
+            Reload
+          </button>
+          <button
+            type="button"
+            onClick={() => onOverwrite(data)}
+            style={{ ...styles.button, ...styles.buttonDanger }}
+          >
+            <Upload style={styles.icon} />
+            Overwrite
+          </button>
+          <button
+            type="button"
+            onClick={handleMerge}
+            style={{ ...styles.button, ...styles.buttonPrimary }}
+          >
+            <GitMerge style={styles.icon} />
+            Merge
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  )
+})
@@ -0,0 +1,308 @@
+'use client'
+
+import { memo, useState, useEffect, useRef, useCallback, type CSSProperties } from 'react'
+import { CalendarClock, Loader2 } from 'lucide-react'
+
+const styles = {
+  wrapper: {
+    position: 'relative',
+  } as CSSProperties,
+  trigger: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '4px',
+    whiteSpace: 'nowrap',
+    padding: '6px 12px',
+    fontSize: '14px',
+    fontWeight: 500,
+    borderRadius: '6px',
+    border: '1px solid var(--theme-elevation-200)',
+    backgroundColor: 'var(--theme-bg)',
+    color: 'var(--theme-elevation-700)',
+    cursor: 'pointer',
+  } as CSSProperties,
+  triggerScheduled: {
+    borderColor: 'var(--theme-warning-200)',
+    backgroundColor: 'var(--theme-warning-100)',
+    color: 'var(--theme-warning-700)',
+  } as CSSProperties,
+  icon: {
+    width: '16px',
+    height: '16px',
+    flexShrink: 0,
+  } as CSSProperties,
+  panel: {
+    position: 'absolute',
+    top: 'calc(100% + 6px)',
+    right: 0,
+    zIndex: 1000,
+    width: '280px',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+    padding: '16px',
+    backgroundColor: 'var(--theme-bg)',
+    border: '1px solid var(--theme-elevation-150)',
+    borderRadius: '8px',
+    boxShadow: '0 10px 25px -5px rgba(0, 0, 0, 0.15)',
+  } as CSSProperties,
+  label: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+    fontSize: '12px',
+    fontWeight: 500,
+    color: 'var(--theme-elevation-700)',
+  } as CSSProperties,
+  input: {
+    height: '32px',
+    padding: '0 8px',
+    fontSize: '13px',
+    border: '1px solid var(--theme-elevation-150)',
+    borderRadius: '4px',
+    backgroundColor: 'var(--theme-input-bg)',
+    color: 'var(--theme-elevation-800)',
+  } as CSSProperties,
+  meta: {
+    fontSize: '12px',
+    color: 'var(--theme-elevation-500)',
+    margin: 0,
+  } as CSSProperties,
+  actions: {
+    display: 'flex',
+    justifyContent: 'flex-end',
+    gap: '8px',
+  } as CSSProperties,
+  button: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '4px',
+    padding: '6px 12px',
+    fontSize: '13px',
+    fontWeight: 500,
+    borderRadius: '6px',
+    border: '1px solid var(--theme-elevation-200)',
+    backgroundColor: 'var(--theme-bg)',
+    color: 'var(--theme-elevation-700)',
+    cursor: 'pointer',
+  } as CSSProperties,
+  buttonPrimary: {
+    border: '1px solid var(--theme-elevation-900)',
+    backgroundColor: 'var(--theme-elevation-900)',
+    color: 'var(--theme-bg)',
+  } as CSSProperties,
+}
+
+/**
+ * Scheduled publish/unpublish times for a page (ISO strings)
+ */
+export interface PublishSchedule {
+  publishAt: string | null
+  unpublishAt: string | null
+  /**
+   * User who last changed the schedule
+   */
+  scheduledBy?: string | null
+}
+
+export interface ScheduleControlProps {
+  /**
+   * Current schedule
+   */
+  schedule: PublishSchedule
+  /**
+   * Callback to save a new schedule (both values null clears it)
+   */
+  onScheduleChange: (schedule: PublishSchedule) => Promise<void> | void
+  /**
+   * Whether the control is disabled
+   */
+  disabled?: boolean
+}
+
+/**
+ * Converts an ISO date to the value format of a datetime-local input (local time)
+ */
+function toInputValue(iso: string | null): string {
+  if (!iso) return ''
+  const date = new Date(iso)
+  if (Number.isNaN(date.getTime())) return ''
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+  return local.toISOString().slice(0, 16)
+}
+
+/**
+ * Converts a datetime-local input value (local time) to an ISO date
+ */
+function fromInputValue(value: string): string | null {
+  if (!value) return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+function formatShort(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+/**
+ * Scheduling control shown next to the publish button.
+ *
+ * Lets editors pick when the latest draft is published and when the page
+ * is unpublished. The trigger shows the next scheduled change.
+ *
+ * @example
+ * ```tsx
+ * <ScheduleControl
+ *   schedule={{ publishAt: null, unpublishAt: null }}
+ *   onScheduleChange={handleSchedule}
+ * />
+ * ```
+ */
+export const ScheduleControl = memo(function ScheduleControl({
+  schedule,
+  onScheduleChange,
+  disabled = false,
+}: ScheduleControlProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [publishAt, setPublishAt] = useState(toInputValue(schedule.publishAt))
+  const [unpublishAt, setUnpublishAt] = useState(toInputValue(schedule.unpublishAt))
+  const wrapperRef = useRef<HTMLDivElement>(null)
+
+  // Reset the form to the saved schedule whenever the panel opens
+  useEffect(() => {
+    if (isOpen) {
+      setPublishAt(toInputValue(schedule.publishAt))
+      setUnpublishAt(toInputValue(schedule.unpublishAt))
+    }
+  }, [isOpen, schedule.publishAt, schedule.unpublishAt])
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return
+    const handleClickOutside = (event: MouseEvent) => {
+      if (wrapperRef.current && !wrapperRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [isOpen])
+
+  const submit = useCallback(
+    async (next: PublishSchedule) => {
+      setIsSubmitting(true)
+      try {
+        await onScheduleChange(next)
+        setIsOpen(false)
+      } finally {
+        setIsSubmitting(false)
+      }
+    },
+    [onScheduleChange]
+  )
+
+  const handleSave = useCallback(() => {
+    const nextPublishAt = fromInputValue(publishAt)
+    const nextUnpublishAt = fromInputValue(unpublishAt)
+    if (nextPublishAt && nextUnpublishAt && nextUnpublishAt <= nextPublishAt) {
+      alert('The unpublish time must be after the publish time.')
+      return
+    }
+    void submit({ publishAt: nextPublishAt, unpublishAt: nextUnpublishAt })
+  }, [publishAt, unpublishAt, submit])
+
+  const handleClear = useCallback(() => {
+    void submit({ publishAt: null, unpublishAt: null })
+  }, [submit])
+
+  const isScheduled = Boolean(schedule.publishAt || schedule.unpublishAt)
+  const triggerLabel = schedule.publishAt
+    ? `Publishes ${formatShort(schedule.publishAt)}`
+    : schedule.unpublishAt
+      ? `Unpublishes ${formatShort(schedule.unpublishAt)}`
+      : 'Schedule'
+
+  return (
+    <div ref={wrapperRef} style={styles.wrapper}>
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={disabled}
+        style={{
+          ...styles.trigger,
+          ...(isScheduled ? styles.triggerScheduled : {}),
+          ...(disabled ? { opacity: 0.5, cursor: 'not-allowed' } : {}),
+        }}
+        title="Schedule publishing"
+      >
+        <CalendarClock style={styles.icon} />
+        {triggerLabel}
+      </button>
+
+      {isOpen && (
+        <div style={styles.panel}>
+          <label style={styles.label}>
+            Publish at
+            <input
+              type="datetime-local"
+              value={publishAt}
+              onChange={(e) => setPublishAt(e.target.value)}
+              style={styles.input}
+            />
+          </label>
+          <label style={styles.label}>
+            Unpublish at
+            <input
+              type="datetime-local"
+              value={unpublishAt}
+              onChange={(e) => setUnpublishAt(e.target.value)}
+              style={styles.input}
+            />
+          </label>
+          <p style={styles.meta}>
+            Scheduling saves your current changes as a draft. The latest draft is published at
+            the scheduled time.
+          </p>
+          {isScheduled && schedule.scheduledBy && (
+            <p style={styles.meta}>Scheduled by {schedule.scheduledBy}</p>
+          )}
+          <div style={styles.actions}>
+            {isScheduled && (
+              <button
+                type="button"
+                onClick={handleClear}
+                disabled={isSubmitting}
+                style={styles.button}
+              >
+                Clear
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSubmitting || (!publishAt && !unpublishAt)}
+              style={{
+                ...styles.button,
+                ...styles.buttonPrimary,
+                ...(isSubmitting || (!publishAt && !unpublishAt)
+                  ? { opacity: 0.5, cursor: 'not-allowed' }
+                  : {}),
+              }}
+            >
+              {isSubmitting && (
+                <Loader2 style={{ ...styles.icon, animation: 'spin 1s linear infinite' }} />
+              )}
+              Save schedule
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+})
@@ -0,0 +1,446 @@
+'use client'
+
+import { useState, useEffect, useMemo, memo, type CSSProperties } from 'react'
+import { createPortal } from 'react-dom'
+import type { Data as PuckData, Config as PuckConfig } from '@puckeditor/core'
+import { X, RotateCcw, Plus, Minus, MoveVertical, Pencil } from 'lucide-react'
+import { PageRenderer } from '../../render/PageRenderer.js'
+import type { LayoutDefinition } from '../../layouts/index.js'
+import {
+  diffPuckData,
+  type ComponentChange,
+  type ComponentChangeType,
+  type PropChange,
+} from '../../utils/diff.js'
+
+/**
+ * One side of a version comparison
+ */
+export interface VersionDiffSide {
+  /**
+   * Label shown above this version (e.g. its date)
+   */
+  label: string
+  /**
+   * Puck data of this version
+   */
+  data: PuckData
+}
+
+export interface VersionDiffModalProps {
+  /**
+   * Whether the modal is open
+   */
+  isOpen: boolean
+  /**
+   * Handler for closing the modal
+   */
+  onClose: () => void
+  /**
+   * Older version
+   */
+  before: VersionDiffSide
+  /**
+   * Newer version
+   */
+  after: VersionDiffSide
+  /**
+   * Puck configuration used for the side-by-side render
+   */
+  config?: PuckConfig
+  /**
+   * Available layouts for the side-by-side render
+   */
+  layouts?: LayoutDefinition[]
+  /**
+   * Restores a component from the older version into the editor.
+   * Restore buttons are hidden when not provided.
+   */
+  onRestoreComponent?: (componentId: string) => void
+}
+
+type DiffTab = 'changes' | 'side-by-side'
+
+const CHANGE_LABELS: Record<ComponentChangeType, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  moved: 'Moved',
+  changed: 'Changed',
+}
+
+const CHANGE_ORDER: ComponentChangeType[] = ['added', 'removed', 'moved', 'changed']
+
+const CHANGE_ICONS = {
+  added: Plus,
+  removed: Minus,
+  moved: MoveVertical,
+  changed: Pencil,
+}
+
+const CHANGE_COLORS: Record<ComponentChangeType, string> = {
+  added: 'var(--theme-success-600)',
+  removed: 'var(--theme-error-600)',
+  moved: 'var(--theme-elevation-600)',
+  changed: 'var(--theme-warning-600)',
+}
+
+const styles = {
+  overlay: {
+    position: 'fixed',
+    inset: 0,
+    zIndex: 9990,
+    display: 'flex',
+    flexDirection: 'column',
+    backgroundColor: 'var(--theme-bg)',
+  } as CSSProperties,
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '16px',
+    padding: '12px 20px',
+    borderBottom: '1px solid var(--theme-elevation-150)',
+    flexShrink: 0,
+  } as CSSProperties,
+  title: {
+    fontSize: '16px',
+    fontWeight: 600,
+    color: 'var(--theme-elevation-900)',
+    margin: 0,
+  } as CSSProperties,
+  subtitle: {
+    fontSize: '13px',
+    color: 'var(--theme-elevation-500)',
+  } as CSSProperties,
+  tabs: {
+    display: 'flex',
+    gap: '4px',
+    marginLeft: 'auto',
+  } as CSSProperties,
+  tab: {
+    padding: '6px 12px',
+    fontSize: '13px',
+    fontWeight: 500,
+    borderRadius: '6px',
+    border: '1px solid var(--theme-elevation-200)',
+    backgroundColor: 'var(--theme-bg)',
+    color: 'var(--theme-elevation-600)',
+    cursor: 'pointer',
+  } as CSSProperties,
+  tabActive: {
+    backgroundColor: 'var(--theme-elevation-900)',
+    borderColor: 'var(--theme-elevation-900)',
+    color: 'var(--theme-bg)',
+  } as CSSProperties,
+  closeButton: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    padding: '6px 12px',
+    fontSize: '13px',
+    fontWeight: 500,
+    borderRadius: '6px',
+    border: 'none',
+    backgroundColor: 'var(--theme-elevation-100)',
+    color: 'var(--theme-elevation-800)',
+    cursor: 'pointer',
+  } as CSSProperties,
+  body: {
+    flex: 1,
+    minHeight: 0,
+    overflow: 'auto',
+  } as CSSProperties,
+  changes: {
+    maxWidth: '880px',
+    margin: '0 auto',
+    padding: '20px',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '20px',
+  } as CSSProperties,
+  summary: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '8px',
+  } as CSSProperties,
+  summaryItem: {
+    padding: '4px 10px',
+    borderRadius: '9999px',
+    fontSize: '12px',
+    fontWeight: 500,
+    backgroundColor: 'var(--theme-elevation-100)',
+    color: 'var(--theme-elevation-700)',
+  } as CSSProperties,
+  sectionTitle: {
+    fontSize: '13px',
+    fontWeight: 600,
+    textTransform: 'uppercase',
+    letterSpacing: '0.04em',
+    color: 'var(--theme-elevation-500)',
+    margin: '0 0 8px',
+  } as CSSProperties,
+  entry: {
+    display: 'flex',
+    alignItems: 'flex-start',
+    gap: '12px',
+    padding: '10px 12px',
+    border: '1px solid var(--theme-elevation-150)',
+    borderRadius: '6px',
+    marginBottom: '6px',
+  } as CSSProperties,
+  entryIcon: {
+    width: '16px',
+    height: '16px',
+    marginTop: '2px',
+    flexShrink: 0,
+  } as CSSProperties,
+  entryMain: {
+    flex: 1,
+    minWidth: 0,
+  } as CSSProperties,
+  entryType: {
+    fontSize: '14px',
+    fontWeight: 500,
+    color: 'var(--theme-elevation-900)',
+  } as CSSProperties,
+  entryMeta: {
+    fontSize: '12px',
+    color: 'var(--theme-elevation-500)',
+    marginTop: '2px',
+  } as CSSProperties,
+  propList: {
+    margin: '8px 0 0',
+    padding: 0,
+    listStyle: 'none',
+    fontSize: '12px',
+    fontFamily: 'monospace',
+    color: 'var(--theme-elevation-700)',
+  } as CSSProperties,
+  propBefore: {
+    color: 'var(--theme-error-600)',
+    textDecoration: 'line-through',
+    wordBreak: 'break-word',
+  } as CSSProperties,
+  propAfter: {
+    color: 'var(--theme-success-600)',
+    wordBreak: 'break-word',
+  } as CSSProperties,
+  restoreButton: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+    padding: '4px 10px',
+    fontSize: '12px',
+    fontWeight: 500,
+    borderRadius: '6px',
+    border: '1px solid var(--theme-elevation-200)',
+    backgroundColor: 'var(--theme-bg)',
+    color: 'var(--theme-elevation-700)',
+    cursor: 'pointer',
+    flexShrink: 0,
+  } as CSSProperties,
+  empty: {
+    padding: '48px 16px',
+    textAlign: 'center',
+    fontSize: '14px',
+    color: 'var(--theme-elevation-500)',
+  } as CSSProperties,
+  sideBySide: {
+    display: 'grid',
+    gridTemplateColumns: '1fr 1fr',
+    height: '100%',
+  } as CSSProperties,
+  column: {
+    display: 'flex',
+    flexDirection: 'column',
+    minWidth: 0,
+    minHeight: 0,
+    borderRight: '1px solid var(--theme-elevation-150)',
+  } as CSSProperties,
+  columnHeader: {
+    padding: '8px 16px',
+    fontSize: '12px',
+    fontWeight: 600,
+    color: 'var(--theme-elevation-600)',
+    backgroundColor: 'var(--theme-elevation-50)',
+    borderBottom: '1px solid var(--theme-elevation-150)',
+    flexShrink: 0,
+  } as CSSProperties,
+  columnBody: {
+    flex: 1,
+    minHeight: 0,
+    overflow: 'auto',
+  } as CSSProperties,
+}
+
+/**
+ * Formats a prop value for display in the diff
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined) return '(empty)'
+  const text = typeof value === 'string' ? value : JSON.stringify(value)
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text
+}
+
+function formatLocation(change: ComponentChange): string {
+  const location = change.change === 'removed' ? change.before : change.after
+  if (!location) return ''
+  const where = location.parentId ? `${location.slot} of ${location.parentId}` : location.slot
+  return `Position ${location.index + 1} in ${where}`
+}
+
+const PropChanges = ({ props }: { props: PropChange[] }) => (
+  <ul style={styles.propList}>
+    {props.map((prop) => (
+      <li key={prop.key} style={{ marginBottom: '4px' }}>
+        <strong>{prop.key}</strong>: <span style={styles.propBefore}>{formatValue(prop.before)}</span>
+        {' → '}
+        <span style={styles.propAfter}>{formatValue(prop.after)}</span>
+      </li>
+    ))}
+  </ul>
+)
+
+/**
+ * Full-screen comparison of two page versions
+ *
+ * - Changes: structural diff of the Puck tree (components added, removed,
+ *   moved and props changed), with optional per-component restore
+ * - Side by side: both versions rendered through PageRenderer
+ */
+export const VersionDiffModal = memo(function VersionDiffModal({
+  isOpen,
+  onClose,
+  before,
+  after,
+  config,
+  layouts,
+  onRestoreComponent,
+}: VersionDiffModalProps) {
+  const [tab, setTab] = useState<DiffTab>('changes')
+
+  const diff = useMemo(() => diffPuckData(before.data, after.data), [before.data, after.data])
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [isOpen, onClose])
+
+  if (!isOpen || typeof document === 'undefined') return null
+
+  // Portal to the body so the modal isn't clipped by the panel it was opened from
+  return createPortal(
+    <div style={styles.overlay}>
+      <div style={styles.header}>
+        <div>
+          <h2 style={styles.title}>Compare versions</h2>
+          <span style={styles.subtitle}>
+            {before.label} → {after.label}
+          </span>
+        </div>
+        <div style={styles.tabs}>
+          {(['changes', 'side-by-side'] as DiffTab[]).map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setTab(value)}
+              style={{ ...styles.tab, ...(tab === value ? styles.tabActive : {}) }}
+            >
+              {value === 'changes' ? 'Changes' : 'Side by side'}
+            </button>
+          ))}
+        </div>
+        <button type="button" onClick={onClose} style={styles.closeButton} title="Close (Esc)">
+          <X style={{ width: '16px', height: '16px' }} />
+          Close
+        </button>
+      </div>
+
+      <div style={styles.body}>
+        {tab === 'changes' ? (
+          <div style={styles.changes}>
+            {!diff.hasChanges ? (
+              <div style={styles.empty}>These versions have the same content.</div>
+            ) : (
+              <>
+                <div style={styles.summary}>
+                  {CHANGE_ORDER.map((change) => (
+                    <span key={change} style={styles.summaryItem}>
+                      {diff.summary[change]} {CHANGE_LABELS[change].toLowerCase()}
+                    </span>
+                  ))}
+                  {diff.root.length > 0 && (
+                    <span style={styles.summaryItem}>page settings changed</span>
+                  )}
+                </div>
+
+                {diff.root.length > 0 && (
+                  <section>
+                    <h3 style={styles.sectionTitle}>Page settings</h3>
+                    <div style={styles.entry}>
+                      <div style={styles.entryMain}>
+                        <PropChanges props={diff.root} />
+                      </div>
+                    </div>
+                  </section>
+                )}
+
+                {CHANGE_ORDER.map((changeType) => {
+                  const entries = diff.components.filter((c) => c.change === changeType)
+                  if (entries.length === 0) return null
+                  const Icon = CHANGE_ICONS[changeType]
+
+                  return (
+                    <section key={changeType}>
+                      <h3 style={styles.sectionTitle}>{CHANGE_LABELS[changeType]}</h3>
+                      {entries.map((entry) => (
+                        <div key={`${changeType}-${entry.id}`} style={styles.entry}>
+                          <Icon style={{ ...styles.entryIcon, color: CHANGE_COLORS[changeType] }} />
+                          <div style={styles.entryMain}>
+                            <div style={styles.entryType}>{entry.type}</div>
+                            <div style={styles.entryMeta}>
+                              {entry.id} &middot; {formatLocation(entry)}
+                            </div>
+                            {entry.props && <PropChanges props={entry.props} />}
+                          </div>
+                          {/* Added components have nothing to restore from the older version */}
+                          {onRestoreComponent && changeType !== 'added' && (
+                            <button
+                              type="button"
+                              onClick={() => onRestoreComponent(entry.id)}
+                              style={styles.restoreButton}
+                              title={`Restore this component as it was in ${before.label}`}
+                            >
+                              <RotateCcw style={{ width: '12px', height: '12px' }} />
+                              Restore
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </section>
+                  )
+                })}
+              </>
+            )}
+          </div>
+        ) : (
+          <div style={styles.sideBySide}>
+            {[before, after].map((side, index) => (
+              <div key={index} style={styles.column}>
+                <div style={styles.columnHeader}>{side.label}</div>
+                <div style={styles.columnBody}>
+                  <PageRenderer data={side.data} config={config} layouts={layouts} />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  )
+})
@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useCallback, useEffect, useRef, memo, type CSSProperties } from 'react'
+import type { Data } from '@puckeditor/core'
 import {
   History,
   Loader2,
@@ -19,6 +20,7 @@ export interface PageVersion {
   version: {
     title?: string
     slug?: string
+    puckData?: Data
     _status?: 'draft' | 'published'
     updatedAt: string
     createdAt: string
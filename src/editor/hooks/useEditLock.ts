@@ -0,0 +1,136 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+
+/**
+ * An editor session with the page open
+ */
+export interface EditLockEditor {
+  userId: string | null
+  userLabel: string
+  /** When the session opened the page */
+  since: string
+  lastSeen: string
+}
+
+/**
+ * Lock and presence state for the current editor session
+ */
+export interface EditLockState {
+  /** Session holding the lock (null if nobody has the page open) */
+  holder: EditLockEditor | null
+  /** Whether this session holds the lock */
+  isHolder: boolean
+  /** Other sessions with the page open */
+  editors: EditLockEditor[]
+  /** Whether the current user may take over the lock */
+  canTakeOver: boolean
+}
+
+export interface UseEditLockOptions {
+  /**
+   * API endpoint base path for the collection
+   * @default '/api/puck/pages'
+   */
+  apiEndpoint?: string
+  /**
+   * Document being edited
+   */
+  pageId: string
+  /**
+   * Whether to send heartbeats
+   * @default true
+   */
+  enabled?: boolean
+  /**
+   * Milliseconds between heartbeats. Keep well below the server timeout.
+   * @default 20000
+   */
+  heartbeatInterval?: number
+}
+
+export interface UseEditLockReturn {
+  lock: EditLockState | null
+  takeOver: () => Promise<void>
+}
+
+function createSessionId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`
+}
+
+/**
+ * Hook to hold an edit lock on a page and track who else has it open
+ *
+ * Sends a heartbeat to `/api/puck/:collection/:id/lock` while mounted and
+ * releases the lock when the editor closes.
+ *
+ * @example
+ * ```tsx
+ * const { lock, takeOver } = useEditLock({ apiEndpoint: '/api/puck/pages', pageId })
+ *
+ * if (lock && !lock.isHolder) {
+ *   // Someone else is editing - lock.holder.userLabel
+ * }
+ * ```
+ */
+export function useEditLock({
+  apiEndpoint = '/api/puck/pages',
+  pageId,
+  enabled = true,
+  heartbeatInterval = 20000,
+}: UseEditLockOptions): UseEditLockReturn {
+  const [lock, setLock] = useState<EditLockState | null>(null)
+  const sessionIdRef = useRef<string>('')
+  if (!sessionIdRef.current) {
+    sessionIdRef.current = createSessionId()
+  }
+
+  const lockUrl = `${apiEndpoint}/${pageId}/lock`
+
+  const sendHeartbeat = useCallback(
+    async (takeOver = false) => {
+      const response = await fetch(lockUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId: sessionIdRef.current, takeOver }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update edit lock')
+      }
+      setLock(data.lock)
+    },
+    [lockUrl]
+  )
+
+  useEffect(() => {
+    if (!enabled || !pageId) return
+
+    const heartbeat = () => {
+      sendHeartbeat().catch((error) => console.error('Error updating edit lock:', error))
+    }
+    heartbeat()
+    const interval = setInterval(heartbeat, heartbeatInterval)
+
+    // keepalive lets the release request outlive the page
+    const release = () => {
+      fetch(`${lockUrl}?sessionId=${encodeURIComponent(sessionIdRef.current)}`, {
+        method: 'DELETE',
+        keepalive: true,
+      }).catch(() => {})
+    }
+    window.addEventListener('pagehide', release)
+
+    return () => {
+      clearInterval(interval)
+      window.removeEventListener('pagehide', release)
+      release()
+    }
+  }, [enabled, pageId, lockUrl, heartbeatInterval, sendHeartbeat])
+
+  const takeOver = useCallback(() => sendHeartbeat(true), [sendHeartbeat])
+
+  return { lock, takeOver }
+}
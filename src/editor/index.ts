@@ -61,8 +61,25 @@ export {
 } from './components/IframeWrapper.js'
 export { LoadingState, type LoadingStateProps } from './components/LoadingState.js'
 export { PreviewModal, type PreviewModalProps } from './components/PreviewModal.js'
+export {
+  VersionDiffModal,
+  type VersionDiffModalProps,
+  type VersionDiffSide,
+} from './components/VersionDiffModal.js'
 export { DarkModeStyles, type DarkModeStylesProps } from './components/DarkModeStyles.js'
 export { PreviewModeToggle, type PreviewModeToggleProps } from './components/PreviewModeToggle.js'
+export { LocaleSwitcher, type LocaleSwitcherProps, type LocaleOption } from './components/LocaleSwitcher.js'
+export {
+  ScheduleControl,
+  type ScheduleControlProps,
+  type PublishSchedule,
+} from './components/ScheduleControl.js'
+export {
+  SaveConflictDialog,
+  type SaveConflictDialogProps,
+  type SaveConflict,
+} from './components/SaveConflictDialog.js'
+export { EditLockBanner, type EditLockBannerProps } from './components/EditLockBanner.js'
 /**
  * @deprecated Use createVersionHistoryPlugin instead. VersionHistory has moved to the plugin rail.
  */
@@ -75,6 +92,13 @@ export { detectPageTree, hasPageTreeFields } from './utils/detectPageTree.js'
 // Hooks
 export { useUnsavedChanges, type UseUnsavedChangesReturn } from './hooks/useUnsavedChanges.js'
 export { useDarkMode, type UseDarkModeReturn, type DarkModeSource } from './hooks/useDarkMode.js'
+export {
+  useEditLock,
+  type UseEditLockOptions,
+  type UseEditLockReturn,
+  type EditLockState,
+  type EditLockEditor,
+} from './hooks/useEditLock.js'
 
 // Plugins
 export { headingAnalyzer } from './plugins/index.js'
@@ -83,4 +107,7 @@ export {
   type VersionHistoryPluginOptions,
   VersionHistoryPanel,
   type VersionHistoryPanelProps,
+  AuditLogList,
+  type AuditLogListProps,
+  type AuditLogEntry,
 } from './plugins/index.js'
@@ -0,0 +1,204 @@
+'use client'
+
+import { useState, useCallback, useEffect, memo, type CSSProperties } from 'react'
+import { Loader2, AlertCircle } from 'lucide-react'
+
+/**
+ * Audit log entry, as returned by `GET /api/puck/:collection/:id/audit`
+ */
+export interface AuditLogEntry {
+  id: string
+  action: string
+  userLabel?: string
+  summary?: string
+  createdAt: string
+}
+
+export interface AuditLogListProps {
+  /**
+   * Page ID to fetch audit log entries for
+   */
+  pageId: string
+  /**
+   * API endpoint base path
+   * @default '/api/puck/pages'
+   */
+  apiEndpoint?: string
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  create: 'Created',
+  save: 'Saved draft',
+  publish: 'Published',
+  unpublish: 'Unpublished',
+  restore: 'Restored version',
+  delete: 'Deleted',
+  homepageSwap: 'Set as homepage',
+  templateSave: 'Saved template',
+  aiGeneration: 'AI generation',
+}
+
+const PAGE_SIZE = 20
+
+const styles = {
+  centered: {
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    padding: '48px 16px',
+    gap: '8px',
+  } as CSSProperties,
+  mutedText: {
+    fontSize: '14px',
+    color: 'var(--puck-color-grey-05)',
+    textAlign: 'center',
+  } as CSSProperties,
+  errorText: {
+    fontSize: '14px',
+    color: 'var(--puck-color-red-06)',
+    textAlign: 'center',
+  } as CSSProperties,
+  entry: {
+    padding: '10px 12px',
+    borderBottom: '1px solid var(--puck-color-grey-10)',
+  } as CSSProperties,
+  entryHeader: {
+    display: 'flex',
+    alignItems: 'baseline',
+    justifyContent: 'space-between',
+    gap: '8px',
+  } as CSSProperties,
+  action: {
+    fontSize: '13px',
+    fontWeight: 500,
+    color: 'var(--puck-color-grey-02)',
+  } as CSSProperties,
+  time: {
+    fontSize: '11px',
+    color: 'var(--puck-color-grey-06)',
+    flexShrink: 0,
+  } as CSSProperties,
+  details: {
+    fontSize: '12px',
+    color: 'var(--puck-color-grey-05)',
+    marginTop: '2px',
+    overflowWrap: 'anywhere',
+  } as CSSProperties,
+  moreButton: {
+    display: 'block',
+    width: '100%',
+    marginTop: '8px',
+    padding: '6px 10px',
+    fontSize: '12px',
+    fontWeight: 500,
+    color: 'var(--puck-color-grey-02)',
+    background: 'none',
+    border: '1px solid var(--puck-color-grey-08)',
+    borderRadius: '6px',
+    cursor: 'pointer',
+  } as CSSProperties,
+}
+
+/**
+ * Lists who did what to a page, newest first. Shown in the History panel's
+ * "Activity" tab when the plugin's `auditLog` option is enabled.
+ */
+export const AuditLogList = memo(function AuditLogList({
+  pageId,
+  apiEndpoint = '/api/puck/pages',
+}: AuditLogListProps) {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([])
+  const [page, setPage] = useState(1)
+  const [hasNextPage, setHasNextPage] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchEntries = useCallback(
+    async (pageNumber: number) => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const response = await fetch(
+          `${apiEndpoint}/${pageId}/audit?limit=${PAGE_SIZE}&page=${pageNumber}`
+        )
+        if (!response.ok) {
+          throw new Error('Failed to load activity')
+        }
+        const data = await response.json()
+        setEntries((current) =>
+          pageNumber === 1 ? data.entries ?? [] : [...current, ...(data.entries ?? [])]
+        )
+        setHasNextPage(Boolean(data.hasNextPage))
+        setPage(pageNumber)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load activity')
+        console.error('Error fetching audit log:', err)
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [apiEndpoint, pageId]
+  )
+
+  useEffect(() => {
+    fetchEntries(1)
+  }, [fetchEntries])
+
+  if (error) {
+    return (
+      <div style={styles.centered}>
+        <AlertCircle style={{ width: '32px', height: '32px', color: 'var(--puck-color-red-06)' }} />
+        <div style={styles.errorText}>{error}</div>
+      </div>
+    )
+  }
+
+  if (!isLoading && entries.length === 0) {
+    return (
+      <div style={styles.centered}>
+        <div style={styles.mutedText}>No activity recorded yet.</div>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      {entries.map((entry) => (
+        <div key={entry.id} style={styles.entry}>
+          <div style={styles.entryHeader}>
+            <span style={styles.action}>{ACTION_LABELS[entry.action] ?? entry.action}</span>
+            <span style={styles.time} title={new Date(entry.createdAt).toLocaleString()}>
+              {new Date(entry.createdAt).toLocaleString([], {
+                dateStyle: 'short',
+                timeStyle: 'short',
+              })}
+            </span>
+          </div>
+          <div style={styles.details}>
+            {entry.userLabel ?? 'Unknown user'}
+            {entry.summary && <span> &middot; {entry.summary}</span>}
+          </div>
+        </div>
+      ))}
+
+      {isLoading ? (
+        <div style={styles.centered}>
+          <Loader2
+            style={{
+              width: '24px',
+              height: '24px',
+              color: 'var(--puck-color-grey-05)',
+              animation: 'spin 1s linear infinite',
+            }}
+          />
+        </div>
+      ) : (
+        hasNextPage && (
+          <button type="button" onClick={() => fetchEntries(page + 1)} style={styles.moreButton}>
+            Load more
+          </button>
+        )
+      )}
+    </div>
+  )
+})
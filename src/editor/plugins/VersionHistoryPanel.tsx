@@ -1,8 +1,12 @@
 'use client'
 
-import { useState, useCallback, useEffect, memo, type CSSProperties } from 'react'
+import { useState, useCallback, useEffect, useMemo, memo, type CSSProperties } from 'react'
 import { createUsePuck, type Data } from '@puckeditor/core'
-import { Loader2, Check, RotateCcw, AlertCircle } from 'lucide-react'
+import { Loader2, Check, RotateCcw, AlertCircle, GitCompare } from 'lucide-react'
+import { VersionDiffModal } from '../components/VersionDiffModal.js'
+import { AuditLogList } from './AuditLogList.js'
+import { restoreComponentFromData } from '../../utils/diff.js'
+import type { LayoutDefinition } from '../../layouts/index.js'
 
 // Create usePuck hook for accessing editor state and dispatch
 const usePuck = createUsePuck()
@@ -18,6 +22,9 @@ export interface PageVersion {
     slug?: string
     puckData?: Data
     _status?: 'draft' | 'published'
+    publishAt?: string | null
+    unpublishAt?: string | null
+    scheduledBy?: string | null
     updatedAt: string
     createdAt: string
   }
@@ -38,9 +45,19 @@ export interface VersionHistoryPanelProps {
    */
   apiEndpoint?: string
   /**
-   * Callback after successful restore (e.g., to mark editor as clean)
+   * Callback after successful restore (e.g., to mark editor as clean).
+   * Receives the restored document.
    */
-  onRestoreSuccess?: () => void
+  onRestoreSuccess?: (doc?: Record<string, any>) => void
+  /**
+   * Layouts used to render versions side by side when comparing
+   */
+  layouts?: LayoutDefinition[]
+  /**
+   * Show an "Activity" tab with the page's audit log.
+   * Requires the plugin's `auditLog` option.
+   */
+  showActivity?: boolean
 }
 
 // Panel styles using Puck's CSS variables
@@ -210,20 +227,64 @@ const styles = {
     color: 'var(--puck-color-green-03)',
     fontWeight: 500,
   } as CSSProperties,
+  compareCheckbox: {
+    flexShrink: 0,
+    margin: 0,
+    cursor: 'pointer',
+  } as CSSProperties,
+  compareButton: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    marginTop: '8px',
+    padding: '6px 10px',
+    fontSize: '12px',
+    fontWeight: 500,
+    color: 'var(--puck-color-grey-02)',
+    background: 'none',
+    border: '1px solid var(--puck-color-grey-08)',
+    borderRadius: '6px',
+    cursor: 'pointer',
+  } as CSSProperties,
+  tabs: {
+    display: 'flex',
+    gap: '4px',
+    marginTop: '8px',
+  } as CSSProperties,
+  tab: {
+    padding: '4px 10px',
+    fontSize: '12px',
+    fontWeight: 500,
+    color: 'var(--puck-color-grey-05)',
+    background: 'none',
+    border: 'none',
+    borderRadius: '6px',
+    cursor: 'pointer',
+  } as CSSProperties,
+  tabActive: {
+    color: 'var(--puck-color-grey-02)',
+    backgroundColor: 'var(--puck-color-grey-11)',
+  } as CSSProperties,
 }
 
 /**
  * Version history panel for the Puck plugin rail
  *
  * Displays a list of previous versions with the ability to restore them.
+ * Select two versions to compare them and restore single components.
+ * With `showActivity`, an "Activity" tab lists the page's audit log.
  * Uses Puck's dispatch to update editor state without page reload.
  */
 export const VersionHistoryPanel = memo(function VersionHistoryPanel({
   pageId,
   apiEndpoint = '/api/puck/pages',
   onRestoreSuccess,
+  layouts,
+  showActivity = false,
 }: VersionHistoryPanelProps) {
   const dispatch = usePuck((s) => s.dispatch)
+  const config = usePuck((s) => s.config)
+  const currentData = usePuck((s) => s.appState.data)
 
   const [isLoading, setIsLoading] = useState(true)
   const [isRestoring, setIsRestoring] = useState(false)
@@ -231,6 +292,9 @@ export const VersionHistoryPanel = memo(function VersionHistoryPanel({
   const [error, setError] = useState<string | null>(null)
   const [hoveredIndex, setHoveredIndex] = useState<number | null>(null)
   const [successMessage, setSuccessMessage] = useState<string | null>(null)
+  const [compareIds, setCompareIds] = useState<string[]>([])
+  const [isCompareOpen, setIsCompareOpen] = useState(false)
+  const [tab, setTab] = useState<'versions' | 'activity'>('versions')
 
   // Fetch versions on mount
   const fetchVersions = useCallback(async () => {
@@ -301,7 +365,7 @@ export const VersionHistoryPanel = memo(function VersionHistoryPanel({
         setTimeout(() => setSuccessMessage(null), 3000)
 
         // Notify parent to mark as clean
-        onRestoreSuccess?.()
+        onRestoreSuccess?.(restoredDoc)
 
         // Refresh version list
         fetchVersions()
@@ -315,6 +379,40 @@ export const VersionHistoryPanel = memo(function VersionHistoryPanel({
     [apiEndpoint, pageId, dispatch, onRestoreSuccess, fetchVersions]
   )
 
+  // Toggle a version for comparison (keeps the two most recent picks)
+  const toggleCompare = useCallback((versionId: string) => {
+    setCompareIds((ids) =>
+      ids.includes(versionId) ? ids.filter((id) => id !== versionId) : [...ids, versionId].slice(-2)
+    )
+  }, [])
+
+  // Selected versions, oldest first
+  const comparedVersions = useMemo(() => {
+    if (compareIds.length !== 2) return null
+    const selected = versions.filter((v) => compareIds.includes(v.id))
+    if (selected.length !== 2) return null
+    return selected.sort(
+      (a, b) => new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime()
+    ) as [PageVersion, PageVersion]
+  }, [compareIds, versions])
+
+  // Restore a single component from the older compared version into the editor
+  const handleRestoreComponent = useCallback(
+    (componentId: string) => {
+      const source = comparedVersions?.[0]
+      if (!source?.version.puckData) return
+
+      dispatch({
+        type: 'setData',
+        data: restoreComponentFromData(currentData, source.version.puckData, componentId),
+      })
+      setIsCompareOpen(false)
+      setSuccessMessage(`Restored component from ${formatDate(source.updatedAt)}`)
+      setTimeout(() => setSuccessMessage(null), 3000)
+    },
+    [comparedVersions, currentData, dispatch]
+  )
+
   // Format date for display
   function formatDate(dateStr: string): string {
     const date = new Date(dateStr)
@@ -342,11 +440,38 @@ export const VersionHistoryPanel = memo(function VersionHistoryPanel({
       {/* Header */}
       <div style={styles.header}>
         <h3 style={styles.headerTitle}>Version History</h3>
-        {!isLoading && !error && versions.length > 0 && (
+        {showActivity && (
+          <div style={styles.tabs} role="tablist">
+            {(['versions', 'activity'] as const).map((value) => (
+              <button
+                key={value}
+                type="button"
+                role="tab"
+                aria-selected={tab === value}
+                onClick={() => setTab(value)}
+                style={{ ...styles.tab, ...(tab === value ? styles.tabActive : {}) }}
+              >
+                {value === 'versions' ? 'Versions' : 'Activity'}
+              </button>
+            ))}
+          </div>
+        )}
+        {tab === 'versions' && !isLoading && !error && versions.length > 0 && (
           <div style={styles.headerSubtitle}>
             {versions.length} version{versions.length !== 1 ? 's' : ''} available
+            {versions.length > 1 && ' · select two to compare'}
           </div>
         )}
+        {tab === 'versions' && comparedVersions && (
+          <button
+            type="button"
+            onClick={() => setIsCompareOpen(true)}
+            style={styles.compareButton}
+          >
+            <GitCompare style={{ width: '14px', height: '14px' }} />
+            Compare selected
+          </button>
+        )}
       </div>
 
       {/* Content */}
@@ -359,7 +484,9 @@ export const VersionHistoryPanel = memo(function VersionHistoryPanel({
           </div>
         )}
 
-        {isLoading ? (
+        {tab === 'activity' ? (
+          <AuditLogList pageId={pageId} apiEndpoint={apiEndpoint} />
+        ) : isLoading ? (
           <div style={styles.loadingContainer}>
             <Loader2 style={styles.loadingIcon} />
             <span style={styles.loadingText}>Loading versions...</span>
@@ -388,6 +515,16 @@ export const VersionHistoryPanel = memo(function VersionHistoryPanel({
               onMouseEnter={() => setHoveredIndex(index)}
               onMouseLeave={() => setHoveredIndex(null)}
             >
+              {/* Compare selection */}
+              <input
+                type="checkbox"
+                checked={compareIds.includes(version.id)}
+                onChange={() => toggleCompare(version.id)}
+                style={styles.compareCheckbox}
+                aria-label="Select version to compare"
+                title="Select to compare"
+              />
+
               {/* Version info */}
               <div style={styles.versionInfo}>
                 <div style={styles.versionHeader}>
@@ -416,6 +553,16 @@ export const VersionHistoryPanel = memo(function VersionHistoryPanel({
                     <span> &middot; {version.version.title}</span>
                   )}
                 </div>
+                {(version.version.publishAt || version.version.unpublishAt) && (
+                  <div style={styles.versionDetails}>
+                    {version.version.publishAt
+                      ? `Publish ${new Date(version.version.publishAt).toLocaleString()}`
+                      : `Unpublish ${new Date(version.version.unpublishAt!).toLocaleString()}`}
+                    {version.version.scheduledBy && (
+                      <span> &middot; scheduled by {version.version.scheduledBy}</span>
+                    )}
+                  </div>
+                )}
               </div>
 
               {/* Restore button (not for current version) */}
@@ -456,6 +603,25 @@ export const VersionHistoryPanel = memo(function VersionHistoryPanel({
           ))
         )}
       </div>
+
+      {/* Version comparison */}
+      {comparedVersions && (
+        <VersionDiffModal
+          isOpen={isCompareOpen}
+          onClose={() => setIsCompareOpen(false)}
+          before={{
+            label: new Date(comparedVersions[0].updatedAt).toLocaleString(),
+            data: comparedVersions[0].version.puckData ?? { content: [], root: { props: {} } },
+          }}
+          after={{
+            label: new Date(comparedVersions[1].updatedAt).toLocaleString(),
+            data: comparedVersions[1].version.puckData ?? { content: [], root: { props: {} } },
+          }}
+          config={config}
+          layouts={layouts}
+          onRestoreComponent={handleRestoreComponent}
+        />
+      )}
     </div>
   )
 })
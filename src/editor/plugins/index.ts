@@ -23,3 +23,9 @@ export {
   type VersionHistoryPanelProps,
   type PageVersion,
 } from './VersionHistoryPanel.js'
+
+export {
+  AuditLogList,
+  type AuditLogListProps,
+  type AuditLogEntry,
+} from './AuditLogList.js'
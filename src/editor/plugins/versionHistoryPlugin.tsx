@@ -4,6 +4,7 @@ import { createElement } from 'react'
 import { History } from 'lucide-react'
 import type { Plugin } from '@puckeditor/core'
 import { VersionHistoryPanel } from './VersionHistoryPanel.js'
+import type { LayoutDefinition } from '../../layouts/index.js'
 
 export interface VersionHistoryPluginOptions {
   /**
@@ -16,16 +17,28 @@ export interface VersionHistoryPluginOptions {
    */
   apiEndpoint?: string
   /**
-   * Callback after successful restore (e.g., to mark editor as clean)
+   * Callback after successful restore (e.g., to mark editor as clean).
+   * Receives the restored document.
    */
-  onRestoreSuccess?: () => void
+  onRestoreSuccess?: (doc?: Record<string, any>) => void
+  /**
+   * Layouts used to render versions side by side when comparing
+   */
+  layouts?: LayoutDefinition[]
+  /**
+   * Show an "Activity" tab with the page's audit log.
+   * Requires the plugin's `auditLog` option.
+   */
+  showActivity?: boolean
 }
 
 /**
  * Creates a Puck plugin for version history
  *
  * Adds a "History" button to the plugin rail that opens a panel
- * showing version history with the ability to restore previous versions.
+ * showing version history with the ability to restore previous versions,
+ * or compare two versions and restore single components. With
+ * `showActivity`, the panel also lists who did what to the page.
  *
  * @example
  * ```tsx
@@ -50,6 +63,8 @@ export function createVersionHistoryPlugin(options: VersionHistoryPluginOptions)
         pageId: options.pageId,
         apiEndpoint: options.apiEndpoint,
         onRestoreSuccess: options.onRestoreSuccess,
+        layouts: options.layouts,
+        showActivity: options.showActivity,
       }),
   }
 }
@@ -1,6 +1,7 @@
 import type { PayloadHandler, PayloadRequest } from 'payload'
 import type { AiTool, AiToolContext, AiContext } from '../ai/types.js'
 import { pagePatternSystemContext } from '../ai/presets/index.js'
+import { recordAuditEntry } from '../plugin/hooks/auditLog.js'
 
 // Re-export for convenience
 export type { AiTool, AiToolContext }
@@ -52,6 +53,42 @@ async function fetchDynamicContext(req: PayloadRequest): Promise<string | undefi
   }
 }
 
+/**
+ * Returns the text of the last user message in an AI chat request
+ */
+function getLastPrompt(messages: unknown): string | undefined {
+  if (!Array.isArray(messages)) return undefined
+  const message = [...messages].reverse().find((m) => m?.role === 'user')
+  if (!message) return undefined
+  if (typeof message.content === 'string') return message.content
+  if (Array.isArray(message.parts)) {
+    return message.parts
+      .filter((part: any) => part?.type === 'text' && typeof part.text === 'string')
+      .map((part: any) => part.text)
+      .join(' ')
+  }
+  return undefined
+}
+
+/**
+ * Finds the page being edited from the editor URL in the Referer header
+ * (`.../:collection/:id`), so AI generations can be logged against it
+ */
+function getEditedPage(req: PayloadRequest): { collection: string; id: string } | undefined {
+  const referer = req.headers.get('referer')
+  const collections: string[] = (req.payload.config.custom as any)?.puck?.collections ?? []
+  if (!referer || collections.length === 0) return undefined
+
+  try {
+    const segments = new URL(referer).pathname.split('/').filter(Boolean)
+    const index = segments.findIndex((segment) => collections.includes(segment))
+    const id = index >= 0 ? segments[index + 1] : undefined
+    return id ? { collection: segments[index], id: decodeURIComponent(id) } : undefined
+  } catch {
+    return undefined
+  }
+}
+
 /**
  * Options for the AI endpoint handler
  */
@@ -256,6 +293,20 @@ export function createAiEndpointHandler(options: AiEndpointOptions = {}): Payloa
         }
       }
 
+      if (response.ok) {
+        const page = getEditedPage(req)
+        const prompt = getLastPrompt(body.messages)?.trim()
+        await recordAuditEntry(req, {
+          action: 'aiGeneration',
+          documentCollection: page?.collection,
+          documentId: page?.id,
+          documentTitle: body.pageData?.root?.props?.title,
+          summary: prompt
+            ? `AI prompt: ${prompt.length > 200 ? `${prompt.slice(0, 197)}...` : prompt}`
+            : 'AI generation',
+        })
+      }
+
       return response
     } catch (e) {
       console.error('[payload-puck] AI handler error:', e)
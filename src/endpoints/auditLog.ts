@@ -0,0 +1,78 @@
+/**
+ * Audit Log Endpoint Handler
+ *
+ * Lists the audit log entries of a page, for the editor's History panel.
+ * Registered when the plugin's `auditLog` option is enabled.
+ */
+
+import type { PayloadHandler, CollectionSlug } from 'payload'
+import type { PuckEndpointOptions } from './index.js'
+import { AUDIT_LOG_COLLECTION } from '../collections/AuditLog.js'
+
+/**
+ * GET /api/puck/:collection/:id/audit
+ * List audit log entries for a document, newest first
+ *
+ * Query Parameters:
+ * - page (default: 1), limit (default: 20, max: 100)
+ * - action: only entries with this action
+ */
+export function createAuditLogHandler(options: PuckEndpointOptions): PayloadHandler {
+  const { collections } = options
+
+  return async (req) => {
+    try {
+      if (!req.user) {
+        return Response.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      const collection = req.routeParams?.collection as string
+      const id = req.routeParams?.id as string
+
+      if (!collections.includes(collection)) {
+        return Response.json(
+          { error: `Collection '${collection}' is not configured for Puck` },
+          { status: 400 }
+        )
+      }
+
+      const page = Math.max(1, parseInt(req.searchParams?.get('page') ?? '', 10) || 1)
+      const limit = Math.min(
+        100,
+        Math.max(1, parseInt(req.searchParams?.get('limit') ?? '', 10) || 20)
+      )
+      const action = req.searchParams?.get('action')
+
+      const result = await req.payload.find({
+        collection: AUDIT_LOG_COLLECTION as CollectionSlug,
+        where: {
+          and: [
+            { documentCollection: { equals: collection } },
+            { documentId: { equals: String(id) } },
+            ...(action ? [{ action: { equals: action } }] : []),
+          ],
+        },
+        sort: '-createdAt',
+        page,
+        limit,
+        depth: 0,
+        overrideAccess: false,
+        user: req.user,
+      })
+
+      return Response.json({
+        entries: result.docs,
+        totalDocs: result.totalDocs,
+        page: result.page,
+        totalPages: result.totalPages,
+        hasNextPage: result.hasNextPage,
+      })
+    } catch (error) {
+      console.error('[payload-puck] Audit log error:', error)
+      return Response.json(
+        { error: error instanceof Error ? error.message : 'Audit log failed' },
+        { status: 500 }
+      )
+    }
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * Bulk Endpoint Handler
+ *
+ * Publishes, unpublishes, deletes or changes the layout of many documents
+ * in one request. Each document is processed separately, with the
+ * requesting user's access and the collection's hooks, so one failure
+ * doesn't stop the rest.
+ */
+
+import type { PayloadHandler, PayloadRequest, CollectionSlug, TypedLocale, Where } from 'payload'
+import type { PuckEndpointOptions } from './index.js'
+import { HomepageConflictError } from '../plugin/hooks/isHomepageUnique.js'
+
+/**
+ * Most documents a single bulk request may change
+ */
+export const BULK_MAX_DOCUMENTS = 500
+
+export type PuckBulkOperation = 'publish' | 'unpublish' | 'delete' | 'setLayout'
+
+const BULK_OPERATIONS: PuckBulkOperation[] = ['publish', 'unpublish', 'delete', 'setLayout']
+
+/**
+ * Request body for POST /api/puck/:collection/bulk
+ */
+export interface PuckBulkRequestBody {
+  operation: PuckBulkOperation
+  /** Documents to change. Either `ids` or `where` is required. */
+  ids?: (string | number)[]
+  /** Payload query selecting the documents to change */
+  where?: Where
+  /** Layout value for `setLayout` */
+  layout?: string
+  /** Publish after `setLayout` instead of saving a draft */
+  publish?: boolean
+}
+
+/**
+ * Outcome for a single document
+ */
+export interface PuckBulkResult {
+  id: string | number
+  success: boolean
+  error?: string
+  /** Extra error details, e.g. the existing homepage on a homepage conflict */
+  data?: unknown
+}
+
+async function resolveIds(
+  req: PayloadRequest,
+  collection: string,
+  body: PuckBulkRequestBody
+): Promise<(string | number)[]> {
+  if (Array.isArray(body.ids)) return body.ids
+
+  const result = await req.payload.find({
+    collection: collection as CollectionSlug,
+    where: body.where,
+    draft: true,
+    depth: 0,
+    limit: BULK_MAX_DOCUMENTS + 1,
+    select: { id: true },
+    overrideAccess: false,
+    user: req.user,
+  })
+
+  return result.docs.map((doc) => doc.id)
+}
+
+async function applyOperation(
+  req: PayloadRequest,
+  collection: string,
+  id: string | number,
+  body: PuckBulkRequestBody,
+  locale: TypedLocale | undefined
+): Promise<void> {
+  const args = {
+    collection: collection as CollectionSlug,
+    id,
+    depth: 0,
+    locale,
+    overrideAccess: false,
+    user: req.user,
+  }
+
+  switch (body.operation) {
+    case 'publish':
+    case 'unpublish':
+      // Updating without draft: true publishes the latest draft version
+      await req.payload.update({
+        ...args,
+        data: { _status: body.operation === 'publish' ? 'published' : 'draft' },
+        draft: false,
+      })
+      return
+
+    case 'delete':
+      await req.payload.delete(args)
+      return
+
+    case 'setLayout': {
+      // The renderer reads the layout from root.props, so keep both in sync
+      const doc = (await req.payload.findByID({ ...args, draft: true })) as Record<string, any>
+      const puckData = doc.puckData || { content: [], root: { props: {} } }
+
+      await req.payload.update({
+        ...args,
+        data: {
+          pageLayout: body.layout,
+          puckData: {
+            ...puckData,
+            root: {
+              ...puckData.root,
+              props: { ...puckData.root?.props, pageLayout: body.layout },
+            },
+          },
+          _status: body.publish ? 'published' : 'draft',
+        },
+        draft: !body.publish,
+      })
+      return
+    }
+  }
+}
+
+/**
+ * POST /api/puck/:collection/bulk
+ * Publish, unpublish, delete or set the layout of many documents
+ *
+ * Request Body:
+ * - operation: 'publish' | 'unpublish' | 'delete' | 'setLayout'
+ * - ids or where: the documents to change
+ * - layout: layout value (required for 'setLayout')
+ * - publish: publish after 'setLayout' (default: save as draft)
+ *
+ * Responds with a result per document. Failures such as access errors or
+ * homepage conflicts are reported per document rather than failing the request.
+ */
+export function createBulkHandler(options: PuckEndpointOptions): PayloadHandler {
+  const { collections } = options
+
+  return async (req) => {
+    try {
+      const collection = req.routeParams?.collection as string
+
+      if (!collections.includes(collection)) {
+        return Response.json(
+          { error: `Collection '${collection}' is not configured for Puck` },
+          { status: 400 }
+        )
+      }
+
+      if (!req.user) {
+        return Response.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      const body = ((await req.json?.()) || {}) as PuckBulkRequestBody
+
+      if (!BULK_OPERATIONS.includes(body.operation)) {
+        return Response.json(
+          { error: `Invalid operation: expected one of ${BULK_OPERATIONS.join(', ')}` },
+          { status: 400 }
+        )
+      }
+      if (!Array.isArray(body.ids) && (!body.where || typeof body.where !== 'object')) {
+        return Response.json({ error: 'Either ids or where is required' }, { status: 400 })
+      }
+      if (body.operation === 'setLayout' && (typeof body.layout !== 'string' || !body.layout)) {
+        return Response.json({ error: 'layout is required for setLayout' }, { status: 400 })
+      }
+
+      const ids = await resolveIds(req, collection, body)
+      if (ids.length > BULK_MAX_DOCUMENTS) {
+        return Response.json(
+          { error: `Bulk operations are limited to ${BULK_MAX_DOCUMENTS} documents` },
+          { status: 400 }
+        )
+      }
+
+      const locale = (req.searchParams?.get('locale') || undefined) as TypedLocale | undefined
+      const results: PuckBulkResult[] = []
+
+      // Sequential, so homepage checks see the previous documents' changes
+      for (const id of ids) {
+        try {
+          await applyOperation(req, collection, id, body, locale)
+          results.push({ id, success: true })
+        } catch (error) {
+          results.push({
+            id,
+            success: false,
+            error: error instanceof Error ? error.message : 'Operation failed',
+            ...(error instanceof HomepageConflictError && {
+              data: { existingHomepage: error.existingHomepage },
+            }),
+          })
+        }
+      }
+
+      const succeeded = results.filter((result) => result.success).length
+
+      return Response.json({
+        operation: body.operation,
+        results,
+        succeeded,
+        failed: results.length - succeeded,
+      })
+    } catch (error) {
+      console.error('[payload-puck] Bulk error:', error)
+      return Response.json(
+        { error: error instanceof Error ? error.message : 'Bulk operation failed' },
+        { status: 500 }
+      )
+    }
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Page Bundle Endpoint Handlers
+ *
+ * Export pages as portable JSON bundles and import them into another
+ * Payload instance.
+ */
+
+import type { PayloadHandler } from 'payload'
+import type { PuckEndpointOptions } from './index.js'
+import { createPageBundle, importPageBundle, PageBundleError } from '../export/bundle.js'
+
+export interface PuckBundleEndpointOptions extends PuckEndpointOptions {
+  /**
+   * Upload collection referenced by pages
+   */
+  mediaCollection: string
+  /**
+   * Embed media file contents in exported bundles
+   */
+  includeMediaFiles: boolean
+  /**
+   * Origins the import may download media from
+   */
+  trustedMediaOrigins: string[]
+}
+
+function isEnabled(value: string | null | undefined): boolean {
+  return value === 'true' || value === '1'
+}
+
+/**
+ * GET /api/puck/:collection/:id/export
+ * Download a page bundle
+ *
+ * Query Parameters:
+ * - locale: locale to export
+ * - files: 'false' to leave out media file contents
+ */
+export function createBundleExportHandler(options: PuckBundleEndpointOptions): PayloadHandler {
+  const { collections, mediaCollection, includeMediaFiles } = options
+
+  return async (req) => {
+    try {
+      const collection = req.routeParams?.collection as string
+      const id = req.routeParams?.id as string
+
+      if (!collections.includes(collection)) {
+        return Response.json(
+          { error: `Collection '${collection}' is not configured for Puck` },
+          { status: 400 }
+        )
+      }
+
+      if (!req.user) {
+        return Response.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      const files = req.searchParams?.get('files')
+      const bundle = await createPageBundle({
+        payload: req.payload,
+        collection,
+        id,
+        locale: req.searchParams?.get('locale') || undefined,
+        mediaCollection,
+        includeMediaFiles: files ? isEnabled(files) : includeMediaFiles,
+        user: req.user,
+      })
+
+      const name = String(bundle.page.slug || id).replace(/[^\w-]+/g, '-')
+      return Response.json(bundle, {
+        headers: { 'Content-Disposition': `attachment; filename="${name}.puck.json"` },
+      })
+    } catch (error) {
+      console.error('[payload-puck] Bundle export error:', error)
+      return Response.json(
+        { error: error instanceof Error ? error.message : 'Export failed' },
+        { status: 500 }
+      )
+    }
+  }
+}
+
+/**
+ * POST /api/puck/:collection/import
+ * Import a page bundle (the request body)
+ *
+ * Query Parameters:
+ * - dryRun: 'true' to only report what would happen
+ * - overwrite: 'true' to update the page with the same slug
+ * - publish: 'true' to publish instead of saving a draft
+ * - locale: locale to import into
+ *
+ * Responds with the import report, or 409 with the report when a blocking
+ * collision prevented the import.
+ */
+export function createBundleImportHandler(options: PuckBundleEndpointOptions): PayloadHandler {
+  const { collections, mediaCollection, trustedMediaOrigins } = options
+
+  return async (req) => {
+    try {
+      const collection = req.routeParams?.collection as string
+
+      if (!collections.includes(collection)) {
+        return Response.json(
+          { error: `Collection '${collection}' is not configured for Puck` },
+          { status: 400 }
+        )
+      }
+
+      if (!req.user) {
+        return Response.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      const bundle = await req.json?.().catch(() => undefined)
+      const report = await importPageBundle({
+        payload: req.payload,
+        collection,
+        bundle,
+        dryRun: isEnabled(req.searchParams?.get('dryRun')),
+        overwrite: isEnabled(req.searchParams?.get('overwrite')),
+        publish: isEnabled(req.searchParams?.get('publish')),
+        locale: req.searchParams?.get('locale') || undefined,
+        mediaCollection,
+        trustedMediaOrigins,
+        user: req.user,
+      })
+
+      const blocked = !report.dryRun && !report.imported
+      return Response.json(report, { status: blocked ? 409 : 200 })
+    } catch (error) {
+      if (error instanceof PageBundleError) {
+        return Response.json({ error: error.message }, { status: 400 })
+      }
+      console.error('[payload-puck] Bundle import error:', error)
+      return Response.json(
+        { error: error instanceof Error ? error.message : 'Import failed' },
+        { status: 500 }
+      )
+    }
+  }
+}
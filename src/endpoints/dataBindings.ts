@@ -0,0 +1,115 @@
+/**
+ * Data Bindings Endpoint Handler
+ *
+ * Lists the collections and fields components can be bound to, for the
+ * editor's binding picker. Registered when the plugin's `dataBindings`
+ * option is set.
+ */
+
+import type { FlattenedField, PayloadHandler } from 'payload'
+import type { PuckEndpointOptions } from './index.js'
+
+export interface PuckDataBindingEndpointOptions extends PuckEndpointOptions {
+  /**
+   * Collections whose documents can be bound
+   */
+  bindingCollections: string[]
+}
+
+/**
+ * A field that can be bound, as listed by `GET /api/puck/bindings`
+ */
+export interface DataBindingFieldInfo {
+  /** Dot-separated path, e.g. 'meta.title' */
+  path: string
+  label: string
+  /** Payload field type */
+  type: string
+}
+
+/**
+ * A collection that can be bound, as listed by `GET /api/puck/bindings`
+ */
+export interface DataBindingCollectionInfo {
+  slug: string
+  label: string
+  /** Field used as the document title in search results */
+  titleField: string
+  fields: DataBindingFieldInfo[]
+}
+
+// Field types with values a component can show
+const BINDABLE_FIELD_TYPES = new Set([
+  'text',
+  'textarea',
+  'email',
+  'number',
+  'date',
+  'select',
+  'radio',
+  'checkbox',
+  'code',
+  'upload',
+])
+
+function fieldLabel(field: FlattenedField): string {
+  const label = 'label' in field ? field.label : undefined
+  return typeof label === 'string' && label ? label : field.name
+}
+
+/**
+ * Lists bindable fields, with the fields of groups under their group's path
+ */
+function getBindableFields(fields: FlattenedField[], prefix = '', labelPrefix = ''): DataBindingFieldInfo[] {
+  const result: DataBindingFieldInfo[] = []
+  for (const field of fields) {
+    if (field.name.startsWith('_') || ('hidden' in field && field.hidden)) continue
+    const path = `${prefix}${field.name}`
+    const label = `${labelPrefix}${fieldLabel(field)}`
+
+    if (field.type === 'group') {
+      result.push(...getBindableFields(field.flattenedFields, `${path}.`, `${label} › `))
+    } else if (BINDABLE_FIELD_TYPES.has(field.type) && !('hasMany' in field && field.hasMany)) {
+      result.push({ path, label, type: field.type })
+    }
+  }
+  return result
+}
+
+/**
+ * GET /api/puck/bindings
+ * List the collections and fields components can be bound to
+ */
+export function createDataBindingsHandler(options: PuckDataBindingEndpointOptions): PayloadHandler {
+  const { bindingCollections } = options
+
+  return async (req) => {
+    try {
+      if (!req.user) {
+        return Response.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      const collections: DataBindingCollectionInfo[] = []
+      for (const slug of bindingCollections) {
+        const collectionConfig = req.payload.config.collections.find((c) => c.slug === slug)
+        if (!collectionConfig) continue
+
+        const plural = collectionConfig.labels?.plural
+        collections.push({
+          slug,
+          label: typeof plural === 'string' ? plural : slug,
+          titleField: collectionConfig.admin?.useAsTitle || 'id',
+          fields: getBindableFields(collectionConfig.flattenedFields),
+        })
+      }
+
+      return Response.json({ collections })
+    } catch (error) {
+      console.error('[payload-puck] Data bindings error:', error)
+      return Response.json(
+        { error: error instanceof Error ? error.message : 'Failed to list data bindings' },
+        { status: 500 }
+      )
+    }
+  }
+}
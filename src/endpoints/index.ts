@@ -5,17 +5,47 @@
  * They provide CRUD operations for Puck-enabled collections.
  */
 
-import type { PayloadHandler, CollectionSlug } from 'payload'
+import type {
+  PayloadHandler,
+  PayloadRequest,
+  CollectionSlug,
+  RequiredDataFromCollectionSlug,
+  TypedLocale,
+} from 'payload'
+import type { Data as PuckData } from '@puckeditor/core'
 import { APIError } from 'payload'
 import { unsetHomepage, HomepageConflictError } from '../plugin/hooks/isHomepageUnique.js'
+import { recordAuditEntry } from '../plugin/hooks/auditLog.js'
+import { isStaleUpdate, STALE_UPDATE_MESSAGE } from '../utils/concurrency.js'
+import { parseListQuery, ListQueryError } from '../api/utils/listQuery.js'
+import { regenerateComponentIds } from '../utils/componentIds.js'
 
 export interface PuckEndpointOptions {
   collections: string[]
+  /**
+   * Default Puck data per collection, used when a document is created without puckData
+   */
+  defaultPuckData?: Record<string, PuckData>
+}
+
+/**
+ * Reads the `?locale=` query param used by the editor to load and save a single locale
+ */
+function getRequestLocale(req: PayloadRequest): TypedLocale | undefined {
+  const locale = req.searchParams?.get('locale')
+  return locale ? (locale as TypedLocale) : undefined
 }
 
 /**
  * GET /api/puck/:collection
- * List all documents in a Puck-enabled collection
+ * List documents in a Puck-enabled collection
+ *
+ * Query Parameters:
+ * - page, limit (default: 100, max: 100), sort (default: '-updatedAt')
+ * - where: Payload query as JSON or bracket notation
+ * - status: 'draft', 'published' or 'all' (default: 'all')
+ * - search: Search in title and slug
+ * - select: Comma-separated fields, or '*' to include puckData
  */
 export function createListHandler(options: PuckEndpointOptions): PayloadHandler {
   const { collections } = options
@@ -31,15 +61,27 @@ export function createListHandler(options: PuckEndpointOptions): PayloadHandler
         )
       }
 
+      const versions = req.payload.collections[collection as CollectionSlug]?.config.versions
+      const query = parseListQuery(req.searchParams ?? new URLSearchParams(), {
+        defaultLimit: 100,
+        drafts: typeof versions === 'object' && !!versions?.drafts,
+      })
+
+      // Apply the user's read access, including field access in `where`
       const result = await req.payload.find({
         collection: collection as CollectionSlug,
-        draft: true,
+        ...query,
         depth: 0,
-        limit: 100,
+        locale: getRequestLocale(req),
+        overrideAccess: false,
+        user: req.user,
       })
 
       return Response.json(result)
     } catch (error) {
+      if (error instanceof ListQueryError) {
+        return Response.json({ error: error.message }, { status: 400 })
+      }
       console.error('[payload-puck] List error:', error)
       return Response.json(
         { error: error instanceof Error ? error.message : 'List failed' },
@@ -54,7 +96,7 @@ export function createListHandler(options: PuckEndpointOptions): PayloadHandler
  * Create a new document in a Puck-enabled collection
  */
 export function createCreateHandler(options: PuckEndpointOptions): PayloadHandler {
-  const { collections } = options
+  const { collections, defaultPuckData = {} } = options
 
   return async (req) => {
     try {
@@ -68,16 +110,32 @@ export function createCreateHandler(options: PuckEndpointOptions): PayloadHandle
       }
 
       const body = await req.json?.()
+      const collectionDefault = defaultPuckData[collection]
 
       const doc = await req.payload.create({
         collection: collection as CollectionSlug,
-        data: body,
+        data:
+          collectionDefault && !body?.puckData
+            ? { ...body, puckData: collectionDefault }
+            : body,
         draft: true,
+        locale: getRequestLocale(req),
+        // Run hooks as the requesting user (recorded in the audit log)
+        user: req.user ?? undefined,
       })
 
       return Response.json({ doc })
     } catch (error) {
       console.error('[payload-puck] Create error:', error)
+
+      // Validation errors carry field errors for the client
+      if (error instanceof APIError) {
+        return Response.json(
+          { error: error.message, data: error.data },
+          { status: error.status || 500 }
+        )
+      }
+
       return Response.json(
         { error: error instanceof Error ? error.message : 'Create failed' },
         { status: 500 }
@@ -105,11 +163,15 @@ export function createGetHandler(options: PuckEndpointOptions): PayloadHandler {
         )
       }
 
+      const locale = getRequestLocale(req)
+
       const doc = await req.payload.findByID({
         collection: collection as CollectionSlug,
         id,
         draft: true,
         depth: 0,
+        // Don't fall back to the default locale so untranslated pages load empty
+        ...(locale && { locale, fallbackLocale: false }),
       })
 
       return Response.json({ doc })
@@ -126,6 +188,9 @@ export function createGetHandler(options: PuckEndpointOptions): PayloadHandler {
 /**
  * PATCH /api/puck/:collection/:id
  * Update a document (supports draft saving, publishing, and homepage swapping)
+ *
+ * When the body includes `expectedUpdatedAt` and the document has been saved
+ * since, responds with 409 and the newer document.
  */
 export function createUpdateHandler(options: PuckEndpointOptions): PayloadHandler {
   const { collections } = options
@@ -143,14 +208,32 @@ export function createUpdateHandler(options: PuckEndpointOptions): PayloadHandle
       }
 
       const body = await req.json?.()
-      const { _status, swapHomepage, ...data } = body || {}
+      const { _status, swapHomepage, expectedUpdatedAt, ...data } = body || {}
 
       // Determine if this is a publish or draft save
       const shouldPublish = _status === 'published'
 
+      const locale = getRequestLocale(req)
+
+      // Reject saves based on an outdated version (optimistic concurrency)
+      if (expectedUpdatedAt) {
+        const current = await req.payload.findByID({
+          collection: collection as CollectionSlug,
+          id,
+          draft: true,
+          depth: 0,
+          ...(locale && { locale, fallbackLocale: false }),
+        })
+
+        if (isStaleUpdate(expectedUpdatedAt, current?.updatedAt)) {
+          return Response.json({ error: STALE_UPDATE_MESSAGE, doc: current }, { status: 409 })
+        }
+      }
+
       // Handle homepage swap if requested
       // When swapHomepage is true and isHomepage is being set to true,
       // we need to unset the current homepage first
+      let previousHomepage: Record<string, any> | undefined
       if (swapHomepage && data.isHomepage === true) {
         // Find the current homepage
         const existingHomepage = await req.payload.find({
@@ -167,8 +250,8 @@ export function createUpdateHandler(options: PuckEndpointOptions): PayloadHandle
 
         // Unset the existing homepage if found
         if (existingHomepage.docs.length > 0) {
-          const existingId = String(existingHomepage.docs[0].id)
-          await unsetHomepage(req.payload, collection, existingId)
+          previousHomepage = existingHomepage.docs[0]
+          await unsetHomepage(req.payload, collection, String(previousHomepage.id))
         }
       }
 
@@ -180,10 +263,24 @@ export function createUpdateHandler(options: PuckEndpointOptions): PayloadHandle
           _status: shouldPublish ? 'published' : 'draft',
         },
         draft: !shouldPublish,
+        locale,
+        // Run hooks as the requesting user (recorded as scheduledBy when scheduling)
+        user: req.user ?? undefined,
         // Skip the isHomepage hook if we've already handled the swap
         context: swapHomepage ? { skipIsHomepageHook: true } : undefined,
       })
 
+      if (previousHomepage) {
+        await recordAuditEntry(req, {
+          action: 'homepageSwap',
+          documentCollection: collection,
+          documentId: doc.id,
+          documentTitle: (doc as Record<string, any>).title,
+          summary: `Replaced "${previousHomepage.title ?? previousHomepage.id}" as the homepage`,
+          changes: { fields: ['isHomepage'] },
+        })
+      }
+
       return Response.json({ doc, published: shouldPublish })
     } catch (error) {
       console.error('[payload-puck] Update error:', error)
@@ -240,6 +337,8 @@ export function createDeleteHandler(options: PuckEndpointOptions): PayloadHandle
       await req.payload.delete({
         collection: collection as CollectionSlug,
         id,
+        // Run hooks as the requesting user (recorded in the audit log)
+        user: req.user ?? undefined,
       })
 
       return Response.json({ success: true })
@@ -279,6 +378,7 @@ export function createVersionsHandler(options: PuckEndpointOptions): PayloadHand
         },
         sort: '-updatedAt',
         limit: 20,
+        locale: getRequestLocale(req),
       })
 
       return Response.json({ versions: versions.docs })
@@ -324,6 +424,8 @@ export function createRestoreHandler(options: PuckEndpointOptions): PayloadHandl
       const doc = await req.payload.restoreVersion({
         collection: collection as CollectionSlug,
         id: versionId,
+        // Run hooks as the requesting user (recorded in the audit log)
+        user: req.user ?? undefined,
       })
 
       return Response.json({ doc })
@@ -336,3 +438,98 @@ export function createRestoreHandler(options: PuckEndpointOptions): PayloadHandl
     }
   }
 }
+
+/**
+ * POST /api/puck/:collection/:id/duplicate
+ * Duplicate a document as a new draft
+ *
+ * Every component gets a new ID, also in collections with their own
+ * puckData field. The copy is never the homepage and has no publishing
+ * schedule.
+ *
+ * Request Body:
+ * - folder?: page-tree folder ID for the copy (null for the root, default: same folder)
+ */
+export function createDuplicateHandler(options: PuckEndpointOptions): PayloadHandler {
+  const { collections } = options
+
+  return async (req) => {
+    try {
+      const collection = req.routeParams?.collection as string
+      const id = req.routeParams?.id as string
+
+      if (!req.user) {
+        return Response.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      if (!collections.includes(collection)) {
+        return Response.json(
+          { error: `Collection '${collection}' is not configured for Puck` },
+          { status: 400 }
+        )
+      }
+
+      const body = await req.json?.().catch(() => undefined)
+      const locale = getRequestLocale(req)
+      const fieldNames = new Set(
+        req.payload.collections[collection as CollectionSlug]?.config.flattenedFields.map(
+          (field) => field.name
+        )
+      )
+      const folderFieldName =
+        (req.payload.config.custom?.puck?.pageTree as { folderFieldName?: string } | null)
+          ?.folderFieldName ?? 'folder'
+
+      // Only reset fields the collection has
+      const data: Partial<RequiredDataFromCollectionSlug<CollectionSlug>> = { _status: 'draft' }
+      if (fieldNames.has('isHomepage')) data.isHomepage = false
+      if (fieldNames.has('publishAt')) data.publishAt = null
+      if (fieldNames.has('unpublishAt')) data.unpublishAt = null
+      if (body && 'folder' in body && fieldNames.has(folderFieldName)) {
+        data[folderFieldName] = body.folder ?? null
+      }
+
+      // The plugin's puckData field regenerates IDs in a beforeDuplicate hook,
+      // but collections may define their own puckData field
+      if (fieldNames.has('puckData')) {
+        const source = await req.payload.findByID({
+          collection: collection as CollectionSlug,
+          id,
+          draft: true,
+          depth: 0,
+          locale,
+          overrideAccess: false,
+          user: req.user,
+        })
+        if (source.puckData) data.puckData = regenerateComponentIds(source.puckData)
+      }
+
+      const doc = await req.payload.duplicate({
+        collection: collection as CollectionSlug,
+        id,
+        data,
+        draft: true,
+        depth: 0,
+        locale,
+        overrideAccess: false,
+        user: req.user,
+      })
+
+      return Response.json({ doc })
+    } catch (error) {
+      console.error('[payload-puck] Duplicate error:', error)
+
+      if (error instanceof APIError) {
+        return Response.json(
+          { error: error.message, data: error.data },
+          { status: error.status || 500 }
+        )
+      }
+
+      return Response.json(
+        { error: error instanceof Error ? error.message : 'Duplicate failed' },
+        { status: 500 }
+      )
+    }
+  }
+}
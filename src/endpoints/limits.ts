@@ -0,0 +1,324 @@
+/**
+ * Rate and Size Limits
+ *
+ * Wraps endpoint handlers with per-user and per-IP rate limits and page save
+ * size limits. Registered by `createPuckPlugin` when the `limits` option is
+ * enabled, and applied by the Next.js route helpers with their own `limits`
+ * option.
+ */
+
+import type { PayloadHandler } from 'payload'
+import type {
+  PuckLimitOptions,
+  PuckRateLimitRule,
+  PuckRateLimitStore,
+} from '../types/index.js'
+
+export const DEFAULT_AI_RATE_LIMIT: PuckRateLimitRule = { perUser: 20, perIp: 60, window: 60 }
+export const DEFAULT_SAVE_RATE_LIMIT: PuckRateLimitRule = { perUser: 60, perIp: 120, window: 60 }
+export const DEFAULT_MAX_BODY_SIZE = 5 * 1024 * 1024
+export const DEFAULT_MAX_COMPONENTS = 2000
+
+/**
+ * Limits applied to a single endpoint
+ */
+export interface EndpointLimits {
+  /**
+   * Rate limit, counted separately for each `name`
+   */
+  rateLimit?: {
+    name: string
+    /** Used in the 429 message, e.g. 'AI requests' */
+    label: string
+    rule: PuckRateLimitRule
+    store: PuckRateLimitStore
+    /** Client IP for `perIp` counts. Without it, requests are only counted per user. */
+    getIp?: (request: { headers: Headers }) => string | null | undefined
+  }
+  /** Maximum request body size in bytes */
+  maxBodySize?: number
+  /** Maximum number of components in the body's `puckData` */
+  maxComponents?: number
+}
+
+/**
+ * Limits resolved from the plugin's `limits` option
+ */
+export interface ResolvedLimits {
+  ai: EndpointLimits
+  saves: EndpointLimits
+}
+
+/**
+ * Request checked against limits: a Payload request or a Next.js route
+ * handler request
+ */
+interface LimitedRequest {
+  headers: Headers
+  text?: () => Promise<string>
+  json?: () => Promise<unknown>
+}
+
+/**
+ * User that rate limits are counted for
+ */
+interface LimitedUser {
+  id: string | number
+  collection?: string
+}
+
+/**
+ * Creates the default rate limit store. Counters live in memory, so each
+ * server process counts separately.
+ */
+export function createMemoryRateLimitStore(): PuckRateLimitStore {
+  const counters = new Map<string, { count: number; resetAt: number }>()
+
+  return {
+    async increment(key, windowMs) {
+      const now = Date.now()
+
+      // Drop ended windows now and then so the map doesn't grow unbounded
+      if (counters.size > 10000) {
+        for (const [counterKey, counter] of counters) {
+          if (counter.resetAt <= now) counters.delete(counterKey)
+        }
+      }
+
+      const current = counters.get(key)
+      const counter =
+        current && current.resetAt > now
+          ? { count: current.count + 1, resetAt: current.resetAt }
+          : { count: 1, resetAt: now + windowMs }
+      counters.set(key, counter)
+      return counter
+    },
+  }
+}
+
+// Shared by every resolveLimits() call without a store, so the plugin
+// endpoints and the route helpers count together
+let defaultStore: PuckRateLimitStore | undefined
+
+/**
+ * Resolves the plugin's `limits` option, filling in defaults
+ */
+export function resolveLimits(options: true | PuckLimitOptions): ResolvedLimits {
+  const {
+    ai = DEFAULT_AI_RATE_LIMIT,
+    saves = DEFAULT_SAVE_RATE_LIMIT,
+    store = (defaultStore ??= createMemoryRateLimitStore()),
+    maxBodySize = DEFAULT_MAX_BODY_SIZE,
+    maxComponents = DEFAULT_MAX_COMPONENTS,
+    trustProxy = false,
+    getIp = trustProxy ? getForwardedIp : undefined,
+  } = options === true ? {} : options
+
+  return {
+    ai: {
+      ...(ai && { rateLimit: { name: 'ai', label: 'AI requests', rule: ai, store, getIp } }),
+    },
+    saves: {
+      ...(saves && { rateLimit: { name: 'saves', label: 'saves', rule: saves, store, getIp } }),
+      ...(maxBodySize !== false && { maxBodySize }),
+      ...(maxComponents !== false && { maxComponents }),
+    },
+  }
+}
+
+/**
+ * Client IP from proxy headers. Only trustworthy behind a proxy that sets
+ * them, so it's only used with `trustProxy`.
+ */
+function getForwardedIp(req: { headers: Headers }): string | undefined {
+  const forwarded = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim()
+  return forwarded || req.headers.get('x-real-ip') || undefined
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} bytes`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, '')} MB`
+}
+
+/**
+ * Counts the components in Puck data, including zones and slots
+ */
+function countComponents(data: unknown): number {
+  const countItems = (items: unknown): number => {
+    if (!Array.isArray(items)) return 0
+    let count = 0
+    for (const item of items) {
+      if (!item || typeof item !== 'object' || !('type' in item)) continue
+      count += 1
+      const props = (item as { props?: Record<string, unknown> }).props
+      for (const value of Object.values(props ?? {})) {
+        count += countItems(value)
+      }
+    }
+    return count
+  }
+
+  if (!data || typeof data !== 'object') return 0
+  const { content, zones } = data as { content?: unknown; zones?: Record<string, unknown> }
+  let count = countItems(content)
+  for (const zone of Object.values(zones ?? {})) {
+    count += countItems(zone)
+  }
+  return count
+}
+
+/**
+ * Counts the request and returns a 429 response if the user or IP is over the limit
+ */
+async function checkRateLimit(
+  req: LimitedRequest,
+  user: LimitedUser | null | undefined,
+  rateLimit: NonNullable<EndpointLimits['rateLimit']>
+): Promise<Response | null> {
+  const { name, label, rule, store, getIp } = rateLimit
+  const windowMs = (rule.window ?? 60) * 1000
+  const checks: Array<{ key: string; max: number }> = []
+
+  if (user && rule.perUser !== false && rule.perUser !== undefined) {
+    checks.push({ key: `${name}:user:${user.collection}:${user.id}`, max: rule.perUser })
+  }
+  // Without a trusted IP, requests are only counted per user
+  const ip = getIp?.(req)
+  if (ip && rule.perIp !== false && rule.perIp !== undefined) {
+    checks.push({ key: `${name}:ip:${ip}`, max: rule.perIp })
+  }
+
+  for (const { key, max } of checks) {
+    const { count, resetAt } = await store.increment(key, windowMs)
+    if (count > max) {
+      const retryAfter = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000))
+      return Response.json(
+        {
+          error: `Too many ${label}. Try again in ${retryAfter} second${retryAfter === 1 ? '' : 's'}.`,
+          retryAfter,
+        },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      )
+    }
+  }
+
+  return null
+}
+
+/**
+ * Reads the body and returns a 413 response if it's over the size or
+ * component limit. The parsed body stays available through `req.json()`.
+ */
+async function checkBody(req: LimitedRequest, limits: EndpointLimits): Promise<Response | null> {
+  const { maxBodySize, maxComponents } = limits
+
+  if (maxBodySize !== undefined) {
+    // Reject early when the declared length is already too large
+    const declared = Number(req.headers.get('content-length'))
+    if (declared > maxBodySize) {
+      return Response.json(
+        {
+          error: `The request is too large (${formatBytes(declared)}). The limit is ${formatBytes(maxBodySize)}.`,
+        },
+        { status: 413 }
+      )
+    }
+  }
+
+  if (!req.text) return null
+  const text = await req.text()
+  const size = Buffer.byteLength(text)
+
+  if (maxBodySize !== undefined && size > maxBodySize) {
+    return Response.json(
+      {
+        error: `The request is too large (${formatBytes(size)}). The limit is ${formatBytes(maxBodySize)}.`,
+      },
+      { status: 413 }
+    )
+  }
+
+  let body: unknown
+  try {
+    body = text ? JSON.parse(text) : undefined
+  } catch {
+    return Response.json({ error: 'Request body is not valid JSON' }, { status: 400 })
+  }
+  // The body stream is used up, so hand the parsed body to the handler
+  req.json = async () => body
+
+  const puckData = body && typeof body === 'object' && 'puckData' in body ? body.puckData : undefined
+  if (maxComponents !== undefined && puckData) {
+    const count = countComponents(puckData)
+    if (count > maxComponents) {
+      return Response.json(
+        {
+          error: `The page has too many components (${count.toLocaleString('en-US')}). The limit is ${maxComponents.toLocaleString('en-US')}.`,
+        },
+        { status: 413 }
+      )
+    }
+  }
+
+  return null
+}
+
+/**
+ * Checks a request against rate and size limits and returns the 429 or 413
+ * response if it's over one. Call it after authentication, so rate limits
+ * are also counted per user.
+ *
+ * @example
+ * ```typescript
+ * const limits = resolveLimits({ saves: { perUser: 30 } })
+ *
+ * export async function POST(request: NextRequest) {
+ *   const limited = await checkLimits(request, limits.saves, user)
+ *   if (limited) return limited
+ *   // ...
+ * }
+ * ```
+ */
+export async function checkLimits(
+  req: LimitedRequest,
+  limits: EndpointLimits,
+  user?: LimitedUser | null
+): Promise<Response | null> {
+  try {
+    if (limits.rateLimit) {
+      const limited = await checkRateLimit(req, user, limits.rateLimit)
+      if (limited) return limited
+    }
+
+    if (limits.maxBodySize !== undefined || limits.maxComponents !== undefined) {
+      return await checkBody(req, limits)
+    }
+  } catch (error) {
+    console.error('[payload-puck] Limits error:', error)
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Limit check failed' },
+      { status: 500 }
+    )
+  }
+
+  return null
+}
+
+/**
+ * Wraps a handler with rate and size limits. Limits that are not set are
+ * skipped.
+ *
+ * @example
+ * ```typescript
+ * const limits = resolveLimits({ ai: { perUser: 10 } })
+ * const handler = withLimits(createAiEndpointHandler(), limits.ai)
+ * ```
+ */
+export function withLimits(handler: PayloadHandler, limits: EndpointLimits): PayloadHandler {
+  if (!limits.rateLimit && limits.maxBodySize === undefined && limits.maxComponents === undefined) {
+    return handler
+  }
+
+  return async (req) => (await checkLimits(req, limits, req.user)) ?? handler(req)
+}
@@ -0,0 +1,322 @@
+/**
+ * Edit Lock Endpoint Handlers
+ *
+ * Heartbeat-based locking and presence for pages open in the Puck editor.
+ * Each editor session posts a heartbeat; sessions that stop sending one
+ * expire after the configured timeout.
+ */
+
+import type { PayloadHandler, PayloadRequest, CollectionSlug, Where } from 'payload'
+import type { PuckEndpointOptions } from './index.js'
+import type { PuckEditLockingOptions } from '../types/index.js'
+import { EDIT_LOCKS_COLLECTION } from '../collections/EditLocks.js'
+
+export interface PuckEditLockEndpointOptions extends PuckEndpointOptions {
+  /**
+   * Seconds without a heartbeat before an editor counts as gone
+   */
+  timeout: number
+  /**
+   * Whether a user may take over a page someone else is editing
+   */
+  canTakeOver: NonNullable<PuckEditLockingOptions['canTakeOver']>
+}
+
+/**
+ * An editor session with the page open
+ */
+export interface EditLockEditor {
+  userId: string | null
+  userLabel: string
+  /** When the session opened the page */
+  since: string
+  lastSeen: string
+}
+
+/**
+ * Lock and presence state returned to an editor session
+ */
+export interface EditLockState {
+  /** Session holding the lock (null if nobody has the page open) */
+  holder: EditLockEditor | null
+  /** Whether the requesting session holds the lock */
+  isHolder: boolean
+  /** Other sessions with the page open */
+  editors: EditLockEditor[]
+  /** Whether the requesting user may take over the lock */
+  canTakeOver: boolean
+}
+
+interface EditLockDoc {
+  id: string | number
+  documentCollection: string
+  documentId: string
+  sessionId: string
+  userId?: string | null
+  userLabel?: string | null
+  lastSeen: string
+  takenOverAt?: string | null
+  createdAt: string
+}
+
+export const DEFAULT_LOCK_TIMEOUT = 60
+
+/**
+ * Default take-over check: users with `role: 'admin'` or `roles` including 'admin'
+ */
+export function defaultCanTakeOver(user: PayloadRequest['user']): boolean {
+  const { role, roles } = (user || {}) as { role?: unknown; roles?: unknown }
+  return role === 'admin' || (Array.isArray(roles) && roles.includes('admin'))
+}
+
+function getUserLabel(user: NonNullable<PayloadRequest['user']>): string {
+  const { name, email } = user as { name?: unknown; email?: unknown }
+  if (typeof name === 'string' && name) return name
+  if (typeof email === 'string' && email) return email
+  return String(user.id)
+}
+
+/**
+ * Most recent take-over wins, otherwise whoever opened the page first
+ */
+function findHolder(locks: EditLockDoc[]): EditLockDoc | undefined {
+  return [...locks].sort((a, b) => {
+    const takenA = a.takenOverAt ? new Date(a.takenOverAt).getTime() : 0
+    const takenB = b.takenOverAt ? new Date(b.takenOverAt).getTime() : 0
+    if (takenA !== takenB) return takenB - takenA
+    return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  })[0]
+}
+
+function toEditor(lock: EditLockDoc): EditLockEditor {
+  return {
+    userId: lock.userId ?? null,
+    userLabel: lock.userLabel || 'Unknown user',
+    since: lock.createdAt,
+    lastSeen: lock.lastSeen,
+  }
+}
+
+/**
+ * Removes expired sessions and returns the active ones
+ */
+async function getActiveLocks(
+  req: PayloadRequest,
+  where: Where,
+  timeout: number
+): Promise<EditLockDoc[]> {
+  const cutoff = new Date(Date.now() - timeout * 1000).toISOString()
+
+  await req.payload.delete({
+    collection: EDIT_LOCKS_COLLECTION as CollectionSlug,
+    where: { and: [where, { lastSeen: { less_than: cutoff } }] },
+  })
+
+  const result = await req.payload.find({
+    collection: EDIT_LOCKS_COLLECTION as CollectionSlug,
+    where,
+    depth: 0,
+    limit: 1000,
+    pagination: false,
+  })
+
+  return result.docs as unknown as EditLockDoc[]
+}
+
+function documentWhere(collection: string, id: string): Where {
+  return {
+    and: [{ documentCollection: { equals: collection } }, { documentId: { equals: id } }],
+  }
+}
+
+async function buildLockState(
+  req: PayloadRequest,
+  locks: EditLockDoc[],
+  sessionId: string | undefined,
+  canTakeOver: PuckEditLockEndpointOptions['canTakeOver']
+): Promise<EditLockState> {
+  const holder = findHolder(locks)
+
+  return {
+    holder: holder ? toEditor(holder) : null,
+    isHolder: !!holder && !!sessionId && holder.sessionId === sessionId,
+    editors: locks.filter((lock) => lock.sessionId !== sessionId).map(toEditor),
+    canTakeOver: await canTakeOver(req.user),
+  }
+}
+
+/**
+ * GET /api/puck/:collection/locks
+ * Current lock holder for every locked document in a collection
+ */
+export function createLockListHandler(options: PuckEditLockEndpointOptions): PayloadHandler {
+  const { collections, timeout } = options
+
+  return async (req) => {
+    try {
+      const collection = req.routeParams?.collection as string
+
+      if (!collections.includes(collection)) {
+        return Response.json(
+          { error: `Collection '${collection}' is not configured for Puck` },
+          { status: 400 }
+        )
+      }
+
+      if (!req.user) {
+        return Response.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      const locks = await getActiveLocks(
+        req,
+        { documentCollection: { equals: collection } },
+        timeout
+      )
+
+      const byDocument = new Map<string, EditLockDoc[]>()
+      for (const lock of locks) {
+        byDocument.set(lock.documentId, [...(byDocument.get(lock.documentId) || []), lock])
+      }
+
+      const result: Record<string, EditLockEditor & { editors: number }> = {}
+      for (const [documentId, documentLocks] of byDocument) {
+        const holder = findHolder(documentLocks)
+        if (holder) {
+          result[documentId] = { ...toEditor(holder), editors: documentLocks.length }
+        }
+      }
+
+      return Response.json({ locks: result })
+    } catch (error) {
+      console.error('[payload-puck] Lock list error:', error)
+      return Response.json(
+        { error: error instanceof Error ? error.message : 'Lock list failed' },
+        { status: 500 }
+      )
+    }
+  }
+}
+
+/**
+ * POST /api/puck/:collection/:id/lock
+ * Heartbeat for an editor session. Send `{ takeOver: true }` to take over the lock.
+ */
+export function createLockHeartbeatHandler(options: PuckEditLockEndpointOptions): PayloadHandler {
+  const { collections, timeout, canTakeOver } = options
+
+  return async (req) => {
+    try {
+      const collection = req.routeParams?.collection as string
+      const id = req.routeParams?.id as string
+
+      if (!collections.includes(collection)) {
+        return Response.json(
+          { error: `Collection '${collection}' is not configured for Puck` },
+          { status: 400 }
+        )
+      }
+
+      if (!req.user) {
+        return Response.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      const body = await req.json?.()
+      const { sessionId, takeOver } = (body || {}) as { sessionId?: string; takeOver?: boolean }
+
+      if (!sessionId) {
+        return Response.json({ error: 'Missing sessionId in request body' }, { status: 400 })
+      }
+
+      if (takeOver && !(await canTakeOver(req.user))) {
+        return Response.json(
+          { error: 'Not authorized to take over this page' },
+          { status: 403 }
+        )
+      }
+
+      const now = new Date().toISOString()
+      const locks = await getActiveLocks(req, documentWhere(collection, id), timeout)
+      const existing = locks.find((lock) => lock.sessionId === sessionId)
+
+      const data = {
+        lastSeen: now,
+        ...(takeOver && { takenOverAt: now }),
+      }
+
+      const saved = existing
+        ? await req.payload.update({
+            collection: EDIT_LOCKS_COLLECTION as CollectionSlug,
+            id: existing.id,
+            data,
+          })
+        : await req.payload.create({
+            collection: EDIT_LOCKS_COLLECTION as CollectionSlug,
+            data: {
+              ...data,
+              documentCollection: collection,
+              documentId: String(id),
+              sessionId,
+              userId: String(req.user.id),
+              userLabel: getUserLabel(req.user),
+            },
+          })
+
+      const activeLocks = [
+        ...locks.filter((lock) => lock.sessionId !== sessionId),
+        saved as unknown as EditLockDoc,
+      ]
+
+      return Response.json({ lock: await buildLockState(req, activeLocks, sessionId, canTakeOver) })
+    } catch (error) {
+      console.error('[payload-puck] Lock heartbeat error:', error)
+      return Response.json(
+        { error: error instanceof Error ? error.message : 'Lock heartbeat failed' },
+        { status: 500 }
+      )
+    }
+  }
+}
+
+/**
+ * DELETE /api/puck/:collection/:id/lock?sessionId=
+ * Release an editor session's lock (sent when the editor closes)
+ */
+export function createLockReleaseHandler(options: PuckEditLockEndpointOptions): PayloadHandler {
+  const { collections } = options
+
+  return async (req) => {
+    try {
+      const collection = req.routeParams?.collection as string
+      const id = req.routeParams?.id as string
+      const sessionId = req.searchParams?.get('sessionId')
+
+      if (!collections.includes(collection)) {
+        return Response.json(
+          { error: `Collection '${collection}' is not configured for Puck` },
+          { status: 400 }
+        )
+      }
+
+      if (!req.user) {
+        return Response.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      if (!sessionId) {
+        return Response.json({ error: 'Missing sessionId query parameter' }, { status: 400 })
+      }
+
+      await req.payload.delete({
+        collection: EDIT_LOCKS_COLLECTION as CollectionSlug,
+        where: { and: [documentWhere(collection, id), { sessionId: { equals: sessionId } }] },
+      })
+
+      return Response.json({ success: true })
+    } catch (error) {
+      console.error('[payload-puck] Lock release error:', error)
+      return Response.json(
+        { error: error instanceof Error ? error.message : 'Lock release failed' },
+        { status: 500 }
+      )
+    }
+  }
+}
@@ -0,0 +1,643 @@
+/**
+ * OpenAPI Endpoint Handler
+ *
+ * Describes the Puck REST endpoints as an OpenAPI 3.1 document. The paths are
+ * generated from the endpoints `createPuckPlugin` registers, so the document
+ * only lists routes that are enabled in the current configuration.
+ */
+
+import type { Endpoint, PayloadHandler } from 'payload'
+import type { PuckEndpointOptions } from './index.js'
+import {
+  apiResponseSchema,
+  createPageBodySchema,
+  pageVersionSchema,
+  puckDataSchema,
+  updatePageBodySchema,
+  type JsonSchema,
+} from '../api/schemas.js'
+import { VERSION } from '../version.js'
+
+/**
+ * Path of the OpenAPI document, relative to the Payload API route
+ */
+export const PUCK_OPENAPI_PATH = '/puck/openapi.json'
+
+/**
+ * A registered route, as found in `config.endpoints`
+ */
+export type PuckOpenApiRoute = Pick<Endpoint, 'path' | 'method'>
+
+export interface PuckOpenApiOptions {
+  /**
+   * Routes to describe. Routes outside `/puck` are ignored.
+   */
+  routes: PuckOpenApiRoute[]
+  /**
+   * Puck-enabled collection slugs, listed as values of the `collection` path parameter
+   */
+  collections: string[]
+  /**
+   * Base URL of the Payload API, e.g. 'https://example.com/api'
+   * @default '/api'
+   */
+  serverUrl?: string
+}
+
+interface QueryParameterDoc {
+  name: string
+  description: string
+  schema?: JsonSchema
+}
+
+interface OperationDoc {
+  summary: string
+  description?: string
+  tag: string
+  query?: QueryParameterDoc[]
+  requestBody?: JsonSchema
+  response?: JsonSchema
+  /** Operation doesn't require authentication */
+  public?: boolean
+}
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` })
+
+const docResponse: JsonSchema = {
+  type: 'object',
+  properties: { doc: { type: 'object', additionalProperties: true } },
+}
+
+const successResponse: JsonSchema = {
+  type: 'object',
+  properties: { success: { type: 'boolean' } },
+}
+
+const localeQuery: QueryParameterDoc = {
+  name: 'locale',
+  description: 'Locale to read or write (when localization is enabled)',
+}
+
+const lockEditorSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    userId: { type: ['string', 'null'] },
+    userLabel: { type: 'string' },
+    since: { type: 'string', format: 'date-time' },
+    lastSeen: { type: 'string', format: 'date-time' },
+  },
+}
+
+const aiPromptBody: JsonSchema = {
+  type: 'object',
+  properties: {
+    label: { type: 'string' },
+    prompt: { type: 'string' },
+    category: { type: 'string' },
+    order: { type: 'number' },
+  },
+}
+
+const aiContextBody: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    content: { type: 'string' },
+    category: { type: 'string' },
+    enabled: { type: 'boolean' },
+    order: { type: 'number' },
+  },
+}
+
+/**
+ * Documentation for each route, keyed by `<method> <path>`.
+ * Routes without an entry are still listed, with a generic summary.
+ */
+const OPERATIONS: Record<string, OperationDoc> = {
+  [`get ${PUCK_OPENAPI_PATH}`]: {
+    summary: 'Get this OpenAPI document',
+    tag: 'Meta',
+    response: { type: 'object', additionalProperties: true },
+    public: true,
+  },
+  'get /puck/bindings': {
+    summary: 'List the collections and fields components can be bound to',
+    tag: 'Editor',
+    response: {
+      type: 'object',
+      properties: {
+        collections: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              slug: { type: 'string' },
+              label: { type: 'string' },
+              titleField: { type: 'string' },
+              fields: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    path: { type: 'string' },
+                    label: { type: 'string' },
+                    type: { type: 'string' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  'get /puck/sitemap.xml': {
+    summary: 'Get the sitemap of published pages',
+    description:
+      'Responds with application/xml. Beyond 50,000 URLs, responds with a sitemap index linking to each `page`.',
+    tag: 'Meta',
+    query: [
+      { name: 'page', description: 'Sitemap to serve when the sitemap is split (1-based)' },
+      localeQuery,
+    ],
+    public: true,
+  },
+  'get /puck/styles': {
+    summary: 'Get the compiled editor stylesheet',
+    description: 'Responds with text/css.',
+    tag: 'Editor',
+    public: true,
+  },
+  'post /puck/ai': {
+    summary: 'Generate page content with Puck AI',
+    description: 'Proxies the request to Puck Cloud and streams its response.',
+    tag: 'AI',
+    requestBody: {
+      type: 'object',
+      properties: { config: { type: 'object', additionalProperties: true } },
+      required: ['config'],
+      additionalProperties: true,
+    },
+  },
+  'get /puck/ai-prompts': {
+    summary: 'List AI prompts, sorted by order',
+    tag: 'AI',
+    response: apiResponseSchema,
+  },
+  'post /puck/ai-prompts': {
+    summary: 'Create an AI prompt',
+    tag: 'AI',
+    requestBody: { ...aiPromptBody, required: ['label', 'prompt'] },
+    response: { type: 'object', additionalProperties: true },
+  },
+  'patch /puck/ai-prompts/:id': {
+    summary: 'Update an AI prompt',
+    tag: 'AI',
+    requestBody: aiPromptBody,
+    response: { type: 'object', additionalProperties: true },
+  },
+  'delete /puck/ai-prompts/:id': {
+    summary: 'Delete an AI prompt',
+    tag: 'AI',
+    response: successResponse,
+  },
+  'get /puck/ai-context': {
+    summary: 'List AI context entries, sorted by order',
+    tag: 'AI',
+    query: [{ name: 'all', description: "'true' to include disabled entries" }],
+    response: apiResponseSchema,
+  },
+  'post /puck/ai-context': {
+    summary: 'Create an AI context entry',
+    tag: 'AI',
+    requestBody: { ...aiContextBody, required: ['name', 'content'] },
+    response: { type: 'object', additionalProperties: true },
+  },
+  'patch /puck/ai-context/:id': {
+    summary: 'Update an AI context entry',
+    tag: 'AI',
+    requestBody: aiContextBody,
+    response: { type: 'object', additionalProperties: true },
+  },
+  'delete /puck/ai-context/:id': {
+    summary: 'Delete an AI context entry',
+    tag: 'AI',
+    response: successResponse,
+  },
+  'get /puck/templates/:id/usage': {
+    summary: 'List documents that reference a template',
+    tag: 'Templates',
+    response: {
+      type: 'object',
+      properties: {
+        usage: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              collection: { type: 'string' },
+              id: { type: ['string', 'number'] },
+              title: { type: 'string' },
+              slug: { type: 'string' },
+              modes: { type: 'array', items: { type: 'string', enum: ['copy', 'linked'] } },
+              count: { type: 'integer' },
+            },
+          },
+        },
+        totalDocs: { type: 'integer' },
+        linkedDocs: { type: 'integer' },
+      },
+    },
+  },
+  'get /puck/:collection/locks': {
+    summary: 'Get the lock holder for every locked document',
+    tag: 'Locking',
+    response: {
+      type: 'object',
+      properties: {
+        locks: {
+          type: 'object',
+          description: 'Lock holder by document ID, with the number of open editor sessions',
+          additionalProperties: {
+            ...lockEditorSchema,
+            properties: {
+              ...(lockEditorSchema.properties as JsonSchema),
+              editors: { type: 'integer' },
+            },
+          },
+        },
+      },
+    },
+  },
+  'post /puck/:collection/:id/lock': {
+    summary: 'Send an editor session heartbeat',
+    description: 'Send `takeOver: true` to take over the lock from another session.',
+    tag: 'Locking',
+    requestBody: {
+      type: 'object',
+      properties: { sessionId: { type: 'string' }, takeOver: { type: 'boolean' } },
+      required: ['sessionId'],
+    },
+    response: {
+      type: 'object',
+      properties: {
+        lock: {
+          type: 'object',
+          properties: {
+            holder: { oneOf: [lockEditorSchema, { type: 'null' }] },
+            isHolder: { type: 'boolean' },
+            editors: { type: 'array', items: lockEditorSchema },
+            canTakeOver: { type: 'boolean' },
+          },
+        },
+      },
+    },
+  },
+  'delete /puck/:collection/:id/lock': {
+    summary: "Release an editor session's lock",
+    tag: 'Locking',
+    query: [{ name: 'sessionId', description: 'Editor session to release' }],
+    response: successResponse,
+  },
+  'post /puck/:collection/:id/preview-link': {
+    summary: 'Create a shareable preview link for the latest draft',
+    tag: 'Pages',
+    query: [localeQuery],
+    response: {
+      type: 'object',
+      properties: {
+        url: { type: 'string' },
+        token: { type: 'string' },
+        expiresAt: { type: 'string', format: 'date-time' },
+      },
+    },
+  },
+  'post /puck/:collection/import': {
+    summary: 'Import a page bundle',
+    description: 'Responds with 409 and the import report when a collision blocked the import.',
+    tag: 'Bundles',
+    query: [
+      { name: 'dryRun', description: "'true' to only report what would happen" },
+      { name: 'overwrite', description: "'true' to update the page with the same slug" },
+      { name: 'publish', description: "'true' to publish instead of saving a draft" },
+      localeQuery,
+    ],
+    requestBody: { type: 'object', additionalProperties: true },
+    response: { type: 'object', additionalProperties: true },
+  },
+  'get /puck/:collection/:id/export': {
+    summary: 'Download a page bundle',
+    tag: 'Bundles',
+    query: [localeQuery, { name: 'files', description: "'false' to leave out media file contents" }],
+    response: { type: 'object', additionalProperties: true },
+  },
+  'post /puck/:collection/bulk': {
+    summary: 'Publish, unpublish, delete or set the layout of many documents',
+    tag: 'Pages',
+    query: [localeQuery],
+    requestBody: {
+      type: 'object',
+      properties: {
+        operation: { type: 'string', enum: ['publish', 'unpublish', 'delete', 'setLayout'] },
+        ids: { type: 'array', items: { type: ['string', 'number'] } },
+        where: { type: 'object', additionalProperties: true },
+        layout: { type: 'string' },
+        publish: { type: 'boolean' },
+      },
+      required: ['operation'],
+    },
+    response: {
+      type: 'object',
+      properties: {
+        operation: { type: 'string' },
+        results: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: ['string', 'number'] },
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+              data: {},
+            },
+          },
+        },
+        succeeded: { type: 'integer' },
+        failed: { type: 'integer' },
+      },
+    },
+  },
+  'get /puck/:collection': {
+    summary: 'List documents',
+    tag: 'Pages',
+    query: [
+      { name: 'page', description: 'Page number', schema: { type: 'integer' } },
+      { name: 'limit', description: 'Documents per page (max 100)', schema: { type: 'integer' } },
+      { name: 'sort', description: "Sort field, prefix with '-' for descending" },
+      { name: 'where', description: 'Payload query as JSON or bracket notation' },
+      {
+        name: 'status',
+        description: 'Filter by publish status',
+        schema: { type: 'string', enum: ['all', 'draft', 'published'] },
+      },
+      { name: 'search', description: 'Search in title and slug' },
+      { name: 'select', description: "Comma-separated fields, or '*' to include puckData" },
+      localeQuery,
+    ],
+    response: ref('ApiResponse'),
+  },
+  'post /puck/:collection': {
+    summary: 'Create a document',
+    tag: 'Pages',
+    query: [localeQuery],
+    requestBody: ref('CreatePageBody'),
+    response: docResponse,
+  },
+  'get /puck/:collection/:id': {
+    summary: 'Get a document',
+    tag: 'Pages',
+    query: [localeQuery],
+    response: docResponse,
+  },
+  'patch /puck/:collection/:id': {
+    summary: 'Update a document',
+    description:
+      'Saves a draft or publishes. Responds with 409 when `expectedUpdatedAt` is stale or the homepage is already set.',
+    tag: 'Pages',
+    query: [localeQuery],
+    requestBody: ref('UpdatePageBody'),
+    response: {
+      type: 'object',
+      properties: {
+        doc: { type: 'object', additionalProperties: true },
+        published: { type: 'boolean' },
+      },
+    },
+  },
+  'delete /puck/:collection/:id': {
+    summary: 'Delete a document',
+    tag: 'Pages',
+    response: successResponse,
+  },
+  'get /puck/:collection/:id/versions': {
+    summary: 'Get the 20 most recent versions of a document',
+    tag: 'Versions',
+    response: {
+      type: 'object',
+      properties: { versions: { type: 'array', items: ref('PageVersion') } },
+    },
+  },
+  'get /puck/:collection/:id/audit': {
+    summary: 'List audit log entries of a document, newest first',
+    tag: 'Versions',
+    query: [
+      { name: 'page', description: 'Page number (default: 1)', schema: { type: 'integer' } },
+      { name: 'limit', description: 'Entries per page (default: 20, max: 100)', schema: { type: 'integer' } },
+      { name: 'action', description: "Only entries with this action, e.g. 'publish'" },
+    ],
+    response: {
+      type: 'object',
+      properties: {
+        entries: { type: 'array', items: { type: 'object', additionalProperties: true } },
+        totalDocs: { type: 'integer' },
+        page: { type: 'integer' },
+        totalPages: { type: 'integer' },
+        hasNextPage: { type: 'boolean' },
+      },
+    },
+  },
+  'post /puck/:collection/:id/restore': {
+    summary: 'Restore a version',
+    tag: 'Versions',
+    requestBody: {
+      type: 'object',
+      properties: { versionId: { type: 'string' } },
+      required: ['versionId'],
+    },
+    response: docResponse,
+  },
+  'post /puck/:collection/:id/duplicate': {
+    summary: 'Duplicate a document as a new draft',
+    tag: 'Pages',
+    requestBody: {
+      type: 'object',
+      properties: {
+        folder: { type: ['string', 'null'], description: 'Page-tree folder for the copy' },
+      },
+    },
+    response: docResponse,
+  },
+}
+
+/**
+ * Converts `/puck/:collection/:id` to `/puck/{collection}/{id}` and lists the parameters
+ */
+function toOpenApiPath(path: string): { path: string; params: string[] } {
+  const params: string[] = []
+  const converted = path.replace(/:(\w+)/g, (_, name: string) => {
+    params.push(name)
+    return `{${name}}`
+  })
+  return { path: converted, params }
+}
+
+function buildOperation(
+  route: PuckOpenApiRoute,
+  params: string[],
+  collections: string[]
+): Record<string, unknown> {
+  const doc: OperationDoc = OPERATIONS[`${route.method} ${route.path}`] ?? {
+    summary: `${route.method.toUpperCase()} ${route.path}`,
+    tag: 'Other',
+  }
+
+  const parameters = [
+    ...params.map((name) => ({
+      name,
+      in: 'path',
+      required: true,
+      schema:
+        name === 'collection' && collections.length > 0
+          ? { type: 'string', enum: collections }
+          : { type: 'string' },
+    })),
+    ...(doc.query ?? []).map((param) => ({
+      name: param.name,
+      in: 'query',
+      required: false,
+      description: param.description,
+      schema: param.schema ?? { type: 'string' },
+    })),
+  ]
+
+  return {
+    summary: doc.summary,
+    ...(doc.description && { description: doc.description }),
+    tags: [doc.tag],
+    operationId: `${route.method}${route.path
+      .split(/[/:.-]/)
+      .filter(Boolean)
+      .map((part) => part[0].toUpperCase() + part.slice(1))
+      .join('')}`,
+    ...(parameters.length > 0 && { parameters }),
+    ...(doc.requestBody && {
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: doc.requestBody } },
+      },
+    }),
+    responses: {
+      '200': {
+        description: 'Success',
+        ...(doc.response && { content: { 'application/json': { schema: doc.response } } }),
+      },
+      ...(!doc.public && { '401': { $ref: '#/components/responses/Error' } }),
+      '400': { $ref: '#/components/responses/Error' },
+      '500': { $ref: '#/components/responses/Error' },
+    },
+    ...(doc.public && { security: [] }),
+  }
+}
+
+/**
+ * Builds an OpenAPI 3.1 document describing the given Puck routes
+ *
+ * @example
+ * ```ts
+ * const spec = createPuckOpenApiDocument({
+ *   routes: config.endpoints,
+ *   collections: ['pages'],
+ *   serverUrl: 'https://example.com/api',
+ * })
+ * ```
+ */
+export function createPuckOpenApiDocument(options: PuckOpenApiOptions): Record<string, unknown> {
+  const { routes, collections, serverUrl = '/api' } = options
+  const paths: Record<string, Record<string, unknown>> = {}
+
+  for (const route of routes) {
+    if (!route.path.startsWith('/puck/')) continue
+
+    const { path, params } = toOpenApiPath(route.path)
+    paths[path] = {
+      ...paths[path],
+      [route.method]: buildOperation(route, params, collections),
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Payload Puck API',
+      version: VERSION,
+      description: 'REST endpoints registered by @delmaredigital/payload-puck',
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ payloadToken: [] }, { authorizationHeader: [] }],
+    paths,
+    components: {
+      schemas: {
+        PuckData: puckDataSchema,
+        CreatePageBody: createPageBodySchema,
+        UpdatePageBody: updatePageBodySchema,
+        PageVersion: pageVersionSchema,
+        ApiResponse: apiResponseSchema,
+        Error: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+          required: ['error'],
+        },
+      },
+      responses: {
+        Error: {
+          description: 'Error',
+          content: { 'application/json': { schema: ref('Error') } },
+        },
+      },
+      securitySchemes: {
+        payloadToken: {
+          type: 'apiKey',
+          in: 'cookie',
+          name: 'payload-token',
+          description: 'Payload session cookie',
+        },
+        authorizationHeader: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'Authorization',
+          description: "'JWT <token>' or '<collection> API-Key <key>'",
+        },
+      },
+    },
+  }
+}
+
+/**
+ * GET /api/puck/openapi.json
+ * OpenAPI 3.1 document for the Puck endpoints
+ *
+ * Paths are read from the registered `config.endpoints`, so the document
+ * matches the routes enabled in this configuration.
+ */
+export function createOpenApiHandler(options: PuckEndpointOptions): PayloadHandler {
+  const { collections } = options
+
+  return async (req) => {
+    try {
+      const { serverURL = '', routes, endpoints } = req.payload.config
+      return Response.json(
+        createPuckOpenApiDocument({
+          routes: Array.isArray(endpoints) ? endpoints : [],
+          collections,
+          serverUrl: `${serverURL}${routes?.api || '/api'}`,
+        })
+      )
+    } catch (error) {
+      console.error('[payload-puck] OpenAPI error:', error)
+      return Response.json(
+        { error: error instanceof Error ? error.message : 'OpenAPI generation failed' },
+        { status: 500 }
+      )
+    }
+  }
+}
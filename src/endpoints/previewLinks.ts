@@ -0,0 +1,76 @@
+/**
+ * Preview Link Endpoint Handler
+ *
+ * Creates signed, expiring links that show the latest draft of a page to
+ * people without an admin account.
+ */
+
+import type { PayloadHandler, CollectionSlug, TypedLocale } from 'payload'
+import type { PuckEndpointOptions } from './index.js'
+import { createPreviewToken } from '../utils/previewToken.js'
+
+export interface PuckPreviewLinkEndpointOptions extends PuckEndpointOptions {
+  /**
+   * Path or URL of the Next.js preview route
+   */
+  route: string
+  /**
+   * Seconds until a link expires
+   */
+  expiresIn: number
+}
+
+/**
+ * POST /api/puck/:collection/:id/preview-link
+ * Create a shareable preview link for the latest draft of a document
+ */
+export function createPreviewLinkHandler(options: PuckPreviewLinkEndpointOptions): PayloadHandler {
+  const { collections, route, expiresIn } = options
+
+  return async (req) => {
+    try {
+      const collection = req.routeParams?.collection as string
+      const id = req.routeParams?.id as string
+      const locale = req.searchParams?.get('locale') || undefined
+
+      if (!collections.includes(collection)) {
+        return Response.json(
+          { error: `Collection '${collection}' is not configured for Puck` },
+          { status: 400 }
+        )
+      }
+
+      if (!req.user) {
+        return Response.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      // Only users who can read the draft may share it
+      await req.payload.findByID({
+        collection: collection as CollectionSlug,
+        id,
+        draft: true,
+        depth: 0,
+        locale: locale as TypedLocale | undefined,
+        overrideAccess: false,
+        user: req.user,
+      })
+
+      const { token, expiresAt } = createPreviewToken(
+        { collection, id: String(id), ...(locale && { locale }) },
+        req.payload.secret,
+        expiresIn
+      )
+
+      const base = /^https?:\/\//.test(route) ? route : `${req.payload.config.serverURL || ''}${route}`
+      const url = `${base}${base.includes('?') ? '&' : '?'}token=${encodeURIComponent(token)}`
+
+      return Response.json({ url, token, expiresAt })
+    } catch (error) {
+      console.error('[payload-puck] Preview link error:', error)
+      return Response.json(
+        { error: error instanceof Error ? error.message : 'Failed to create preview link' },
+        { status: 500 }
+      )
+    }
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Sitemap Endpoint Handler
+ *
+ * Serves a `sitemap.xml` of published Puck pages. Registered when the
+ * plugin's `sitemap` option is enabled.
+ */
+
+import type { PayloadHandler } from 'payload'
+import type { PuckEndpointOptions } from './index.js'
+import {
+  chunkSitemapEntries,
+  findSitemapEntries,
+  getLatestModified,
+  renderSitemapIndexXml,
+  renderSitemapXml,
+} from '../utils/sitemap.js'
+
+/**
+ * Path of the sitemap, relative to the Payload API route
+ */
+export const PUCK_SITEMAP_PATH = '/puck/sitemap.xml'
+
+export interface PuckSitemapEndpointOptions extends PuckEndpointOptions {
+  /**
+   * Public site URL (defaults to Payload's `serverURL`, or the request origin)
+   */
+  siteUrl?: string
+  /**
+   * Seconds the sitemap may be cached
+   */
+  maxAge: number
+}
+
+/**
+ * GET /api/puck/sitemap.xml
+ * Sitemap of published pages. Public.
+ *
+ * Beyond 50,000 URLs this responds with a sitemap index, and each sitemap
+ * is served with the `page` parameter.
+ *
+ * Query Parameters:
+ * - page: sitemap to serve when the sitemap is split (1-based)
+ * - locale: locale to read pages in
+ */
+export function createSitemapHandler(options: PuckSitemapEndpointOptions): PayloadHandler {
+  const { collections, maxAge } = options
+
+  return async (req) => {
+    try {
+      const origin = req.url ? new URL(req.url).origin : ''
+      const serverUrl = req.payload.config.serverURL || origin
+      const siteUrl = options.siteUrl || serverUrl
+      const locale = req.searchParams?.get('locale') || undefined
+      const pageParam = req.searchParams?.get('page')
+
+      const entries = await findSitemapEntries(req.payload, { siteUrl, collections, locale })
+      const chunks = chunkSitemapEntries(entries)
+
+      let xml: string
+      if (pageParam) {
+        const page = parseInt(pageParam, 10)
+        if (!(page >= 1 && page <= chunks.length)) {
+          return Response.json({ error: 'Sitemap not found' }, { status: 404 })
+        }
+        xml = renderSitemapXml(chunks[page - 1])
+      } else if (chunks.length > 1) {
+        const sitemapUrl = `${serverUrl}${req.payload.config.routes.api}${PUCK_SITEMAP_PATH}`
+        xml = renderSitemapIndexXml(
+          chunks.map((chunk, index) => ({
+            url: `${sitemapUrl}?page=${index + 1}${locale ? `&locale=${encodeURIComponent(locale)}` : ''}`,
+            lastModified: getLatestModified(chunk),
+          }))
+        )
+      } else {
+        xml = renderSitemapXml(chunks[0])
+      }
+
+      return new Response(xml, {
+        headers: {
+          'Content-Type': 'application/xml; charset=utf-8',
+          'Cache-Control': `public, max-age=${maxAge}`,
+        },
+      })
+    } catch (error) {
+      console.error('[payload-puck] Sitemap error:', error)
+      return Response.json(
+        { error: error instanceof Error ? error.message : 'Failed to generate sitemap' },
+        { status: 500 }
+      )
+    }
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Template Usage Endpoint Handler
+ *
+ * Reports which documents in Puck-enabled collections reference a
+ * `puck-templates` document, so editors can judge the impact of a change.
+ */
+
+import type { PayloadHandler, CollectionSlug } from 'payload'
+import type { PuckEndpointOptions } from './index.js'
+import { getTemplateRefKey, type TemplateMode } from '../utils/templates.js'
+
+/**
+ * A document that references a template
+ */
+export interface TemplateUsageEntry {
+  collection: string
+  id: string | number
+  title?: string
+  slug?: string
+  /** How the template is used on this page (a page may use it both ways) */
+  modes: TemplateMode[]
+  /** Number of Template components referencing the template */
+  count: number
+}
+
+const TEMPLATE_MODES: TemplateMode[] = ['linked', 'copy']
+
+/**
+ * GET /api/puck/templates/:id/usage
+ * List documents that reference a template, from the `templateRefs` index
+ */
+export function createTemplateUsageHandler(options: PuckEndpointOptions): PayloadHandler {
+  const { collections } = options
+
+  return async (req) => {
+    try {
+      const templateId = req.routeParams?.id as string
+
+      if (!req.user) {
+        return Response.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      if (!templateId) {
+        return Response.json({ error: 'Missing template ID' }, { status: 400 })
+      }
+
+      const keys = TEMPLATE_MODES.map((mode) => getTemplateRefKey(String(templateId), mode))
+      const usage: TemplateUsageEntry[] = []
+
+      for (const collection of collections) {
+        const result = await req.payload.find({
+          collection: collection as CollectionSlug,
+          where: { templateRefs: { in: keys } },
+          select: { title: true, slug: true, templateRefs: true },
+          draft: true,
+          depth: 0,
+          pagination: false,
+          // Only list pages the user may read
+          overrideAccess: false,
+          user: req.user,
+        })
+
+        for (const doc of result.docs as Array<Record<string, any>>) {
+          const refs: string[] = Array.isArray(doc.templateRefs) ? doc.templateRefs : []
+          const modes = TEMPLATE_MODES.filter((_mode, i) => refs.includes(keys[i]))
+
+          usage.push({
+            collection,
+            id: doc.id,
+            title: doc.title,
+            slug: doc.slug,
+            modes,
+            count: refs.filter((ref) => keys.includes(ref)).length,
+          })
+        }
+      }
+
+      return Response.json({
+        usage,
+        totalDocs: usage.length,
+        linkedDocs: usage.filter((entry) => entry.modes.includes('linked')).length,
+      })
+    } catch (error) {
+      console.error('[payload-puck] Template usage error:', error)
+      return Response.json(
+        { error: error instanceof Error ? error.message : 'Template usage failed' },
+        { status: 500 }
+      )
+    }
+  }
+}
@@ -0,0 +1,736 @@
+/**
+ * Page Bundles
+ *
+ * Portable JSON bundles for moving pages between Payload instances. A bundle
+ * holds the page's fields (including `puckData` and SEO `meta`), the
+ * `puck-templates` documents its Template components reference, and the
+ * media it uses, optionally with the file contents.
+ *
+ * On import, template and media IDs are remapped to documents in the target
+ * instance. A dry run reports what would be created and any collisions.
+ *
+ * Server-only.
+ */
+
+import { readFile } from 'fs/promises'
+import { resolve } from 'path'
+import type { CollectionSlug, Payload, PayloadRequest, TypedLocale } from 'payload'
+import { TEMPLATE_COMPONENT_TYPE } from '../utils/templates.js'
+
+export const PAGE_BUNDLE_FORMAT = 'payload-puck-page'
+export const PAGE_BUNDLE_VERSION = 1
+
+const TEMPLATES_COLLECTION = 'puck-templates'
+
+/**
+ * Page fields that belong to the source instance and are never bundled
+ */
+const EXCLUDED_PAGE_FIELDS = [
+  'id',
+  'createdAt',
+  'updatedAt',
+  '_status',
+  'publishAt',
+  'unpublishAt',
+  'scheduledBy',
+]
+
+type DocId = string | number
+
+/**
+ * A media document in a bundle
+ */
+export interface PageBundleMedia {
+  id: DocId
+  filename: string
+  mimeType?: string
+  filesize?: number
+  alt?: string
+  /** URL in the source instance */
+  url?: string
+  /** Base64 file contents (unless exported without files) */
+  data?: string
+}
+
+/**
+ * A `puck-templates` document in a bundle
+ */
+export interface PageBundleTemplate {
+  id: DocId
+  name: string
+  description?: string | null
+  category?: string | null
+  content: unknown
+  thumbnail?: string | null
+}
+
+/**
+ * Portable JSON bundle of a page and the documents it references
+ */
+export interface PageBundle {
+  format: typeof PAGE_BUNDLE_FORMAT
+  version: number
+  exportedAt: string
+  source: {
+    collection: string
+    id: DocId
+    locale?: string
+    serverURL?: string
+  }
+  /** Page fields, without IDs and timestamps */
+  page: Record<string, unknown>
+  templates: PageBundleTemplate[]
+  media: PageBundleMedia[]
+}
+
+/**
+ * Thrown for malformed bundles. Handlers respond with a 400.
+ */
+export class PageBundleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PageBundleError'
+  }
+}
+
+// =============================================================================
+// Tree Helpers
+// =============================================================================
+
+function isObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * Media reference stored by the MediaField (`{ id, url, alt, ... }`).
+ * Payload serves uploads at `/api/:collection/file/:filename`.
+ */
+function isMediaReference(value: unknown): value is { id: DocId; url: string } {
+  return (
+    isObject(value) &&
+    (typeof value.id === 'string' || typeof value.id === 'number') &&
+    typeof value.url === 'string' &&
+    (value.url.includes('/file/') || 'filename' in value || 'mimeType' in value)
+  )
+}
+
+function isTemplateComponent(value: unknown): value is { props: { templateId: DocId } } {
+  return (
+    isObject(value) &&
+    value.type === TEMPLATE_COMPONENT_TYPE &&
+    isObject(value.props) &&
+    !!value.props.templateId
+  )
+}
+
+/**
+ * Calls `fn` for every object nested in `value`
+ */
+function visitObjects(value: unknown, fn: (obj: Record<string, any>) => void): void {
+  if (Array.isArray(value)) {
+    for (const item of value) visitObjects(item, fn)
+  } else if (isObject(value)) {
+    fn(value)
+    for (const child of Object.values(value)) visitObjects(child, fn)
+  }
+}
+
+/**
+ * Rebuilds `value`, replacing objects for which `fn` returns a result
+ */
+function mapObjects(
+  value: unknown,
+  fn: (obj: Record<string, any>) => Record<string, any> | undefined
+): unknown {
+  if (Array.isArray(value)) return value.map((item) => mapObjects(item, fn))
+  if (!isObject(value)) return value
+
+  const mapped = fn(value) ?? value
+  return Object.fromEntries(Object.entries(mapped).map(([key, child]) => [key, mapObjects(child, fn)]))
+}
+
+function getRelationId(value: unknown): DocId | null {
+  if (typeof value === 'string' || typeof value === 'number') return value
+  if (isObject(value) && (typeof value.id === 'string' || typeof value.id === 'number')) return value.id
+  return null
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export interface CreatePageBundleOptions {
+  payload: Payload
+  collection: string
+  id: DocId
+  /**
+   * Locale to export when fields are localized
+   */
+  locale?: string
+  /**
+   * Upload collection used by the MediaField and `meta.image`
+   * @default 'media'
+   */
+  mediaCollection?: string
+  /**
+   * Embed media file contents. Without them, the import downloads each
+   * file from its source URL.
+   * @default true
+   */
+  includeMediaFiles?: boolean
+  /**
+   * Run with the access of this user instead of overriding access control
+   */
+  user?: PayloadRequest['user']
+}
+
+/**
+ * Reads an upload's file, from local disk when possible, otherwise from its URL
+ */
+async function readMediaFile(payload: Payload, collection: string, doc: Record<string, any>): Promise<Buffer> {
+  const config = payload.collections[collection as CollectionSlug]?.config
+  const upload: { disableLocalStorage?: boolean; staticDir?: string } =
+    typeof config?.upload === 'object' ? config.upload : {}
+
+  if (!upload.disableLocalStorage) {
+    try {
+      return await readFile(resolve(upload.staticDir || collection, doc.filename))
+    } catch {
+      // Not on this disk (e.g. cloud storage adapter) - fall back to the URL
+    }
+  }
+
+  // Relative upload URLs need the serverURL
+  const response = await fetch(new URL(doc.url, payload.config.serverURL || undefined))
+  if (!response.ok) throw new Error(`${response.status} ${response.statusText}`)
+  return Buffer.from(await response.arrayBuffer())
+}
+
+/**
+ * Creates a portable bundle of a page (latest draft), the templates its
+ * Template components reference (including templates nested in templates)
+ * and the media it uses.
+ *
+ * @example
+ * ```ts
+ * const bundle = await createPageBundle({ payload, collection: 'pages', id })
+ * await writeFile('about.json', JSON.stringify(bundle))
+ * ```
+ */
+export async function createPageBundle({
+  payload,
+  collection,
+  id,
+  locale,
+  mediaCollection = 'media',
+  includeMediaFiles = true,
+  user,
+}: CreatePageBundleOptions): Promise<PageBundle> {
+  const access = user ? { overrideAccess: false, user } : {}
+
+  const doc = (await payload.findByID({
+    collection: collection as CollectionSlug,
+    id,
+    draft: true,
+    depth: 0,
+    ...(locale && { locale: locale as TypedLocale, fallbackLocale: false }),
+    ...access,
+  })) as Record<string, any>
+
+  const page = Object.fromEntries(
+    Object.entries(doc).filter(([key]) => !EXCLUDED_PAGE_FIELDS.includes(key))
+  )
+
+  // Templates, following references inside template content
+  const templates = new Map<string, PageBundleTemplate>()
+  const pending = [page.puckData]
+  while (pending.length > 0) {
+    const templateIds = new Set<DocId>()
+    visitObjects(pending.pop(), (obj) => {
+      if (isTemplateComponent(obj) && !templates.has(String(obj.props.templateId))) {
+        templateIds.add(obj.props.templateId)
+      }
+    })
+
+    for (const templateId of templateIds) {
+      const template = (await payload
+        .findByID({ collection: TEMPLATES_COLLECTION as CollectionSlug, id: templateId, depth: 0, ...access })
+        .catch(() => null)) as Record<string, any> | null
+      if (!template) continue
+
+      templates.set(String(templateId), {
+        id: template.id,
+        name: template.name,
+        description: template.description,
+        category: template.category,
+        content: template.content,
+        thumbnail: template.thumbnail,
+      })
+      pending.push(template.content)
+    }
+  }
+
+  // Media referenced by MediaField values and the SEO image
+  const mediaIds = new Set<DocId>()
+  const collectMedia = (value: unknown) =>
+    visitObjects(value, (obj) => {
+      if (isMediaReference(obj)) mediaIds.add(obj.id)
+    })
+  collectMedia(page.puckData)
+  for (const template of templates.values()) collectMedia(template.content)
+  const metaImage = isObject(page.meta) ? getRelationId(page.meta.image) : null
+  if (metaImage !== null) mediaIds.add(metaImage)
+
+  const media: PageBundleMedia[] = []
+  if (payload.collections[mediaCollection as CollectionSlug]) {
+    for (const mediaId of mediaIds) {
+      // Not every { id, url } object is media - skip IDs that don't resolve
+      const mediaDoc = (await payload
+        .findByID({ collection: mediaCollection as CollectionSlug, id: mediaId, depth: 0, ...access })
+        .catch(() => null)) as Record<string, any> | null
+      if (!mediaDoc?.filename) continue
+
+      media.push({
+        id: mediaDoc.id,
+        filename: mediaDoc.filename,
+        mimeType: mediaDoc.mimeType,
+        filesize: mediaDoc.filesize,
+        alt: mediaDoc.alt,
+        url: mediaDoc.url,
+      })
+
+      if (includeMediaFiles) {
+        // Files that can't be read are left for the import to download from `url`
+        const file = await readMediaFile(payload, mediaCollection, mediaDoc).catch(() => null)
+        if (file) media[media.length - 1].data = file.toString('base64')
+      }
+    }
+  }
+
+  return {
+    format: PAGE_BUNDLE_FORMAT,
+    version: PAGE_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: {
+      collection,
+      id: doc.id,
+      ...(locale && { locale }),
+      ...(payload.config.serverURL && { serverURL: payload.config.serverURL }),
+    },
+    page,
+    templates: Array.from(templates.values()),
+    media,
+  }
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+export interface ImportPageBundleOptions {
+  payload: Payload
+  /**
+   * Collection to import the page into
+   */
+  collection: string
+  /**
+   * The bundle, e.g. parsed from an uploaded JSON file. Validated before use.
+   */
+  bundle: unknown
+  /**
+   * Report what would happen without writing anything
+   * @default false
+   */
+  dryRun?: boolean
+  /**
+   * Update the existing page when one has the bundle's slug.
+   * Otherwise a slug collision blocks the import.
+   * @default false
+   */
+  overwrite?: boolean
+  /**
+   * Publish the imported page instead of saving it as a draft
+   * @default false
+   */
+  publish?: boolean
+  /**
+   * Locale to import into when fields are localized
+   */
+  locale?: string
+  /**
+   * @default 'media'
+   */
+  mediaCollection?: string
+  /**
+   * Origins media may be downloaded from when a bundle has no file contents,
+   * e.g. `['https://staging.example.com']`. Other URLs, including the
+   * bundle's own `serverURL`, are never fetched.
+   * @default []
+   */
+  trustedMediaOrigins?: string[]
+  /**
+   * Run with the access of this user instead of overriding access control
+   */
+  user?: PayloadRequest['user']
+}
+
+/**
+ * A problem found while planning an import
+ */
+export interface PageBundleCollision {
+  type: 'slug' | 'homepage' | 'template' | 'media'
+  message: string
+  /** Whether the collision prevents the import */
+  blocking: boolean
+  /** ID of the conflicting document in the target instance */
+  existingId?: DocId
+}
+
+export interface PageBundleImportReport {
+  dryRun: boolean
+  /** False when a blocking collision prevented the import */
+  imported: boolean
+  collisions: PageBundleCollision[]
+  page: { action: 'create' | 'update'; id?: DocId; slug?: string }
+  templates: Array<{ sourceId: DocId; name: string; action: 'create' | 'reuse'; id?: DocId }>
+  media: Array<{ sourceId: DocId; filename: string; action: 'create' | 'reuse' | 'skip'; id?: DocId }>
+}
+
+function parseBundle(bundle: unknown): PageBundle {
+  if (!isObject(bundle) || bundle.format !== PAGE_BUNDLE_FORMAT) {
+    throw new PageBundleError('Not a Puck page bundle')
+  }
+  if (typeof bundle.version !== 'number' || bundle.version > PAGE_BUNDLE_VERSION) {
+    throw new PageBundleError(`Unsupported bundle version: ${bundle.version}`)
+  }
+  if (!isObject(bundle.page) || !Array.isArray(bundle.templates) || !Array.isArray(bundle.media)) {
+    throw new PageBundleError('Bundle is missing page, templates or media')
+  }
+  return bundle as unknown as PageBundle
+}
+
+/**
+ * Reads a media file from the bundle, or downloads it from a trusted origin.
+ * Bundles are user input, so their URLs are only fetched from origins the
+ * target instance trusts.
+ */
+async function loadBundleMedia(
+  item: PageBundleMedia,
+  sourceServerURL: string | undefined,
+  trustedOrigins: Set<string>
+): Promise<Buffer> {
+  if (item.data) return Buffer.from(item.data, 'base64')
+  if (!item.url) throw new Error('No file contents or URL')
+
+  // Relative upload URLs resolve against the source only when it's trusted
+  let base: string | undefined
+  try {
+    base = sourceServerURL && trustedOrigins.has(new URL(sourceServerURL).origin) ? sourceServerURL : undefined
+  } catch {
+    base = undefined
+  }
+
+  let url: URL
+  try {
+    url = new URL(item.url, base)
+  } catch {
+    throw new Error('No file contents, and the URL is not from a trusted origin')
+  }
+  if (!trustedOrigins.has(url.origin)) {
+    throw new Error(`No file contents, and ${url.origin} is not a trusted media origin`)
+  }
+
+  // Redirects could lead to an untrusted host
+  const response = await fetch(url, { redirect: 'error' })
+  if (!response.ok) throw new Error(`${response.status} ${response.statusText}`)
+  return Buffer.from(await response.arrayBuffer())
+}
+
+/**
+ * Imports a page bundle, remapping template and media IDs to the target
+ * instance.
+ *
+ * - Templates are reused when one with the same name and content exists,
+ *   otherwise created.
+ * - Media is reused when a file with the same name and size exists,
+ *   otherwise uploaded from the bundle (or downloaded from its URL when the
+ *   origin is in `trustedMediaOrigins`).
+ * - A page with the same slug blocks the import unless `overwrite` is set.
+ * - A homepage page is imported as a regular page when the target
+ *   already has a different homepage.
+ *
+ * Nothing is written on a dry run or when a blocking collision is found.
+ *
+ * @throws PageBundleError if the bundle is malformed
+ */
+export async function importPageBundle({
+  payload,
+  collection,
+  bundle: input,
+  dryRun = false,
+  overwrite = false,
+  publish = false,
+  locale,
+  mediaCollection = 'media',
+  trustedMediaOrigins = [],
+  user,
+}: ImportPageBundleOptions): Promise<PageBundleImportReport> {
+  const bundle = parseBundle(input)
+  const trustedOrigins = new Set(
+    trustedMediaOrigins.flatMap((origin) => {
+      try {
+        return [new URL(origin).origin]
+      } catch {
+        return []
+      }
+    })
+  )
+  const access = user ? { overrideAccess: false, user } : {}
+  const localeArgs = locale ? { locale: locale as TypedLocale } : {}
+  const collisions: PageBundleCollision[] = []
+
+  const collectionConfig = payload.collections[collection as CollectionSlug]?.config
+  if (!collectionConfig) throw new PageBundleError(`Unknown collection '${collection}'`)
+  const fieldNames = new Set(collectionConfig.flattenedFields.map((field) => field.name))
+
+  // Page: slug and homepage collisions
+  const slug = typeof bundle.page.slug === 'string' ? bundle.page.slug : undefined
+  let existingPageId: DocId | undefined
+  if (slug && fieldNames.has('slug')) {
+    const { docs } = await payload.find({
+      collection: collection as CollectionSlug,
+      where: { slug: { equals: slug } },
+      draft: true,
+      depth: 0,
+      limit: 1,
+      ...localeArgs,
+    })
+    if (docs.length > 0) {
+      existingPageId = docs[0].id
+      collisions.push({
+        type: 'slug',
+        message: overwrite
+          ? `A page with the slug "${slug}" exists and will be updated`
+          : `A page with the slug "${slug}" already exists`,
+        blocking: !overwrite,
+        existingId: existingPageId,
+      })
+    }
+  }
+
+  let keepHomepage = bundle.page.isHomepage === true && fieldNames.has('isHomepage')
+  if (keepHomepage) {
+    const { docs } = await payload.find({
+      collection: collection as CollectionSlug,
+      where: {
+        and: [
+          { isHomepage: { equals: true } },
+          ...(existingPageId !== undefined ? [{ id: { not_equals: existingPageId } }] : []),
+        ],
+      },
+      draft: true,
+      depth: 0,
+      limit: 1,
+    })
+    if (docs.length > 0) {
+      keepHomepage = false
+      collisions.push({
+        type: 'homepage',
+        message: `"${(docs[0] as Record<string, any>).title ?? docs[0].id}" is already the homepage, so the page will be imported as a regular page`,
+        blocking: false,
+        existingId: docs[0].id,
+      })
+    }
+  }
+
+  // Templates: reuse identical templates with the same name
+  const templatePlan: PageBundleImportReport['templates'] = []
+  for (const template of bundle.templates) {
+    const { docs } = await payload.find({
+      collection: TEMPLATES_COLLECTION as CollectionSlug,
+      where: { name: { equals: template.name } },
+      depth: 0,
+      limit: 10,
+    })
+    const match = (docs as Record<string, any>[]).find((doc) => isEqual(doc.content, template.content))
+    if (match) {
+      templatePlan.push({ sourceId: template.id, name: template.name, action: 'reuse', id: match.id })
+    } else {
+      if (docs.length > 0) {
+        collisions.push({
+          type: 'template',
+          message: `A different template named "${template.name}" exists, so a new one will be created`,
+          blocking: false,
+          existingId: docs[0].id,
+        })
+      }
+      templatePlan.push({ sourceId: template.id, name: template.name, action: 'create' })
+    }
+  }
+
+  // Media: reuse files with the same name and size
+  const mediaPlan: PageBundleImportReport['media'] = []
+  const hasMediaCollection = !!payload.collections[mediaCollection as CollectionSlug]
+  for (const item of bundle.media) {
+    if (!hasMediaCollection) {
+      collisions.push({
+        type: 'media',
+        message: `The '${mediaCollection}' collection does not exist, so "${item.filename}" will not be imported`,
+        blocking: false,
+      })
+      mediaPlan.push({ sourceId: item.id, filename: item.filename, action: 'skip' })
+      continue
+    }
+
+    const { docs } = await payload.find({
+      collection: mediaCollection as CollectionSlug,
+      where: { filename: { equals: item.filename } },
+      depth: 0,
+      limit: 1,
+    })
+    const existing = docs[0] as Record<string, any> | undefined
+    if (existing && (item.filesize === undefined || existing.filesize === item.filesize)) {
+      mediaPlan.push({ sourceId: item.id, filename: item.filename, action: 'reuse', id: existing.id })
+    } else {
+      mediaPlan.push({ sourceId: item.id, filename: item.filename, action: 'create' })
+    }
+  }
+
+  const report: PageBundleImportReport = {
+    dryRun,
+    imported: false,
+    collisions,
+    page: { action: existingPageId !== undefined && overwrite ? 'update' : 'create', slug },
+    templates: templatePlan,
+    media: mediaPlan,
+  }
+
+  if (dryRun || collisions.some((collision) => collision.blocking)) {
+    return report
+  }
+
+  // Create missing media and templates, recording new IDs
+  const mediaMap = new Map<string, { id: DocId; url?: string }>()
+  for (const [index, entry] of mediaPlan.entries()) {
+    const item = bundle.media[index]
+    if (entry.action === 'create') {
+      try {
+        const data = await loadBundleMedia(item, bundle.source.serverURL, trustedOrigins)
+        const doc = (await payload.create({
+          collection: mediaCollection as CollectionSlug,
+          data: { alt: item.alt ?? item.filename } as any,
+          file: {
+            data,
+            mimetype: item.mimeType || 'application/octet-stream',
+            name: item.filename,
+            size: data.length,
+          },
+          ...access,
+        })) as Record<string, any>
+        entry.id = doc.id
+      } catch (error) {
+        entry.action = 'skip'
+        collisions.push({
+          type: 'media',
+          message: `"${item.filename}" could not be imported: ${error instanceof Error ? error.message : error}`,
+          blocking: false,
+        })
+        continue
+      }
+    }
+    if (entry.id !== undefined) {
+      const doc = (await payload.findByID({
+        collection: mediaCollection as CollectionSlug,
+        id: entry.id,
+        depth: 0,
+      })) as Record<string, any>
+      mediaMap.set(String(item.id), { id: doc.id, url: doc.url })
+    }
+  }
+
+  // Templates may reference each other, so assign IDs before remapping content
+  const templateMap = new Map<string, DocId>()
+
+  const remap = (value: unknown) =>
+    mapObjects(value, (obj) => {
+      if (isTemplateComponent(obj)) {
+        const target = templateMap.get(String(obj.props.templateId))
+        return target === undefined ? obj : { ...obj, props: { ...obj.props, templateId: target } }
+      }
+      if (isMediaReference(obj)) {
+        const target = mediaMap.get(String(obj.id))
+        return target ? { ...obj, id: target.id, ...(target.url && { url: target.url }) } : obj
+      }
+      return undefined
+    })
+
+  for (const entry of templatePlan) {
+    if (entry.action === 'reuse' && entry.id !== undefined) {
+      templateMap.set(String(entry.sourceId), entry.id)
+    }
+  }
+  const createdTemplates: Array<[entry: (typeof templatePlan)[number], template: PageBundleTemplate]> = []
+  for (const [index, entry] of templatePlan.entries()) {
+    if (entry.action !== 'create') continue
+    const template = bundle.templates[index]
+    const doc = await payload.create({
+      collection: TEMPLATES_COLLECTION as CollectionSlug,
+      data: {
+        name: template.name,
+        description: template.description,
+        category: template.category,
+        content: template.content,
+        thumbnail: template.thumbnail,
+      } as any,
+      ...access,
+    })
+    entry.id = doc.id
+    templateMap.set(String(template.id), doc.id)
+    createdTemplates.push([entry, template])
+  }
+  for (const [entry, template] of createdTemplates) {
+    await payload.update({
+      collection: TEMPLATES_COLLECTION as CollectionSlug,
+      id: entry.id!,
+      data: { content: remap(template.content) } as any,
+      ...access,
+    })
+  }
+
+  // Page: only fields the target collection has. Relationships can't be
+  // remapped, apart from the SEO image.
+  const data: Record<string, unknown> = {}
+  for (const field of collectionConfig.flattenedFields) {
+    if (!(field.name in bundle.page) || EXCLUDED_PAGE_FIELDS.includes(field.name)) continue
+    if (field.type === 'relationship' || field.type === 'upload' || field.type === 'join') continue
+    data[field.name] = bundle.page[field.name]
+  }
+  data.puckData = remap(data.puckData)
+  if (isObject(data.meta)) {
+    const image = getRelationId(data.meta.image)
+    data.meta = { ...data.meta, image: image !== null ? (mediaMap.get(String(image))?.id ?? null) : null }
+  }
+  if ('isHomepage' in data) data.isHomepage = keepHomepage
+  data._status = publish ? 'published' : 'draft'
+
+  const args = {
+    collection: collection as CollectionSlug,
+    data: data as any,
+    draft: !publish,
+    depth: 0,
+    ...localeArgs,
+    ...access,
+  }
+  const doc =
+    report.page.action === 'update'
+      ? await payload.update({ ...args, id: existingPageId! })
+      : await payload.create(args)
+
+  report.page.id = doc.id
+  report.imported = true
+  return report
+}
@@ -0,0 +1,41 @@
+/**
+ * Static HTML export and page bundles for Puck pages
+ *
+ * Server-only. Renders published pages to a deployable static site, and
+ * moves pages between Payload instances as portable JSON bundles.
+ */
+
+export { exportStaticSite, renderPageHtml } from './staticExport.js'
+export type {
+  StaticExportOptions,
+  StaticExportResult,
+  StaticExportPage,
+  RenderPageHtmlOptions,
+} from './staticExport.js'
+
+export {
+  createStaticExportTask,
+  PUCK_STATIC_EXPORT_TASK_SLUG,
+} from './task.js'
+export type {
+  StaticExportTaskOptions,
+  StaticExportTaskInput,
+  StaticExportTaskOutput,
+} from './task.js'
+
+export {
+  createPageBundle,
+  importPageBundle,
+  PageBundleError,
+  PAGE_BUNDLE_FORMAT,
+  PAGE_BUNDLE_VERSION,
+} from './bundle.js'
+export type {
+  PageBundle,
+  PageBundleMedia,
+  PageBundleTemplate,
+  PageBundleCollision,
+  PageBundleImportReport,
+  CreatePageBundleOptions,
+  ImportPageBundleOptions,
+} from './bundle.js'
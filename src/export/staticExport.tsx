@@ -0,0 +1,454 @@
+/**
+ * Static HTML Export
+ *
+ * Renders published Puck pages to standalone HTML files without a React or
+ * Next.js app. Component `<style>` blocks are hoisted into the document head
+ * and media referenced by the pages is copied next to them.
+ */
+
+import { mkdir, readFile, writeFile, copyFile } from 'fs/promises'
+import { basename, dirname, join, resolve, sep } from 'path'
+import { renderToStaticMarkup } from 'react-dom/server'
+import type { CollectionSlug, Payload, TypedLocale, Where } from 'payload'
+import type { Config as PuckConfig, Data as PuckData } from '@puckeditor/core'
+import { PageRenderer } from '../render/PageRenderer.js'
+import { createPayloadBindingResolver, resolveDataBindings } from '../utils/dataBindings.js'
+import { createPayloadTemplateResolver, resolveLinkedTemplates } from '../utils/templates.js'
+import { baseConfig } from '../config/index.js'
+import { DEFAULT_LAYOUTS, type LayoutDefinition } from '../layouts/index.js'
+import { ThemeProvider } from '../theme/context.js'
+import type { ThemeConfig } from '../theme/types.js'
+
+export interface StaticExportOptions {
+  /**
+   * Payload instance to read pages from
+   */
+  payload: Payload
+  /**
+   * Directory the site is written to
+   */
+  outDir: string
+  /**
+   * Collection to export
+   * @default 'pages'
+   */
+  collection?: string
+  /**
+   * Puck configuration used to render pages
+   * @default baseConfig
+   */
+  config?: PuckConfig
+  /**
+   * Layouts available to pages
+   * @default DEFAULT_LAYOUTS
+   */
+  layouts?: LayoutDefinition[]
+  /**
+   * Theme to wrap pages in
+   */
+  theme?: ThemeConfig
+  /**
+   * Locale to export (localized collections only)
+   */
+  locale?: string
+  /**
+   * Additional filter for the pages to export (published pages only are exported)
+   */
+  where?: Where
+  /**
+   * Local CSS files copied into `assets/` and linked from every page,
+   * e.g. the compiled stylesheet from `withPuckCSS`
+   */
+  stylesheets?: string[]
+  /**
+   * External stylesheet URLs linked from every page (e.g., Google Fonts)
+   */
+  stylesheetUrls?: string[]
+  /**
+   * Path prefix of the deployed site, used for links to assets and media
+   * @default ''
+   */
+  basePath?: string
+  /**
+   * Copy media referenced by the pages into `media/`
+   * @default true
+   */
+  copyMedia?: boolean
+  /**
+   * Origins of external media storage (e.g., an S3 bucket) whose files
+   * should also be copied
+   */
+  mediaOrigins?: string[]
+  /**
+   * Server URL for downloading media that isn't stored on local disk
+   * @default payload.config.serverURL
+   */
+  serverURL?: string
+}
+
+export interface StaticExportPage {
+  id: string | number
+  /** URL path of the page, '/' for the homepage */
+  path: string
+  /** Written HTML file */
+  file: string
+}
+
+export interface StaticExportResult {
+  pages: StaticExportPage[]
+  /** Media files copied into the export */
+  media: string[]
+  /** Pages and media that could not be exported */
+  errors: Array<{ source: string; message: string }>
+}
+
+export interface RenderPageHtmlOptions {
+  data: PuckData
+  config?: PuckConfig
+  layouts?: LayoutDefinition[]
+  theme?: ThemeConfig
+  title?: string
+  description?: string
+  lang?: string
+  /** Stylesheet hrefs linked in the head */
+  stylesheets?: string[]
+}
+
+const STYLE_TAG_PATTERN = /<style>([\s\S]*?)<\/style>/g
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Renders Puck data to a complete HTML document.
+ *
+ * The `<style>` blocks emitted by responsive components are removed from the
+ * body and inlined once in the head.
+ */
+export function renderPageHtml({
+  data,
+  config = baseConfig,
+  layouts = DEFAULT_LAYOUTS,
+  theme,
+  title,
+  description,
+  lang = 'en',
+  stylesheets = [],
+}: RenderPageHtmlOptions): string {
+  const page = <PageRenderer data={data} config={config} layouts={layouts} />
+  const markup = renderToStaticMarkup(theme ? <ThemeProvider theme={theme}>{page}</ThemeProvider> : page)
+
+  const styles = new Set<string>()
+  const body = markup.replace(STYLE_TAG_PATTERN, (_match, css: string) => {
+    if (css.trim()) styles.add(css.trim())
+    return ''
+  })
+
+  const head = [
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    title && `<title>${escapeHtml(title)}</title>`,
+    description && `<meta name="description" content="${escapeHtml(description)}">`,
+    ...stylesheets.map((href) => `<link rel="stylesheet" href="${escapeHtml(href)}">`),
+    styles.size > 0 && `<style>${Array.from(styles).join('\n')}</style>`,
+  ].filter(Boolean)
+
+  return `<!DOCTYPE html>\n<html lang="${escapeHtml(lang)}">\n<head>\n${head.join('\n')}\n</head>\n<body>\n${body}\n</body>\n</html>\n`
+}
+
+/**
+ * Joins path segments without empty, `.` and `..` segments, so stored
+ * slugs and URLs can't point outside the export
+ */
+function cleanPath(path: string): string {
+  return path
+    .split(/[/\\]+/)
+    .filter((segment) => segment !== '' && segment !== '.' && segment !== '..')
+    .join('/')
+}
+
+/**
+ * Resolves a path inside `root`
+ *
+ * @throws if the path resolves outside `root`
+ */
+function resolveInside(root: string, ...segments: string[]): string {
+  const target = resolve(root, ...segments)
+  if (target !== root && !target.startsWith(root + sep)) {
+    throw new Error(`Path is outside the export directory: ${segments.join('/')}`)
+  }
+  return target
+}
+
+/**
+ * URL path of a page: '/' for the homepage, the page-tree path when
+ * available, otherwise the slug
+ */
+function getPagePath(doc: Record<string, any>): string {
+  if (doc.isHomepage) return '/'
+  const path = typeof doc.path === 'string' && doc.path ? doc.path : doc.slug
+  return `/${cleanPath(String(path || '')) || cleanPath(String(doc.id))}`
+}
+
+// Attribute values that may hold media URLs: src, href, poster, srcset and url(...) in styles
+const URL_ATTRIBUTE_PATTERN = /\b(src|href|poster|srcset|style)="([^"]*)"/g
+const CSS_URL_PATTERN = /url\((?:&quot;|&#x27;|['"])?(.*?)(?:&quot;|&#x27;|['"])?\)/g
+
+function parseUrl(value: string, base: string): URL | null {
+  try {
+    return new URL(value, base || 'http://localhost')
+  } catch {
+    return null
+  }
+}
+
+interface MediaSource {
+  /** Path inside the export's media directory */
+  target: string
+  /** Local file to copy, if stored on disk */
+  file?: string
+  /** URL to download otherwise */
+  url: string
+}
+
+interface MediaCollector {
+  /** Rewrites media URLs in the HTML to their exported location */
+  rewrite: (html: string) => string
+  /** Copies every media file seen while rewriting */
+  copy: (outDir: string, errors: StaticExportResult['errors']) => Promise<string[]>
+}
+
+/**
+ * Tracks media referenced by exported pages. Uploads stored on local disk
+ * are copied from there, everything else is downloaded.
+ */
+function createMediaCollector(
+  payload: Payload,
+  serverURL: string,
+  mediaOrigins: string[],
+  mediaPath: string
+): MediaCollector {
+  const sources = new Map<string, MediaSource | null>()
+  const apiRoute = payload.config.routes?.api || '/api'
+  const serverOrigin = serverURL ? new URL(serverURL).origin : null
+
+  const resolveSource = (value: string): MediaSource | null => {
+    if (sources.has(value)) return sources.get(value)!
+
+    const isRelative = value.startsWith('/') && !value.startsWith('//')
+    let source: MediaSource | null = null
+
+    const url = isRelative || /^https?:\/\//.test(value) ? parseUrl(value, serverURL) : null
+
+    if (url) {
+      if (isRelative || url.origin === serverOrigin) {
+        // Payload serves uploads at /api/:collection/file/:filename
+        for (const collection of payload.config.collections) {
+          const prefix = `${apiRoute}/${collection.slug}/file/`
+          if (!collection.upload || !url.pathname.startsWith(prefix)) continue
+
+          // Upload filenames have no directories
+          const filename = basename(decodeURIComponent(url.pathname.slice(prefix.length)))
+          if (!cleanPath(filename)) break
+          const upload: { disableLocalStorage?: boolean; staticDir?: string } =
+            typeof collection.upload === 'object' ? collection.upload : {}
+          source = {
+            target: `${collection.slug}/${filename}`,
+            file: upload.disableLocalStorage
+              ? undefined
+              : resolve(upload.staticDir || collection.slug, filename),
+            url: url.href,
+          }
+          break
+        }
+      } else if (mediaOrigins.includes(url.origin)) {
+        source = {
+          target: cleanPath(`${url.host}/${decodeURIComponent(url.pathname)}`),
+          url: url.href,
+        }
+      }
+    }
+
+    sources.set(value, source)
+    return source
+  }
+
+  const rewriteUrl = (value: string) => {
+    const source = resolveSource(value.replace(/&amp;/g, '&'))
+    return source ? `${mediaPath}/${source.target}` : value
+  }
+
+  return {
+    rewrite: (html) =>
+      html.replace(URL_ATTRIBUTE_PATTERN, (_match, attribute: string, value: string) => {
+        if (attribute === 'style') {
+          return `style="${value.replace(CSS_URL_PATTERN, (cssMatch, url: string) =>
+            resolveSource(url.replace(/&amp;/g, '&')) ? `url(${rewriteUrl(url)})` : cssMatch
+          )}"`
+        }
+        if (attribute === 'srcset') {
+          const rewritten = value
+            .split(',')
+            .map((candidate) => {
+              const [url, ...descriptor] = candidate.trim().split(/\s+/)
+              return [rewriteUrl(url), ...descriptor].join(' ')
+            })
+            .join(', ')
+          return `srcset="${rewritten}"`
+        }
+        return `${attribute}="${rewriteUrl(value)}"`
+      }),
+
+    copy: async (outDir, errors) => {
+      const copied: string[] = []
+
+      for (const source of sources.values()) {
+        if (!source) continue
+        try {
+          const destination = resolveInside(resolve(outDir), 'media', source.target)
+          await mkdir(dirname(destination), { recursive: true })
+          if (source.file) {
+            await copyFile(source.file, destination)
+          } else {
+            const response = await fetch(source.url)
+            if (!response.ok) throw new Error(`${response.status} ${response.statusText}`)
+            await writeFile(destination, Buffer.from(await response.arrayBuffer()))
+          }
+          copied.push(destination)
+        } catch (error) {
+          errors.push({
+            source: source.url,
+            message: error instanceof Error ? error.message : 'Failed to copy media',
+          })
+        }
+      }
+
+      return copied
+    },
+  }
+}
+
+/**
+ * Exports every published page of a collection to static HTML.
+ *
+ * Each page is written to `<outDir>/<path>/index.html`. Stylesheets are
+ * copied to `assets/` and referenced media to `media/`. Pages and media
+ * that fail are reported in `errors` instead of stopping the export.
+ *
+ * Components render in their initial state without client-side JavaScript,
+ * so interactive components (e.g., Accordion) are not interactive.
+ *
+ * @example
+ * ```ts
+ * import { getPayload } from 'payload'
+ * import config from '@payload-config'
+ * import { exportStaticSite } from '@delmaredigital/payload-puck/export'
+ *
+ * const payload = await getPayload({ config })
+ * const result = await exportStaticSite({
+ *   payload,
+ *   outDir: 'out',
+ *   stylesheets: ['public/puck-editor-styles.css'],
+ * })
+ * ```
+ */
+export async function exportStaticSite({
+  payload,
+  outDir,
+  collection = 'pages',
+  config = baseConfig,
+  layouts = DEFAULT_LAYOUTS,
+  theme,
+  locale,
+  where,
+  stylesheets = [],
+  stylesheetUrls = [],
+  basePath = '',
+  copyMedia = true,
+  mediaOrigins = [],
+  serverURL = payload.config.serverURL,
+}: StaticExportOptions): Promise<StaticExportResult> {
+  const result: StaticExportResult = { pages: [], media: [], errors: [] }
+  const root = resolve(outDir)
+  const prefix = basePath.replace(/\/+$/, '')
+
+  const collectionConfig = payload.config.collections.find((c) => c.slug === collection)
+  if (!collectionConfig) {
+    throw new Error(`Collection '${collection}' not found`)
+  }
+
+  // Copy stylesheets into assets/
+  const stylesheetHrefs = [...stylesheetUrls]
+  await mkdir(join(root, 'assets'), { recursive: true })
+  for (const stylesheet of stylesheets) {
+    const filename = basename(stylesheet)
+    await writeFile(join(root, 'assets', filename), await readFile(stylesheet))
+    stylesheetHrefs.push(`${prefix}/assets/${filename}`)
+  }
+
+  const conditions: Where[] = where ? [where] : []
+  if (collectionConfig.versions && typeof collectionConfig.versions === 'object' && collectionConfig.versions.drafts) {
+    conditions.push({ _status: { equals: 'published' } })
+  }
+
+  const { docs } = await payload.find({
+    collection: collection as CollectionSlug,
+    where: conditions.length > 0 ? { and: conditions } : undefined,
+    locale: locale as TypedLocale | undefined,
+    depth: 1,
+    draft: false,
+    pagination: false,
+  })
+
+  const media = createMediaCollector(payload, serverURL, mediaOrigins, `${prefix}/media`)
+  // Linked templates and bound values are resolved up front, since static markup can't await
+  const resolveTemplates = createPayloadTemplateResolver({ payload, locale })
+  const resolveBindings = createPayloadBindingResolver({ payload, locale })
+
+  for (const doc of docs as Record<string, any>[]) {
+    const path = getPagePath(doc)
+    try {
+      if (!doc.puckData?.content) {
+        throw new Error('Page has no Puck content')
+      }
+
+      let html = renderPageHtml({
+        data: await resolveDataBindings(
+          await resolveLinkedTemplates(doc.puckData, resolveTemplates),
+          resolveBindings
+        ),
+        config,
+        layouts,
+        theme,
+        title: doc.meta?.title || doc.title,
+        description: doc.meta?.description,
+        lang: locale,
+        stylesheets: stylesheetHrefs,
+      })
+      if (copyMedia) {
+        html = media.rewrite(html)
+      }
+
+      const file = resolveInside(root, `.${path}`, 'index.html')
+      await mkdir(dirname(file), { recursive: true })
+      await writeFile(file, html)
+      result.pages.push({ id: doc.id, path, file })
+    } catch (error) {
+      result.errors.push({
+        source: path,
+        message: error instanceof Error ? error.message : 'Failed to render page',
+      })
+    }
+  }
+
+  if (copyMedia) {
+    result.media = await media.copy(root, result.errors)
+  }
+
+  return result
+}
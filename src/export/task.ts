@@ -0,0 +1,96 @@
+import type { TaskConfig } from 'payload'
+import { exportStaticSite, type StaticExportOptions } from './staticExport.js'
+
+/**
+ * Slug of the static export jobs task
+ */
+export const PUCK_STATIC_EXPORT_TASK_SLUG = 'puckStaticExport'
+
+/**
+ * Input of the static export jobs task. Each value overrides the task option.
+ */
+export interface StaticExportTaskInput {
+  outDir?: string
+  collection?: string
+  locale?: string
+}
+
+/**
+ * Output of the static export jobs task
+ */
+export interface StaticExportTaskOutput {
+  pages: number
+  media: number
+  errors: number
+}
+
+export type StaticExportTaskOptions = Omit<StaticExportOptions, 'payload'>
+
+/**
+ * Creates a jobs task that exports published pages to static HTML.
+ *
+ * Add it to `jobs.tasks` in your Payload config and queue it whenever a
+ * static build is needed. Pages and media that fail are logged and counted
+ * in the task output without failing the whole export.
+ *
+ * @example
+ * ```ts
+ * // payload.config.ts
+ * import { createStaticExportTask } from '@delmaredigital/payload-puck/export'
+ *
+ * export default buildConfig({
+ *   jobs: {
+ *     tasks: [
+ *       createStaticExportTask({
+ *         outDir: 'out',
+ *         stylesheets: ['public/puck-editor-styles.css'],
+ *       }),
+ *     ],
+ *   },
+ * })
+ *
+ * // Later, e.g. from an afterChange hook
+ * await payload.jobs.queue({ task: 'puckStaticExport', input: {} })
+ * ```
+ */
+export function createStaticExportTask(options: StaticExportTaskOptions): TaskConfig<{
+  input: StaticExportTaskInput
+  output: StaticExportTaskOutput
+}> {
+  return {
+    slug: PUCK_STATIC_EXPORT_TASK_SLUG,
+    label: 'Puck Static Export',
+    retries: 1,
+    inputSchema: [
+      { name: 'outDir', type: 'text' },
+      { name: 'collection', type: 'text' },
+      { name: 'locale', type: 'text' },
+    ],
+    outputSchema: [
+      { name: 'pages', type: 'number', required: true },
+      { name: 'media', type: 'number', required: true },
+      { name: 'errors', type: 'number', required: true },
+    ],
+    handler: async ({ input, req }) => {
+      const result = await exportStaticSite({
+        ...options,
+        payload: req.payload,
+        outDir: input.outDir || options.outDir,
+        collection: input.collection || options.collection,
+        locale: input.locale || options.locale,
+      })
+
+      for (const error of result.errors) {
+        req.payload.logger.error(`[payload-puck] Static export failed for ${error.source}: ${error.message}`)
+      }
+
+      return {
+        output: {
+          pages: result.pages.length,
+          media: result.media.length,
+          errors: result.errors.length,
+        },
+      }
+    },
+  }
+}
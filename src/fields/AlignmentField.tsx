@@ -15,6 +15,7 @@ import {
   AlignRight,
   X,
 } from 'lucide-react'
+import { alignmentSchema } from './schemas.js'
 
 // =============================================================================
 // Types
@@ -199,6 +200,7 @@ export function createAlignmentField(
   return {
     type: 'custom',
     label: config.label,
+    metadata: { schema: alignmentSchema },
     render: ({ value, onChange, readOnly }) => (
       <AlignmentField
         value={value}
@@ -28,6 +28,7 @@ import {
   getRelevantIntensityControls,
   getDefaultEasingForAnimation,
 } from './shared.js'
+import { animationSchema } from './schemas.js'
 
 // =============================================================================
 // Types
@@ -746,6 +747,7 @@ export function createAnimationField(config: CreateAnimationFieldConfig = {}): C
   return {
     type: 'custom',
     label: config.label,
+    metadata: { schema: animationSchema },
     render: ({ value, onChange, readOnly }) => (
       <AnimationField
         value={value}
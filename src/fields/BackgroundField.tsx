@@ -25,6 +25,7 @@ import { backgroundValueToCSS, getBackgroundImageOpacity } from './shared.js'
 import { ColorPickerField } from './ColorPickerField.js'
 import { MediaField, type MediaReference } from './MediaField.js'
 import { GradientEditor } from './GradientEditor.js'
+import { backgroundSchema } from './schemas.js'
 
 // =============================================================================
 // Types
@@ -913,6 +914,7 @@ export function createBackgroundField(config: {
   return {
     type: 'custom',
     label: config.label,
+    metadata: { schema: backgroundSchema },
     render: ({ value, onChange, readOnly }) => (
       <BackgroundField
         value={value}
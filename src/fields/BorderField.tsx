@@ -22,6 +22,7 @@ import {
 } from 'lucide-react'
 import { ColorPickerField } from './ColorPickerField.js'
 import type { BorderValue, ColorValue } from './shared.js'
+import { borderSchema } from './schemas.js'
 
 // =============================================================================
 // Types
@@ -415,6 +416,7 @@ export function createBorderField(config: {
   return {
     type: 'custom',
     label: config.label,
+    metadata: { schema: borderSchema },
     render: ({ value, onChange, readOnly }) => (
       <BorderField
         value={value}
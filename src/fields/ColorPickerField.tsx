@@ -16,6 +16,7 @@ import type { CustomField } from '@puckeditor/core'
 import { X } from 'lucide-react'
 import type { ColorValue } from './shared.js'
 import { useTheme } from '../theme/index.js'
+import { colorSchema } from './schemas.js'
 
 // =============================================================================
 // Types
@@ -434,6 +435,7 @@ export function createColorPickerField(config: {
   return {
     type: 'custom',
     label: config.label,
+    metadata: { schema: colorSchema },
     render: ({ value, onChange, readOnly }) => (
       <ColorPickerField
         value={value}
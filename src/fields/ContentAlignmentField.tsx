@@ -10,6 +10,7 @@
 import React, { useCallback, memo, type CSSProperties } from 'react'
 import type { CustomField } from '@puckeditor/core'
 import { X } from 'lucide-react'
+import { contentAlignmentSchema } from './schemas.js'
 
 // =============================================================================
 // Types
@@ -376,6 +377,7 @@ export function createContentAlignmentField(
   return {
     type: 'custom',
     label: config.label,
+    metadata: { schema: contentAlignmentSchema },
     render: ({ value, onChange, readOnly }) => (
       <ContentAlignmentField
         value={value}
@@ -0,0 +1,521 @@
+'use client'
+
+/**
+ * DataBindingField - Custom Puck field for binding props to Payload documents
+ *
+ * Pick a document from one of the plugin's `dataBindings.collections`, then
+ * a document field for each bindable prop. `withDataBinding` adds the field
+ * to a component and shows the bound values in the canvas.
+ *
+ * Collections and their fields are listed by `GET /api/puck/bindings`.
+ */
+
+import React, { useEffect, useState, type CSSProperties } from 'react'
+import type { ComponentConfig, CustomField } from '@puckeditor/core'
+import { Database, Search, Unlink, X } from 'lucide-react'
+import type { DataBindingValue } from './shared.js'
+import { dataBindingSchema } from './schemas.js'
+import { applyDataBinding, isActiveBinding, type BindableProp } from '../utils/dataBindings.js'
+import type {
+  DataBindingCollectionInfo,
+  DataBindingFieldInfo,
+} from '../endpoints/dataBindings.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface DataBindingFieldProps {
+  value: DataBindingValue | null
+  onChange: (value: DataBindingValue | null) => void
+  bindableProps: BindableProp[]
+  label?: string
+  readOnly?: boolean
+}
+
+interface DocumentOption {
+  id: string | number
+  title: string
+}
+
+// =============================================================================
+// Data
+// =============================================================================
+
+let collectionsRequest: Promise<DataBindingCollectionInfo[] | null> | null = null
+
+/**
+ * Fetches the bindable collections once per editor session. Resolves to
+ * null when data bindings aren't enabled.
+ */
+function fetchBindingCollections(): Promise<DataBindingCollectionInfo[] | null> {
+  if (!collectionsRequest) {
+    collectionsRequest = fetch('/api/puck/bindings')
+      .then(async (response) => {
+        if (!response.ok) return null
+        const data = await response.json()
+        return (data.collections as DataBindingCollectionInfo[]) ?? []
+      })
+      .catch((error) => {
+        console.error('[payload-puck] Failed to load data binding collections:', error)
+        collectionsRequest = null
+        return null
+      })
+  }
+  return collectionsRequest
+}
+
+/**
+ * Fields a prop can be bound to: upload fields for media props, all other
+ * fields for text props
+ */
+function getFieldsForProp(fields: DataBindingFieldInfo[], prop: BindableProp) {
+  return fields.filter((field) =>
+    prop.kind === 'media' ? field.type === 'upload' : field.type !== 'upload'
+  )
+}
+
+async function fetchBoundDocument(binding: DataBindingValue): Promise<Record<string, any> | null> {
+  try {
+    const response = await fetch(`/api/${binding.collection}/${binding.id}?depth=1`)
+    if (!response.ok) throw new Error(`Failed to fetch document (${response.status})`)
+    return await response.json()
+  } catch (error) {
+    console.error(
+      `[payload-puck] Failed to resolve data binding to ${binding.collection}/${binding.id}:`,
+      error
+    )
+    return null
+  }
+}
+
+// =============================================================================
+// Styles
+// =============================================================================
+
+const styles = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '10px',
+  } as CSSProperties,
+  label: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    fontSize: '14px',
+    fontWeight: 500,
+    color: 'var(--theme-elevation-800)',
+  } as CSSProperties,
+  hint: {
+    fontSize: '12px',
+    color: 'var(--theme-elevation-500)',
+  } as CSSProperties,
+  select: {
+    width: '100%',
+    height: '32px',
+    padding: '0 8px',
+    fontSize: '14px',
+    border: '1px solid var(--theme-elevation-150)',
+    borderRadius: '4px',
+    backgroundColor: 'var(--theme-input-bg)',
+    color: 'var(--theme-elevation-800)',
+    cursor: 'pointer',
+  } as CSSProperties,
+  input: {
+    width: '100%',
+    height: '32px',
+    padding: '0 8px 0 28px',
+    fontSize: '14px',
+    border: '1px solid var(--theme-elevation-150)',
+    borderRadius: '4px',
+    backgroundColor: 'var(--theme-input-bg)',
+    color: 'var(--theme-elevation-800)',
+    boxSizing: 'border-box',
+  } as CSSProperties,
+  results: {
+    maxHeight: '180px',
+    overflowY: 'auto',
+    border: '1px solid var(--theme-elevation-150)',
+    borderRadius: '4px',
+  } as CSSProperties,
+  result: {
+    display: 'block',
+    width: '100%',
+    padding: '6px 8px',
+    fontSize: '13px',
+    textAlign: 'left',
+    border: 'none',
+    borderBottom: '1px solid var(--theme-elevation-100)',
+    backgroundColor: 'transparent',
+    color: 'var(--theme-elevation-800)',
+    cursor: 'pointer',
+  } as CSSProperties,
+  document: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    padding: '6px 8px',
+    fontSize: '13px',
+    border: '1px solid var(--theme-elevation-150)',
+    borderRadius: '4px',
+    backgroundColor: 'var(--theme-elevation-50)',
+    color: 'var(--theme-elevation-800)',
+  } as CSSProperties,
+  propRow: {
+    display: 'grid',
+    gridTemplateColumns: '90px 1fr',
+    alignItems: 'center',
+    gap: '8px',
+  } as CSSProperties,
+  propLabel: {
+    fontSize: '12px',
+    color: 'var(--theme-elevation-600)',
+  } as CSSProperties,
+  iconButton: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    width: '24px',
+    height: '24px',
+    padding: 0,
+    marginLeft: 'auto',
+    border: 'none',
+    borderRadius: '4px',
+    backgroundColor: 'transparent',
+    color: 'var(--theme-elevation-500)',
+    cursor: 'pointer',
+  } as CSSProperties,
+  unbindButton: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: '6px',
+    height: '28px',
+    fontSize: '12px',
+    border: '1px solid var(--theme-elevation-150)',
+    borderRadius: '4px',
+    backgroundColor: 'transparent',
+    color: 'var(--theme-elevation-600)',
+    cursor: 'pointer',
+  } as CSSProperties,
+}
+
+// =============================================================================
+// DataBindingField Component
+// =============================================================================
+
+export function DataBindingField({
+  value,
+  onChange,
+  bindableProps,
+  label = 'Dynamic Content',
+  readOnly,
+}: DataBindingFieldProps) {
+  const [collections, setCollections] = useState<DataBindingCollectionInfo[] | null | undefined>(
+    undefined
+  )
+  const [collectionSlug, setCollectionSlug] = useState<string>(value?.collection ?? '')
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<DocumentOption[]>([])
+  const [searching, setSearching] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    fetchBindingCollections().then((result) => {
+      if (!cancelled) setCollections(result)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  useEffect(() => {
+    if (value?.collection) setCollectionSlug(value.collection)
+  }, [value?.collection])
+
+  const collection = collections?.find((c) => c.slug === collectionSlug)
+  const hasDocument = Boolean(value?.id) && value?.collection === collectionSlug
+
+  // Debounced document search by title
+  useEffect(() => {
+    if (!collection || hasDocument) return
+    const timeout = setTimeout(async () => {
+      setSearching(true)
+      try {
+        const params = new URLSearchParams({ limit: '10', depth: '0' })
+        if (query.trim()) params.set(`where[${collection.titleField}][like]`, query.trim())
+        const response = await fetch(`/api/${collection.slug}?${params}`)
+        if (!response.ok) throw new Error('Failed to search documents')
+        const data = await response.json()
+        setResults(
+          (data.docs || []).map((doc: Record<string, unknown>) => ({
+            id: doc.id as string | number,
+            title: String(doc[collection.titleField] ?? doc.id),
+          }))
+        )
+      } catch (error) {
+        console.error('Error searching documents:', error)
+        setResults([])
+      } finally {
+        setSearching(false)
+      }
+    }, 250)
+    return () => clearTimeout(timeout)
+  }, [collection, hasDocument, query])
+
+  if (collections === undefined) {
+    return <div style={styles.hint}>Loading...</div>
+  }
+
+  if (collections === null || collections.length === 0) {
+    return (
+      <div style={styles.container}>
+        <div style={styles.label}>
+          <Database size={14} />
+          {label}
+        </div>
+        <div style={styles.hint}>
+          Set the plugin's dataBindings.collections option to bind content to documents.
+        </div>
+      </div>
+    )
+  }
+
+  const handleSelectDocument = (doc: DocumentOption) => {
+    onChange({
+      collection: collectionSlug,
+      id: doc.id,
+      label: doc.title,
+      // Keep the field mapping when switching between documents of a collection
+      props: value?.collection === collectionSlug ? value.props : {},
+    })
+    setQuery('')
+  }
+
+  const handleSelectField = (prop: string, path: string) => {
+    if (!value) return
+    const props = { ...value.props }
+    if (path) {
+      props[prop] = path
+    } else {
+      delete props[prop]
+    }
+    onChange({ ...value, props })
+  }
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.label}>
+        <Database size={14} />
+        {label}
+      </div>
+
+      {/* Collection */}
+      <select
+        value={collectionSlug}
+        onChange={(e) => {
+          setCollectionSlug(e.target.value)
+          if (value) onChange(null)
+        }}
+        disabled={readOnly}
+        style={styles.select}
+      >
+        <option value="">Not bound</option>
+        {collections.map((c) => (
+          <option key={c.slug} value={c.slug}>
+            {c.label}
+          </option>
+        ))}
+      </select>
+
+      {/* Document */}
+      {collection && hasDocument && value && (
+        <div style={styles.document}>
+          <span>{value.label || String(value.id)}</span>
+          {!readOnly && (
+            <button
+              type="button"
+              title="Choose another document"
+              onClick={() => onChange({ ...value, id: '', label: undefined })}
+              style={styles.iconButton}
+            >
+              <X size={14} />
+            </button>
+          )}
+        </div>
+      )}
+
+      {collection && !hasDocument && !readOnly && (
+        <>
+          <div style={{ position: 'relative' }}>
+            <Search
+              size={14}
+              style={{
+                position: 'absolute',
+                left: '8px',
+                top: '9px',
+                color: 'var(--theme-elevation-500)',
+              }}
+            />
+            <input
+              type="text"
+              value={query}
+              placeholder={`Search ${collection.label}...`}
+              onChange={(e) => setQuery(e.target.value)}
+              style={styles.input}
+            />
+          </div>
+          <div style={styles.results}>
+            {searching && results.length === 0 ? (
+              <div style={{ ...styles.hint, padding: '8px' }}>Searching...</div>
+            ) : results.length === 0 ? (
+              <div style={{ ...styles.hint, padding: '8px' }}>No documents found</div>
+            ) : (
+              results.map((doc) => (
+                <button
+                  key={doc.id}
+                  type="button"
+                  onClick={() => handleSelectDocument(doc)}
+                  style={styles.result}
+                >
+                  {doc.title}
+                </button>
+              ))
+            )}
+          </div>
+        </>
+      )}
+
+      {/* Field for each bindable prop */}
+      {collection && hasDocument && value && (
+        <>
+          {bindableProps.map((prop) => (
+            <div key={prop.name} style={styles.propRow}>
+              <span style={styles.propLabel}>{prop.label}</span>
+              <select
+                value={value.props?.[prop.name] ?? ''}
+                onChange={(e) => handleSelectField(prop.name, e.target.value)}
+                disabled={readOnly}
+                style={styles.select}
+              >
+                <option value="">Static value</option>
+                {getFieldsForProp(collection.fields, prop).map((field) => (
+                  <option key={field.path} value={field.path}>
+                    {field.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+          {!readOnly && (
+            <button type="button" onClick={() => onChange(null)} style={styles.unbindButton}>
+              <Unlink size={12} />
+              Unbind
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+// =============================================================================
+// Field Configuration Factory
+// =============================================================================
+
+interface CreateDataBindingFieldConfig {
+  /** Props that can be bound */
+  props: BindableProp[]
+  label?: string
+}
+
+/**
+ * Creates a Puck field configuration for binding props to a document
+ */
+export function createDataBindingField(
+  config: CreateDataBindingFieldConfig
+): CustomField<DataBindingValue | null> {
+  return {
+    type: 'custom',
+    label: config.label ?? 'Dynamic Content',
+    metadata: { schema: dataBindingSchema },
+    render: ({ value, onChange, readOnly }) => (
+      <DataBindingField
+        value={value}
+        onChange={onChange}
+        bindableProps={config.props}
+        label={config.label}
+        readOnly={readOnly}
+      />
+    ),
+  }
+}
+
+/**
+ * Adds a `binding` field to a component config. Bound props show the
+ * document's values in the canvas and are read-only while bound.
+ * `PageRenderer` resolves the bindings again when the page is rendered.
+ *
+ * @example
+ * ```ts
+ * export const CardConfig = withDataBinding(
+ *   { label: 'Card', fields: { ... }, render: ... },
+ *   [
+ *     { name: 'heading', label: 'Heading' },
+ *     { name: 'image', label: 'Image', kind: 'media' },
+ *   ]
+ * )
+ * ```
+ */
+export function withDataBinding(
+  config: ComponentConfig,
+  bindableProps: BindableProp[]
+): ComponentConfig {
+  const { _reset, ...fields } = config.fields ?? {}
+  const { resolveData } = config
+  const unbound = Object.fromEntries(bindableProps.map((prop) => [prop.name, false]))
+
+  return {
+    ...config,
+    // Shown first, after the reset button
+    fields: {
+      ...(_reset && { _reset }),
+      binding: createDataBindingField({ props: bindableProps }),
+      ...fields,
+    },
+    defaultProps: { ...config.defaultProps, binding: null },
+    resolveData: async (data, params) => {
+      const resolved = resolveData ? await resolveData(data, params) : data
+      const binding = resolved.props?.binding
+      if (!isActiveBinding(binding)) {
+        return { ...resolved, readOnly: { ...resolved.readOnly, ...unbound } }
+      }
+
+      const readOnly = {
+        ...resolved.readOnly,
+        ...unbound,
+        ...Object.fromEntries(
+          Object.entries(binding.props)
+            .filter(([, path]) => Boolean(path))
+            .map(([prop]) => [prop, true])
+        ),
+      }
+
+      // Bound values are kept in props, so only fetch when the binding changes
+      const { changed, trigger } = params
+      const shouldFetch =
+        trigger === 'load' || trigger === 'insert' || trigger === 'force' || changed.binding
+      if (!shouldFetch) {
+        return { ...resolved, readOnly }
+      }
+
+      const doc = await fetchBoundDocument(binding)
+      return {
+        ...resolved,
+        props: doc ? applyDataBinding(resolved.props ?? {}, binding, doc) : resolved.props,
+        readOnly,
+      }
+    },
+  }
+}
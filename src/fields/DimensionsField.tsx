@@ -33,6 +33,7 @@ import type {
   ContentAlignment,
 } from './shared.js'
 import { getDimensionsSummary } from './shared.js'
+import { dimensionsSchema } from './schemas.js'
 
 // =============================================================================
 // Types
@@ -959,6 +960,7 @@ export function createDimensionsField(
   return {
     type: 'custom',
     label: config.label,
+    metadata: { schema: dimensionsSchema },
     render: ({ value, onChange, readOnly }) => (
       <DimensionsField
         value={value}
@@ -22,6 +22,7 @@ import {
   MoveVertical,
   X,
 } from 'lucide-react'
+import { alignItemsSchema, justifyContentSchema } from './schemas.js'
 
 // =============================================================================
 // Types
@@ -290,6 +291,7 @@ export function createJustifyContentField(
   return {
     type: 'custom',
     label: config.label,
+    metadata: { schema: justifyContentSchema },
     render: ({ value, onChange, readOnly }) => (
       <JustifyContentField
         value={value}
@@ -318,6 +320,7 @@ export function createAlignItemsField(
   return {
     type: 'custom',
     label: config.label,
+    metadata: { schema: alignItemsSchema },
     render: ({ value, onChange, readOnly }) => (
       <AlignItemsField
         value={value}
@@ -14,6 +14,7 @@ import React, { useCallback, memo, type CSSProperties } from 'react'
 import type { CustomField } from '@puckeditor/core'
 import { Link, Unlink } from 'lucide-react'
 import type { PaddingValue } from './shared.js'
+import { paddingSchema } from './schemas.js'
 
 // Re-use PaddingValue type for margin (same structure)
 export type MarginValue = PaddingValue
@@ -349,6 +350,7 @@ export function createMarginField(config: {
   return {
     type: 'custom',
     label: config.label,
+    metadata: { schema: paddingSchema },
     render: ({ value, onChange, readOnly }) => (
       <MarginField
         value={value}
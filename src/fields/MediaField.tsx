@@ -10,6 +10,7 @@
 import React, { useState, useEffect, useCallback, memo, type CSSProperties } from 'react'
 import type { CustomField } from '@puckeditor/core'
 import { Image, X, Search, Loader2, Upload, AlertCircle, Link } from 'lucide-react'
+import { mediaSchema } from './schemas.js'
 
 // =============================================================================
 // Types
@@ -1094,6 +1095,7 @@ export function createMediaField(config: {
   return {
     type: 'custom',
     label: config.label,
+    metadata: { schema: mediaSchema },
     render: ({ value, onChange, readOnly }) => (
       <MediaField
         value={value}
@@ -13,6 +13,7 @@ import React, { useCallback, memo, type CSSProperties } from 'react'
 import type { CustomField } from '@puckeditor/core'
 import { Link, Unlink } from 'lucide-react'
 import type { PaddingValue } from './shared.js'
+import { paddingSchema } from './schemas.js'
 
 // =============================================================================
 // Types
@@ -345,6 +346,7 @@ export function createPaddingField(config: {
   return {
     type: 'custom',
     label: config.label,
+    metadata: { schema: paddingSchema },
     render: ({ value, onChange, readOnly }) => (
       <PaddingField
         value={value}
@@ -19,6 +19,7 @@ import {
 } from 'lucide-react'
 import type { Breakpoint, ResponsiveValue } from './shared.js'
 import { BREAKPOINTS } from './shared.js'
+import { responsiveSchema } from './schemas.js'
 
 // =============================================================================
 // Types
@@ -438,10 +439,12 @@ export function createResponsiveField<T>(
   config: CreateResponsiveFieldConfig<T>
 ): CustomField<ResponsiveValue<T> | null> {
   const innerFieldConfig = config.innerField({ label: undefined })
+  const innerSchema = innerFieldConfig.metadata?.schema
 
   return {
     type: 'custom',
     label: config.label,
+    ...(innerSchema && { metadata: { schema: responsiveSchema(innerSchema) } }),
     render: ({ value, onChange, readOnly }) => (
       <ResponsiveField
         value={value}
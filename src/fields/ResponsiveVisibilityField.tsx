@@ -20,6 +20,7 @@ import {
 } from 'lucide-react'
 import type { Breakpoint, VisibilityValue } from './shared.js'
 import { BREAKPOINTS, DEFAULT_VISIBILITY } from './shared.js'
+import { visibilitySchema } from './schemas.js'
 
 // =============================================================================
 // Types
@@ -268,6 +269,7 @@ export function createResponsiveVisibilityField(
   return {
     type: 'custom',
     label: config.label,
+    metadata: { schema: visibilitySchema },
     render: ({ value, onChange, readOnly }) => (
       <ResponsiveVisibilityField
         value={value}
@@ -22,6 +22,7 @@ export {
 } from './shared.js'
 
 import type { SizeValue, SizeMode, SizeUnit } from './shared.js'
+import { sizeSchema } from './schemas.js'
 
 interface SizeFieldProps {
   value: SizeValue | null
@@ -399,6 +400,7 @@ export function createSizeField(
   return {
     type: 'custom',
     label: config.label,
+    metadata: { schema: sizeSchema },
     render: ({ value, onChange, readOnly }) => (
       <SizeField
         value={value}
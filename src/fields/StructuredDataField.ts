@@ -0,0 +1,175 @@
+/**
+ * Structured Data Field - Schema.org settings for the page root
+ *
+ * An object field with the page type and the key properties of each type.
+ * Add `resolveStructuredDataFields` to the root's `resolveFields` so only
+ * the properties of the selected type are shown.
+ *
+ * Uses built-in Puck fields only, so it's safe in server configs.
+ */
+
+import type { Fields, ObjectField } from '@puckeditor/core'
+import type { StructuredDataType, StructuredDataValue } from './shared.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface CreateStructuredDataFieldOptions {
+  label?: string
+}
+
+type StructuredDataProperty = Exclude<keyof StructuredDataValue, 'type'>
+
+// =============================================================================
+// Properties
+// =============================================================================
+
+const PROPERTY_FIELDS: ObjectField<StructuredDataValue>['objectFields'] = {
+  type: {
+    type: 'select',
+    label: 'Page Type',
+    options: [
+      { label: 'None', value: 'none' },
+      { label: 'Web Page', value: 'WebPage' },
+      { label: 'Article', value: 'Article' },
+      { label: 'Product', value: 'Product' },
+      { label: 'FAQ Page (from Accordions)', value: 'FAQPage' },
+      { label: 'Event', value: 'Event' },
+    ],
+  },
+  description: { type: 'textarea', label: 'Description' },
+  image: { type: 'text', label: 'Image URL' },
+  author: { type: 'text', label: 'Author' },
+  datePublished: { type: 'text', label: 'Date Published (YYYY-MM-DD)' },
+  dateModified: { type: 'text', label: 'Date Modified (YYYY-MM-DD)' },
+  brand: { type: 'text', label: 'Brand' },
+  sku: { type: 'text', label: 'SKU' },
+  price: { type: 'text', label: 'Price' },
+  priceCurrency: { type: 'text', label: 'Currency (e.g. USD)' },
+  availability: {
+    type: 'select',
+    label: 'Availability',
+    options: [
+      { label: 'In Stock', value: 'InStock' },
+      { label: 'Out of Stock', value: 'OutOfStock' },
+      { label: 'Pre-Order', value: 'PreOrder' },
+      { label: 'Discontinued', value: 'Discontinued' },
+    ],
+  },
+  startDate: { type: 'text', label: 'Start (YYYY-MM-DDTHH:MM)' },
+  endDate: { type: 'text', label: 'End (YYYY-MM-DDTHH:MM)' },
+  locationName: { type: 'text', label: 'Venue' },
+  locationAddress: { type: 'text', label: 'Address (URL for online events)' },
+  attendanceMode: {
+    type: 'select',
+    label: 'Attendance',
+    options: [
+      { label: 'In Person', value: 'Offline' },
+      { label: 'Online', value: 'Online' },
+      { label: 'Mixed', value: 'Mixed' },
+    ],
+  },
+}
+
+/**
+ * Properties shown for each page type
+ */
+const TYPE_PROPERTIES: Record<StructuredDataType, StructuredDataProperty[]> = {
+  none: [],
+  WebPage: ['description'],
+  Article: ['description', 'image', 'author', 'datePublished', 'dateModified'],
+  Product: ['description', 'image', 'brand', 'sku', 'price', 'priceCurrency', 'availability'],
+  FAQPage: ['description'],
+  Event: [
+    'description',
+    'image',
+    'startDate',
+    'endDate',
+    'locationName',
+    'locationAddress',
+    'attendanceMode',
+  ],
+}
+
+export const DEFAULT_STRUCTURED_DATA: StructuredDataValue = { type: 'none' }
+
+// =============================================================================
+// Field Factory
+// =============================================================================
+
+/**
+ * Creates the structured data root field
+ *
+ * @example
+ * ```ts
+ * root: {
+ *   fields: {
+ *     structuredData: createStructuredDataField(),
+ *   },
+ *   resolveFields: (data, { fields }) => resolveStructuredDataFields(data.props, fields),
+ * }
+ * ```
+ */
+export function createStructuredDataField(
+  options: CreateStructuredDataFieldOptions = {}
+): ObjectField<StructuredDataValue> {
+  return {
+    type: 'object',
+    label: options.label ?? 'Structured Data',
+    objectFields: PROPERTY_FIELDS,
+  }
+}
+
+/**
+ * Narrows the `structuredData` field to the properties of the selected
+ * page type. Other fields are returned unchanged.
+ */
+export function resolveStructuredDataFields<TFields extends Fields>(
+  props: { structuredData?: StructuredDataValue | null } | undefined,
+  fields: TFields,
+  fieldName: string = 'structuredData'
+): TFields {
+  const field = fields[fieldName]
+  if (!field || field.type !== 'object') return fields
+
+  const type = props?.[fieldName as 'structuredData']?.type ?? 'none'
+  const properties = TYPE_PROPERTIES[type] ?? []
+  const objectFields = Object.fromEntries(
+    Object.entries(PROPERTY_FIELDS).filter(
+      ([name]) => name === 'type' || properties.includes(name as StructuredDataProperty)
+    )
+  )
+
+  return { ...fields, [fieldName]: { ...field, objectFields } }
+}
+
+/**
+ * Adds the `structuredData` field, its default value and the matching
+ * `resolveFields` to a root config
+ *
+ * @example
+ * ```ts
+ * const config: Config = {
+ *   root: withStructuredData({
+ *     fields: { title: { type: 'text' } },
+ *     defaultProps: { title: 'New Page' },
+ *   }),
+ *   components: { ... },
+ * }
+ * ```
+ */
+export function withStructuredData<TRoot extends { fields?: Fields; defaultProps?: object }>(
+  root: TRoot
+) {
+  return {
+    ...root,
+    fields: { ...root.fields, structuredData: createStructuredDataField() },
+    defaultProps: { ...root.defaultProps, structuredData: DEFAULT_STRUCTURED_DATA },
+    // Show only the properties of the selected page type
+    resolveFields: (
+      data: { props?: { structuredData?: StructuredDataValue | null } },
+      { fields }: { fields: Fields }
+    ) => resolveStructuredDataFields(data.props, fields),
+  }
+}
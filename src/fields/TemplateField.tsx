@@ -8,6 +8,7 @@
  * - Shows a dropdown to select a template
  * - Has a "Save as template" button to save current slot content
  * - When a template is selected, loads the saved components into the slot
+ * - In linked mode, offers "Edit master" and "Detach" instead of local editing
  *
  * Uses Puck's usePuck hook to access and modify component slot data.
  */
@@ -24,6 +25,8 @@ import {
   ChevronDown,
   ChevronUp,
   X,
+  ExternalLink,
+  Unlink,
 } from 'lucide-react'
 
 // Create usePuck hook for accessing editor state
@@ -48,6 +51,7 @@ interface TemplateFieldProps {
   label?: string
   readOnly?: boolean
   apiEndpoint?: string
+  adminRoute?: string
 }
 
 interface SaveFormState {
@@ -251,6 +255,7 @@ function TemplateFieldInner({
   label = 'Template',
   readOnly,
   apiEndpoint = '/api/puck-templates',
+  adminRoute = '/admin',
 }: TemplateFieldProps) {
   const [templates, setTemplates] = useState<TemplateItem[]>([])
   const [loading, setLoading] = useState(false)
@@ -272,8 +277,9 @@ function TemplateFieldInner({
   const getSelectorForId = usePuck((s) => s.getSelectorForId)
   const getItemById = usePuck((s) => s.getItemById)
 
-  // Get current component ID
+  // Get current component ID and template mode
   const componentId = selectedItem?.props?.id as string | undefined
+  const isLinked = selectedItem?.props?.mode === 'linked'
 
   // Fetch templates from Payload API
   const fetchTemplates = useCallback(async () => {
@@ -314,6 +320,37 @@ function TemplateFieldInner({
     fetchTemplates()
   }, [fetchTemplates])
 
+  // Merge props into the selected Template component
+  const updateSelectedProps = useCallback(
+    (propsToMerge: Record<string, unknown>) => {
+      if (!componentId || !selectedItem) return
+
+      const selector = getSelectorForId(componentId)
+
+      if (selector) {
+        dispatch({
+          type: 'replace',
+          destinationIndex: selector.index,
+          destinationZone: selector.zone,
+          data: {
+            type: selectedItem.type,
+            props: {
+              ...selectedItem.props,
+              ...propsToMerge,
+            },
+          },
+        })
+      } else {
+        const updatedData = updateComponentInData(appState.data, componentId, propsToMerge)
+        dispatch({
+          type: 'setData',
+          data: updatedData,
+        })
+      }
+    },
+    [componentId, selectedItem, getSelectorForId, appState.data, dispatch]
+  )
+
   // Handle template selection
   const handleTemplateSelect = useCallback(
     async (templateId: string) => {
@@ -324,34 +361,7 @@ function TemplateFieldInner({
 
       setLoadingTemplate(true)
       try {
-        const selector = getSelectorForId(componentId)
-
-        if (selector) {
-          dispatch({
-            type: 'replace',
-            destinationIndex: selector.index,
-            destinationZone: selector.zone,
-            data: {
-              type: selectedItem.type,
-              props: {
-                ...selectedItem.props,
-                content: template.content,
-                templateId: templateId,
-              },
-            },
-          })
-        } else {
-          const updatedData = updateComponentInData(
-            appState.data,
-            componentId,
-            { content: template.content, templateId: templateId }
-          )
-          dispatch({
-            type: 'setData',
-            data: updatedData,
-          })
-        }
-
+        updateSelectedProps({ content: template.content, templateId: templateId })
         onChange(templateId)
       } catch (err) {
         console.error('Error loading template:', err)
@@ -360,9 +370,27 @@ function TemplateFieldInner({
         setLoadingTemplate(false)
       }
     },
-    [componentId, selectedItem, templates, getSelectorForId, appState.data, dispatch, onChange]
+    [componentId, selectedItem, templates, updateSelectedProps, onChange]
   )
 
+  // Open the master template in the admin so changes reach every linked page
+  const handleEditMaster = useCallback(() => {
+    if (!value) return
+    window.open(`${adminRoute}/collections/puck-templates/${value}`, '_blank')
+  }, [adminRoute, value])
+
+  // Detach: keep the current content as a local, editable copy
+  const handleDetach = useCallback(() => {
+    if (
+      !confirm(
+        'Detach this block from the template? It will keep the current content but no longer receive template updates.'
+      )
+    ) {
+      return
+    }
+    updateSelectedProps({ mode: 'copy' })
+  }, [updateSelectedProps])
+
   // Handle clearing template selection
   const handleClearTemplate = useCallback(() => {
     onChange(null)
@@ -514,8 +542,22 @@ function TemplateFieldInner({
         )}
       </div>
 
+      {/* Linked mode: content comes from the master template */}
+      {!readOnly && isLinked && value && (
+        <div style={styles.buttonRow}>
+          <button type="button" onClick={handleEditMaster} style={styles.button}>
+            <ExternalLink style={{ width: '16px', height: '16px' }} />
+            Edit master
+          </button>
+          <button type="button" onClick={handleDetach} style={styles.button}>
+            <Unlink style={{ width: '16px', height: '16px' }} />
+            Detach
+          </button>
+        </div>
+      )}
+
       {/* Action Buttons */}
-      {!readOnly && (
+      {!readOnly && !isLinked && (
         <div style={styles.buttonRow}>
           <button
             type="button"
@@ -662,6 +704,7 @@ export const TemplateField = memo(TemplateFieldInner)
 export function createTemplateField(config: {
   label?: string
   apiEndpoint?: string
+  adminRoute?: string
 }): CustomField<string | null> {
   return {
     type: 'custom',
@@ -673,6 +716,7 @@ export function createTemplateField(config: {
         label={config.label}
         readOnly={readOnly}
         apiEndpoint={config.apiEndpoint}
+        adminRoute={config.adminRoute}
       />
     ),
   }
@@ -27,6 +27,7 @@ import {
 } from 'lucide-react'
 import type { TransformValue, TransformOrigin } from './shared.js'
 import { DEFAULT_TRANSFORM, transformValueToCSS } from './shared.js'
+import { transformSchema } from './schemas.js'
 
 // =============================================================================
 // Types
@@ -753,6 +754,7 @@ export function createTransformField(config: {
   return {
     type: 'custom',
     label: config.label,
+    metadata: { schema: transformSchema },
     render: ({ value, onChange, readOnly }) => (
       <TransformField
         value={value}
@@ -15,6 +15,7 @@ import {
   AlignEndVertical,
   X,
 } from 'lucide-react'
+import { verticalAlignmentSchema } from './schemas.js'
 
 // =============================================================================
 // Types
@@ -195,6 +196,7 @@ export function createVerticalAlignmentField(
   return {
     type: 'custom',
     label: config.label,
+    metadata: { schema: verticalAlignmentSchema },
     render: ({ value, onChange, readOnly }) => (
       <VerticalAlignmentField
         value={value}
@@ -22,6 +22,7 @@ import {
   SlidersHorizontal,
 } from 'lucide-react'
 import type { WidthValue } from './shared.js'
+import { widthSchema } from './schemas.js'
 
 // =============================================================================
 // Types
@@ -498,6 +499,7 @@ export function createWidthField(config: {
   return {
     type: 'custom',
     label: config.label,
+    metadata: { schema: widthSchema },
     render: ({ value, onChange, readOnly }) => (
       <WidthField
         value={value}
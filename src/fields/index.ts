@@ -7,6 +7,9 @@
 // Shared field definitions
 export * from './shared.js'
 
+// JSON Schemas for custom field values (attached as `metadata.schema`)
+export * from './schemas.js'
+
 // Custom field components
 export { MediaField, createMediaField } from './MediaField.js'
 export type { MediaReference } from './MediaField.js'
@@ -73,6 +76,22 @@ export {
   lockedHomepageField,
 } from './LockedField.js'
 
+export {
+  createStructuredDataField,
+  resolveStructuredDataFields,
+  withStructuredData,
+  DEFAULT_STRUCTURED_DATA,
+} from './StructuredDataField.js'
+export type { StructuredDataValue, StructuredDataType } from './shared.js'
+
+export {
+  DataBindingField,
+  createDataBindingField,
+  withDataBinding,
+} from './DataBindingField.js'
+export type { DataBindingValue } from './shared.js'
+export type { BindableProp } from '../utils/dataBindings.js'
+
 export { AlignmentField, createAlignmentField } from './AlignmentField.js'
 export type { Alignment } from './AlignmentField.js'
 
@@ -0,0 +1,445 @@
+/**
+ * JSON Schemas for Custom Field Values
+ *
+ * Each schema describes the value a custom field stores in Puck data. The
+ * field factories attach them as `metadata.schema`, which is read by
+ * `createPuckDataSchema()` / `createPuckConfigTypes()` and used as the AI
+ * `schema` for custom fields that have AI instructions.
+ */
+
+import type { JsonSchema } from '../api/schemas.js'
+
+// =============================================================================
+// Basic Types
+// =============================================================================
+
+/** JSON Schema for ColorValue */
+export const colorSchema = {
+  type: 'object',
+  properties: {
+    hex: { type: 'string', description: 'Hex color code, e.g., "#3b82f6"' },
+    opacity: { type: 'number', minimum: 0, maximum: 100, description: 'Opacity 0-100, default 100' },
+  },
+  required: ['hex'],
+}
+
+/** JSON Schema for Alignment (text alignment) */
+export const alignmentSchema = {
+  type: 'string',
+  enum: ['left', 'center', 'right'],
+  description: "Text/content alignment: 'left', 'center', or 'right'",
+}
+
+/** JSON Schema for JustifyContent (flex) */
+export const justifyContentSchema = {
+  type: 'string',
+  enum: ['flex-start', 'center', 'flex-end', 'space-between', 'space-around'],
+  description: 'Main-axis distribution: flex-start (default), center, flex-end, space-between, space-around',
+}
+
+/** JSON Schema for AlignItems (flex) */
+export const alignItemsSchema = {
+  type: 'string',
+  enum: ['flex-start', 'center', 'flex-end', 'stretch'],
+  description: 'Cross-axis alignment: flex-start, center, flex-end, stretch',
+}
+
+/** JSON Schema for VerticalAlignment */
+export const verticalAlignmentSchema = {
+  type: 'string',
+  enum: ['flex-start', 'center', 'flex-end'],
+  description: 'Vertical alignment: flex-start (top), center, flex-end (bottom)',
+}
+
+/** JSON Schema for ContentAlignmentValue */
+export const contentAlignmentSchema = {
+  type: 'object',
+  properties: {
+    horizontal: { type: 'string', enum: ['start', 'center', 'end'], description: 'Horizontal position' },
+    vertical: { type: 'string', enum: ['start', 'center', 'end'], description: 'Vertical position' },
+  },
+  required: ['horizontal', 'vertical'],
+}
+
+/** JSON Schema for MediaReference */
+export const mediaSchema = {
+  type: 'object',
+  properties: {
+    id: { type: ['string', 'number'], description: 'Media document ID' },
+    url: { type: 'string', description: 'Media URL' },
+    alt: { type: 'string', description: 'Alternative text' },
+    width: { type: 'number', description: 'Width in pixels' },
+    height: { type: 'number', description: 'Height in pixels' },
+  },
+  required: ['id', 'url'],
+}
+
+// =============================================================================
+// Responsive Types
+// =============================================================================
+
+/**
+ * JSON Schema for ResponsiveValue<T>, given the schema of T
+ */
+export function responsiveSchema(schema: JsonSchema) {
+  return {
+    type: 'object',
+    properties: {
+      xs: { ...schema, description: 'Base (mobile) value - required' },
+      sm: { ...schema, description: 'Small screens (640px+) - optional override' },
+      md: { ...schema, description: 'Medium screens (768px+) - optional override' },
+      lg: { ...schema, description: 'Large screens (1024px+) - optional override' },
+      xl: { ...schema, description: 'Extra large screens (1280px+) - optional override' },
+    },
+    required: ['xs'],
+  }
+}
+
+// =============================================================================
+// Padding/Margin Types
+// =============================================================================
+
+/** JSON Schema for PaddingValue (also used for margin) */
+export const paddingSchema = {
+  type: 'object',
+  properties: {
+    top: { type: 'number', description: 'Top padding in units' },
+    right: { type: 'number', description: 'Right padding in units' },
+    bottom: { type: 'number', description: 'Bottom padding in units' },
+    left: { type: 'number', description: 'Left padding in units' },
+    unit: { type: 'string', enum: ['px', 'rem', 'em', '%'], description: 'Unit for all values' },
+    linked: { type: 'boolean', description: 'Whether all sides sync together' },
+  },
+  required: ['top', 'right', 'bottom', 'left', 'unit'],
+}
+
+/** JSON Schema for ResponsiveValue<PaddingValue> */
+export const responsivePaddingSchema = responsiveSchema(paddingSchema)
+
+// =============================================================================
+// Width/Dimensions Types
+// =============================================================================
+
+/** JSON Schema for WidthValue */
+export const widthSchema = {
+  type: 'object',
+  properties: {
+    mode: { type: 'string', enum: ['full', 'contained', 'custom'], description: 'Width mode' },
+    maxWidth: { type: 'number', description: 'Maximum width' },
+    unit: { type: 'string', enum: ['px', 'rem', '%', 'vw'], description: 'CSS unit' },
+    alignment: { type: 'string', enum: ['left', 'center', 'right'], description: 'Content alignment' },
+  },
+  required: ['mode', 'maxWidth', 'unit', 'alignment'],
+}
+
+/** JSON Schema for DimensionConstraint */
+export const dimensionConstraintSchema = {
+  type: 'object',
+  properties: {
+    value: { type: 'number', description: 'Numeric value' },
+    unit: { type: 'string', enum: ['px', 'rem', '%', 'vw', 'vh'], description: 'CSS unit' },
+    enabled: { type: 'boolean', description: 'Whether this constraint is active' },
+  },
+  required: ['value', 'unit', 'enabled'],
+}
+
+/** JSON Schema for DimensionsValue */
+export const dimensionsSchema = {
+  type: 'object',
+  properties: {
+    mode: { type: 'string', enum: ['full', 'contained', 'custom'], description: 'Width mode' },
+    alignment: { type: 'string', enum: ['left', 'center', 'right'], description: 'Content alignment' },
+    maxWidth: { ...dimensionConstraintSchema, description: 'Maximum width constraint' },
+    minWidth: { ...dimensionConstraintSchema, description: 'Minimum width constraint (optional)' },
+    minHeight: { ...dimensionConstraintSchema, description: 'Minimum height constraint (optional)' },
+    maxHeight: { ...dimensionConstraintSchema, description: 'Maximum height constraint (optional)' },
+  },
+  required: ['mode', 'alignment', 'maxWidth'],
+}
+
+/** JSON Schema for ResponsiveValue<DimensionsValue> */
+export const responsiveDimensionsSchema = responsiveSchema(dimensionsSchema)
+
+// =============================================================================
+// Background Types
+// =============================================================================
+
+const positionEnum = [
+  'center',
+  'top',
+  'bottom',
+  'left',
+  'right',
+  'top-left',
+  'top-right',
+  'bottom-left',
+  'bottom-right',
+]
+
+/** JSON Schema for GradientStop */
+export const gradientStopSchema = {
+  type: 'object',
+  properties: {
+    color: colorSchema,
+    position: { type: 'number', minimum: 0, maximum: 100, description: 'Position 0-100%' },
+  },
+  required: ['color', 'position'],
+}
+
+/** JSON Schema for GradientValue */
+export const gradientSchema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: ['linear', 'radial'], description: 'Gradient type' },
+    angle: { type: 'number', minimum: 0, maximum: 360, description: 'Angle in degrees (linear)' },
+    stops: { type: 'array', items: gradientStopSchema, description: 'Color stops' },
+    radialShape: { type: 'string', enum: ['circle', 'ellipse'], description: 'Radial shape' },
+    radialPosition: { type: 'string', enum: ['center', 'top', 'bottom', 'left', 'right'] },
+  },
+  required: ['type', 'stops'],
+}
+
+/** JSON Schema for GradientMask */
+export const gradientMaskSchema = {
+  type: 'object',
+  properties: {
+    enabled: { type: 'boolean' },
+    direction: {
+      type: 'string',
+      enum: [
+        'to-top',
+        'to-bottom',
+        'to-left',
+        'to-right',
+        'to-top-left',
+        'to-top-right',
+        'to-bottom-left',
+        'to-bottom-right',
+        'from-center',
+      ],
+    },
+    startOpacity: { type: 'number', minimum: 0, maximum: 100 },
+    endOpacity: { type: 'number', minimum: 0, maximum: 100 },
+    startPosition: { type: 'number', minimum: 0, maximum: 100 },
+    endPosition: { type: 'number', minimum: 0, maximum: 100 },
+  },
+  required: ['enabled', 'direction', 'startOpacity', 'endOpacity', 'startPosition', 'endPosition'],
+}
+
+/** JSON Schema for BackgroundImageValue */
+export const backgroundImageSchema = {
+  type: 'object',
+  properties: {
+    media: { anyOf: [mediaSchema, { type: 'null' }] },
+    size: { type: 'string', enum: ['cover', 'contain', 'auto'] },
+    position: { type: 'string', enum: positionEnum },
+    repeat: { type: 'string', enum: ['no-repeat', 'repeat', 'repeat-x', 'repeat-y'] },
+    attachment: { type: 'string', enum: ['scroll', 'fixed'] },
+    opacity: { type: 'number', minimum: 0, maximum: 100, description: 'Image opacity 0-100' },
+    mask: gradientMaskSchema,
+  },
+  required: ['media', 'size', 'position', 'repeat', 'attachment'],
+}
+
+/** JSON Schema for BackgroundOverlay */
+export const backgroundOverlaySchema = {
+  type: 'object',
+  properties: {
+    enabled: { type: 'boolean' },
+    type: { type: 'string', enum: ['solid', 'gradient'] },
+    solid: { anyOf: [colorSchema, { type: 'null' }] },
+    gradient: { anyOf: [gradientSchema, { type: 'null' }] },
+  },
+  required: ['enabled', 'type'],
+}
+
+/** JSON Schema for BackgroundValue */
+export const backgroundSchema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: ['none', 'solid', 'gradient', 'image'], description: 'Background type' },
+    solid: { anyOf: [colorSchema, { type: 'null' }], description: 'Solid color (when type="solid")' },
+    gradient: { anyOf: [gradientSchema, { type: 'null' }], description: 'Gradient (when type="gradient")' },
+    image: { anyOf: [backgroundImageSchema, { type: 'null' }], description: 'Image (when type="image")' },
+    overlay: {
+      anyOf: [backgroundOverlaySchema, { type: 'null' }],
+      description: 'Overlay on top of the image (when type="image")',
+    },
+  },
+  required: ['type'],
+}
+
+// =============================================================================
+// Border Types
+// =============================================================================
+
+/** JSON Schema for BorderValue */
+export const borderSchema = {
+  type: 'object',
+  properties: {
+    style: { type: 'string', enum: ['none', 'solid', 'dashed', 'dotted'], description: 'Border style' },
+    width: { type: 'number', description: 'Border width in pixels' },
+    color: { ...colorSchema, description: 'Border color' },
+    radius: { type: 'number', description: 'Border radius in pixels' },
+    sides: {
+      type: 'object',
+      properties: {
+        top: { type: 'boolean' },
+        right: { type: 'boolean' },
+        bottom: { type: 'boolean' },
+        left: { type: 'boolean' },
+      },
+      description: 'Which sides have borders',
+    },
+  },
+  required: ['style', 'width', 'radius', 'sides'],
+}
+
+// =============================================================================
+// Animation Types
+// =============================================================================
+
+const easingEnum = [
+  'linear',
+  'ease',
+  'ease-in',
+  'ease-out',
+  'ease-in-out',
+  'spring',
+  'spring-gentle',
+  'bounce',
+  'bounce-in',
+  'bounce-out',
+  'back-in',
+  'back-out',
+  'back-in-out',
+  'elastic',
+]
+
+/** JSON Schema for AnimationValue */
+export const animationSchema = {
+  type: 'object',
+  properties: {
+    mode: { type: 'string', enum: ['preset', 'custom'], description: 'Animation mode' },
+    entrance: {
+      type: 'string',
+      enum: [
+        'none',
+        'fade-in', 'fade-up', 'fade-down', 'fade-left', 'fade-right', 'fade-scale',
+        'scale-in', 'scale-up', 'scale-down', 'scale-out',
+        'slide-up', 'slide-down', 'slide-left', 'slide-right',
+        'blur-in', 'blur-up', 'blur-down',
+        'rotate-in', 'rotate-up', 'rotate-down',
+        'bounce-in', 'bounce-up', 'bounce-down',
+        'flip-x', 'flip-y',
+        'zoom-in', 'zoom-out',
+      ],
+      description: 'Entrance animation preset',
+    },
+    entranceDuration: { type: 'number', description: 'Duration in ms' },
+    entranceDelay: { type: 'number', description: 'Delay in ms' },
+    distance: { type: 'number', minimum: 8, maximum: 200, description: 'Distance for translate animations (px)' },
+    scaleFrom: { type: 'number', minimum: 0.1, maximum: 2, description: 'Starting scale' },
+    rotateAngle: { type: 'number', minimum: -180, maximum: 180, description: 'Rotation angle (deg)' },
+    blurAmount: { type: 'number', minimum: 0, maximum: 50, description: 'Blur amount (px)' },
+    origin: { type: 'string', enum: positionEnum, description: 'Transform origin' },
+    easing: { type: 'string', enum: easingEnum },
+    stagger: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean' },
+        delay: { type: 'number', description: 'Delay between children (ms)' },
+        maxDelay: { type: 'number' },
+        direction: { type: 'string', enum: ['forward', 'reverse', 'center', 'edges'] },
+      },
+      required: ['enabled', 'delay', 'direction'],
+    },
+    duration: { type: 'number', minimum: 0, maximum: 2000, description: 'Transition duration (custom mode)' },
+    delay: { type: 'number', minimum: 0, maximum: 2000, description: 'Transition delay (custom mode)' },
+    triggerOnScroll: { type: 'boolean', description: 'Trigger when scrolled into view' },
+    triggerThreshold: { type: 'number', minimum: 0, maximum: 1 },
+    triggerOnce: { type: 'boolean', description: 'Only animate once' },
+    triggerMargin: { type: 'string', description: 'Viewport margin, e.g. "0px 0px -100px 0px"' },
+  },
+  required: ['mode'],
+}
+
+// =============================================================================
+// Visibility Types
+// =============================================================================
+
+/** JSON Schema for VisibilityValue */
+export const visibilitySchema = {
+  type: 'object',
+  properties: {
+    xs: { type: 'boolean', description: 'Visible on mobile (default true)' },
+    sm: { type: 'boolean', description: 'Visible on small screens 640px+' },
+    md: { type: 'boolean', description: 'Visible on medium screens 768px+' },
+    lg: { type: 'boolean', description: 'Visible on large screens 1024px+' },
+    xl: { type: 'boolean', description: 'Visible on extra large screens 1280px+' },
+  },
+  required: ['xs'],
+}
+
+// =============================================================================
+// Size Types (for Button, etc.)
+// =============================================================================
+
+/** JSON Schema for SizeValue */
+export const sizeSchema = {
+  type: 'object',
+  properties: {
+    mode: { type: 'string', enum: ['sm', 'default', 'lg', 'custom'], description: 'Size preset or custom' },
+    height: { type: 'number', description: 'Custom height in units (only when mode="custom")' },
+    paddingX: { type: 'number', description: 'Custom horizontal padding (only when mode="custom")' },
+    paddingY: { type: 'number', description: 'Custom vertical padding (only when mode="custom")' },
+    fontSize: { type: 'number', description: 'Custom font size (only when mode="custom")' },
+    unit: { type: 'string', enum: ['px', 'rem'], description: 'Unit for custom values' },
+  },
+  required: ['mode'],
+}
+
+// =============================================================================
+// Transform Types
+// =============================================================================
+
+/** JSON Schema for TransformValue */
+export const transformSchema = {
+  type: 'object',
+  properties: {
+    rotate: { type: 'number', minimum: -360, maximum: 360, description: 'Rotation in degrees' },
+    scaleX: { type: 'number', minimum: 0.1, maximum: 3, description: 'Horizontal scale factor' },
+    scaleY: { type: 'number', minimum: 0.1, maximum: 3, description: 'Vertical scale factor' },
+    scaleLocked: { type: 'boolean', description: 'Lock X and Y scale together' },
+    skewX: { type: 'number', minimum: -45, maximum: 45, description: 'Horizontal skew in degrees' },
+    skewY: { type: 'number', minimum: -45, maximum: 45, description: 'Vertical skew in degrees' },
+    translateX: { type: 'number', description: 'Horizontal translation' },
+    translateY: { type: 'number', description: 'Vertical translation' },
+    translateUnit: { type: 'string', enum: ['px', 'rem', '%'], description: 'Unit for translation' },
+    origin: { type: 'string', enum: positionEnum, description: 'Transform origin point' },
+    enable3D: { type: 'boolean', description: 'Enable 3D transforms' },
+    perspective: { type: 'number', description: '3D perspective in pixels' },
+    rotateX: { type: 'number', description: '3D rotation around X axis' },
+    rotateY: { type: 'number', description: '3D rotation around Y axis' },
+  },
+}
+
+// =============================================================================
+// Data Binding
+// =============================================================================
+
+/** JSON Schema for DataBindingValue */
+export const dataBindingSchema = {
+  type: 'object',
+  properties: {
+    collection: { type: 'string', description: 'Collection of the bound document' },
+    id: { type: ['string', 'number'], description: 'ID of the bound document' },
+    label: { type: 'string', description: 'Title of the document, shown in the editor' },
+    props: {
+      type: 'object',
+      additionalProperties: { type: 'string' },
+      description: 'Prop name to document field path',
+    },
+  },
+  required: ['collection', 'id', 'props'],
+}
@@ -208,6 +208,58 @@ export interface BackgroundValue {
   overlay?: BackgroundOverlay | null
 }
 
+// =============================================================================
+// Structured Data Types
+// =============================================================================
+
+export type StructuredDataType = 'none' | 'WebPage' | 'Article' | 'Product' | 'FAQPage' | 'Event'
+
+/**
+ * Schema.org settings of a page, edited in the root fields and emitted as
+ * JSON-LD by PageRenderer. Properties not used by `type` are ignored.
+ */
+export interface StructuredDataValue {
+  type: StructuredDataType
+  description?: string
+  /** Absolute image URL (Article, Product, Event) */
+  image?: string
+  // Article
+  author?: string
+  datePublished?: string
+  dateModified?: string
+  // Product
+  brand?: string
+  sku?: string
+  price?: string
+  priceCurrency?: string
+  availability?: 'InStock' | 'OutOfStock' | 'PreOrder' | 'Discontinued'
+  // Event
+  startDate?: string
+  endDate?: string
+  locationName?: string
+  locationAddress?: string
+  attendanceMode?: 'Offline' | 'Online' | 'Mixed'
+}
+
+// =============================================================================
+// Data Binding Types
+// =============================================================================
+
+/**
+ * Binds component props to fields of a Payload document. Bound props are
+ * replaced with the document's current values when the page is rendered.
+ */
+export interface DataBindingValue {
+  /** Collection of the bound document */
+  collection: string
+  /** ID of the bound document */
+  id: string | number
+  /** Title of the document, shown in the editor */
+  label?: string
+  /** Prop name to document field path, e.g. { heading: 'name', image: 'gallery.0.image' } */
+  props: Record<string, string>
+}
+
 // =============================================================================
 // Visibility Field
 // =============================================================================
@@ -69,19 +69,26 @@ export {
   generatePagesCollection,
   generatePuckEditField,
   TemplatesCollection,
+  EditLocksCollection,
+  EDIT_LOCKS_COLLECTION,
 } from './plugin/index.js'
 
 // Re-export field utilities for hybrid collection integration
 export {
   getPuckFields,
   puckDataField,
+  createPuckDataField,
+  createTemplateRefsField,
   editorVersionField,
   createEditorVersionField,
   pageLayoutField,
   createPageLayoutField,
   isHomepageField,
   seoFieldGroup,
+  createSeoFieldGroup,
   conversionFieldGroup,
+  createPublishScheduleFields,
+  publishScheduleFields,
 } from './plugin/index.js'
 
 // Re-export field types
@@ -5,6 +5,11 @@
  * This ensures the editor iframe styles work in production (Vercel, etc.) where
  * source files aren't available at runtime.
  *
+ * Also provides the route handler and page for shareable draft preview links,
+ * `generatePageMetadata()` for page metadata, `createSitemap()` and
+ * `createRobots()` for `app/sitemap.ts` and `app/robots.ts`, and
+ * `generatePageStaticParams()` and `getPageByPath()` for page routes.
+ *
  * @example
  * ```js
  * // next.config.js
@@ -199,3 +204,38 @@ export function withPuckCSS(options: WithPuckCSSOptions) {
 export function getPuckCSSPath(cssOutput?: string): string {
   return `/${cssOutput ?? PUCK_CSS_OUTPUT_DEFAULT}`
 }
+
+// Draft preview links
+export {
+  createPreviewRouteHandler,
+  createPreviewPage,
+  getPreviewToken,
+  type PreviewRouteHandlerOptions,
+  type PreviewPageOptions,
+} from './preview.js'
+export { createPreviewToken, verifyPreviewToken, type PreviewTokenPayload } from '../utils/previewToken.js'
+
+// Page metadata
+export {
+  generatePageMetadata,
+  type PageMetadataOptions,
+  type MetadataMedia,
+} from './metadata.js'
+
+// Sitemap and robots.txt
+export {
+  createSitemap,
+  createRobots,
+  type SitemapOptions,
+  type RobotsOptions,
+} from './sitemap.js'
+export type { SitemapEntry, SitemapCollection } from '../utils/sitemap.js'
+
+// Page routes
+export {
+  generatePageStaticParams,
+  getPageByPath,
+  type PageRouteOptions,
+  type PageStaticParamsOptions,
+  type GetPageByPathOptions,
+} from './pages.js'
@@ -0,0 +1,240 @@
+/**
+ * Next.js Metadata for Puck Pages
+ *
+ * Builds the `Metadata` object for `generateMetadata` from a page's `meta`
+ * group (see `createSeoFieldGroup`), which the editor keeps in sync with the
+ * page's root props.
+ *
+ * @example
+ * ```ts
+ * // app/(frontend)/[[...slug]]/page.tsx
+ * import { generatePageMetadata } from '@delmaredigital/payload-puck/next'
+ *
+ * export async function generateMetadata({ params }) {
+ *   const page = await getPage((await params).slug)
+ *   return generatePageMetadata(page, {
+ *     siteUrl: 'https://example.com',
+ *     siteName: 'Acme',
+ *     titleTemplate: '%s | Acme',
+ *   })
+ * }
+ * ```
+ */
+
+import type { Metadata } from 'next'
+import type { PageDocument } from '../types/index.js'
+import { resolvePagePath, type PreviewUrlConfig } from '../utils/pageUrl.js'
+
+/**
+ * An upload document from the media collection
+ */
+export interface MetadataMedia {
+  url?: string | null
+  alt?: string | null
+  width?: number | null
+  height?: number | null
+  mimeType?: string | null
+  sizes?: Record<
+    string,
+    | {
+        url?: string | null
+        width?: number | null
+        height?: number | null
+        mimeType?: string | null
+      }
+    | undefined
+  >
+}
+
+export interface PageMetadataOptions {
+  /**
+   * Public site URL, e.g. 'https://example.com'. Used as `metadataBase`, so
+   * the canonical URL, hreflang alternates and image URLs are absolute.
+   */
+  siteUrl?: string
+
+  /**
+   * Site name for Open Graph
+   */
+  siteName?: string
+
+  /**
+   * Template for the page title, with `%s` replaced by the page title, e.g.
+   * '%s | Acme'. Not applied to `meta.title`, which is used as-is.
+   */
+  titleTemplate?: string
+
+  /**
+   * Description used when the page has no `meta.description`
+   */
+  defaultDescription?: string
+
+  /**
+   * Image used when the page has no `meta.image`
+   */
+  defaultImage?: MetadataMedia | string
+
+  /**
+   * Name of the media `imageSizes` entry to use for Open Graph and Twitter
+   * images, e.g. 'og'. Falls back to the original image.
+   */
+  imageSize?: string
+
+  /**
+   * Resolves the page path, like the plugin's `previewUrl` option
+   * @default '/' (the page is served at `/<slug>`)
+   */
+  previewUrl?: PreviewUrlConfig
+
+  /**
+   * Locale of the page, for `og:locale` and the canonical URL
+   */
+  locale?: string
+
+  /**
+   * Locales the page is available in, listed as hreflang alternates
+   */
+  locales?: string[]
+
+  /**
+   * Locale served without a path prefix, also listed as `x-default`
+   */
+  defaultLocale?: string
+
+  /**
+   * Builds the path of a page in a locale
+   * @default `/${locale}${path}`, or `path` for the default locale
+   */
+  localizePath?: (path: string, locale: string) => string
+
+  /**
+   * Twitter handles for the site and the author
+   */
+  twitter?: {
+    site?: string
+    creator?: string
+  }
+}
+
+type OpenGraphImage = {
+  url: string
+  width?: number
+  height?: number
+  alt?: string
+  type?: string
+}
+
+/**
+ * Resolves a media document (or URL) to an image entry, preferring the
+ * `imageSize` variant. IDs of unpopulated uploads are skipped.
+ */
+function resolveImage(
+  image: MetadataMedia | string | null | undefined,
+  imageSize: string | undefined,
+  fallbackAlt: string
+): OpenGraphImage | undefined {
+  if (!image) return undefined
+  if (typeof image === 'string') {
+    // An unpopulated upload is just an ID
+    return /^(https?:)?\//.test(image) ? { url: image, alt: fallbackAlt } : undefined
+  }
+
+  const size = imageSize ? image.sizes?.[imageSize] : undefined
+  const source = size?.url ? size : image
+  if (!source.url) return undefined
+
+  return {
+    url: source.url,
+    ...(source.width && { width: source.width }),
+    ...(source.height && { height: source.height }),
+    alt: image.alt || fallbackAlt,
+    ...(source.mimeType && { type: source.mimeType }),
+  }
+}
+
+/**
+ * Builds Next.js `Metadata` for a Puck page: title, description, canonical
+ * URL, hreflang alternates, robots directives, and Open Graph and Twitter
+ * cards. The `meta.image` upload must be populated (depth 1 or more) to be
+ * included.
+ */
+export function generatePageMetadata(
+  page: Pick<PageDocument, 'title' | 'slug' | 'isHomepage'> & {
+    meta?: Omit<NonNullable<PageDocument['meta']>, 'image'> & {
+      image?: MetadataMedia | string | null
+    }
+  },
+  options: PageMetadataOptions = {}
+): Metadata {
+  const {
+    siteUrl,
+    siteName,
+    titleTemplate,
+    defaultDescription,
+    defaultImage,
+    imageSize,
+    previewUrl,
+    locale,
+    locales = [],
+    defaultLocale,
+    twitter,
+  } = options
+  const localizePath =
+    options.localizePath ??
+    ((path: string, pathLocale: string) =>
+      pathLocale === defaultLocale ? path : `/${pathLocale}${path === '/' ? '' : path}`)
+
+  const meta = page.meta ?? {}
+  const title = meta.title || (titleTemplate ? titleTemplate.replace('%s', page.title) : page.title)
+  const description = meta.description || defaultDescription
+
+  const path = resolvePagePath(page, previewUrl)
+  const canonical = locale ? localizePath(path, locale) : path
+
+  const languages =
+    locales.length > 0
+      ? Object.fromEntries([
+          ...locales.map((code) => [code, localizePath(path, code)]),
+          ...(defaultLocale ? [['x-default', localizePath(path, defaultLocale)]] : []),
+        ])
+      : undefined
+
+  const image = resolveImage(meta.image ?? defaultImage, imageSize, title)
+  const index = !meta.noindex
+  const follow = !meta.nofollow
+
+  return {
+    ...(siteUrl && { metadataBase: new URL(siteUrl) }),
+    // `absolute` keeps a parent layout's title template from applying again
+    title: { absolute: title },
+    ...(description && { description }),
+    alternates: {
+      canonical,
+      ...(languages && { languages }),
+    },
+    robots: {
+      index,
+      follow,
+      googleBot: { index, follow },
+    },
+    openGraph: {
+      type: 'website',
+      title,
+      ...(description && { description }),
+      url: canonical,
+      ...(siteName && { siteName }),
+      ...(locale && { locale }),
+      ...(locale &&
+        locales.length > 1 && { alternateLocale: locales.filter((code) => code !== locale) }),
+      ...(image && { images: [image] }),
+    },
+    twitter: {
+      card: image ? 'summary_large_image' : 'summary',
+      title,
+      ...(description && { description }),
+      ...(twitter?.site && { site: twitter.site }),
+      ...(twitter?.creator && { creator: twitter.creator }),
+      ...(image && { images: [{ url: image.url, ...(image.alt && { alt: image.alt }) }] }),
+    },
+  }
+}
@@ -0,0 +1,300 @@
+/**
+ * Page Routing for Next.js
+ *
+ * `generatePageStaticParams()` lists the paths of published pages for
+ * `generateStaticParams` in a catch-all route, and `getPageByPath()` finds
+ * the page for a path. Paths come from `slug` and `isHomepage`, or from the
+ * page-tree `folder` and `pageSegment` fields when page-tree integration is
+ * enabled or detected. Payload is imported on demand, so next.config files
+ * importing `withPuckCSS` from the same entry point stay light.
+ *
+ * @example
+ * ```ts
+ * // app/(frontend)/[[...slug]]/page.tsx
+ * import config from '@payload-config'
+ * import { generatePageStaticParams, getPageByPath } from '@delmaredigital/payload-puck/next'
+ *
+ * export async function generateStaticParams() {
+ *   return generatePageStaticParams({ config })
+ * }
+ *
+ * export default async function Page({ params }) {
+ *   const page = await getPageByPath((await params).slug, { config })
+ *   if (!page) notFound()
+ *   return <PageRenderer config={baseConfig} data={page.puckData} />
+ * }
+ * ```
+ */
+
+import type { CollectionSlug, Payload, SanitizedConfig, TypedLocale, Where } from 'payload'
+import type { PageTreeIntegrationOptions } from '../types/index.js'
+
+type PayloadConfig = SanitizedConfig | Promise<SanitizedConfig>
+
+export interface PageRouteOptions {
+  /**
+   * Payload config
+   */
+  config: PayloadConfig
+  /**
+   * Collection the pages are read from
+   * @default 'pages'
+   */
+  collection?: string
+  /**
+   * Locale to read pages in (localized collections only)
+   */
+  locale?: string
+}
+
+export interface PageStaticParamsOptions extends PageRouteOptions {
+  /**
+   * Include the homepage as `{ slug: [] }`, for optional catch-all routes
+   * (`[[...slug]]`)
+   * @default true
+   */
+  includeHomepage?: boolean
+  /**
+   * Additional filter for the pages to list (published pages only are listed)
+   */
+  where?: Where
+}
+
+export interface GetPageByPathOptions extends PageRouteOptions {
+  /**
+   * Return the latest draft instead of the published version, e.g. in
+   * Next.js draft mode. By default only published pages are found.
+   * @default false
+   */
+  draft?: boolean
+  /**
+   * Depth to populate relationships and uploads to
+   * @default 1
+   */
+  depth?: number
+}
+
+type ResolvedPageTree = Required<PageTreeIntegrationOptions>
+
+type FolderNode = { segment: string; parent: string | null }
+
+async function getPayloadInstance(config: PayloadConfig): Promise<Payload> {
+  const { getPayload } = await import('payload')
+  return getPayload({ config })
+}
+
+function relationId(value: unknown): string | null {
+  if (value && typeof value === 'object' && 'id' in value) return String(value.id)
+  return value === null || value === undefined || value === '' ? null : String(value)
+}
+
+function splitPath(path: string | string[] | null | undefined): string[] {
+  const segments = Array.isArray(path) ? path : String(path ?? '').split('/')
+  return segments
+    .map((segment) => segment.trim())
+    .filter((segment) => segment !== '')
+}
+
+/**
+ * Page-tree field names from the plugin's `pageTreeIntegration` option.
+ * When the option isn't set, page-tree is detected from a `pageSegment`
+ * field on the collection, like the editor does.
+ */
+function resolvePageTree(payload: Payload, collection: string): ResolvedPageTree | null {
+  const configured = payload.config.custom?.puck?.pageTree as
+    | PageTreeIntegrationOptions
+    | false
+    | null
+    | undefined
+  if (configured === false) return null
+
+  const pageTree: ResolvedPageTree = {
+    folderSlug: configured?.folderSlug ?? 'payload-folders',
+    segmentFieldName: configured?.segmentFieldName ?? 'pathSegment',
+    pageSegmentFieldName: configured?.pageSegmentFieldName ?? 'pageSegment',
+    folderFieldName: configured?.folderFieldName ?? 'folder',
+  }
+
+  const collectionConfig = payload.config.collections.find((c) => c.slug === collection)
+  const hasPageSegment = collectionConfig?.flattenedFields.some(
+    (field) => 'name' in field && field.name === pageTree.pageSegmentFieldName
+  )
+  const hasFolders = payload.config.collections.some((c) => c.slug === pageTree.folderSlug)
+
+  return hasPageSegment && hasFolders ? pageTree : null
+}
+
+/**
+ * Published-only condition for collections with drafts
+ */
+function getPublishedCondition(payload: Payload, collection: string): Where[] {
+  const collectionConfig = payload.config.collections.find((c) => c.slug === collection)
+  if (!collectionConfig) {
+    throw new Error(`Collection '${collection}' not found`)
+  }
+  const versions = collectionConfig.versions
+  return versions && typeof versions === 'object' && versions.drafts
+    ? [{ _status: { equals: 'published' } }]
+    : []
+}
+
+/**
+ * Loads every folder once, keyed by ID, so page paths can be built without
+ * a query per page
+ */
+async function loadFolders(
+  payload: Payload,
+  pageTree: ResolvedPageTree,
+  locale: string | undefined
+): Promise<Map<string, FolderNode>> {
+  const { docs } = await payload.find({
+    collection: pageTree.folderSlug as CollectionSlug,
+    locale: locale as TypedLocale | undefined,
+    depth: 0,
+    pagination: false,
+  })
+
+  const folders = new Map<string, FolderNode>()
+  for (const folder of docs as Record<string, any>[]) {
+    folders.set(String(folder.id), {
+      segment: String(folder[pageTree.segmentFieldName] || folder.name || ''),
+      parent: relationId(folder[pageTree.folderFieldName]),
+    })
+  }
+  return folders
+}
+
+/**
+ * Path segments of a page: none for the homepage, the folder path plus the
+ * page segment with page-tree, otherwise the slug
+ */
+function getPageSegments(
+  page: Record<string, any>,
+  pageTree: ResolvedPageTree | null,
+  folders: Map<string, FolderNode>
+): string[] {
+  if (page.isHomepage) return []
+
+  const pageSegment = pageTree ? page[pageTree.pageSegmentFieldName] : undefined
+  if (!pageTree || !pageSegment) {
+    return splitPath(page.slug)
+  }
+
+  const segments: string[] = [String(pageSegment)]
+  const visited = new Set<string>()
+  let folderId = relationId(page[pageTree.folderFieldName])
+  // Guard against folder cycles
+  while (folderId && !visited.has(folderId)) {
+    visited.add(folderId)
+    const folder = folders.get(folderId)
+    if (!folder) break
+    if (folder.segment) segments.unshift(folder.segment)
+    folderId = folder.parent
+  }
+  return splitPath(segments)
+}
+
+/**
+ * Lists the paths of published pages as `{ slug: string[] }` params, for
+ * `generateStaticParams` in a `[...slug]` or `[[...slug]]` route. Pages
+ * anonymous visitors can't read are left out.
+ */
+export async function generatePageStaticParams(
+  options: PageStaticParamsOptions
+): Promise<Array<{ slug: string[] }>> {
+  const { config, collection = 'pages', locale, includeHomepage = true, where } = options
+  const payload = await getPayloadInstance(config)
+  const pageTree = resolvePageTree(payload, collection)
+  const folders = pageTree ? await loadFolders(payload, pageTree, locale) : new Map()
+
+  const conditions = [...getPublishedCondition(payload, collection), ...(where ? [where] : [])]
+  const hasPuckData = payload.config.collections
+    .find((c) => c.slug === collection)
+    ?.flattenedFields.some((field) => 'name' in field && field.name === 'puckData')
+  const { docs } = await payload.find({
+    collection: collection as CollectionSlug,
+    where: conditions.length > 0 ? { and: conditions } : undefined,
+    locale: locale as TypedLocale | undefined,
+    // Page content isn't needed for paths
+    select: hasPuckData ? ({ puckData: false } as any) : undefined,
+    depth: 0,
+    draft: false,
+    pagination: false,
+    // Only pre-render pages an anonymous visitor can read
+    overrideAccess: false,
+  })
+
+  const params: Array<{ slug: string[] }> = []
+  const seen = new Set<string>()
+  for (const page of docs as Record<string, any>[]) {
+    const slug = getPageSegments(page, pageTree, folders)
+    if (slug.length === 0 && !includeHomepage) continue
+    const key = slug.join('/')
+    if (seen.has(key)) continue
+    seen.add(key)
+    params.push({ slug })
+  }
+  return params
+}
+
+/**
+ * Finds the page for a path, e.g. the `slug` param of a catch-all route.
+ * An empty path finds the homepage. Returns null if no published page
+ * (or draft, with `draft`) matches.
+ */
+export async function getPageByPath(
+  path: string | string[] | null | undefined,
+  options: GetPageByPathOptions
+): Promise<Record<string, any> | null> {
+  const { config, collection = 'pages', locale, draft = false, depth = 1 } = options
+  const payload = await getPayloadInstance(config)
+  const segments = splitPath(path)
+  const published = draft ? [] : getPublishedCondition(payload, collection)
+
+  const findOne = async (condition: Where) => {
+    const { docs } = await payload.find({
+      collection: collection as CollectionSlug,
+      where: { and: [...published, condition] },
+      locale: locale as TypedLocale | undefined,
+      depth,
+      draft,
+      limit: 1,
+    })
+    return (docs[0] as Record<string, any> | undefined) ?? null
+  }
+
+  if (segments.length === 0) {
+    return findOne({ isHomepage: { equals: true } })
+  }
+
+  // The page-tree plugin keeps the full path in `slug`, so try that first
+  const bySlug = await findOne({ slug: { equals: segments.join('/') } })
+  if (bySlug) return bySlug
+
+  const pageTree = resolvePageTree(payload, collection)
+  if (!pageTree) return null
+
+  // Walk the folder path from the root, then match the page segment in the last folder
+  const folders = await loadFolders(payload, pageTree, locale)
+  let parent: string | null = null
+  for (const segment of segments.slice(0, -1)) {
+    let match: string | null = null
+    for (const [id, folder] of folders) {
+      if (folder.parent === parent && folder.segment === segment) {
+        match = id
+        break
+      }
+    }
+    if (!match) return null
+    parent = match
+  }
+
+  return findOne({
+    and: [
+      { [pageTree.pageSegmentFieldName]: { equals: segments[segments.length - 1] } },
+      parent
+        ? { [pageTree.folderFieldName]: { equals: parent } }
+        : { [pageTree.folderFieldName]: { exists: false } },
+    ],
+  })
+}
@@ -0,0 +1,169 @@
+/**
+ * Draft Preview Links for Next.js
+ *
+ * A route handler that accepts signed preview links created from the editor
+ * header and a page that renders the latest draft for a valid link.
+ *
+ * Next.js, Payload and the renderer are imported on demand, so next.config
+ * files importing `withPuckCSS` from the same entry point stay light.
+ *
+ * @example
+ * ```ts
+ * // app/(frontend)/puck-preview/enter/route.ts
+ * import config from '@payload-config'
+ * import { createPreviewRouteHandler } from '@delmaredigital/payload-puck/next'
+ *
+ * export const GET = createPreviewRouteHandler({ config })
+ *
+ * // app/(frontend)/puck-preview/page.tsx
+ * import config from '@payload-config'
+ * import { createPreviewPage } from '@delmaredigital/payload-puck/next'
+ *
+ * export default createPreviewPage({ config })
+ * ```
+ */
+
+import type { ReactNode } from 'react'
+import type { CollectionSlug, SanitizedConfig, TypedLocale } from 'payload'
+import type { Config as PuckConfig } from '@puckeditor/core'
+import type { LayoutDefinition } from '../layouts/types.js'
+import { verifyPreviewToken, type PreviewTokenPayload } from '../utils/previewToken.js'
+
+type PayloadConfig = SanitizedConfig | Promise<SanitizedConfig>
+
+export interface PreviewRouteHandlerOptions {
+  /**
+   * Payload config, used to verify link signatures
+   */
+  config: PayloadConfig
+  /**
+   * Path of the page created with `createPreviewPage()`
+   * @default '/puck-preview'
+   */
+  previewPath?: string
+}
+
+export interface PreviewPageOptions {
+  /**
+   * Payload config
+   */
+  config: PayloadConfig
+  /**
+   * Puck configuration used to render the draft
+   */
+  puckConfig?: PuckConfig
+  /**
+   * Layouts available to pages
+   */
+  layouts?: LayoutDefinition[]
+  /**
+   * Render function for legacy Payload blocks
+   * @see HybridPageRendererProps.legacyRenderer
+   */
+  legacyRenderer?: (blocks: any) => ReactNode
+  /**
+   * Wraps the rendered draft, e.g. with your site header, footer or ThemeProvider
+   */
+  wrapper?: (props: { children: ReactNode; page: Record<string, any> }) => ReactNode
+}
+
+/**
+ * Verifies a preview token against the Payload secret
+ */
+export async function getPreviewToken(
+  config: PayloadConfig,
+  token: string | null | undefined
+): Promise<PreviewTokenPayload | null> {
+  if (!token) return null
+  const { getPayload } = await import('payload')
+  const payload = await getPayload({ config })
+  return verifyPreviewToken(token, payload.secret)
+}
+
+/**
+ * Creates a GET route handler for preview links.
+ *
+ * Verifies the link's token, enables Next.js draft mode and redirects to the
+ * preview page. Invalid or expired links get a 401 response.
+ */
+export function createPreviewRouteHandler({
+  config,
+  previewPath = '/puck-preview',
+}: PreviewRouteHandlerOptions) {
+  return async function GET(request: Request): Promise<Response> {
+    const token = new URL(request.url).searchParams.get('token')
+    const preview = await getPreviewToken(config, token)
+
+    if (!preview || !token) {
+      return new Response('This preview link is invalid or has expired.', { status: 401 })
+    }
+
+    const { draftMode } = await import('next/headers')
+    const { redirect } = await import('next/navigation')
+    ;(await draftMode()).enable()
+    return redirect(`${previewPath}?token=${encodeURIComponent(token)}`)
+  }
+}
+
+/**
+ * Creates a Next.js page that renders the latest draft of the page in the
+ * `?token=` preview link through `HybridPageRenderer`.
+ *
+ * The token is checked on every request, so an expired link stops working
+ * even while draft mode is still enabled. Invalid links render a 404.
+ */
+export function createPreviewPage({
+  config,
+  puckConfig,
+  layouts,
+  legacyRenderer,
+  wrapper: Wrapper,
+}: PreviewPageOptions) {
+  return async function PuckPreviewPage({
+    searchParams,
+  }: {
+    searchParams: Promise<Record<string, string | string[] | undefined>>
+  }) {
+    const { notFound } = await import('next/navigation')
+    const { token } = await searchParams
+    const preview = await getPreviewToken(config, typeof token === 'string' ? token : null)
+    if (!preview) return notFound()
+
+    const { getPayload } = await import('payload')
+    const payload = await getPayload({ config })
+
+    const page = (await payload
+      .findByID({
+        collection: preview.collection as CollectionSlug,
+        id: preview.id,
+        draft: true,
+        depth: 1,
+        locale: preview.locale as TypedLocale | undefined,
+        // The signed token grants access to this document
+        overrideAccess: true,
+      })
+      .catch(() => null)) as Record<string, any> | null
+    if (!page) return notFound()
+
+    const { HybridPageRenderer } = await import('../render/HybridPageRenderer.js')
+    const { createPayloadBindingResolver } = await import('../utils/dataBindings.js')
+    const { createPayloadTemplateResolver } = await import('../utils/templates.js')
+
+    const content = (
+      <HybridPageRenderer
+        page={page}
+        config={puckConfig}
+        layouts={layouts}
+        legacyRenderer={legacyRenderer}
+        resolveBindings={createPayloadBindingResolver({
+          payload,
+          locale: preview.locale,
+          draft: true,
+        })}
+        resolveTemplates={createPayloadTemplateResolver({ payload, locale: preview.locale })}
+      />
+    )
+
+    return Wrapper ? <Wrapper page={page}>{content}</Wrapper> : content
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Sitemap and robots.txt for Next.js
+ *
+ * Builds `app/sitemap.ts` from published Puck pages, and `app/robots.ts`
+ * pointing crawlers at the sitemap. Payload is imported on demand, so
+ * next.config files importing `withPuckCSS` from the same entry point stay
+ * light.
+ *
+ * @example
+ * ```ts
+ * // app/sitemap.ts
+ * import config from '@payload-config'
+ * import { createSitemap } from '@delmaredigital/payload-puck/next'
+ *
+ * const { sitemap } = createSitemap({ config, siteUrl: 'https://example.com' })
+ * export default sitemap
+ *
+ * // app/robots.ts
+ * import { createRobots } from '@delmaredigital/payload-puck/next'
+ *
+ * export default createRobots({ siteUrl: 'https://example.com' })
+ * ```
+ */
+
+import type { MetadataRoute } from 'next'
+import type { SanitizedConfig, Where } from 'payload'
+import {
+  chunkSitemapEntries,
+  findSitemapEntries,
+  SITEMAP_MAX_URLS,
+  type SitemapCollection,
+} from '../utils/sitemap.js'
+
+type PayloadConfig = SanitizedConfig | Promise<SanitizedConfig>
+
+export interface SitemapOptions {
+  /**
+   * Payload config
+   */
+  config: PayloadConfig
+  /**
+   * Public site URL the page paths are appended to, e.g. 'https://example.com'
+   */
+  siteUrl: string
+  /**
+   * Collections to list
+   * @default the Puck collections configured in the plugin, with their `previewUrl`
+   */
+  collections?: Array<string | SitemapCollection>
+  /**
+   * Locale to read pages in (localized collections only)
+   */
+  locale?: string
+  /**
+   * Additional filter for the pages to list (published pages only are listed)
+   */
+  where?: Where
+}
+
+export interface RobotsOptions {
+  /**
+   * Public site URL, e.g. 'https://example.com'
+   */
+  siteUrl: string
+  /**
+   * Sitemap paths or URLs to list. Paths are resolved against `siteUrl`.
+   * @default ['/sitemap.xml']
+   */
+  sitemaps?: string[]
+  /**
+   * Paths crawlers may not visit
+   * @default ['/admin', '/api', '/puck-preview']
+   */
+  disallow?: string[]
+  /**
+   * Replaces the default rule for all user agents
+   */
+  rules?: MetadataRoute.Robots['rules']
+}
+
+type SitemapId = string | number
+
+/**
+ * Creates the `sitemap` and `generateSitemaps` functions for `app/sitemap.ts`.
+ *
+ * Export `sitemap` as the default export. Sites beyond 50,000 URLs should
+ * also export `generateSitemaps`, which makes Next.js serve the pages as
+ * `/sitemap/0.xml`, `/sitemap/1.xml` and so on. Without it, the first
+ * 50,000 URLs are served.
+ */
+export function createSitemap(options: SitemapOptions): {
+  generateSitemaps: () => Promise<Array<{ id: number }>>
+  sitemap: (props?: { id?: SitemapId | Promise<SitemapId> }) => Promise<MetadataRoute.Sitemap>
+} {
+  const { config, siteUrl, collections, locale, where } = options
+
+  const getChunks = async () => {
+    const { getPayload } = await import('payload')
+    const payload = await getPayload({ config })
+    const entries = await findSitemapEntries(payload, { siteUrl, collections, locale, where })
+    return chunkSitemapEntries(entries)
+  }
+
+  return {
+    async generateSitemaps() {
+      const chunks = await getChunks()
+      return chunks.map((_, id) => ({ id }))
+    },
+
+    async sitemap(props) {
+      const chunks = await getChunks()
+      // `id` is a Promise from Next.js 16
+      const id = props?.id !== undefined ? Number(await props.id) : undefined
+
+      if (id === undefined) {
+        if (chunks.length > 1) {
+          console.warn(
+            `[payload-puck] The sitemap has more than ${SITEMAP_MAX_URLS} URLs. Export generateSitemaps from app/sitemap.ts to split it.`
+          )
+        }
+        return chunks[0]
+      }
+
+      return chunks[id] ?? []
+    },
+  }
+}
+
+/**
+ * Creates the default export of `app/robots.ts`: allows all crawlers except
+ * on the admin, API and preview routes, and lists the sitemap.
+ */
+export function createRobots(options: RobotsOptions): () => MetadataRoute.Robots {
+  const {
+    sitemaps = ['/sitemap.xml'],
+    disallow = ['/admin', '/api', '/puck-preview'],
+    rules,
+  } = options
+  const siteUrl = options.siteUrl.replace(/\/+$/, '')
+
+  return () => ({
+    rules: rules ?? { userAgent: '*', allow: '/', disallow },
+    sitemap: sitemaps.map((sitemap) =>
+      /^https?:\/\//.test(sitemap) ? sitemap : `${siteUrl}/${sitemap.replace(/^\/+/, '')}`
+    ),
+    host: siteUrl,
+  })
+}
@@ -3,14 +3,21 @@ import type { PuckPluginOptions } from '../../types/index.js'
 import { DEFAULT_LAYOUTS } from '../../layouts/defaults.js'
 import { layoutsToPayloadOptions } from '../../layouts/utils.js'
 import {
-  puckDataField,
+  createPuckDataField,
+  createTemplateRefsField,
   createEditorVersionField,
   createPageLayoutField,
   isHomepageField,
-  seoFieldGroup,
+  createSeoFieldGroup,
   conversionFieldGroup,
+  createPublishScheduleFields,
 } from '../fields/index.js'
 import { createIsHomepageUniqueHook } from '../hooks/isHomepageUnique.js'
+import { createSchedulePublishHook } from '../hooks/schedulePublish.js'
+import { createRevalidateHook, createRevalidateDeleteHook } from '../hooks/revalidate.js'
+import { createValidatePuckDataHook } from '../hooks/validatePuckData.js'
+import { createWebhookHook, createWebhookDeleteHook } from '../hooks/webhooks.js'
+import { createAuditLogHook, createAuditLogDeleteHook } from '../hooks/auditLog.js'
 
 /**
  * Default access function - allows all
@@ -29,8 +36,20 @@ export function generatePagesCollection(
     access = {},
     layouts = DEFAULT_LAYOUTS,
     additionalFields = [],
+    localized = false,
+    scheduling = false,
+    revalidate = false,
+    validation,
+    webhooks,
+    auditLog = false,
+    previewUrl,
   } = options
 
+  const revalidateOptions = revalidate
+    ? { ...(typeof revalidate === 'object' ? revalidate : {}), previewUrl }
+    : null
+  const webhookOptions = webhooks ? { ...webhooks, previewUrl } : null
+
   const baseFields: Field[] = [
     // Core Fields (title and slug with duplication hooks - unique to collection generation)
     {
@@ -101,10 +120,14 @@ export function generatePagesCollection(
     isHomepageField,
 
     // Puck Data (hidden - managed via visual editor)
-    puckDataField,
+    createPuckDataField(localized),
+    createTemplateRefsField(localized),
+
+    // Scheduled Publishing Fields
+    ...(scheduling ? createPublishScheduleFields(true) : []),
 
     // SEO Fields
-    seoFieldGroup,
+    createSeoFieldGroup(localized),
 
     // Conversion Tracking Fields
     conversionFieldGroup,
@@ -134,11 +157,31 @@ export function generatePagesCollection(
         createIsHomepageUniqueHook(),
         ...(collectionOverrides.hooks?.beforeChange ?? []),
       ],
-      beforeValidate: collectionOverrides.hooks?.beforeValidate,
+      beforeValidate: [
+        ...(collectionOverrides.hooks?.beforeValidate ?? []),
+        ...(validation ? [createValidatePuckDataHook(validation)] : []),
+      ],
       beforeDelete: collectionOverrides.hooks?.beforeDelete,
       beforeRead: collectionOverrides.hooks?.beforeRead,
-      afterChange: collectionOverrides.hooks?.afterChange,
-      afterDelete: collectionOverrides.hooks?.afterDelete,
+      afterChange: [
+        ...(scheduling
+          ? [
+              createSchedulePublishHook({
+                queue: typeof scheduling === 'object' ? scheduling.queue : undefined,
+              }),
+            ]
+          : []),
+        ...(collectionOverrides.hooks?.afterChange ?? []),
+        ...(revalidateOptions ? [createRevalidateHook(revalidateOptions)] : []),
+        ...(webhookOptions ? [createWebhookHook(webhookOptions)] : []),
+        ...(auditLog ? [createAuditLogHook()] : []),
+      ],
+      afterDelete: [
+        ...(collectionOverrides.hooks?.afterDelete ?? []),
+        ...(revalidateOptions ? [createRevalidateDeleteHook(revalidateOptions)] : []),
+        ...(webhookOptions ? [createWebhookDeleteHook(webhookOptions)] : []),
+        ...(auditLog ? [createAuditLogDeleteHook()] : []),
+      ],
       afterRead: collectionOverrides.hooks?.afterRead,
       afterOperation: collectionOverrides.hooks?.afterOperation,
       afterForgotPassword: collectionOverrides.hooks?.afterForgotPassword,
@@ -34,25 +34,71 @@
 import type { CollectionConfig, Field } from 'payload'
 import type { GetPuckFieldsOptions, GetPuckCollectionConfigOptions, ConversionTypeOption } from './types.js'
 import { createIsHomepageUniqueHook } from '../hooks/isHomepageUnique.js'
+import { createSchedulePublishHook } from '../hooks/schedulePublish.js'
 import type { LayoutDefinition } from '../../layouts/types.js'
 import { DEFAULT_LAYOUTS } from '../../layouts/defaults.js'
 import { layoutsToPayloadOptions } from '../../layouts/utils.js'
+import { regenerateComponentIds } from '../../utils/componentIds.js'
+import { createTemplateRefs } from '../../utils/templates.js'
 
 // =============================================================================
 // Core Fields
 // =============================================================================
 
+/**
+ * Creates the Puck data field that stores the visual editor JSON data.
+ * This field is always hidden in the admin UI as it's managed via the visual editor.
+ *
+ * @param localized - Store separate Puck data per locale (requires Payload localization)
+ */
+export function createPuckDataField(localized = false): Field {
+  return {
+    name: 'puckData',
+    type: 'json',
+    ...(localized && { localized: true }),
+    admin: {
+      hidden: true,
+      description: 'Puck editor data - managed via visual editor',
+    },
+    hooks: {
+      // Copies get their own component IDs
+      beforeDuplicate: [({ value }) => (value ? regenerateComponentIds(value) : value)],
+    },
+  }
+}
+
 /**
  * Puck data field - stores the visual editor JSON data.
  * This field is always hidden in the admin UI as it's managed via the visual editor.
  */
-export const puckDataField: Field = {
-  name: 'puckData',
-  type: 'json',
-  admin: {
-    hidden: true,
-    description: 'Puck editor data - managed via visual editor',
-  },
+export const puckDataField: Field = createPuckDataField()
+
+/**
+ * Creates the hidden template usage index. It's rebuilt from `puckData` on
+ * every save that includes it, and queried by the template usage endpoint.
+ *
+ * @param localized - Match a localized puckData field
+ */
+export function createTemplateRefsField(localized = false): Field {
+  return {
+    name: 'templateRefs',
+    type: 'text',
+    hasMany: true,
+    index: true,
+    ...(localized && { localized: true }),
+    admin: {
+      hidden: true,
+    },
+    hooks: {
+      // The incoming value is ignored; saves without puckData keep the index
+      beforeChange: [
+        ({ siblingData, originalDoc }) =>
+          siblingData?.puckData !== undefined
+            ? createTemplateRefs(siblingData.puckData)
+            : originalDoc?.templateRefs,
+      ],
+    },
+  }
 }
 
 /**
@@ -169,79 +215,178 @@ export const isHomepageField: Field = {
   },
 }
 
-// =============================================================================
-// Field Groups
-// =============================================================================
+/**
+ * Returns a comparable timestamp for a date field value (Date, ISO string or empty)
+ */
+function toTime(value: unknown): number | null {
+  if (!value) return null
+  const time = new Date(value as string | Date).getTime()
+  return Number.isNaN(time) ? null : time
+}
 
 /**
- * SEO/Meta field group with all metadata fields.
- * Uses the official @payloadcms/plugin-seo convention: meta.title, meta.description
+ * Creates the scheduled publishing fields: publishAt, unpublishAt and scheduledBy.
  *
- * Includes: title, description, image, noindex, nofollow, excludeFromSitemap
+ * scheduledBy is filled in automatically with the user who last changed the
+ * schedule, so every saved version records who scheduled it. It can't be set
+ * through the API and is cleared along with the schedule. The fields only
+ * store the schedule - the scheduling hook and jobs task act on it.
+ *
+ * @param sidebar - Whether to position in the sidebar (default: true)
  */
-export const seoFieldGroup: Field = {
-  name: 'meta',
-  type: 'group',
-  label: 'SEO',
-  admin: {
-    position: 'sidebar',
-  },
-  fields: [
+export function createPublishScheduleFields(sidebar: boolean = true): Field[] {
+  return [
     {
-      name: 'title',
-      type: 'text',
-      label: 'Meta Title',
+      name: 'publishAt',
+      type: 'date',
+      label: 'Publish At',
       admin: {
-        description: 'Override the page title for search engines',
+        position: sidebar ? 'sidebar' : undefined,
+        description: 'Publish the latest draft automatically at this time',
+        date: { pickerAppearance: 'dayAndTime' },
       },
     },
     {
-      name: 'description',
-      type: 'textarea',
-      label: 'Meta Description',
+      name: 'unpublishAt',
+      type: 'date',
+      label: 'Unpublish At',
       admin: {
-        description: 'Description shown in search engine results',
+        position: sidebar ? 'sidebar' : undefined,
+        description: 'Unpublish the page automatically at this time',
+        date: { pickerAppearance: 'dayAndTime' },
       },
     },
     {
-      name: 'image',
-      type: 'upload',
-      relationTo: 'media',
-      label: 'Open Graph Image',
+      name: 'scheduledBy',
+      type: 'text',
+      label: 'Scheduled By',
       admin: {
-        description: 'Image shown when sharing on social media',
+        position: sidebar ? 'sidebar' : undefined,
+        readOnly: true,
+        condition: (data) => Boolean(data?.publishAt || data?.unpublishAt),
       },
-    },
-    {
-      name: 'noindex',
-      type: 'checkbox',
-      label: 'No Index',
-      defaultValue: false,
-      admin: {
-        description: 'Prevent search engines from indexing this page',
+      hooks: {
+        beforeChange: [
+          // The incoming value is ignored, so API requests can't set it
+          ({ siblingData, originalDoc, req }) => {
+            // Dates left out of a partial update keep their saved value
+            const publishAt =
+              siblingData?.publishAt !== undefined ? siblingData.publishAt : originalDoc?.publishAt
+            const unpublishAt =
+              siblingData?.unpublishAt !== undefined
+                ? siblingData.unpublishAt
+                : originalDoc?.unpublishAt
+
+            if (!publishAt && !unpublishAt) return null
+
+            const scheduleChanged =
+              toTime(publishAt) !== toTime(originalDoc?.publishAt) ||
+              toTime(unpublishAt) !== toTime(originalDoc?.unpublishAt)
+
+            // Only record users - the scheduled job clears a date without one
+            if (scheduleChanged && req.user) {
+              return (req.user.email as string | undefined) || String(req.user.id)
+            }
+            return originalDoc?.scheduledBy ?? null
+          },
+        ],
       },
     },
-    {
-      name: 'nofollow',
-      type: 'checkbox',
-      label: 'No Follow',
-      defaultValue: false,
-      admin: {
-        description: 'Prevent search engines from following links on this page',
-      },
+  ]
+}
+
+/**
+ * Scheduled publishing fields (publishAt, unpublishAt, scheduledBy) in the sidebar.
+ * Use createPublishScheduleFields() for custom positioning.
+ */
+export const publishScheduleFields: Field[] = createPublishScheduleFields()
+
+// =============================================================================
+// Field Groups
+// =============================================================================
+
+/**
+ * Creates the SEO/Meta field group.
+ * Uses the official @payloadcms/plugin-seo convention: meta.title, meta.description
+ *
+ * Includes: title, description, image, noindex, nofollow, excludeFromSitemap
+ *
+ * @param localized - Store separate SEO values per locale (requires Payload localization)
+ */
+export function createSeoFieldGroup(localized = false): Field {
+  return {
+    name: 'meta',
+    type: 'group',
+    label: 'SEO',
+    ...(localized && { localized: true }),
+    admin: {
+      position: 'sidebar',
     },
-    {
-      name: 'excludeFromSitemap',
-      type: 'checkbox',
-      label: 'Exclude from Sitemap',
-      defaultValue: false,
-      admin: {
-        description: 'Exclude this page from the XML sitemap',
+    fields: [
+      {
+        name: 'title',
+        type: 'text',
+        label: 'Meta Title',
+        admin: {
+          description: 'Override the page title for search engines',
+        },
       },
-    },
-  ],
+      {
+        name: 'description',
+        type: 'textarea',
+        label: 'Meta Description',
+        admin: {
+          description: 'Description shown in search engine results',
+        },
+      },
+      {
+        name: 'image',
+        type: 'upload',
+        relationTo: 'media',
+        label: 'Open Graph Image',
+        admin: {
+          description: 'Image shown when sharing on social media',
+        },
+      },
+      {
+        name: 'noindex',
+        type: 'checkbox',
+        label: 'No Index',
+        defaultValue: false,
+        admin: {
+          description: 'Prevent search engines from indexing this page',
+        },
+      },
+      {
+        name: 'nofollow',
+        type: 'checkbox',
+        label: 'No Follow',
+        defaultValue: false,
+        admin: {
+          description: 'Prevent search engines from following links on this page',
+        },
+      },
+      {
+        name: 'excludeFromSitemap',
+        type: 'checkbox',
+        label: 'Exclude from Sitemap',
+        defaultValue: false,
+        admin: {
+          description: 'Exclude this page from the XML sitemap',
+        },
+      },
+    ],
+  }
 }
 
+/**
+ * SEO/Meta field group with all metadata fields.
+ * Uses the official @payloadcms/plugin-seo convention: meta.title, meta.description
+ *
+ * Includes: title, description, image, noindex, nofollow, excludeFromSitemap
+ */
+export const seoFieldGroup: Field = createSeoFieldGroup()
+
 /**
  * Default conversion type options
  */
@@ -380,12 +525,15 @@ export function getPuckFields(options: GetPuckFieldsOptions = {}): Field[] {
     legacyBlocksFieldName = 'layout',
     sidebarPosition = true,
     conversionTypeOptions,
+    localized = false,
+    includeScheduling = false,
   } = options
 
   const fields: Field[] = []
 
   // Core puckData field (always included - this is essential for Puck)
-  fields.push(puckDataField)
+  fields.push(createPuckDataField(localized))
+  fields.push(createTemplateRefsField(localized))
 
   // Editor version field (discriminator for hybrid rendering)
   // Uses smart detection to preserve legacy pages when field is first added
@@ -403,9 +551,14 @@ export function getPuckFields(options: GetPuckFieldsOptions = {}): Field[] {
     fields.push(isHomepageField)
   }
 
+  // Scheduled publishing fields
+  if (includeScheduling) {
+    fields.push(...createPublishScheduleFields(sidebarPosition))
+  }
+
   // SEO group
   if (includeSEO) {
-    fields.push(seoFieldGroup)
+    fields.push(createSeoFieldGroup(localized))
   }
 
   // Conversion tracking group (with optional custom conversion types)
@@ -456,10 +609,17 @@ export function getPuckCollectionConfig(options: GetPuckCollectionConfigOptions
   fields: Field[]
   hooks: CollectionConfig['hooks']
 } {
-  const { includeHomepageHook = true, includeIsHomepage = false, ...fieldOptions } = options
+  const {
+    includeHomepageHook = true,
+    includeIsHomepage = false,
+    includeSchedulingHook = true,
+    includeScheduling = false,
+    schedulingQueue,
+    ...fieldOptions
+  } = options
 
   // Get the fields using the existing getPuckFields function
-  const fields = getPuckFields({ includeIsHomepage, ...fieldOptions })
+  const fields = getPuckFields({ includeIsHomepage, includeScheduling, ...fieldOptions })
 
   // Build hooks object
   const hooks: CollectionConfig['hooks'] = {}
@@ -471,6 +631,11 @@ export function getPuckCollectionConfig(options: GetPuckCollectionConfigOptions
     hooks.beforeChange = [createIsHomepageUniqueHook()]
   }
 
+  // Add the scheduling hook that queues publish/unpublish jobs
+  if (includeScheduling && includeSchedulingHook !== false) {
+    hooks.afterChange = [createSchedulePublishHook({ queue: schedulingQueue })]
+  }
+
   return { fields, hooks }
 }
 
@@ -116,6 +116,21 @@ export interface GetPuckFieldsOptions {
    * ```
    */
   conversionTypeOptions?: ConversionTypeOption[]
+
+  /**
+   * Localize the puckData field and SEO group so each locale has its own
+   * page structure and metadata. Requires Payload `localization` to be configured.
+   * @default false
+   */
+  localized?: boolean
+
+  /**
+   * Include publishAt / unpublishAt / scheduledBy fields for scheduled publishing.
+   * Pair with the scheduling hook (see getPuckCollectionConfig) and the plugin's
+   * `scheduling` option, which registers the jobs task that acts on them.
+   * @default false
+   */
+  includeScheduling?: boolean
 }
 
 /**
@@ -150,4 +165,17 @@ export interface GetPuckCollectionConfigOptions extends GetPuckFieldsOptions {
    * @default true (when includeIsHomepage is true)
    */
   includeHomepageHook?: boolean
+
+  /**
+   * Include the afterChange hook that queues scheduled publish/unpublish jobs.
+   * Only takes effect when includeScheduling is true.
+   * @default true (when includeScheduling is true)
+   */
+  includeSchedulingHook?: boolean
+
+  /**
+   * Jobs queue used by the scheduling hook
+   * @default 'default'
+   */
+  schedulingQueue?: string
 }
@@ -0,0 +1,209 @@
+import type {
+  CollectionAfterChangeHook,
+  CollectionAfterDeleteHook,
+  CollectionSlug,
+  PayloadRequest,
+} from 'payload'
+import { AUDIT_LOG_COLLECTION } from '../../collections/AuditLog.js'
+import { diffPuckData, type ComponentChangeType } from '../../utils/diff.js'
+import { resolvePageChange, type PageChange } from './pageChange.js'
+
+/**
+ * Editor actions recorded in the audit log
+ */
+export type PuckAuditAction =
+  | 'create'
+  | 'save'
+  | 'publish'
+  | 'unpublish'
+  | 'restore'
+  | 'delete'
+  | 'homepageSwap'
+  | 'templateSave'
+  | 'aiGeneration'
+
+/**
+ * Compact description of what an action changed
+ */
+export interface PuckAuditChanges {
+  /** Counts of added, removed, moved and changed components */
+  components?: Partial<Record<ComponentChangeType, number>>
+  /** Document fields other than puckData that changed */
+  fields?: string[]
+}
+
+/**
+ * An audit log entry, as written by `recordAuditEntry`
+ */
+export interface PuckAuditEntry {
+  action: PuckAuditAction
+  documentCollection?: string
+  documentId?: string | number
+  documentTitle?: string
+  summary: string
+  changes?: PuckAuditChanges
+}
+
+const PAGE_CHANGE_ACTIONS: Record<PageChange, PuckAuditAction> = {
+  created: 'create',
+  published: 'publish',
+  unpublished: 'unpublish',
+  restored: 'restore',
+  saved: 'save',
+}
+
+/**
+ * Fields left out of the changed-field list
+ */
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt', '_status'])
+
+function getUserLabel(user: NonNullable<PayloadRequest['user']>): string {
+  const { name, email } = user as { name?: unknown; email?: unknown }
+  if (typeof name === 'string' && name) return name
+  if (typeof email === 'string' && email) return email
+  return String(user.id)
+}
+
+/**
+ * Describes the changes between two versions of a document
+ */
+export function summarizeChanges(
+  before: Record<string, any> | undefined,
+  after: Record<string, any>,
+  dataField = 'puckData'
+): { summary: string; changes: PuckAuditChanges } {
+  const diff = diffPuckData(before?.[dataField], after[dataField])
+  const components = Object.fromEntries(
+    Object.entries(diff.summary).filter(([, count]) => count > 0)
+  ) as PuckAuditChanges['components']
+
+  const fields = Object.keys(after).filter(
+    (key) =>
+      key !== dataField &&
+      !IGNORED_FIELDS.has(key) &&
+      JSON.stringify(before?.[key] ?? null) !== JSON.stringify(after[key] ?? null)
+  )
+
+  const parts: string[] = []
+  const counts = Object.entries(components ?? {}).map(([change, count]) => `${count} ${change}`)
+  if (counts.length > 0) parts.push(`Components: ${counts.join(', ')}`)
+  if (fields.length > 0) parts.push(`Fields: ${fields.join(', ')}`)
+
+  return {
+    summary: parts.join('; ') || 'No changes',
+    changes: {
+      ...(counts.length > 0 && { components }),
+      ...(fields.length > 0 && { fields }),
+    },
+  }
+}
+
+/**
+ * Writes an audit log entry for the requesting user. Does nothing if the
+ * audit log is not enabled. Failures are only logged, so they never stop the
+ * action being audited.
+ */
+export async function recordAuditEntry(req: PayloadRequest, entry: PuckAuditEntry): Promise<void> {
+  if (!req.payload.collections[AUDIT_LOG_COLLECTION as CollectionSlug]) return
+
+  const { user } = req
+  try {
+    await req.payload.create({
+      collection: AUDIT_LOG_COLLECTION as CollectionSlug,
+      data: {
+        ...entry,
+        documentId: entry.documentId !== undefined ? String(entry.documentId) : undefined,
+        userId: user ? String(user.id) : undefined,
+        userLabel: user ? getUserLabel(user) : 'System',
+        userCollection: user?.collection,
+      } as any,
+      overrideAccess: true,
+      req,
+    })
+  } catch (error) {
+    req.payload.logger.warn(
+      `[payload-puck] Failed to write audit log entry: ${error instanceof Error ? error.message : error}`
+    )
+  }
+}
+
+/**
+ * Creates an afterChange hook that records creates, saves, publishes,
+ * unpublishes and restores in the audit log
+ *
+ * @example
+ * ```typescript
+ * import { createAuditLogHook, createAuditLogDeleteHook } from '@delmaredigital/payload-puck/plugin'
+ *
+ * const Pages: CollectionConfig = {
+ *   slug: 'pages',
+ *   hooks: {
+ *     afterChange: [createAuditLogHook()],
+ *     afterDelete: [createAuditLogDeleteHook()],
+ *   },
+ *   fields: [...],
+ * }
+ * ```
+ */
+export function createAuditLogHook(): CollectionAfterChangeHook {
+  return async (args) => {
+    const { doc, previousDoc, collection, req } = args
+    const action = PAGE_CHANGE_ACTIONS[await resolvePageChange(args)]
+    const { summary, changes } = summarizeChanges(
+      action === 'create' ? undefined : previousDoc,
+      doc
+    )
+
+    await recordAuditEntry(req, {
+      action,
+      documentCollection: collection.slug,
+      documentId: doc.id,
+      documentTitle: doc.title,
+      summary: action === 'create' ? `Created "${doc.title ?? doc.id}"` : summary,
+      changes,
+    })
+
+    return doc
+  }
+}
+
+/**
+ * Creates an afterDelete hook that records deletions in the audit log
+ */
+export function createAuditLogDeleteHook(): CollectionAfterDeleteHook {
+  return async ({ doc, req, collection }) => {
+    await recordAuditEntry(req, {
+      action: 'delete',
+      documentCollection: collection.slug,
+      documentId: doc.id,
+      documentTitle: doc.title,
+      summary: `Deleted "${doc.title ?? doc.id}"`,
+    })
+    return doc
+  }
+}
+
+/**
+ * Creates an afterChange hook that records template saves in the audit log.
+ * Added to the templates collection when the audit log is enabled.
+ */
+export function createTemplateAuditLogHook(): CollectionAfterChangeHook {
+  return async ({ doc, previousDoc, operation, req, collection }) => {
+    const { summary, changes } = summarizeChanges(
+      operation === 'create' ? undefined : previousDoc,
+      doc,
+      'content'
+    )
+
+    await recordAuditEntry(req, {
+      action: 'templateSave',
+      documentCollection: collection.slug,
+      documentId: doc.id,
+      documentTitle: doc.name,
+      summary: operation === 'create' ? `Created template "${doc.name ?? doc.id}"` : summary,
+      changes,
+    })
+
+    return doc
+  }
+}
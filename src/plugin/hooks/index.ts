@@ -11,3 +11,43 @@ export {
   type IsHomepageUniqueHookOptions,
   type ExistingHomepageInfo,
 } from './isHomepageUnique.js'
+
+export {
+  createSchedulePublishHook,
+  PUCK_SCHEDULE_TASK_SLUG,
+  type SchedulePublishHookOptions,
+  type SchedulePublishInput,
+  type ScheduledAction,
+} from './schedulePublish.js'
+
+export {
+  createRevalidateHook,
+  createRevalidateDeleteHook,
+  type RevalidateHookOptions,
+} from './revalidate.js'
+
+export {
+  createValidatePuckDataHook,
+  type ValidatePuckDataHookOptions,
+  type PuckDataFieldError,
+} from './validatePuckData.js'
+
+export {
+  createWebhookHook,
+  createWebhookDeleteHook,
+  PUCK_WEBHOOK_TASK_SLUG,
+  type WebhookHookOptions,
+  type PuckWebhookPayload,
+  type WebhookDeliveryInput,
+} from './webhooks.js'
+
+export {
+  createAuditLogHook,
+  createAuditLogDeleteHook,
+  createTemplateAuditLogHook,
+  recordAuditEntry,
+  summarizeChanges,
+  type PuckAuditAction,
+  type PuckAuditChanges,
+  type PuckAuditEntry,
+} from './auditLog.js'
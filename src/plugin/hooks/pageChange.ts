@@ -0,0 +1,47 @@
+import type { CollectionAfterChangeHook, CollectionSlug } from 'payload'
+
+/**
+ * What an afterChange call did to a page
+ */
+export type PageChange = 'created' | 'published' | 'unpublished' | 'restored' | 'saved'
+
+/**
+ * Works out what an afterChange call did to a page. Shared by the webhook
+ * and audit log hooks.
+ */
+export async function resolvePageChange({
+  doc,
+  previousDoc,
+  data,
+  operation,
+  req,
+  collection,
+}: Parameters<CollectionAfterChangeHook>[0]): Promise<PageChange> {
+  const hasDrafts = typeof collection.versions === 'object' && !!collection.versions?.drafts
+
+  if (operation === 'create') return 'created'
+
+  // restoreVersion passes the restored document as both `data` and `doc`
+  if (data === doc) return 'restored'
+
+  if (!hasDrafts || doc._status === 'published') return 'published'
+
+  if (previousDoc?._status === 'published') {
+    // A draft saved over a published page looks the same as unpublishing,
+    // so check whether the page is still published
+    const published = await req.payload.findByID({
+      collection: collection.slug as CollectionSlug,
+      id: doc.id,
+      draft: false,
+      depth: 0,
+      overrideAccess: true,
+      disableErrors: true,
+      req,
+    })
+    if ((published as Record<string, any> | null)?._status !== 'published') {
+      return 'unpublished'
+    }
+  }
+
+  return 'saved'
+}
@@ -0,0 +1,111 @@
+import type { CollectionAfterChangeHook, CollectionAfterDeleteHook, PayloadRequest } from 'payload'
+import { revalidatePath, revalidateTag } from 'next/cache'
+import type { PuckRevalidateOptions } from '../../types/index.js'
+import { resolvePagePath, type PreviewUrlConfig } from '../../utils/pageUrl.js'
+
+/**
+ * Options for the revalidation hooks
+ */
+export interface RevalidateHookOptions extends PuckRevalidateOptions {
+  /**
+   * Preview URL config used to resolve page URLs
+   * @see PuckPluginOptions.previewUrl
+   */
+  previewUrl?: PreviewUrlConfig
+}
+
+/**
+ * Revalidates the given pages' URLs and tags. Failures (e.g. when running
+ * outside a Next.js server) are logged instead of failing the operation.
+ */
+function revalidatePages(
+  req: PayloadRequest,
+  collection: string,
+  docs: Record<string, any>[],
+  options: RevalidateHookOptions
+): void {
+  const { paths: revalidatePaths = true, tags, tagProfile = 'max', previewUrl } = options
+
+  const paths = new Set<string>()
+  const pageTags = new Set<string>()
+  for (const doc of docs) {
+    const path = resolvePagePath(doc, previewUrl)
+    paths.add(path)
+    for (const tag of tags?.({ collection, doc, path }) ?? []) {
+      pageTags.add(tag)
+    }
+  }
+
+  try {
+    if (revalidatePaths) {
+      for (const path of paths) revalidatePath(path)
+    }
+    for (const tag of pageTags) revalidateTag(tag, tagProfile)
+  } catch (error) {
+    req.payload.logger.warn(
+      `[payload-puck] Revalidation failed for ${Array.from(paths).join(', ')}: ${
+        error instanceof Error ? error.message : error
+      }`
+    )
+  }
+}
+
+function isPublished(doc: Record<string, any> | undefined, hasDrafts: boolean): boolean {
+  return !!doc && (!hasDrafts || doc._status === 'published')
+}
+
+/**
+ * Creates an afterChange hook that revalidates a page's Next.js route when
+ * its published content changes.
+ *
+ * Runs when a page is published, unpublished, or saved while published.
+ * The previous URL is revalidated as well, which covers slug changes and
+ * pages that stop being the homepage during a homepage swap.
+ *
+ * @example
+ * ```typescript
+ * import { createRevalidateHook } from '@delmaredigital/payload-puck/plugin'
+ *
+ * const Pages: CollectionConfig = {
+ *   slug: 'pages',
+ *   hooks: {
+ *     afterChange: [createRevalidateHook({ previewUrl: '/' })],
+ *   },
+ *   fields: [...],
+ * }
+ * ```
+ */
+export function createRevalidateHook(
+  options: RevalidateHookOptions = {}
+): CollectionAfterChangeHook {
+  return async ({ doc, previousDoc, req, collection }) => {
+    const hasDrafts = typeof collection.versions === 'object' && !!collection.versions?.drafts
+    const docs: Record<string, any>[] = []
+
+    if (isPublished(doc, hasDrafts)) docs.push(doc)
+    if (isPublished(previousDoc, hasDrafts)) docs.push(previousDoc)
+
+    if (docs.length > 0) {
+      revalidatePages(req, collection.slug, docs, options)
+    }
+
+    return doc
+  }
+}
+
+/**
+ * Creates an afterDelete hook that revalidates a deleted page's route
+ */
+export function createRevalidateDeleteHook(
+  options: RevalidateHookOptions = {}
+): CollectionAfterDeleteHook {
+  return async ({ doc, req, collection }) => {
+    const hasDrafts = typeof collection.versions === 'object' && !!collection.versions?.drafts
+
+    if (isPublished(doc, hasDrafts)) {
+      revalidatePages(req, collection.slug, [doc], options)
+    }
+
+    return doc
+  }
+}
@@ -0,0 +1,87 @@
+import type { CollectionAfterChangeHook } from 'payload'
+import { PUCK_SCHEDULE_TASK_SLUG, queuePuckTask } from '../jobs/tasks.js'
+
+export { PUCK_SCHEDULE_TASK_SLUG }
+
+/**
+ * Action performed by a scheduled job
+ */
+export type ScheduledAction = 'publish' | 'unpublish'
+
+/**
+ * Input of the scheduled publish jobs task
+ */
+export interface SchedulePublishInput {
+  collection: string
+  id: string
+  action: ScheduledAction
+  /** The publishAt / unpublishAt value the job was queued for */
+  scheduledFor: string
+}
+
+/**
+ * Options for the scheduled publish hook
+ */
+export interface SchedulePublishHookOptions {
+  /**
+   * Jobs queue to add scheduled jobs to
+   * @default 'default'
+   */
+  queue?: string
+}
+
+const SCHEDULE_FIELDS: Array<[field: 'publishAt' | 'unpublishAt', action: ScheduledAction]> = [
+  ['publishAt', 'publish'],
+  ['unpublishAt', 'unpublish'],
+]
+
+/**
+ * Creates an afterChange hook that queues a publish/unpublish job whenever
+ * publishAt or unpublishAt is set or changed.
+ *
+ * Jobs are queued with `waitUntil` set to the scheduled time. Rescheduling
+ * queues a new job; the task skips jobs whose time no longer matches the page.
+ *
+ * @example
+ * ```typescript
+ * import { createSchedulePublishHook } from '@delmaredigital/payload-puck/plugin'
+ *
+ * const Pages: CollectionConfig = {
+ *   slug: 'pages',
+ *   hooks: {
+ *     afterChange: [createSchedulePublishHook()],
+ *   },
+ *   fields: [...],
+ * }
+ * ```
+ */
+export function createSchedulePublishHook(
+  options: SchedulePublishHookOptions = {}
+): CollectionAfterChangeHook {
+  const { queue } = options
+
+  return async ({ doc, previousDoc, req, collection }) => {
+    for (const [field, action] of SCHEDULE_FIELDS) {
+      const scheduledFor = doc?.[field] as string | null | undefined
+      if (!scheduledFor) continue
+
+      const scheduledTime = new Date(scheduledFor).getTime()
+      const previousTime = previousDoc?.[field] ? new Date(previousDoc[field]).getTime() : null
+      if (Number.isNaN(scheduledTime) || scheduledTime === previousTime) continue
+
+      const input: SchedulePublishInput = {
+        collection: collection.slug,
+        id: String(doc.id),
+        action,
+        scheduledFor: new Date(scheduledTime).toISOString(),
+      }
+
+      await queuePuckTask(req, PUCK_SCHEDULE_TASK_SLUG, input, {
+        queue,
+        waitUntil: new Date(scheduledTime),
+      })
+    }
+
+    return doc
+  }
+}
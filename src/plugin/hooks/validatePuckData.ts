@@ -0,0 +1,67 @@
+import type { CollectionBeforeValidateHook, ValidationFieldError } from 'payload'
+import { ValidationError } from 'payload'
+import type { PuckValidationOptions } from '../../types/index.js'
+import { validatePuckDataAgainstConfig, type PuckDataIssue } from '../../utils/validation.js'
+
+/**
+ * Options for the puckData validation hook
+ */
+export type ValidatePuckDataHookOptions = PuckValidationOptions
+
+/**
+ * Field error thrown for a puckData issue. `path` is prefixed with 'puckData.'
+ * and `componentId` lets the editor highlight the offending component.
+ */
+export type PuckDataFieldError = ValidationFieldError & Omit<PuckDataIssue, 'path' | 'message'>
+
+/**
+ * Creates a beforeValidate hook that validates incoming `puckData` against a
+ * Puck config, and rejects the save with a ValidationError listing every issue.
+ * Publishing without `puckData` in the request validates the saved `puckData`.
+ *
+ * Required fields are only enforced when publishing, like Payload's own
+ * required fields - drafts can be saved while still incomplete.
+ *
+ * @example
+ * ```typescript
+ * import { createValidatePuckDataHook } from '@delmaredigital/payload-puck/plugin'
+ * import { baseConfig } from '@delmaredigital/payload-puck/config'
+ *
+ * const Pages: CollectionConfig = {
+ *   slug: 'pages',
+ *   hooks: {
+ *     beforeValidate: [createValidatePuckDataHook({ config: baseConfig })],
+ *   },
+ *   fields: [...],
+ * }
+ * ```
+ */
+export function createValidatePuckDataHook(
+  options: ValidatePuckDataHookOptions
+): CollectionBeforeValidateHook {
+  const { config, requiredFields, requireOnDraft = false } = options
+
+  return ({ data, originalDoc, collection, req }) => {
+    // Validate puckData when it's part of this save, or the saved puckData
+    // when publishing without it (e.g. scheduled publishing)
+    const puckData =
+      data?.puckData ?? (data?._status === 'published' ? originalDoc?.puckData : undefined)
+    if (!data || !puckData) return data
+
+    const isDraft = data._status === 'draft'
+    const { valid, issues } = validatePuckDataAgainstConfig(puckData, config, {
+      requiredFields,
+      checkRequired: requireOnDraft || !isDraft,
+    })
+
+    if (valid) return data
+
+    const errors: PuckDataFieldError[] = issues.map((issue) => ({
+      ...issue,
+      path: issue.path ? `puckData.${issue.path}` : 'puckData',
+      label: issue.message,
+    }))
+
+    throw new ValidationError({ collection: collection.slug, errors, req })
+  }
+}
@@ -0,0 +1,239 @@
+import type {
+  CollectionAfterChangeHook,
+  CollectionAfterDeleteHook,
+  CollectionSlug,
+  PayloadRequest,
+} from 'payload'
+import type {
+  PuckWebhookEndpoint,
+  PuckWebhookEvent,
+  PuckWebhookOptions,
+} from '../../types/index.js'
+import { WEBHOOK_DELIVERIES_COLLECTION } from '../../collections/WebhookDeliveries.js'
+import { resolvePagePath, type PreviewUrlConfig } from '../../utils/pageUrl.js'
+import { resolvePageChange, type PageChange } from './pageChange.js'
+import { PUCK_WEBHOOK_TASK_SLUG, queuePuckTask } from '../jobs/tasks.js'
+
+export { PUCK_WEBHOOK_TASK_SLUG }
+
+/**
+ * Options for the webhook hooks
+ */
+export interface WebhookHookOptions extends PuckWebhookOptions {
+  /**
+   * Preview URL config used to resolve page URLs
+   * @see PuckPluginOptions.previewUrl
+   */
+  previewUrl?: PreviewUrlConfig
+}
+
+/**
+ * JSON body POSTed to webhook endpoints
+ */
+export interface PuckWebhookPayload {
+  /** Delivery ID, the same for every retry (also sent as `X-Puck-Delivery`) */
+  id: string
+  event: PuckWebhookEvent
+  /** ISO timestamp of the event */
+  timestamp: string
+  collection: string
+  page: {
+    id: string | number
+    slug?: string
+    title?: string
+    status?: 'draft' | 'published'
+    /** Public path, resolved from `previewUrl` */
+    path: string
+    /** Public URL, `path` prefixed with `baseUrl` */
+    url: string
+  }
+  /** The user who made the change, null for system changes (e.g. scheduled publishing) */
+  user: {
+    id: string | number
+    collection?: string
+    email?: string
+  } | null
+}
+
+/**
+ * Webhook event for each page change (draft saves don't send anything)
+ */
+const PAGE_CHANGE_EVENTS: Record<PageChange, PuckWebhookEvent | null> = {
+  created: 'page.created',
+  published: 'page.published',
+  unpublished: 'page.unpublished',
+  restored: 'page.restored',
+  saved: null,
+}
+
+/**
+ * Input of the webhook delivery jobs task. Each job makes one attempt;
+ * failed attempts queue the next one.
+ */
+export interface WebhookDeliveryInput {
+  /** Endpoint URL, matched against the configured endpoints when the job runs */
+  url: string
+  body: PuckWebhookPayload
+  /** Attempt number, starting at 1 */
+  attempt: number
+  /** ID of the delivery log entry */
+  logId?: string
+}
+
+function createDeliveryId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`
+}
+
+/**
+ * Logs a delivery and queues its first attempt. Log failures are only
+ * logged, so they never stop a delivery.
+ */
+async function queueDelivery(
+  req: PayloadRequest,
+  endpoint: PuckWebhookEndpoint,
+  body: PuckWebhookPayload,
+  options: WebhookHookOptions
+): Promise<void> {
+  const { payload } = req
+
+  let logId: string | undefined
+  if (options.log !== false) {
+    try {
+      const entry = await payload.create({
+        collection: WEBHOOK_DELIVERIES_COLLECTION as CollectionSlug,
+        data: {
+          event: body.event,
+          url: endpoint.url,
+          status: 'pending',
+          documentCollection: body.collection,
+          documentId: String(body.page.id),
+          attempts: 0,
+          payload: body,
+        },
+        overrideAccess: true,
+        req,
+      })
+      logId = String(entry.id)
+    } catch (error) {
+      payload.logger.warn(
+        `[payload-puck] Failed to log webhook delivery: ${error instanceof Error ? error.message : error}`
+      )
+    }
+  }
+
+  const input: WebhookDeliveryInput = { url: endpoint.url, body, attempt: 1, logId }
+
+  await queuePuckTask(req, PUCK_WEBHOOK_TASK_SLUG, input, { queue: options.queue })
+}
+
+/**
+ * Queues a delivery of an event to every endpoint subscribed to it.
+ * Deliveries run on the jobs queue, so slow or failing endpoints never
+ * delay the operation and retries survive restarts.
+ */
+async function sendWebhooks(
+  req: PayloadRequest,
+  event: PuckWebhookEvent,
+  collection: string,
+  doc: Record<string, any>,
+  options: WebhookHookOptions
+): Promise<void> {
+  const endpoints = options.endpoints.filter(
+    (endpoint) => !endpoint.events || endpoint.events.includes(event)
+  )
+  if (endpoints.length === 0) return
+
+  const path = resolvePagePath(doc, options.previewUrl)
+  const baseUrl = (options.baseUrl ?? req.payload.config.serverURL ?? '').replace(/\/+$/, '')
+  const user = req.user
+
+  const body: PuckWebhookPayload = {
+    id: createDeliveryId(),
+    event,
+    timestamp: new Date().toISOString(),
+    collection,
+    page: {
+      id: doc.id,
+      slug: doc.slug,
+      title: doc.title,
+      status: doc._status,
+      path,
+      url: `${baseUrl}${path}`,
+    },
+    user: user
+      ? {
+          id: user.id,
+          collection: user.collection,
+          ...(typeof user.email === 'string' && { email: user.email }),
+        }
+      : null,
+  }
+
+  for (const endpoint of endpoints) {
+    try {
+      await queueDelivery(req, endpoint, body, options)
+    } catch (error) {
+      req.payload.logger.error(
+        `[payload-puck] Failed to queue webhook ${event} to ${endpoint.url}: ${error instanceof Error ? error.message : error}`
+      )
+    }
+  }
+}
+
+/**
+ * Creates an afterChange hook that sends `page.created`, `page.published`,
+ * `page.unpublished` and `page.restored` webhooks.
+ *
+ * Saving a published page sends `page.published` again. Draft saves don't
+ * send anything, unless they unpublish the page.
+ *
+ * Deliveries are queued as jobs, so the webhook delivery task must be
+ * registered and the queue run.
+ *
+ * @example
+ * ```typescript
+ * import {
+ *   createWebhookHook,
+ *   createWebhookDeleteHook,
+ *   createWebhookDeliveryTask,
+ * } from '@delmaredigital/payload-puck/plugin'
+ *
+ * const webhooks = { endpoints: [{ url: 'https://example.com/hooks/pages', secret: 'shh' }] }
+ *
+ * const Pages: CollectionConfig = {
+ *   slug: 'pages',
+ *   hooks: {
+ *     afterChange: [createWebhookHook(webhooks)],
+ *     afterDelete: [createWebhookDeleteHook(webhooks)],
+ *   },
+ *   fields: [...],
+ * }
+ *
+ * // payload.config.ts
+ * jobs: { tasks: [createWebhookDeliveryTask(webhooks)] }
+ * ```
+ */
+export function createWebhookHook(options: WebhookHookOptions): CollectionAfterChangeHook {
+  return async (args) => {
+    const { doc, collection, req } = args
+    const event = PAGE_CHANGE_EVENTS[await resolvePageChange(args)]
+
+    if (event) {
+      await sendWebhooks(req, event, collection.slug, doc, options)
+    }
+
+    return doc
+  }
+}
+
+/**
+ * Creates an afterDelete hook that sends `page.deleted` webhooks
+ */
+export function createWebhookDeleteHook(options: WebhookHookOptions): CollectionAfterDeleteHook {
+  return async ({ doc, req, collection }) => {
+    await sendWebhooks(req, 'page.deleted', collection.slug, doc, options)
+    return doc
+  }
+}
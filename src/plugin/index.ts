@@ -1,11 +1,41 @@
-import type { CollectionConfig, Config as PayloadConfig, Field, Plugin } from 'payload'
-import type { PuckPluginOptions, PuckAdminConfig, PageTreeIntegrationOptions } from '../types/index.js'
+import type {
+  CollectionConfig,
+  Config as PayloadConfig,
+  Field,
+  Plugin,
+  TaskConfig,
+} from 'payload'
+import type {
+  PuckPluginOptions,
+  PuckAdminConfig,
+  PuckCollectionOptions,
+  PuckSchedulingOptions,
+  PuckEditLockingOptions,
+  PageTreeIntegrationOptions,
+} from '../types/index.js'
 import { generatePagesCollection } from './collections/Pages.js'
 import { TemplatesCollection } from '../collections/Templates.js'
+import { EditLocksCollection, EDIT_LOCKS_COLLECTION } from '../collections/EditLocks.js'
+import {
+  WebhookDeliveriesCollection,
+  WEBHOOK_DELIVERIES_COLLECTION,
+} from '../collections/WebhookDeliveries.js'
+import { AuditLogCollection, AUDIT_LOG_COLLECTION } from '../collections/AuditLog.js'
 import { AiPromptsCollection } from '../ai/collections/AiPrompts.js'
 import { AiContextCollection } from '../ai/collections/AiContext.js'
 import { getPuckFields } from './fields/index.js'
 import { createIsHomepageUniqueHook } from './hooks/isHomepageUnique.js'
+import { createSchedulePublishHook } from './hooks/schedulePublish.js'
+import { createRevalidateHook, createRevalidateDeleteHook } from './hooks/revalidate.js'
+import { createValidatePuckDataHook } from './hooks/validatePuckData.js'
+import { createWebhookHook, createWebhookDeleteHook } from './hooks/webhooks.js'
+import {
+  createAuditLogHook,
+  createAuditLogDeleteHook,
+  createTemplateAuditLogHook,
+} from './hooks/auditLog.js'
+import { createSchedulePublishTask } from './jobs/schedulePublish.js'
+import { createWebhookDeliveryTask } from './jobs/webhookDelivery.js'
 import {
   createListHandler,
   createCreateHandler,
@@ -14,9 +44,27 @@ import {
   createDeleteHandler,
   createVersionsHandler,
   createRestoreHandler,
+  createDuplicateHandler,
 } from '../endpoints/index.js'
 import { createStylesHandler, PUCK_STYLES_ENDPOINT } from '../endpoints/styles.js'
 import { createAiEndpointHandler } from '../endpoints/ai.js'
+import { createTemplateUsageHandler } from '../endpoints/templates.js'
+import { createAuditLogHandler } from '../endpoints/auditLog.js'
+import { resolveLimits, withLimits } from '../endpoints/limits.js'
+import {
+  createLockListHandler,
+  createLockHeartbeatHandler,
+  createLockReleaseHandler,
+  defaultCanTakeOver,
+  DEFAULT_LOCK_TIMEOUT,
+} from '../endpoints/locks.js'
+import { createPreviewLinkHandler } from '../endpoints/previewLinks.js'
+import { createBulkHandler } from '../endpoints/bulk.js'
+import { createOpenApiHandler, PUCK_OPENAPI_PATH } from '../endpoints/openapi.js'
+import { createBundleExportHandler, createBundleImportHandler } from '../endpoints/bundles.js'
+import { createSitemapHandler, PUCK_SITEMAP_PATH } from '../endpoints/sitemap.js'
+import { createDataBindingsHandler } from '../endpoints/dataBindings.js'
+import { DEFAULT_PREVIEW_LINK_EXPIRY } from '../utils/previewToken.js'
 import {
   createPromptsListHandler,
   createPromptsCreateHandler,
@@ -75,15 +123,45 @@ function filterExistingFields(fieldsToAdd: Field[], existingNames: Set<string>):
   })
 }
 
+/**
+ * Normalizes the `collections` / `pagesCollection` options into a list of
+ * per-collection options, falling back to the top-level plugin options
+ */
+function resolvePuckCollections(options: PuckPluginOptions): PuckCollectionOptions[] {
+  const { collections, pagesCollection = 'pages' } = options
+
+  let entries: PuckCollectionOptions[]
+  if (!collections) {
+    entries = [{ slug: pagesCollection }]
+  } else if (Array.isArray(collections)) {
+    entries = collections.map((entry) => (typeof entry === 'string' ? { slug: entry } : entry))
+  } else {
+    entries = Object.entries(collections).map(([slug, entry]) => ({ ...entry, slug }))
+  }
+
+  return entries.map((entry) => ({
+    ...entry,
+    layouts: entry.layouts ?? options.layouts,
+    access: entry.access ?? options.access,
+    previewUrl: entry.previewUrl ?? options.previewUrl,
+    collectionOverrides: entry.collectionOverrides ?? options.collectionOverrides,
+    additionalFields: entry.additionalFields ?? options.additionalFields,
+    localized: entry.localized ?? options.localized,
+    scheduling: entry.scheduling ?? Boolean(options.scheduling),
+    admin: { ...options.admin, ...entry.admin },
+  }))
+}
+
 /**
  * Generates the UI field configuration for the Edit with Puck button
  */
 function generatePuckEditField(
   collectionSlug: string,
-  adminConfig: PuckAdminConfig = {}
+  adminConfig: PuckAdminConfig = {},
+  showLockStatus = false
 ): Field {
   const {
-    editorPathPattern = '/pages/{id}/edit',
+    editorPathPattern, // undefined = integrated editor view
     buttonLabel = 'Visual Editor',
     buttonPosition, // undefined = main area (default), 'sidebar' = sidebar
   } = adminConfig
@@ -103,11 +181,195 @@ function generatePuckEditField(
         collectionSlug,
         editorPathPattern,
         label: buttonLabel,
+        // Lock badge in the list view (edit locking only)
+        showLockStatus,
+      },
+    },
+  }
+}
+
+/**
+ * Adds the page bundle Export (document view) and Import (list view) buttons
+ */
+function addBundleActions(collection: CollectionConfig): CollectionConfig {
+  const components = collection.admin?.components ?? {}
+  const clientProps = { collectionSlug: collection.slug }
+
+  return {
+    ...collection,
+    admin: {
+      ...collection.admin,
+      components: {
+        ...components,
+        beforeListTable: [
+          ...(components.beforeListTable ?? []),
+          { path: '@delmaredigital/payload-puck/admin/client#PageBundleImportButton', clientProps },
+        ],
+        edit: {
+          ...components.edit,
+          beforeDocumentControls: [
+            ...(components.edit?.beforeDocumentControls ?? []),
+            { path: '@delmaredigital/payload-puck/admin/client#PageBundleExportButton', clientProps },
+          ],
+        },
       },
     },
   }
 }
 
+/**
+ * Adds Puck support to a single collection: generates it if missing,
+ * otherwise injects the Puck fields and hooks that aren't already present
+ */
+function applyPuckCollection(
+  collections: CollectionConfig[],
+  collectionOptions: PuckCollectionOptions,
+  pluginOptions: PuckPluginOptions
+): CollectionConfig[] {
+  const { slug, admin: adminConfig = {} } = collectionOptions
+  const { addEditButton = true } = adminConfig
+  const schedulingOptions: PuckSchedulingOptions =
+    typeof pluginOptions.scheduling === 'object' ? pluginOptions.scheduling : {}
+
+  // Check if collection already exists
+  const existingCollectionIndex = collections.findIndex((c) => c.slug === slug)
+
+  // Generate the edit button field if enabled
+  const editButtonField = addEditButton
+    ? [generatePuckEditField(slug, adminConfig, Boolean(pluginOptions.editLocking))]
+    : []
+
+  if (existingCollectionIndex >= 0) {
+    // Collection exists - only add Puck fields that don't already exist
+    const existingCollection = collections[existingCollectionIndex]
+    const existingFields = existingCollection.fields || []
+    const existingFieldNames = getExistingFieldNames(existingFields)
+
+    // Determine if isHomepage should be added
+    const shouldAddIsHomepage = !existingFieldNames.has('isHomepage')
+
+    // Get Puck-specific fields (not the full collection with title/slug)
+    // This avoids duplicating fields the user may have already defined
+    const puckFields = getPuckFields({
+      includeSEO: !existingFieldNames.has('meta'),
+      includeConversion: !existingFieldNames.has('conversionTracking'),
+      includeEditorVersion: !existingFieldNames.has('editorVersion'),
+      includePageLayout: !existingFieldNames.has('pageLayout'),
+      includeIsHomepage: shouldAddIsHomepage,
+      layouts: collectionOptions.layouts,
+      localized: collectionOptions.localized,
+      includeScheduling: collectionOptions.scheduling && !existingFieldNames.has('publishAt'),
+    })
+
+    // Filter out any remaining duplicates (e.g., puckData if user already has it)
+    const fieldsToAdd = filterExistingFields(puckFields, existingFieldNames)
+
+    // Only add edit button if puckEdit doesn't exist
+    const editFieldsToAdd = existingFieldNames.has('puckEdit') ? [] : editButtonField
+
+    // Merge hooks - add isHomepage uniqueness hook if we're adding the field
+    const existingHooks = existingCollection.hooks || {}
+    const mergedHooks = shouldAddIsHomepage
+      ? {
+          ...existingHooks,
+          beforeChange: [
+            createIsHomepageUniqueHook(),
+            ...(existingHooks.beforeChange ?? []),
+          ],
+        }
+      : { ...existingHooks }
+
+    // Queue scheduled publish/unpublish jobs when the schedule changes
+    if (collectionOptions.scheduling) {
+      mergedHooks.afterChange = [
+        createSchedulePublishHook({ queue: schedulingOptions.queue }),
+        ...(existingHooks.afterChange ?? []),
+      ]
+    }
+
+    // Revalidate frontend routes when published content changes
+    if (pluginOptions.revalidate) {
+      const revalidateOptions = {
+        ...(typeof pluginOptions.revalidate === 'object' ? pluginOptions.revalidate : {}),
+        previewUrl: collectionOptions.previewUrl,
+      }
+      mergedHooks.afterChange = [
+        ...(mergedHooks.afterChange ?? []),
+        createRevalidateHook(revalidateOptions),
+      ]
+      mergedHooks.afterDelete = [
+        ...(mergedHooks.afterDelete ?? []),
+        createRevalidateDeleteHook(revalidateOptions),
+      ]
+    }
+
+    // Notify webhook endpoints of page lifecycle events
+    if (pluginOptions.webhooks) {
+      const webhookOptions = { ...pluginOptions.webhooks, previewUrl: collectionOptions.previewUrl }
+      mergedHooks.afterChange = [
+        ...(mergedHooks.afterChange ?? []),
+        createWebhookHook(webhookOptions),
+      ]
+      mergedHooks.afterDelete = [
+        ...(mergedHooks.afterDelete ?? []),
+        createWebhookDeleteHook(webhookOptions),
+      ]
+    }
+
+    // Record editor actions in the audit log
+    if (pluginOptions.auditLog) {
+      mergedHooks.afterChange = [...(mergedHooks.afterChange ?? []), createAuditLogHook()]
+      mergedHooks.afterDelete = [...(mergedHooks.afterDelete ?? []), createAuditLogDeleteHook()]
+    }
+
+    // Validate puckData against the Puck config before Payload's own validation
+    if (pluginOptions.validation) {
+      mergedHooks.beforeValidate = [
+        ...(existingHooks.beforeValidate ?? []),
+        createValidatePuckDataHook(pluginOptions.validation),
+      ]
+    }
+
+    const mergedCollection: CollectionConfig = {
+      ...existingCollection,
+      // Ensure drafts are enabled for Puck
+      versions:
+        typeof existingCollection.versions === 'object'
+          ? { drafts: true, ...existingCollection.versions }
+          : existingCollection.versions ?? { drafts: true },
+      hooks: mergedHooks,
+      fields: [
+        ...existingFields,
+        ...fieldsToAdd,
+        ...editFieldsToAdd,
+      ],
+    }
+
+    return [
+      ...collections.slice(0, existingCollectionIndex),
+      pluginOptions.bundles ? addBundleActions(mergedCollection) : mergedCollection,
+      ...collections.slice(existingCollectionIndex + 1),
+    ]
+  }
+
+  // Add new collection with edit button field
+  const generatedCollection = generatePagesCollection(slug, {
+    ...pluginOptions,
+    layouts: collectionOptions.layouts,
+    access: collectionOptions.access,
+    collectionOverrides: collectionOptions.collectionOverrides,
+    additionalFields: collectionOptions.additionalFields,
+    localized: collectionOptions.localized,
+    previewUrl: collectionOptions.previewUrl,
+    scheduling: collectionOptions.scheduling ? { ...schedulingOptions } : false,
+  })
+  const puckCollection: CollectionConfig = {
+    ...generatedCollection,
+    fields: [...generatedCollection.fields, ...editButtonField],
+  }
+  return [...collections, pluginOptions.bundles ? addBundleActions(puckCollection) : puckCollection]
+}
+
 /**
  * Creates a Payload plugin that integrates Puck visual page builder
  *
@@ -118,6 +380,8 @@ function generatePuckEditField(
  * - Optionally registers API endpoints for CRUD operations
  *
  * The Puck editor is fully integrated into Payload's admin UI.
+ * Use the `collections` option to enable Puck on several collections at once,
+ * each with its own layouts, default data, access rules and preview URL.
  *
  * @example
  * ```typescript
@@ -143,9 +407,7 @@ function generatePuckEditField(
  */
 export function createPuckPlugin(options: PuckPluginOptions = {}): Plugin {
   const {
-    pagesCollection = 'pages',
     autoGenerateCollection = true,
-    admin: pluginAdminConfig = {},
     enableAdminView = true,
     adminViewPath = '/puck-editor',
     enableEndpoints = true,
@@ -157,7 +419,13 @@ export function createPuckPlugin(options: PuckPluginOptions = {}): Plugin {
     previewUrl,
   } = options
 
-  const { addEditButton = true } = pluginAdminConfig
+  const puckCollectionOptions = resolvePuckCollections(options)
+
+  const editLockingOptions: PuckEditLockingOptions | null = options.editLocking
+    ? typeof options.editLocking === 'object'
+      ? options.editLocking
+      : {}
+    : null
 
   // Parse page-tree integration config
   // - undefined: auto-detect at runtime (null stored, view will check for pageSegment field)
@@ -198,7 +466,21 @@ export function createPuckPlugin(options: PuckPluginOptions = {}): Plugin {
       (c) => c.slug === 'puck-templates'
     )
     if (!templatesCollectionExists) {
-      collections = [...collections, TemplatesCollection]
+      collections = [
+        ...collections,
+        options.auditLog
+          ? {
+              ...TemplatesCollection,
+              hooks: {
+                ...TemplatesCollection.hooks,
+                afterChange: [
+                  ...(TemplatesCollection.hooks?.afterChange ?? []),
+                  createTemplateAuditLogHook(),
+                ],
+              },
+            }
+          : TemplatesCollection,
+      ]
     }
 
     // Add AI Prompts collection if AI is enabled with promptsCollection
@@ -221,86 +503,65 @@ export function createPuckPlugin(options: PuckPluginOptions = {}): Plugin {
       }
     }
 
-    if (autoGenerateCollection) {
-      // Check if collection already exists
-      const existingCollectionIndex = collections.findIndex(
-        (c) => c.slug === pagesCollection
-      )
+    // Add the edit locks collection if edit locking is enabled
+    if (editLockingOptions && !collections.some((c) => c.slug === EDIT_LOCKS_COLLECTION)) {
+      collections = [...collections, EditLocksCollection]
+    }
 
-      // Generate the edit button field if enabled
-      const editButtonField = addEditButton
-        ? [generatePuckEditField(pagesCollection, pluginAdminConfig)]
-        : []
-
-      if (existingCollectionIndex >= 0) {
-        // Collection exists - only add Puck fields that don't already exist
-        const existingCollection = collections[existingCollectionIndex]
-        const existingFields = existingCollection.fields || []
-        const existingFieldNames = getExistingFieldNames(existingFields)
-
-        // Determine if isHomepage should be added
-        const shouldAddIsHomepage = !existingFieldNames.has('isHomepage')
-
-        // Get Puck-specific fields (not the full collection with title/slug)
-        // This avoids duplicating fields the user may have already defined
-        const puckFields = getPuckFields({
-          includeSEO: !existingFieldNames.has('meta'),
-          includeConversion: !existingFieldNames.has('conversionTracking'),
-          includeEditorVersion: !existingFieldNames.has('editorVersion'),
-          includePageLayout: !existingFieldNames.has('pageLayout'),
-          includeIsHomepage: shouldAddIsHomepage,
-          layouts: options.layouts,
-        })
+    // Add the webhook delivery log collection if webhooks are logged
+    if (
+      options.webhooks &&
+      options.webhooks.log !== false &&
+      !collections.some((c) => c.slug === WEBHOOK_DELIVERIES_COLLECTION)
+    ) {
+      collections = [...collections, WebhookDeliveriesCollection]
+    }
 
-        // Filter out any remaining duplicates (e.g., puckData if user already has it)
-        const fieldsToAdd = filterExistingFields(puckFields, existingFieldNames)
+    // Add the audit log collection if enabled
+    if (options.auditLog && !collections.some((c) => c.slug === AUDIT_LOG_COLLECTION)) {
+      collections = [...collections, AuditLogCollection]
+    }
 
-        // Only add edit button if puckEdit doesn't exist
-        const editFieldsToAdd = existingFieldNames.has('puckEdit') ? [] : editButtonField
+    if (autoGenerateCollection) {
+      for (const collectionOptions of puckCollectionOptions) {
+        collections = applyPuckCollection(collections, collectionOptions, options)
+      }
+    }
 
-        // Merge hooks - add isHomepage uniqueness hook if we're adding the field
-        const existingHooks = existingCollection.hooks || {}
-        const mergedHooks = shouldAddIsHomepage
-          ? {
-              ...existingHooks,
-              beforeChange: [
-                createIsHomepageUniqueHook(),
-                ...(existingHooks.beforeChange ?? []),
-              ],
-            }
-          : existingHooks
+    // Register the scheduled publish task if any collection uses scheduling,
+    // and the webhook delivery task if webhooks are enabled
+    let jobs = incomingConfig.jobs
+    const addJobsTask = (
+      task: TaskConfig<any>,
+      queueOptions: { queue?: string; autoRun?: string }
+    ) => {
+      const existingAutoRun = jobs?.autoRun
+      const autoRunEntry = queueOptions.autoRun
+        ? { cron: queueOptions.autoRun, queue: queueOptions.queue ?? 'default' }
+        : null
 
-        collections = [
-          ...collections.slice(0, existingCollectionIndex),
-          {
-            ...existingCollection,
-            // Ensure drafts are enabled for Puck
-            versions:
-              typeof existingCollection.versions === 'object'
-                ? { drafts: true, ...existingCollection.versions }
-                : existingCollection.versions ?? { drafts: true },
-            hooks: mergedHooks,
-            fields: [
-              ...existingFields,
-              ...fieldsToAdd,
-              ...editFieldsToAdd,
-            ],
-          },
-          ...collections.slice(existingCollectionIndex + 1),
-        ]
-      } else {
-        // Add new collection with edit button field
-        const generatedCollection = generatePagesCollection(pagesCollection, options)
-        collections = [
-          ...collections,
-          {
-            ...generatedCollection,
-            fields: [...generatedCollection.fields, ...editButtonField],
-          },
-        ]
+      jobs = {
+        ...jobs,
+        tasks: [...(jobs?.tasks ?? []), task],
+        ...(autoRunEntry && {
+          autoRun:
+            typeof existingAutoRun === 'function'
+              ? async (payload) => [...(await existingAutoRun(payload)), autoRunEntry]
+              : [...(existingAutoRun ?? []), autoRunEntry],
+        }),
       }
     }
 
+    if (puckCollectionOptions.some((c) => c.scheduling)) {
+      const schedulingOptions: PuckSchedulingOptions =
+        typeof options.scheduling === 'object' ? options.scheduling : {}
+      addJobsTask(createSchedulePublishTask(), schedulingOptions)
+    }
+
+    if (options.webhooks) {
+      addJobsTask(createWebhookDeliveryTask(options.webhooks), options.webhooks)
+    }
+
     // Build the admin config with view registration
     const payloadAdminConfig: PayloadConfig['admin'] = {
       ...incomingConfig.admin,
@@ -321,8 +582,58 @@ export function createPuckPlugin(options: PuckPluginOptions = {}): Plugin {
     }
 
     // Register API endpoints if enabled
-    const puckCollections = [pagesCollection]
-    const endpointOptions = { collections: puckCollections }
+    const puckCollections = puckCollectionOptions.map((c) => c.slug)
+    const endpointOptions = {
+      collections: puckCollections,
+      defaultPuckData: Object.fromEntries(
+        puckCollectionOptions
+          .filter((c) => c.defaultPuckData)
+          .map((c) => [c.slug, c.defaultPuckData!])
+      ),
+    }
+
+    const previewLinkEndpointOptions = options.previewLinks
+      ? {
+          ...endpointOptions,
+          route: (typeof options.previewLinks === 'object' && options.previewLinks.route) || '/puck-preview/enter',
+          expiresIn:
+            (typeof options.previewLinks === 'object' && options.previewLinks.expiresIn) ||
+            DEFAULT_PREVIEW_LINK_EXPIRY,
+        }
+      : null
+
+    const bundleEndpointOptions = options.bundles
+      ? {
+          ...endpointOptions,
+          mediaCollection:
+            (typeof options.bundles === 'object' && options.bundles.mediaCollection) || 'media',
+          includeMediaFiles:
+            typeof options.bundles === 'object' ? options.bundles.includeMediaFiles !== false : true,
+          trustedMediaOrigins:
+            (typeof options.bundles === 'object' && options.bundles.trustedMediaOrigins) || [],
+        }
+      : null
+
+    const sitemapEndpointOptions = options.sitemap
+      ? {
+          ...endpointOptions,
+          collections:
+            (typeof options.sitemap === 'object' && options.sitemap.collections) || puckCollections,
+          siteUrl: typeof options.sitemap === 'object' ? options.sitemap.siteUrl : undefined,
+          maxAge: (typeof options.sitemap === 'object' ? options.sitemap.maxAge : undefined) ?? 3600,
+        }
+      : null
+
+    // Rate and size limits (no limits if not enabled)
+    const limits = options.limits ? resolveLimits(options.limits) : { ai: {}, saves: {} }
+
+    const lockEndpointOptions = editLockingOptions
+      ? {
+          ...endpointOptions,
+          timeout: editLockingOptions.timeout ?? DEFAULT_LOCK_TIMEOUT,
+          canTakeOver: editLockingOptions.canTakeOver ?? defaultCanTakeOver,
+        }
+      : null
 
     // Build styles endpoint URL list for PuckConfigProvider
     // In production, prefer the pre-compiled static CSS file if provided
@@ -352,13 +663,45 @@ export function createPuckPlugin(options: PuckPluginOptions = {}): Plugin {
                 },
               ]
             : []),
+          // OpenAPI document (exact match, before parameterized routes)
+          {
+            path: PUCK_OPENAPI_PATH,
+            method: 'get' as const,
+            handler: createOpenApiHandler(endpointOptions),
+          },
+          // Data binding picker (exact match, before parameterized routes)
+          ...(options.dataBindings
+            ? [
+                {
+                  path: '/puck/bindings',
+                  method: 'get' as const,
+                  handler: createDataBindingsHandler({
+                    ...endpointOptions,
+                    bindingCollections: options.dataBindings.collections,
+                  }),
+                },
+              ]
+            : []),
+          // Sitemap (exact match, before parameterized routes)
+          ...(sitemapEndpointOptions
+            ? [
+                {
+                  path: PUCK_SITEMAP_PATH,
+                  method: 'get' as const,
+                  handler: createSitemapHandler(sitemapEndpointOptions),
+                },
+              ]
+            : []),
           // AI endpoint (exact match, before parameterized routes)
           ...(aiConfig?.enabled
             ? [
                 {
                   path: '/puck/ai',
                   method: 'post' as const,
-                  handler: createAiEndpointHandler({ context: aiConfig.context, tools: aiConfig.tools }),
+                  handler: withLimits(
+                    createAiEndpointHandler({ context: aiConfig.context, tools: aiConfig.tools }),
+                    limits.ai
+                  ),
                 },
               ]
             : []),
@@ -412,6 +755,76 @@ export function createPuckPlugin(options: PuckPluginOptions = {}): Plugin {
                 },
               ]
             : []),
+          // Template usage (before parameterized collection routes)
+          {
+            path: '/puck/templates/:id/usage',
+            method: 'get' as const,
+            handler: createTemplateUsageHandler(endpointOptions),
+          },
+          // Edit lock endpoints (before parameterized collection routes)
+          ...(lockEndpointOptions
+            ? [
+                {
+                  path: '/puck/:collection/locks',
+                  method: 'get' as const,
+                  handler: createLockListHandler(lockEndpointOptions),
+                },
+                {
+                  path: '/puck/:collection/:id/lock',
+                  method: 'post' as const,
+                  handler: createLockHeartbeatHandler(lockEndpointOptions),
+                },
+                {
+                  path: '/puck/:collection/:id/lock',
+                  method: 'delete' as const,
+                  handler: createLockReleaseHandler(lockEndpointOptions),
+                },
+              ]
+            : []),
+          // Preview link endpoint (before parameterized collection routes)
+          ...(previewLinkEndpointOptions
+            ? [
+                {
+                  path: '/puck/:collection/:id/preview-link',
+                  method: 'post' as const,
+                  handler: createPreviewLinkHandler(previewLinkEndpointOptions),
+                },
+              ]
+            : []),
+          // Page bundle endpoints (before parameterized collection routes)
+          ...(bundleEndpointOptions
+            ? [
+                {
+                  path: '/puck/:collection/import',
+                  method: 'post' as const,
+                  handler: withLimits(
+                    createBundleImportHandler(bundleEndpointOptions),
+                    limits.saves
+                  ),
+                },
+                {
+                  path: '/puck/:collection/:id/export',
+                  method: 'get' as const,
+                  handler: createBundleExportHandler(bundleEndpointOptions),
+                },
+              ]
+            : []),
+          // Audit log endpoint (before parameterized collection routes)
+          ...(options.auditLog
+            ? [
+                {
+                  path: '/puck/:collection/:id/audit',
+                  method: 'get' as const,
+                  handler: createAuditLogHandler(endpointOptions),
+                },
+              ]
+            : []),
+          // Bulk endpoint (before parameterized collection routes)
+          {
+            path: '/puck/:collection/bulk',
+            method: 'post' as const,
+            handler: withLimits(createBulkHandler(endpointOptions), limits.saves),
+          },
           // Collection endpoints (parameterized routes)
           {
             path: '/puck/:collection',
@@ -421,7 +834,7 @@ export function createPuckPlugin(options: PuckPluginOptions = {}): Plugin {
           {
             path: '/puck/:collection',
             method: 'post' as const,
-            handler: createCreateHandler(endpointOptions),
+            handler: withLimits(createCreateHandler(endpointOptions), limits.saves),
           },
           {
             path: '/puck/:collection/:id',
@@ -431,7 +844,7 @@ export function createPuckPlugin(options: PuckPluginOptions = {}): Plugin {
           {
             path: '/puck/:collection/:id',
             method: 'patch' as const,
-            handler: createUpdateHandler(endpointOptions),
+            handler: withLimits(createUpdateHandler(endpointOptions), limits.saves),
           },
           {
             path: '/puck/:collection/:id',
@@ -448,6 +861,11 @@ export function createPuckPlugin(options: PuckPluginOptions = {}): Plugin {
             method: 'post' as const,
             handler: createRestoreHandler(endpointOptions),
           },
+          {
+            path: '/puck/:collection/:id/duplicate',
+            method: 'post' as const,
+            handler: withLimits(createDuplicateHandler(endpointOptions), limits.saves),
+          },
         ]
       : incomingConfig.endpoints || []
 
@@ -456,12 +874,50 @@ export function createPuckPlugin(options: PuckPluginOptions = {}): Plugin {
       admin: payloadAdminConfig,
       collections,
       endpoints,
+      jobs,
       // Store options in custom for the view to access
       custom: {
         ...incomingConfig.custom,
         puck: {
           collections: puckCollections,
+          // Per-collection settings read by the admin view (layouts, preview URL, default data)
+          collectionOptions: Object.fromEntries(
+            puckCollectionOptions.map((c) => [
+              c.slug,
+              {
+                layouts: c.layouts,
+                previewUrl: c.previewUrl,
+                defaultPuckData: c.defaultPuckData,
+                localized: Boolean(c.localized && incomingConfig.localization),
+                scheduling: Boolean(c.scheduling),
+              },
+            ])
+          ),
+          // Locales available to the editor's locale switcher (null if localization is off)
+          localization: incomingConfig.localization
+            ? {
+                defaultLocale: incomingConfig.localization.defaultLocale,
+                locales: incomingConfig.localization.locales.map((locale) =>
+                  typeof locale === 'string'
+                    ? { code: locale, label: locale }
+                    : {
+                        code: locale.code,
+                        label: typeof locale.label === 'string' ? locale.label : locale.code,
+                      }
+                ),
+              }
+            : null,
           layouts: options.layouts,
+          // Edit locking (null if not enabled)
+          editLocking: lockEndpointOptions ? { timeout: lockEndpointOptions.timeout } : null,
+          // Shareable preview links
+          previewLinks: Boolean(previewLinkEndpointOptions),
+          // Audit log ("Activity" in the History panel)
+          auditLog: Boolean(options.auditLog && enableEndpoints),
+          // Collections components may be bound to (null if not enabled)
+          dataBindings: options.dataBindings
+            ? { collections: options.dataBindings.collections }
+            : null,
           // Page-tree integration config (null if not enabled)
           pageTree: pageTreeConfig,
           // Editor stylesheets for iframe
@@ -493,19 +949,30 @@ export function createPuckPlugin(options: PuckPluginOptions = {}): Plugin {
 // Re-export collection utilities
 export { generatePagesCollection } from './collections/Pages.js'
 export { TemplatesCollection } from '../collections/Templates.js'
+export { EditLocksCollection, EDIT_LOCKS_COLLECTION } from '../collections/EditLocks.js'
+export {
+  WebhookDeliveriesCollection,
+  WEBHOOK_DELIVERIES_COLLECTION,
+} from '../collections/WebhookDeliveries.js'
+export { AuditLogCollection, AUDIT_LOG_COLLECTION } from '../collections/AuditLog.js'
 
 // Re-export field utilities for hybrid collection integration
 export {
   getPuckFields,
   getPuckCollectionConfig,
   puckDataField,
+  createPuckDataField,
+  createTemplateRefsField,
   editorVersionField,
   createEditorVersionField,
   pageLayoutField,
   createPageLayoutField,
   isHomepageField,
   seoFieldGroup,
+  createSeoFieldGroup,
   conversionFieldGroup,
+  createPublishScheduleFields,
+  publishScheduleFields,
 } from './fields/index.js'
 
 // Export the edit button generator for hybrid collections
@@ -514,14 +981,96 @@ export { generatePuckEditField }
 // Export styles endpoint constant
 export { PUCK_STYLES_ENDPOINT } from '../endpoints/styles.js'
 
+// Export bulk endpoint types for API clients
+export { BULK_MAX_DOCUMENTS } from '../endpoints/bulk.js'
+export type { PuckBulkOperation, PuckBulkRequestBody, PuckBulkResult } from '../endpoints/bulk.js'
+
+// Export the OpenAPI document generator for external tooling
+export { createPuckOpenApiDocument, PUCK_OPENAPI_PATH } from '../endpoints/openapi.js'
+
+// Export rate limit helpers for custom stores and handlers
+export {
+  createMemoryRateLimitStore,
+  checkLimits,
+  withLimits,
+  resolveLimits,
+} from '../endpoints/limits.js'
+export type { EndpointLimits, ResolvedLimits } from '../endpoints/limits.js'
+export type { PuckOpenApiOptions, PuckOpenApiRoute } from '../endpoints/openapi.js'
+
+// Export sitemap endpoint and generation utilities
+export { createSitemapHandler, PUCK_SITEMAP_PATH } from '../endpoints/sitemap.js'
+export {
+  findSitemapEntries,
+  renderSitemapXml,
+  renderSitemapIndexXml,
+  SITEMAP_MAX_URLS,
+} from '../utils/sitemap.js'
+export type { SitemapEntry, SitemapCollection, FindSitemapEntriesOptions } from '../utils/sitemap.js'
+
+// Export data binding endpoint and resolver
+export { createDataBindingsHandler } from '../endpoints/dataBindings.js'
+export type {
+  DataBindingCollectionInfo,
+  DataBindingFieldInfo,
+} from '../endpoints/dataBindings.js'
+export { createPayloadBindingResolver, resolveDataBindings } from '../utils/dataBindings.js'
+export type { DataBindingResolver, PayloadBindingResolverOptions } from '../utils/dataBindings.js'
+
 // Re-export hooks for hybrid collection integration
 export {
   createIsHomepageUniqueHook,
   unsetHomepage,
   HomepageConflictError,
+  createSchedulePublishHook,
+  PUCK_SCHEDULE_TASK_SLUG,
+  createRevalidateHook,
+  createRevalidateDeleteHook,
+  createValidatePuckDataHook,
+  createWebhookHook,
+  createWebhookDeleteHook,
+  PUCK_WEBHOOK_TASK_SLUG,
+  createAuditLogHook,
+  createAuditLogDeleteHook,
+  createTemplateAuditLogHook,
+  recordAuditEntry,
+  summarizeChanges,
+} from './hooks/index.js'
+export type {
+  IsHomepageUniqueHookOptions,
+  SchedulePublishHookOptions,
+  SchedulePublishInput,
+  RevalidateHookOptions,
+  ValidatePuckDataHookOptions,
+  PuckDataFieldError,
+  WebhookHookOptions,
+  PuckWebhookPayload,
+  WebhookDeliveryInput,
+  PuckAuditAction,
+  PuckAuditChanges,
+  PuckAuditEntry,
 } from './hooks/index.js'
-export type { IsHomepageUniqueHookOptions } from './hooks/index.js'
+export { createWebhookSignature, verifyWebhookSignature } from '../utils/webhookSignature.js'
+export { createSchedulePublishTask } from './jobs/schedulePublish.js'
+export { createWebhookDeliveryTask } from './jobs/webhookDelivery.js'
 
 // Re-export types
-export type { PuckPluginOptions, PuckAdminConfig } from '../types/index.js'
+export type {
+  PuckPluginOptions,
+  PuckAdminConfig,
+  PuckSchedulingOptions,
+  PuckEditLockingOptions,
+  PuckRevalidateOptions,
+  PuckPreviewLinkOptions,
+  PuckBundleOptions,
+  PuckValidationOptions,
+  PuckWebhookOptions,
+  PuckWebhookEndpoint,
+  PuckWebhookEvent,
+  PuckLimitOptions,
+  PuckSitemapOptions,
+  PuckDataBindingOptions,
+  PuckRateLimitRule,
+  PuckRateLimitStore,
+} from '../types/index.js'
 export type { GetPuckFieldsOptions, GetPuckCollectionConfigOptions } from './fields/types.js'
@@ -0,0 +1,73 @@
+import type { CollectionSlug, TaskConfig } from 'payload'
+import type { SchedulePublishInput } from '../hooks/schedulePublish.js'
+import { PUCK_SCHEDULE_TASK_SLUG } from './tasks.js'
+
+/**
+ * Output of the scheduled publish jobs task
+ */
+export interface SchedulePublishOutput {
+  status: 'published' | 'unpublished' | 'skipped'
+}
+
+/**
+ * Creates the jobs task that publishes or unpublishes a page at its scheduled time.
+ *
+ * The task re-reads the latest draft and skips the job if the schedule was
+ * changed or cleared after it was queued. On success it clears the schedule
+ * field, so the resulting version shows the page left the schedule.
+ */
+export function createSchedulePublishTask(): TaskConfig<{
+  input: SchedulePublishInput
+  output: SchedulePublishOutput
+}> {
+  return {
+    slug: PUCK_SCHEDULE_TASK_SLUG,
+    label: 'Puck Scheduled Publish',
+    retries: 3,
+    inputSchema: [
+      { name: 'collection', type: 'text', required: true },
+      { name: 'id', type: 'text', required: true },
+      {
+        name: 'action',
+        type: 'select',
+        required: true,
+        options: ['publish', 'unpublish'],
+      },
+      { name: 'scheduledFor', type: 'date', required: true },
+    ],
+    outputSchema: [{ name: 'status', type: 'text', required: true }],
+    handler: async ({ input, req }) => {
+      const { collection, id, action, scheduledFor } = input
+      const field = action === 'publish' ? 'publishAt' : 'unpublishAt'
+
+      const doc = (await req.payload.findByID({
+        collection: collection as CollectionSlug,
+        id,
+        draft: true,
+        depth: 0,
+        req,
+      })) as Record<string, any>
+
+      // Rescheduled or cancelled since this job was queued
+      const currentTime = doc[field] ? new Date(doc[field]).getTime() : null
+      if (currentTime !== new Date(scheduledFor).getTime()) {
+        return { output: { status: 'skipped' } }
+      }
+
+      // Publishing without draft: true publishes the latest draft version
+      await req.payload.update({
+        collection: collection as CollectionSlug,
+        id,
+        data: {
+          _status: action === 'publish' ? 'published' : 'draft',
+          [field]: null,
+        },
+        draft: false,
+        depth: 0,
+        req,
+      })
+
+      return { output: { status: action === 'publish' ? 'published' : 'unpublished' } }
+    },
+  }
+}
@@ -0,0 +1,56 @@
+import type { PayloadRequest } from 'payload'
+import type { SchedulePublishInput } from '../hooks/schedulePublish.js'
+import type { WebhookDeliveryInput } from '../hooks/webhooks.js'
+
+/**
+ * Slug of the jobs task that publishes or unpublishes a scheduled page
+ */
+export const PUCK_SCHEDULE_TASK_SLUG = 'puckSchedulePublish'
+
+/**
+ * Slug of the jobs task that delivers webhooks
+ */
+export const PUCK_WEBHOOK_TASK_SLUG = 'puckWebhookDelivery'
+
+/**
+ * Input of each plugin jobs task
+ */
+export interface PuckTaskInputs {
+  [PUCK_SCHEDULE_TASK_SLUG]: SchedulePublishInput
+  [PUCK_WEBHOOK_TASK_SLUG]: WebhookDeliveryInput
+}
+
+/**
+ * Options for queueing a plugin jobs task
+ */
+export interface QueuePuckTaskOptions {
+  /**
+   * Jobs queue to add the job to
+   * @default 'default'
+   */
+  queue?: string
+  /** Earliest time the job may run */
+  waitUntil?: Date
+}
+
+/**
+ * Queues a plugin jobs task within the request's transaction.
+ *
+ * Payload only types task slugs from the app's generated types, which don't
+ * include the plugin's tasks, so the input is checked against
+ * `PuckTaskInputs` here instead.
+ */
+export async function queuePuckTask<TSlug extends keyof PuckTaskInputs>(
+  req: PayloadRequest,
+  slug: TSlug,
+  input: PuckTaskInputs[TSlug],
+  options: QueuePuckTaskOptions = {}
+): Promise<void> {
+  await req.payload.jobs.queue({
+    task: slug as any,
+    input: input as any,
+    queue: options.queue,
+    waitUntil: options.waitUntil,
+    req,
+  })
+}
@@ -0,0 +1,135 @@
+import type { CollectionSlug, Payload, TaskConfig } from 'payload'
+import type { PuckWebhookOptions } from '../../types/index.js'
+import { WEBHOOK_DELIVERIES_COLLECTION } from '../../collections/WebhookDeliveries.js'
+import { createWebhookSignature } from '../../utils/webhookSignature.js'
+import type { WebhookDeliveryInput } from '../hooks/webhooks.js'
+import { PUCK_WEBHOOK_TASK_SLUG, queuePuckTask } from './tasks.js'
+
+/**
+ * Output of the webhook delivery jobs task
+ */
+export interface WebhookDeliveryOutput {
+  status: 'delivered' | 'retrying' | 'failed'
+}
+
+/**
+ * Updates a delivery log entry. Log failures are only logged, so they never
+ * stop a delivery.
+ */
+async function updateLog(
+  payload: Payload,
+  id: string | undefined,
+  data: Record<string, unknown>
+): Promise<void> {
+  if (!id) return
+  try {
+    await payload.update({
+      collection: WEBHOOK_DELIVERIES_COLLECTION as CollectionSlug,
+      id,
+      data,
+      overrideAccess: true,
+    })
+  } catch (error) {
+    payload.logger.warn(
+      `[payload-puck] Failed to update webhook delivery log: ${error instanceof Error ? error.message : error}`
+    )
+  }
+}
+
+/**
+ * Creates the jobs task that delivers a webhook to one endpoint.
+ *
+ * Each job makes one attempt. A failed attempt queues the next one with
+ * `waitUntil` set by exponential backoff, so retries survive restarts, and
+ * the last attempt marks the delivery log entry as failed.
+ */
+export function createWebhookDeliveryTask(options: PuckWebhookOptions): TaskConfig<{
+  input: WebhookDeliveryInput
+  output: WebhookDeliveryOutput
+}> {
+  const { maxAttempts = 5, retryDelay = 1000, timeout = 10000, queue } = options
+
+  return {
+    slug: PUCK_WEBHOOK_TASK_SLUG,
+    label: 'Puck Webhook Delivery',
+    inputSchema: [
+      { name: 'url', type: 'text', required: true },
+      { name: 'body', type: 'json', required: true },
+      { name: 'attempt', type: 'number', required: true },
+      { name: 'logId', type: 'text' },
+    ],
+    outputSchema: [{ name: 'status', type: 'text', required: true }],
+    handler: async ({ input, req }) => {
+      const { url, body, attempt, logId } = input
+      const { payload } = req
+
+      // Secrets and headers come from the config, not the stored job input
+      const endpoint = options.endpoints.find((e) => e.url === url)
+      if (!endpoint) {
+        await updateLog(payload, logId, {
+          status: 'failed',
+          error: 'Endpoint is no longer configured',
+        })
+        return { output: { status: 'failed' } }
+      }
+
+      const json = JSON.stringify(body)
+      let responseStatus: number | undefined
+      let errorMessage: string
+
+      try {
+        const response = await fetch(endpoint.url, {
+          method: 'POST',
+          headers: {
+            ...endpoint.headers,
+            'Content-Type': 'application/json',
+            'User-Agent': 'payload-puck-webhooks',
+            'X-Puck-Event': body.event,
+            'X-Puck-Delivery': body.id,
+            ...(endpoint.secret && { 'X-Puck-Signature': createWebhookSignature(json, endpoint.secret) }),
+          },
+          body: json,
+          signal: AbortSignal.timeout(timeout),
+        })
+        responseStatus = response.status
+
+        if (response.ok) {
+          await updateLog(payload, logId, {
+            status: 'delivered',
+            attempts: attempt,
+            responseStatus,
+            error: null,
+            deliveredAt: new Date().toISOString(),
+          })
+          return { output: { status: 'delivered' } }
+        }
+        errorMessage = `HTTP ${response.status} ${response.statusText}`.trim()
+      } catch (error) {
+        errorMessage = error instanceof Error ? error.message : String(error)
+      }
+
+      const isLastAttempt = attempt >= maxAttempts
+      await updateLog(payload, logId, {
+        status: isLastAttempt ? 'failed' : 'pending',
+        attempts: attempt,
+        responseStatus,
+        error: errorMessage,
+      })
+
+      if (isLastAttempt) {
+        payload.logger.warn(
+          `[payload-puck] Webhook ${body.event} to ${endpoint.url} failed after ${attempt} attempts: ${errorMessage}`
+        )
+        return { output: { status: 'failed' } }
+      }
+
+      const next: WebhookDeliveryInput = { url, body, attempt: attempt + 1, logId }
+      await queuePuckTask(req, PUCK_WEBHOOK_TASK_SLUG, next, {
+        queue,
+        waitUntil: new Date(Date.now() + retryDelay * 2 ** (attempt - 1)),
+      })
+
+      return { output: { status: 'retrying' } }
+    },
+  }
+}
@@ -131,6 +131,9 @@ export function HybridPageRenderer<TBlocks = unknown[]>({
   layouts,
   wrapper,
   className,
+  structuredData,
+  resolveBindings,
+  resolveTemplates,
 }: HybridPageRendererProps<TBlocks>) {
   // Check for Puck content
   const puckData = page.puckData as PuckData | null | undefined
@@ -150,6 +153,9 @@ export function HybridPageRenderer<TBlocks = unknown[]>({
         layouts={layouts}
         wrapper={wrapper}
         className={className}
+        structuredData={structuredData}
+        resolveBindings={resolveBindings}
+        resolveTemplates={resolveTemplates}
       />
     )
   }
@@ -3,6 +3,18 @@ import type { Config as PuckConfig, Data as PuckData } from '@puckeditor/core'
 import { baseConfig } from '../config/index.js'
 import { LayoutWrapper, getLayout, DEFAULT_LAYOUTS, type LayoutDefinition, type PageOverrides } from '../layouts/index.js'
 import type { BackgroundValue } from '../fields/shared.js'
+import { StructuredData } from './StructuredData.js'
+import type { StructuredDataOptions } from './structuredData.js'
+import {
+  hasDataBindings,
+  resolveDataBindings,
+  type DataBindingResolver,
+} from '../utils/dataBindings.js'
+import {
+  hasLinkedTemplates,
+  resolveLinkedTemplates,
+  type LinkedTemplateResolver,
+} from '../utils/templates.js'
 
 export interface PageRendererProps {
   /**
@@ -31,6 +43,45 @@ export interface PageRendererProps {
    * @default DEFAULT_LAYOUTS
    */
   layouts?: LayoutDefinition[]
+
+  /**
+   * Emit JSON-LD from the page's `structuredData` root prop. Pass options to
+   * set the page URL or the components FAQ questions are taken from.
+   * @default false
+   */
+  structuredData?: boolean | StructuredDataOptions
+
+  /**
+   * Looks up the documents components are bound to, e.g.
+   * `createPayloadBindingResolver({ payload })`. Pages with bindings are
+   * then rendered asynchronously, so this needs a React Server Component.
+   * Without it, bound components show their static values.
+   */
+  resolveBindings?: DataBindingResolver
+
+  /**
+   * Loads the current content of linked Templates, e.g.
+   * `createPayloadTemplateResolver({ payload })`. Like `resolveBindings`,
+   * pages with linked Templates then need a React Server Component.
+   * Without it, linked Templates show the content saved with the page.
+   */
+  resolveTemplates?: LinkedTemplateResolver
+}
+
+/**
+ * Resolves linked templates and data bindings, then renders the page
+ */
+async function ResolvedPageRenderer({
+  data,
+  resolveTemplates,
+  resolveBindings,
+  ...props
+}: PageRendererProps) {
+  let resolved = data
+  // Templates first, so bindings inside template content are resolved too
+  if (resolveTemplates) resolved = await resolveLinkedTemplates(resolved, resolveTemplates)
+  if (resolveBindings) resolved = await resolveDataBindings(resolved, resolveBindings)
+  return <PageRenderer data={resolved} {...props} />
 }
 
 /**
@@ -60,6 +111,9 @@ export function PageRenderer({
   wrapper: Wrapper,
   className,
   layouts = DEFAULT_LAYOUTS,
+  structuredData = false,
+  resolveBindings,
+  resolveTemplates,
 }: PageRendererProps) {
   // Handle empty or invalid data
   if (!data || !data.content) {
@@ -70,6 +124,23 @@ export function PageRenderer({
     )
   }
 
+  const needsTemplates = Boolean(resolveTemplates) && hasLinkedTemplates(data)
+  const needsBindings = Boolean(resolveBindings) && (needsTemplates || hasDataBindings(data))
+  if (needsTemplates || needsBindings) {
+    return (
+      <ResolvedPageRenderer
+        data={data}
+        config={config}
+        wrapper={Wrapper}
+        className={className}
+        layouts={layouts}
+        structuredData={structuredData}
+        resolveTemplates={needsTemplates ? resolveTemplates : undefined}
+        resolveBindings={needsBindings ? resolveBindings : undefined}
+      />
+    )
+  }
+
   const content = <Render config={config} data={data} />
 
   // Extract root props for page-level settings
@@ -116,5 +187,14 @@ export function PageRenderer({
     }
   }
 
+  if (structuredData) {
+    result = (
+      <>
+        <StructuredData data={data} {...(structuredData === true ? {} : structuredData)} />
+        {result}
+      </>
+    )
+  }
+
   return result
 }
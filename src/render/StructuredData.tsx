@@ -0,0 +1,32 @@
+import type { Data as PuckData } from '@puckeditor/core'
+import {
+  createStructuredData,
+  serializeJsonLd,
+  type StructuredDataOptions,
+} from './structuredData.js'
+
+export interface StructuredDataProps extends StructuredDataOptions {
+  /**
+   * Puck data of the page
+   */
+  data: PuckData
+}
+
+/**
+ * Emits the page's schema.org settings as a JSON-LD `<script>`. Renders
+ * nothing if the page has no structured data type.
+ *
+ * PageRenderer includes this by default; use it directly when rendering
+ * Puck data another way.
+ */
+export function StructuredData({ data, ...options }: StructuredDataProps) {
+  const jsonLd = createStructuredData(data, options)
+  if (!jsonLd) return null
+
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: serializeJsonLd(jsonLd) }}
+    />
+  )
+}
@@ -8,6 +8,19 @@
 export { PageRenderer } from './PageRenderer.js'
 export type { PageRendererProps } from './PageRenderer.js'
 
+export { StructuredData } from './StructuredData.js'
+export type { StructuredDataProps } from './StructuredData.js'
+export { createStructuredData, collectFaqEntries, serializeJsonLd } from './structuredData.js'
+export type { StructuredDataOptions } from './structuredData.js'
+
+// Data binding resolution (used with the `resolveBindings` prop)
+export { createPayloadBindingResolver, resolveDataBindings } from '../utils/dataBindings.js'
+export type { DataBindingResolver, PayloadBindingResolverOptions } from '../utils/dataBindings.js'
+
+// Linked template resolution (used with the `resolveTemplates` prop)
+export { createPayloadTemplateResolver, resolveLinkedTemplates } from '../utils/templates.js'
+export type { LinkedTemplateResolver, PayloadTemplateResolverOptions } from '../utils/templates.js'
+
 export { HybridPageRenderer, toHybridPageData } from './HybridPageRenderer.js'
 export type {
   HybridPageRendererProps,
@@ -0,0 +1,180 @@
+/**
+ * Structured Data (JSON-LD)
+ *
+ * Builds schema.org JSON-LD from the `structuredData` root prop of a page.
+ * FAQ pages take their questions from Accordion components.
+ */
+
+import type { Data as PuckData } from '@puckeditor/core'
+import type { StructuredDataValue } from '../fields/shared.js'
+
+export interface StructuredDataOptions {
+  /**
+   * Canonical URL of the page
+   */
+  url?: string
+
+  /**
+   * Component types whose items become FAQPage questions. Items need `title`
+   * and `content`, and components with `faqSchema: false` are skipped.
+   * @default ['Accordion']
+   */
+  faqComponents?: string[]
+}
+
+type JsonLd = Record<string, unknown>
+
+interface FaqItem {
+  title?: string
+  content?: string
+}
+
+/**
+ * Collects question and answer pairs from FAQ components in the page,
+ * including components in zones and slots
+ */
+export function collectFaqEntries(
+  data: PuckData,
+  faqComponents: string[] = ['Accordion']
+): Array<{ question: string; answer: string }> {
+  const entries: Array<{ question: string; answer: string }> = []
+
+  const visit = (items: unknown) => {
+    if (!Array.isArray(items)) return
+    for (const item of items) {
+      if (!item || typeof item !== 'object' || !('type' in item)) continue
+      const { type, props = {} } = item as { type: string; props?: Record<string, unknown> }
+
+      if (faqComponents.includes(type) && props.faqSchema !== false && Array.isArray(props.items)) {
+        for (const { title, content } of props.items as FaqItem[]) {
+          if (title?.trim() && content?.trim()) {
+            entries.push({ question: title.trim(), answer: content.trim() })
+          }
+        }
+      }
+
+      // Slots hold child components in props
+      for (const value of Object.values(props)) {
+        visit(value)
+      }
+    }
+  }
+
+  visit(data.content)
+  for (const zone of Object.values(data.zones ?? {})) {
+    visit(zone)
+  }
+  return entries
+}
+
+/**
+ * Builds the JSON-LD object for a page, or null if the page has no
+ * structured data type (or is an FAQ page without questions)
+ */
+export function createStructuredData(
+  data: PuckData,
+  options: StructuredDataOptions = {}
+): JsonLd | null {
+  const rootProps = (data.root?.props ?? {}) as {
+    title?: string
+    structuredData?: StructuredDataValue | null
+  }
+  const value = rootProps.structuredData
+  if (!value || !value.type || value.type === 'none') return null
+
+  const name = rootProps.title || undefined
+  const description = value.description || undefined
+  const image = value.image || undefined
+
+  const base: JsonLd = {
+    '@context': 'https://schema.org',
+    '@type': value.type,
+    ...(options.url && { url: options.url }),
+  }
+
+  switch (value.type) {
+    case 'WebPage':
+      return { ...base, ...(name && { name }), ...(description && { description }) }
+
+    case 'Article':
+      return {
+        ...base,
+        ...(name && { headline: name }),
+        ...(description && { description }),
+        ...(image && { image }),
+        ...(value.author && { author: { '@type': 'Person', name: value.author } }),
+        ...(value.datePublished && { datePublished: value.datePublished }),
+        ...(value.dateModified && { dateModified: value.dateModified }),
+      }
+
+    case 'Product':
+      return {
+        ...base,
+        ...(name && { name }),
+        ...(description && { description }),
+        ...(image && { image }),
+        ...(value.brand && { brand: { '@type': 'Brand', name: value.brand } }),
+        ...(value.sku && { sku: value.sku }),
+        ...(value.price && {
+          offers: {
+            '@type': 'Offer',
+            price: value.price,
+            ...(value.priceCurrency && { priceCurrency: value.priceCurrency }),
+            ...(value.availability && {
+              availability: `https://schema.org/${value.availability}`,
+            }),
+            ...(options.url && { url: options.url }),
+          },
+        }),
+      }
+
+    case 'FAQPage': {
+      const entries = collectFaqEntries(data, options.faqComponents)
+      if (entries.length === 0) return null
+      return {
+        ...base,
+        ...(name && { name }),
+        ...(description && { description }),
+        mainEntity: entries.map(({ question, answer }) => ({
+          '@type': 'Question',
+          name: question,
+          acceptedAnswer: { '@type': 'Answer', text: answer },
+        })),
+      }
+    }
+
+    case 'Event':
+      return {
+        ...base,
+        ...(name && { name }),
+        ...(description && { description }),
+        ...(image && { image }),
+        ...(value.startDate && { startDate: value.startDate }),
+        ...(value.endDate && { endDate: value.endDate }),
+        ...(value.attendanceMode && {
+          eventAttendanceMode: `https://schema.org/${value.attendanceMode}EventAttendanceMode`,
+        }),
+        ...((value.locationName || value.locationAddress) && {
+          location: {
+            '@type': value.attendanceMode === 'Online' ? 'VirtualLocation' : 'Place',
+            ...(value.locationName && { name: value.locationName }),
+            ...(value.locationAddress &&
+              (value.attendanceMode === 'Online'
+                ? { url: value.locationAddress }
+                : { address: value.locationAddress })),
+          },
+        }),
+      }
+
+    default:
+      return null
+  }
+}
+
+/**
+ * Serializes JSON-LD for a `<script>` tag. `<` is escaped so content can't
+ * close the script element.
+ */
+export function serializeJsonLd(jsonLd: JsonLd): string {
+  return JSON.stringify(jsonLd).replace(/</g, '\\u003c')
+}
@@ -1,8 +1,9 @@
-import type { Access, CollectionConfig, Config as PayloadConfig, Field } from 'payload'
+import type { Access, CollectionConfig, Config as PayloadConfig, Field, PayloadRequest } from 'payload'
 import type { Config as PuckConfig, Data as PuckData } from '@puckeditor/core'
 import type { ThemeConfig } from '../theme/types.js'
 import type { LayoutDefinition, LayoutConfig } from '../layouts/types.js'
 import type { PuckPluginAiConfig, AiExamplePrompt } from '../ai/types.js'
+import type { StructuredDataValue } from '../fields/shared.js'
 
 // =============================================================================
 // Plugin Configuration Types
@@ -45,10 +46,41 @@ export interface PuckAdminConfig {
 export interface PuckPluginOptions {
   /**
    * Collection slug for pages
+   * Ignored when `collections` is provided.
    * @default 'pages'
    */
   pagesCollection?: string
 
+  /**
+   * Multiple Puck-enabled collections.
+   * Takes precedence over `pagesCollection`. Accepts either an array of slugs /
+   * per-collection option objects, or a map keyed by collection slug.
+   * Per-collection options fall back to the top-level plugin options.
+   *
+   * @example
+   * ```typescript
+   * // Array form
+   * createPuckPlugin({
+   *   collections: [
+   *     'pages',
+   *     { slug: 'landing-pages', layouts: landingLayouts, previewUrl: '/lp' },
+   *   ],
+   * })
+   *
+   * // Map form
+   * createPuckPlugin({
+   *   collections: {
+   *     pages: {},
+   *     'blog-posts': {
+   *       previewUrl: (page) => (slug) => slug ? `/blog/${slug}` : '/blog',
+   *       access: { update: ({ req }) => req.user?.role === 'editor' },
+   *     },
+   *   },
+   * })
+   * ```
+   */
+  collections?: Array<string | PuckCollectionOptions> | Record<string, Omit<PuckCollectionOptions, 'slug'>>
+
   /**
    * Whether to auto-generate the Pages collection
    * Set to false if you want to define your own collection
@@ -243,6 +275,638 @@ export interface PuckPluginOptions {
    * ```
    */
   previewUrl?: string | ((page: any) => string | ((slug: string) => string))
+
+  /**
+   * Localize `puckData` and the SEO `meta` group so each locale has its own
+   * page structure and metadata. Requires Payload `localization` to be configured.
+   *
+   * When enabled, the editor shows a locale switcher and a "copy structure from
+   * another locale" action, and the `/api/puck/:collection/:id` endpoints accept
+   * a `?locale=` query parameter.
+   *
+   * @default false
+   */
+  localized?: boolean
+
+  /**
+   * Scheduled publishing. Adds `publishAt` / `unpublishAt` fields, a scheduling
+   * control next to the editor's publish button, and a Payload jobs task that
+   * publishes or unpublishes pages when their time comes.
+   *
+   * Jobs only run when something executes the queue - set `autoRun` or call
+   * Payload's `/api/payload-jobs/run` endpoint from a cron.
+   *
+   * @example
+   * ```typescript
+   * createPuckPlugin({
+   *   scheduling: { autoRun: '* * * * *' },
+   * })
+   * ```
+   *
+   * @default false
+   */
+  scheduling?: boolean | PuckSchedulingOptions
+
+  /**
+   * Edit locking and presence. Editors keep a heartbeat lock on the page they
+   * have open, the editor header shows who else is editing, and the list view
+   * shows a lock badge. Users allowed by `canTakeOver` can take over the lock.
+   *
+   * Adds the hidden `puck-edit-locks` collection.
+   *
+   * @example
+   * ```typescript
+   * createPuckPlugin({
+   *   editLocking: {
+   *     canTakeOver: (user) => user?.role === 'admin',
+   *   },
+   * })
+   * ```
+   *
+   * @default false
+   */
+  editLocking?: boolean | PuckEditLockingOptions
+
+  /**
+   * On-demand revalidation of Next.js routes. After a page is published,
+   * unpublished or changed while published, `revalidatePath` is called for
+   * its URL (resolved from `previewUrl` like the editor's "View" button).
+   * When the slug or homepage changes, the old URL is revalidated too.
+   *
+   * @example
+   * ```typescript
+   * createPuckPlugin({
+   *   revalidate: {
+   *     tags: ({ collection, doc }) => [`${collection}:${doc.id}`],
+   *   },
+   * })
+   * ```
+   *
+   * @default false
+   */
+  revalidate?: boolean | PuckRevalidateOptions
+
+  /**
+   * Shareable preview links. Adds a "Share preview" button to the editor
+   * header that creates a signed, expiring link to the latest draft, for
+   * people without an admin account.
+   *
+   * Links point to a Next.js route created with `createPreviewRouteHandler()`
+   * from `@delmaredigital/payload-puck/next`.
+   *
+   * @example
+   * ```typescript
+   * createPuckPlugin({
+   *   previewLinks: {
+   *     route: '/puck-preview/enter',
+   *     expiresIn: 60 * 60 * 24, // 1 day
+   *   },
+   * })
+   * ```
+   *
+   * @default false
+   */
+  previewLinks?: boolean | PuckPreviewLinkOptions
+
+  /**
+   * Page export and import. Registers `GET /api/puck/:collection/:id/export`
+   * and `POST /api/puck/:collection/import`, and adds an "Export" button to
+   * the document view and an "Import" button to the list view.
+   *
+   * Bundles hold the page's fields (including `puckData` and SEO `meta`),
+   * the `puck-templates` it references and its media. On import, template
+   * and media IDs are remapped to the target instance.
+   *
+   * @example
+   * ```typescript
+   * createPuckPlugin({
+   *   bundles: {
+   *     mediaCollection: 'media',
+   *     includeMediaFiles: false, // Import downloads files from the source instance
+   *   },
+   * })
+   * ```
+   *
+   * @default false
+   */
+  bundles?: boolean | PuckBundleOptions
+
+  /**
+   * Server-side validation of `puckData` on save. Adds a `beforeValidate`
+   * hook that checks incoming `puckData` against your Puck config and
+   * rejects saves with unknown component types, props that don't match
+   * their field type, missing required fields or duplicate component IDs.
+   *
+   * The editor highlights the offending components when a save is rejected.
+   *
+   * @example
+   * ```typescript
+   * import { baseConfig } from '@delmaredigital/payload-puck/config'
+   *
+   * createPuckPlugin({
+   *   validation: {
+   *     config: baseConfig,
+   *     requiredFields: { root: ['title'], Heading: ['text'] },
+   *   },
+   * })
+   * ```
+   */
+  validation?: PuckValidationOptions
+
+  /**
+   * Webhook notifications for page lifecycle events. Adds afterChange and
+   * afterDelete hooks that POST a signed JSON payload to each endpoint when
+   * a page is created, published, unpublished, restored or deleted.
+   *
+   * Each delivery attempt runs as a job on the Payload jobs queue, and
+   * failed attempts are retried with exponential backoff. Deliveries are
+   * logged in the `puck-webhook-deliveries` collection (Puck admin group).
+   *
+   * @example
+   * ```typescript
+   * createPuckPlugin({
+   *   webhooks: {
+   *     endpoints: [
+   *       { url: 'https://search.example.com/hooks/pages', secret: process.env.SEARCH_WEBHOOK_SECRET },
+   *       { url: 'https://cdn.example.com/purge', events: ['page.published', 'page.unpublished', 'page.deleted'] },
+   *     ],
+   *   },
+   * })
+   * ```
+   */
+  webhooks?: PuckWebhookOptions
+
+  /**
+   * Audit log of editor actions. Adds the `puck-audit-log` collection
+   * (Puck admin group) and records who created, saved, published,
+   * unpublished, restored or deleted a page, homepage swaps, template saves
+   * and AI generations, each with a compact change summary.
+   *
+   * Entries for a page are listed in the editor's History panel under
+   * "Activity", and served by `GET /api/puck/:collection/:id/audit`.
+   *
+   * @default false
+   */
+  auditLog?: boolean
+
+  /**
+   * Rate and size limits for the Puck endpoints. Limits AI requests and page
+   * saves per user and per IP address, and rejects page saves with oversized
+   * bodies or too many components.
+   *
+   * Rate limited requests get a 429 response with a `Retry-After` header,
+   * oversized saves a 413 response. The editor shows both as a notice.
+   *
+   * @example
+   * ```typescript
+   * createPuckPlugin({
+   *   limits: {
+   *     ai: { perUser: 10, window: 60 },
+   *     saves: { perUser: 30, perIp: false },
+   *     maxComponents: 500,
+   *   },
+   * })
+   * ```
+   *
+   * @default false
+   */
+  limits?: boolean | PuckLimitOptions
+
+  /**
+   * Public `sitemap.xml` of published Puck pages, served by
+   * `GET /api/puck/sitemap.xml`. Page URLs are resolved with each
+   * collection's `previewUrl` (including page-tree folder paths), and pages
+   * with `meta.noindex` or `meta.excludeFromSitemap` are left out.
+   *
+   * Beyond 50,000 URLs the endpoint serves a sitemap index that links to
+   * `?page=1`, `?page=2` and so on.
+   *
+   * For Next.js apps, `createSitemap()` from `/next` builds `app/sitemap.ts`
+   * from the same pages without this endpoint.
+   *
+   * @example
+   * ```typescript
+   * createPuckPlugin({
+   *   sitemap: { siteUrl: 'https://example.com' },
+   * })
+   * ```
+   *
+   * @default false
+   */
+  sitemap?: boolean | PuckSitemapOptions
+
+  /**
+   * Lets components bind props to fields of Payload documents ("dynamic
+   * content"), e.g. a Card showing a product's name, price and image.
+   *
+   * Enables the binding picker on Heading, Text, Image and Card, served by
+   * `GET /api/puck/bindings`. Bound values are shown live in the editor and
+   * resolved when the page is rendered by passing
+   * `createPayloadBindingResolver({ payload })` to `PageRenderer`.
+   *
+   * @example
+   * ```typescript
+   * createPuckPlugin({
+   *   dataBindings: { collections: ['products', 'team-members'] },
+   * })
+   * ```
+   */
+  dataBindings?: PuckDataBindingOptions
+}
+
+/**
+ * Options for scheduled publishing
+ */
+export interface PuckSchedulingOptions {
+  /**
+   * Jobs queue that scheduled publish/unpublish jobs are added to
+   * @default 'default'
+   */
+  queue?: string
+
+  /**
+   * Cron expression used to run the queue via Payload's `jobs.autoRun`.
+   * Leave undefined if you run the queue yourself.
+   */
+  autoRun?: string
+}
+
+/**
+ * Options for edit locking and presence
+ */
+export interface PuckEditLockingOptions {
+  /**
+   * Seconds without a heartbeat before an editor counts as gone
+   * @default 60
+   */
+  timeout?: number
+
+  /**
+   * Whether a user may take over a page someone else is editing
+   * @default Users with `role: 'admin'` or `roles` including 'admin'
+   */
+  canTakeOver?: (user: PayloadRequest['user']) => boolean | Promise<boolean>
+}
+
+/**
+ * Options for on-demand revalidation
+ */
+export interface PuckRevalidateOptions {
+  /**
+   * Call `revalidatePath` for the page's URL
+   * @default true
+   */
+  paths?: boolean
+
+  /**
+   * Tags to revalidate with `revalidateTag` when a page changes.
+   * Receives the page's current (or previous) URL path.
+   */
+  tags?: (args: { collection: string; doc: Record<string, any>; path: string }) => string[]
+
+  /**
+   * Cache profile passed to `revalidateTag` (Next.js 16+)
+   * @default 'max'
+   */
+  tagProfile?: string
+}
+
+/**
+ * Options for shareable preview links
+ */
+export interface PuckPreviewLinkOptions {
+  /**
+   * Path or absolute URL of the route created with `createPreviewRouteHandler()`.
+   * Paths are prefixed with the Payload `serverURL`.
+   * @default '/puck-preview/enter'
+   */
+  route?: string
+
+  /**
+   * Seconds until a link expires
+   * @default 604800 (7 days)
+   */
+  expiresIn?: number
+}
+
+/**
+ * Options for page export and import
+ */
+export interface PuckBundleOptions {
+  /**
+   * Upload collection referenced by the MediaField and `meta.image`
+   * @default 'media'
+   */
+  mediaCollection?: string
+
+  /**
+   * Embed media file contents in exported bundles. When false, the import
+   * downloads each file from the source instance, if its origin is listed
+   * in `trustedMediaOrigins`.
+   * @default true
+   */
+  includeMediaFiles?: boolean
+
+  /**
+   * Origins the import may download media from when a bundle has no file
+   * contents, e.g. `['https://staging.example.com']`. URLs from other
+   * origins are skipped.
+   * @default []
+   */
+  trustedMediaOrigins?: string[]
+}
+
+/**
+ * Options for server-side puckData validation
+ */
+export interface PuckValidationOptions {
+  /**
+   * Puck config to validate against. Use the same components as the editor,
+   * e.g. `baseConfig` or your own server config.
+   */
+  config: PuckConfig
+
+  /**
+   * Required props per component type, with 'root' for root props.
+   * Fields with `metadata: { required: true }` are required too.
+   */
+  requiredFields?: Record<string, string[]>
+
+  /**
+   * Enforce required fields on draft saves too. By default they are only
+   * enforced when publishing, like Payload's own required fields.
+   * @default false
+   */
+  requireOnDraft?: boolean
+}
+
+/**
+ * Page lifecycle events sent to webhooks
+ */
+export type PuckWebhookEvent =
+  | 'page.created'
+  | 'page.published'
+  | 'page.unpublished'
+  | 'page.restored'
+  | 'page.deleted'
+
+/**
+ * A webhook endpoint
+ */
+export interface PuckWebhookEndpoint {
+  /**
+   * URL the payload is POSTed to
+   */
+  url: string
+
+  /**
+   * Secret used to sign payloads in the `X-Puck-Signature` header.
+   * Payloads are sent unsigned when omitted.
+   */
+  secret?: string
+
+  /**
+   * Events to send to this endpoint
+   * @default all events
+   */
+  events?: PuckWebhookEvent[]
+
+  /**
+   * Extra request headers, e.g. for authentication
+   */
+  headers?: Record<string, string>
+}
+
+/**
+ * Options for webhook notifications
+ */
+export interface PuckWebhookOptions {
+  /**
+   * Endpoints to notify
+   */
+  endpoints: PuckWebhookEndpoint[]
+
+  /**
+   * Delivery attempts per endpoint before giving up
+   * @default 5
+   */
+  maxAttempts?: number
+
+  /**
+   * Milliseconds before the first retry, doubled for each further retry
+   * @default 1000
+   */
+  retryDelay?: number
+
+  /**
+   * Request timeout in milliseconds
+   * @default 10000
+   */
+  timeout?: number
+
+  /**
+   * Base URL for the page URLs in payloads
+   * @default the Payload `serverURL`
+   */
+  baseUrl?: string
+
+  /**
+   * Log deliveries in the `puck-webhook-deliveries` collection
+   * @default true
+   */
+  log?: boolean
+
+  /**
+   * Jobs queue that delivery attempts are added to
+   * @default 'default'
+   */
+  queue?: string
+
+  /**
+   * Cron expression used to run the queue via Payload's `jobs.autoRun`.
+   * Leave undefined if you run the queue yourself.
+   */
+  autoRun?: string
+}
+
+/**
+ * A rate limit. Requests are counted per signed-in user and per IP address,
+ * in fixed windows. Set a count to `false` to skip that check.
+ */
+export interface PuckRateLimitRule {
+  /**
+   * Requests per user in each window
+   */
+  perUser?: number | false
+
+  /**
+   * Requests per IP address in each window
+   */
+  perIp?: number | false
+
+  /**
+   * Window length in seconds
+   * @default 60
+   */
+  window?: number
+}
+
+/**
+ * Counter storage for rate limits. The default store keeps counters in
+ * memory, so each server process counts separately. Implement this with
+ * Redis or similar to share counts between processes.
+ */
+export interface PuckRateLimitStore {
+  /**
+   * Increments the counter for `key` and returns the new count and the time
+   * the window resets (ms since epoch). A new window starts when the key has
+   * no counter or its window has ended.
+   */
+  increment(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>
+}
+
+/**
+ * Options for rate and size limits
+ */
+export interface PuckLimitOptions {
+  /**
+   * Rate limit for `POST /api/puck/ai`
+   * @default { perUser: 20, perIp: 60, window: 60 }
+   */
+  ai?: PuckRateLimitRule | false
+
+  /**
+   * Rate limit for page saves (`POST /api/puck/:collection` and
+   * `PATCH /api/puck/:collection/:id`)
+   * @default { perUser: 60, perIp: 120, window: 60 }
+   */
+  saves?: PuckRateLimitRule | false
+
+  /**
+   * Counter storage shared by all rate limits
+   * @default in-memory store
+   */
+  store?: PuckRateLimitStore
+
+  /**
+   * Read the client IP from the `X-Forwarded-For` and `X-Real-IP` headers.
+   * Only enable this behind a proxy that sets them, since clients can send
+   * any value. Without it (or `getIp`), `perIp` limits are skipped.
+   * @default false
+   */
+  trustProxy?: boolean
+
+  /**
+   * Returns the client IP for `perIp` limits, e.g. from a header your host
+   * sets. Takes precedence over `trustProxy`.
+   */
+  getIp?: (request: { headers: Headers }) => string | null | undefined
+
+  /**
+   * Maximum request body size of page saves in bytes
+   * @default 5242880 (5 MB)
+   */
+  maxBodySize?: number | false
+
+  /**
+   * Maximum number of components in the `puckData` of page saves, including
+   * components in zones and slots
+   * @default 2000
+   */
+  maxComponents?: number | false
+}
+
+/**
+ * Options for the sitemap endpoint
+ */
+export interface PuckSitemapOptions {
+  /**
+   * Public site URL the page paths are appended to, e.g. 'https://example.com'
+   * @default Payload's `serverURL`, or the origin of the request
+   */
+  siteUrl?: string
+
+  /**
+   * Collections to list
+   * @default all Puck-enabled collections
+   */
+  collections?: string[]
+
+  /**
+   * Seconds the sitemap may be cached by browsers and CDNs
+   * @default 3600
+   */
+  maxAge?: number
+}
+
+/**
+ * Options for data bindings
+ */
+export interface PuckDataBindingOptions {
+  /**
+   * Collections whose documents can be bound. Only list collections whose
+   * public read access fits what pages may show.
+   */
+  collections: string[]
+}
+
+/**
+ * Per-collection options for a Puck-enabled collection.
+ * Any option left undefined falls back to the matching top-level plugin option.
+ */
+export interface PuckCollectionOptions {
+  /**
+   * Collection slug
+   */
+  slug: string
+
+  /**
+   * Page layouts available in this collection
+   */
+  layouts?: LayoutDefinition[]
+
+  /**
+   * Puck data used for new documents created without puckData
+   */
+  defaultPuckData?: PuckData
+
+  /**
+   * Access control for the generated collection
+   */
+  access?: PuckPluginOptions['access']
+
+  /**
+   * Preview URL for the editor's "View" button
+   * @see PuckPluginOptions.previewUrl
+   */
+  previewUrl?: PuckPluginOptions['previewUrl']
+
+  /**
+   * Custom collection config to merge with defaults
+   */
+  collectionOverrides?: Partial<CollectionConfig>
+
+  /**
+   * Additional fields to add to the generated collection
+   */
+  additionalFields?: Field[]
+
+  /**
+   * Admin UI configuration for the edit button
+   */
+  admin?: PuckAdminConfig
+
+  /**
+   * Localize puckData and the SEO group for this collection
+   * @see PuckPluginOptions.localized
+   */
+  localized?: boolean
+
+  /**
+   * Enable scheduled publishing for this collection
+   * @see PuckPluginOptions.scheduling
+   */
+  scheduling?: boolean
 }
 
 /**
@@ -284,6 +948,8 @@ export interface PageTreeIntegrationOptions {
 export interface PuckRootProps {
   title?: string
   pageLayout?: string
+  /** Schema.org settings, emitted as JSON-LD by PageRenderer */
+  structuredData?: StructuredDataValue | null
   [key: string]: unknown
 }
 
@@ -356,6 +1022,10 @@ export interface PageDocument {
   createdAt: string
   updatedAt: string
   _status?: 'draft' | 'published'
+  // Scheduling fields (when scheduling is enabled)
+  publishAt?: string | null
+  unpublishAt?: string | null
+  scheduledBy?: string | null
   // Page-tree fields (when pageTreeIntegration is enabled)
   folder?: string | { id: string; name?: string; pathSegment?: string }
   pageSegment?: string
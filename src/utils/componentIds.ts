@@ -0,0 +1,94 @@
+/**
+ * Component ID Utilities
+ *
+ * Gives every component in Puck data a new `props.id`, so a duplicated page
+ * doesn't share component IDs with the page it was copied from.
+ */
+
+/**
+ * Minimal shape of a Puck component item
+ */
+interface ComponentItem {
+  type: string
+  props: Record<string, unknown>
+}
+
+function isComponentItem(value: unknown): value is ComponentItem {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof (value as ComponentItem).type === 'string' &&
+    !!(value as ComponentItem).props &&
+    typeof (value as ComponentItem).props === 'object'
+  )
+}
+
+function isComponentArray(value: unknown): value is ComponentItem[] {
+  return Array.isArray(value) && value.length > 0 && value.every(isComponentItem)
+}
+
+function generateId(type: string): string {
+  const random =
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID()
+      : Math.random().toString(36).slice(2)
+  return `${type}-${random}`
+}
+
+/**
+ * Deep-clones Puck data and gives every component a new ID, including
+ * components in slots and legacy zones. Zone keys (`<componentId>:<zone>`)
+ * are renamed to match the new parent IDs.
+ *
+ * @example
+ * ```ts
+ * const copy = await payload.create({
+ *   collection: 'pages',
+ *   data: { ...page, puckData: regenerateComponentIds(page.puckData) },
+ * })
+ * ```
+ */
+export function regenerateComponentIds<T>(data: T): T {
+  if (!data || typeof data !== 'object') return data
+
+  const idMap = new Map<string, string>()
+
+  const obj = structuredClone(data) as { content?: unknown; zones?: Record<string, unknown> }
+
+  // Assign new IDs in place on the clone, depth first through slots
+  const visit = (items: ComponentItem[]) => {
+    for (const item of items) {
+      for (const value of Object.values(item.props)) {
+        if (isComponentArray(value)) visit(value)
+      }
+
+      const oldId = item.props.id
+      if (typeof oldId === 'string' && oldId) {
+        const newId = generateId(item.type)
+        idMap.set(oldId, newId)
+        item.props.id = newId
+      }
+    }
+  }
+
+  if (Array.isArray(obj.content)) {
+    visit(obj.content.filter(isComponentItem))
+  }
+
+  if (obj.zones && typeof obj.zones === 'object') {
+    for (const items of Object.values(obj.zones)) {
+      if (Array.isArray(items)) visit(items.filter(isComponentItem))
+    }
+    // Rename zones after all IDs are known - zones can belong to components in other zones
+    obj.zones = Object.fromEntries(
+      Object.entries(obj.zones).map(([zone, items]) => {
+        const separator = zone.indexOf(':')
+        const parentId = separator > 0 ? zone.slice(0, separator) : null
+        const newParentId = parentId ? idMap.get(parentId) : undefined
+        return [newParentId ? `${newParentId}${zone.slice(separator)}` : zone, items]
+      })
+    )
+  }
+
+  return obj as T
+}
@@ -0,0 +1,25 @@
+/**
+ * Optimistic Concurrency Helpers
+ *
+ * Saves from the editor send the `updatedAt` of the document they loaded.
+ * If the document has been saved since, the write is rejected with a 409
+ * so the editor can resolve the conflict instead of silently overwriting it.
+ */
+
+/**
+ * Error message returned with stale saves
+ */
+export const STALE_UPDATE_MESSAGE = 'This page has been changed by someone else since you opened it.'
+
+/**
+ * Whether a save based on `expectedUpdatedAt` would overwrite a newer save
+ */
+export function isStaleUpdate(expectedUpdatedAt: unknown, currentUpdatedAt: unknown): boolean {
+  if (typeof expectedUpdatedAt !== 'string' || typeof currentUpdatedAt !== 'string') return false
+
+  const expected = new Date(expectedUpdatedAt).getTime()
+  const current = new Date(currentUpdatedAt).getTime()
+  if (Number.isNaN(expected) || Number.isNaN(current)) return false
+
+  return current > expected
+}
@@ -0,0 +1,413 @@
+/**
+ * Puck Config Schema Generation
+ *
+ * Generates a JSON Schema for `puckData` and TypeScript declarations for
+ * component props from a Puck config. Custom fields are described by the
+ * `metadata.schema` the field factories attach (e.g. `createPaddingField`).
+ */
+
+import type { Config as PuckConfig, Field as PuckField } from '@puckeditor/core'
+import type { JsonSchema } from '../api/schemas.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for generating a schema or types from a Puck config
+ */
+export interface PuckConfigSchemaOptions {
+  /**
+   * Required props per component type, with 'root' for root props.
+   * Fields with `metadata: { required: true }` are required too.
+   *
+   * @example { root: ['title'], Heading: ['text'] }
+   */
+  requiredFields?: Record<string, string[]>
+
+  /**
+   * Title of the generated JSON Schema
+   * @default 'Puck data'
+   */
+  title?: string
+}
+
+type PuckFields = Record<string, PuckField>
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/
+
+/**
+ * Type name for a component, e.g. 'Heading' -> 'HeadingProps'
+ */
+function propsTypeName(name: string): string {
+  const base = name.replace(/[^\w$]+(.)?/g, (_, char: string | undefined) => (char ? char.toUpperCase() : ''))
+  return `${base.charAt(0).toUpperCase()}${base.slice(1)}Props`
+}
+
+function isRequired(name: string, field: PuckField, required: string[]): boolean {
+  return required.includes(name) || field.metadata?.required === true
+}
+
+/**
+ * Component types a slot accepts, from its allow/disallow lists
+ */
+function slotComponents(field: PuckField, components: string[]): string[] {
+  if (field.type !== 'slot') return components
+  return components.filter(
+    (name) => (!field.allow || field.allow.includes(name)) && !field.disallow?.includes(name)
+  )
+}
+
+function componentRef(name: string): JsonSchema {
+  return { $ref: `#/$defs/${encodeURIComponent(name)}` }
+}
+
+// =============================================================================
+// JSON Schema
+// =============================================================================
+
+/**
+ * JSON Schema for a single field value
+ */
+function fieldSchema(field: PuckField, components: string[]): JsonSchema {
+  const schema: JsonSchema = field.label ? { title: field.label } : {}
+
+  switch (field.type) {
+    case 'text':
+    case 'textarea':
+      return { ...schema, type: 'string' }
+
+    case 'richtext':
+      return { ...schema, type: ['string', 'object'] }
+
+    case 'number':
+      return {
+        ...schema,
+        type: 'number',
+        ...(field.min !== undefined && { minimum: field.min }),
+        ...(field.max !== undefined && { maximum: field.max }),
+      }
+
+    case 'select':
+    case 'radio':
+      return { ...schema, enum: field.options.map((option) => option.value) }
+
+    case 'array':
+      return {
+        ...schema,
+        type: 'array',
+        items: objectSchema(field.arrayFields as PuckFields, [], components),
+        ...(field.min !== undefined && { minItems: field.min }),
+        ...(field.max !== undefined && { maxItems: field.max }),
+      }
+
+    case 'object':
+      return { ...schema, ...objectSchema(field.objectFields as PuckFields, [], components) }
+
+    case 'slot': {
+      const allowed = slotComponents(field, components)
+      const items =
+        allowed.length === components.length
+          ? { $ref: '#/$defs/Component' }
+          : { anyOf: allowed.map(componentRef) }
+      return { ...schema, type: 'array', items }
+    }
+
+    case 'custom': {
+      // Custom field values are nullable - Puck stores null until edited
+      const valueSchema = field.metadata?.schema as JsonSchema | undefined
+      return valueSchema ? { ...schema, anyOf: [valueSchema, { type: 'null' }] } : schema
+    }
+
+    // external fields hold whatever their adaptor returns
+    default:
+      return schema
+  }
+}
+
+function objectSchema(
+  fields: PuckFields | undefined,
+  required: string[],
+  components: string[],
+  extraProperties: Record<string, JsonSchema> = {},
+  extraRequired: string[] = []
+): JsonSchema {
+  const properties: Record<string, JsonSchema> = { ...extraProperties }
+  const requiredProps = [...extraRequired]
+
+  for (const [name, field] of Object.entries(fields ?? {})) {
+    properties[name] = fieldSchema(field, components)
+    if (isRequired(name, field, required)) requiredProps.push(name)
+  }
+
+  return {
+    type: 'object',
+    properties,
+    ...(requiredProps.length > 0 && { required: requiredProps }),
+    additionalProperties: true,
+  }
+}
+
+/**
+ * Generates a JSON Schema (2020-12) describing `puckData` for a Puck config.
+ *
+ * Each component gets a `$defs` entry for its data (`{ type, props }`) and
+ * its props. Custom fields use the `metadata.schema` set by the field
+ * factories (any value when a custom field has none). Only static `fields`
+ * are included - fields added by `resolveFields` are not known here.
+ *
+ * The schema can be used with any JSON Schema validator, and the custom field
+ * schemas are the same ones used as AI `schema` overrides.
+ *
+ * @param config - The Puck config
+ * @param options - Required fields and schema title
+ * @returns JSON Schema document
+ *
+ * @example
+ * ```ts
+ * import { writeFileSync } from 'node:fs'
+ * import { createPuckDataSchema } from '@delmaredigital/payload-puck/utils'
+ * import { editorConfig } from '@delmaredigital/payload-puck/config/editor'
+ *
+ * const schema = createPuckDataSchema(editorConfig, { requiredFields: { root: ['title'] } })
+ * writeFileSync('puck-data.schema.json', JSON.stringify(schema, null, 2))
+ * ```
+ */
+export function createPuckDataSchema(
+  config: PuckConfig,
+  options: PuckConfigSchemaOptions = {}
+): JsonSchema {
+  const { requiredFields = {}, title = 'Puck data' } = options
+  const components = Object.keys(config.components)
+  const defs: Record<string, JsonSchema> = {}
+
+  for (const name of components) {
+    const componentConfig = config.components[name]
+    const propsName = propsTypeName(name)
+
+    defs[propsName] = objectSchema(
+      componentConfig.fields as PuckFields | undefined,
+      requiredFields[name] ?? [],
+      components,
+      { id: { type: 'string' } },
+      ['id']
+    )
+    defs[name] = {
+      type: 'object',
+      ...(componentConfig.label && { title: componentConfig.label }),
+      properties: {
+        type: { const: name },
+        props: { $ref: `#/$defs/${propsName}` },
+      },
+      required: ['type', 'props'],
+    }
+  }
+
+  defs.RootProps = objectSchema(
+    config.root?.fields as PuckFields | undefined,
+    requiredFields.root ?? [],
+    components
+  )
+  defs.Component = { oneOf: components.map(componentRef) }
+
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    title,
+    type: 'object',
+    properties: {
+      root: {
+        type: 'object',
+        properties: { props: { $ref: '#/$defs/RootProps' } },
+        additionalProperties: true,
+      },
+      content: { type: 'array', items: { $ref: '#/$defs/Component' } },
+      zones: {
+        type: 'object',
+        description: 'Legacy drop zones, keyed by `<componentId>:<zone>`',
+        additionalProperties: { type: 'array', items: { $ref: '#/$defs/Component' } },
+      },
+    },
+    required: ['root', 'content'],
+    $defs: defs,
+  }
+}
+
+// =============================================================================
+// TypeScript Declarations
+// =============================================================================
+
+function propertyKey(name: string): string {
+  return IDENTIFIER.test(name) ? name : literal(name)
+}
+
+/**
+ * TypeScript literal for a JSON value, with single-quoted strings
+ */
+function literal(value: unknown): string {
+  return typeof value === 'string'
+    ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+    : JSON.stringify(value)
+}
+
+function union(types: string[]): string {
+  const unique = [...new Set(types)]
+  return unique.length > 0 ? unique.join(' | ') : 'never'
+}
+
+/**
+ * TypeScript type for a JSON Schema. Covers the subset emitted by
+ * `createPuckDataSchema()` and the custom field schemas.
+ */
+function schemaToType(schema: JsonSchema, indent: string): string {
+  if ('const' in schema) return literal(schema.const)
+  if (Array.isArray(schema.enum)) return union(schema.enum.map(literal))
+
+  const variants = (schema.anyOf ?? schema.oneOf) as JsonSchema[] | undefined
+  if (variants) return union(variants.map((variant) => schemaToType(variant, indent)))
+
+  const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string]
+  if (types.length > 1) {
+    return union(types.map((type) => schemaToType({ ...schema, type }, indent)))
+  }
+
+  switch (types[0]) {
+    case 'string':
+      return 'string'
+    case 'number':
+    case 'integer':
+      return 'number'
+    case 'boolean':
+      return 'boolean'
+    case 'null':
+      return 'null'
+    case 'array':
+      return `Array<${schema.items ? schemaToType(schema.items as JsonSchema, indent) : 'unknown'}>`
+    case 'object': {
+      const properties = schema.properties as Record<string, JsonSchema> | undefined
+      if (!properties || Object.keys(properties).length === 0) return 'Record<string, unknown>'
+      const required = (schema.required as string[] | undefined) ?? []
+      const inner = `${indent}  `
+      const lines = Object.entries(properties).map(
+        ([name, property]) =>
+          `${inner}${propertyKey(name)}${required.includes(name) ? '' : '?'}: ${schemaToType(property, inner)}`
+      )
+      return `{\n${lines.join('\n')}\n${indent}}`
+    }
+    default:
+      return 'unknown'
+  }
+}
+
+/**
+ * TypeScript type for a field value. Slots use Puck's `Slot` type, everything
+ * else goes through the field's JSON Schema.
+ */
+function fieldType(field: PuckField, components: string[], indent: string): string {
+  if (field.type === 'slot') {
+    const allowed = slotComponents(field, components)
+    if (allowed.length === components.length) return 'Slot<Components>'
+    return `Slot<Pick<Components, ${union(allowed.map(literal))}>>`
+  }
+
+  if (field.type === 'array' || field.type === 'object') {
+    const nested = (field.type === 'array' ? field.arrayFields : field.objectFields) as
+      | PuckFields
+      | undefined
+    const body = fieldsBody(nested, [], components, `${indent}  `)
+    const type = body ? `{\n${body}\n${indent}}` : 'Record<string, unknown>'
+    return field.type === 'array' ? `Array<${type}>` : type
+  }
+
+  return schemaToType(fieldSchema(field, components), indent)
+}
+
+function fieldsBody(
+  fields: PuckFields | undefined,
+  required: string[],
+  components: string[],
+  indent: string
+): string {
+  return Object.entries(fields ?? {})
+    .map(([name, field]) => {
+      const optional = isRequired(name, field, required) ? '' : '?'
+      const doc = field.label ? `${indent}/** ${field.label} */\n` : ''
+      return `${doc}${indent}${propertyKey(name)}${optional}: ${fieldType(field, components, indent)}`
+    })
+    .join('\n')
+}
+
+function interfaceDeclaration(
+  name: string,
+  fields: PuckFields | undefined,
+  required: string[],
+  components: string[],
+  label?: string
+): string {
+  const body = fieldsBody(fields, required, components, '  ')
+  const doc = label ? `/**\n * ${label}\n */\n` : ''
+  return `${doc}export interface ${name} {\n${body ? `${body}\n` : ''}}`
+}
+
+/**
+ * Generates TypeScript declarations for the component props of a Puck config.
+ *
+ * Emits an interface per component (`HeadingProps`, ...) and for the root
+ * props (`RootProps`), a `Components` map and `PageData` - the typed Puck
+ * `Data` for pages built with this config. Props are optional unless listed
+ * in `requiredFields` or marked with `metadata: { required: true }`.
+ *
+ * @param config - The Puck config
+ * @param options - Required fields
+ * @returns Contents of a `.d.ts` file
+ *
+ * @example
+ * ```ts
+ * import { writeFileSync } from 'node:fs'
+ * import { createPuckConfigTypes } from '@delmaredigital/payload-puck/utils'
+ * import { editorConfig } from '@delmaredigital/payload-puck/config/editor'
+ *
+ * writeFileSync('src/puck-types.d.ts', createPuckConfigTypes(editorConfig))
+ * ```
+ */
+export function createPuckConfigTypes(
+  config: PuckConfig,
+  options: Omit<PuckConfigSchemaOptions, 'title'> = {}
+): string {
+  const { requiredFields = {} } = options
+  const components = Object.keys(config.components)
+
+  const declarations = components.map((name) =>
+    interfaceDeclaration(
+      propsTypeName(name),
+      config.components[name].fields as PuckFields | undefined,
+      requiredFields[name] ?? [],
+      components,
+      config.components[name].label
+    )
+  )
+  declarations.push(
+    interfaceDeclaration(
+      'RootProps',
+      config.root?.fields as PuckFields | undefined,
+      requiredFields.root ?? [],
+      components,
+      'Root (page-level) props'
+    )
+  )
+
+  const componentMap = components
+    .map((name) => `  ${propertyKey(name)}: ${propsTypeName(name)}`)
+    .join('\n')
+
+  return [
+    '/**\n * Generated from the Puck config by createPuckConfigTypes(). Do not edit.\n */',
+    "import type { Data, Slot } from '@puckeditor/core'",
+    ...declarations,
+    `export type Components = {\n${componentMap ? `${componentMap}\n` : ''}}`,
+    'export type PageData = Data<Components, RootProps>',
+  ].join('\n\n') + '\n'
+}
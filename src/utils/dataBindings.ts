@@ -0,0 +1,258 @@
+/**
+ * Data Bindings
+ *
+ * Components can bind props to fields of a Payload document through their
+ * `binding` prop (see `withDataBinding`). The bound values are looked up
+ * when the page is rendered, so pages show the document's current data.
+ *
+ * The helpers here don't import Payload, so they're shared by the editor
+ * (live values in the canvas) and `PageRenderer` (server-side resolution).
+ */
+
+import type { Data as PuckData } from '@puckeditor/core'
+import type { CollectionSlug, Payload, PayloadRequest, TypedLocale } from 'payload'
+import type { DataBindingValue } from '../fields/shared.js'
+
+/**
+ * A prop that can be bound to a document field
+ */
+export interface BindableProp {
+  /** Prop name */
+  name: string
+  /** Label in the binding picker */
+  label: string
+  /**
+   * 'media' props take upload fields, 'text' props take text, number,
+   * date and select fields
+   * @default 'text'
+   */
+  kind?: 'text' | 'media'
+}
+
+/**
+ * Looks up the bound documents of a collection. Documents that can't be
+ * read are left out, and their components keep their static values.
+ */
+export type DataBindingResolver = (
+  collection: string,
+  ids: Array<string | number>
+) => Promise<Array<Record<string, any>>>
+
+export interface PayloadBindingResolverOptions {
+  /**
+   * Payload instance to read documents from
+   */
+  payload: Payload
+  /**
+   * Collections that may be bound. Bindings to other collections are ignored.
+   * @default the plugin's `dataBindings.collections`
+   */
+  collections?: string[]
+  /**
+   * Depth to populate relationships and uploads to
+   * @default 1
+   */
+  depth?: number
+  /**
+   * Locale to read documents in
+   */
+  locale?: string
+  /**
+   * Read the latest drafts, e.g. in draft previews
+   * @default false
+   */
+  draft?: boolean
+  /**
+   * Request (or user) whose access is checked. Without one, documents are
+   * read with anonymous access, like a public visitor.
+   */
+  req?: Partial<PayloadRequest>
+  /**
+   * Skip access control
+   * @default false
+   */
+  overrideAccess?: boolean
+}
+
+/**
+ * Reads a value from a document by dot-separated path, e.g. 'meta.image'
+ * or 'gallery.0.image'
+ */
+export function getFieldValue(doc: Record<string, any>, path: string): unknown {
+  let current: unknown = doc
+  for (const key of path.split('.')) {
+    if (current === null || current === undefined || typeof current !== 'object') return undefined
+    current = (current as Record<string, unknown>)[key]
+  }
+  return current
+}
+
+/**
+ * Converts a document value for a prop. Numbers and booleans become
+ * strings, lists of values are joined, uploads become media references
+ * and other objects are passed through.
+ */
+function toPropValue(value: unknown): unknown {
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  if (Array.isArray(value) && value.every((item) => typeof item !== 'object' || item === null)) {
+    return value.filter((item) => item !== null && item !== undefined).join(', ')
+  }
+  // Populated uploads, in the shape of MediaField values
+  if (value && typeof value === 'object' && 'url' in value && typeof value.url === 'string') {
+    const { id, url, alt, width, height } = value as Record<string, any>
+    return { id, url, alt: alt ?? undefined, width: width ?? undefined, height: height ?? undefined }
+  }
+  return value
+}
+
+/**
+ * Replaces bound props with the document's values. Props whose field is
+ * empty keep their static value.
+ */
+export function applyDataBinding<TProps extends Record<string, any>>(
+  props: TProps,
+  binding: DataBindingValue,
+  doc: Record<string, any>
+): TProps {
+  const next: Record<string, any> = { ...props }
+  for (const [prop, path] of Object.entries(binding.props ?? {})) {
+    if (!path) continue
+    const value = getFieldValue(doc, path)
+    if (value === null || value === undefined || value === '') continue
+    next[prop] = toPropValue(value)
+  }
+  return next as TProps
+}
+
+/**
+ * Whether a binding is complete: a document and at least one bound prop
+ */
+export function isActiveBinding(binding: unknown): binding is DataBindingValue {
+  if (!binding || typeof binding !== 'object') return false
+  const { collection, id, props } = binding as Partial<DataBindingValue>
+  return Boolean(collection && id && props && Object.values(props).some(Boolean))
+}
+
+type ComponentItem = { type: string; props: Record<string, any> }
+
+/**
+ * Calls `visit` for every component in the data, including zones and slots
+ */
+function forEachComponent(data: PuckData, visit: (item: ComponentItem) => void) {
+  const walk = (items: unknown) => {
+    if (!Array.isArray(items)) return
+    for (const item of items) {
+      if (!item || typeof item !== 'object' || !('type' in item)) continue
+      visit(item as ComponentItem)
+      // Slots hold child components in props
+      for (const value of Object.values((item as ComponentItem).props ?? {})) {
+        walk(value)
+      }
+    }
+  }
+
+  walk(data.content)
+  for (const zone of Object.values(data.zones ?? {})) {
+    walk(zone)
+  }
+}
+
+/**
+ * Whether any component in the data has an active binding
+ */
+export function hasDataBindings(data: PuckData): boolean {
+  let found = false
+  forEachComponent(data, (item) => {
+    if (!found && isActiveBinding(item.props?.binding)) found = true
+  })
+  return found
+}
+
+/**
+ * Resolves the bindings of all components in the data, with one lookup per
+ * collection. Returns a copy of the data with bound props replaced.
+ */
+export async function resolveDataBindings(
+  data: PuckData,
+  resolver: DataBindingResolver
+): Promise<PuckData> {
+  const idsByCollection = new Map<string, Set<string | number>>()
+  forEachComponent(data, (item) => {
+    const binding = item.props?.binding
+    if (!isActiveBinding(binding)) return
+    const ids = idsByCollection.get(binding.collection) ?? new Set()
+    ids.add(binding.id)
+    idsByCollection.set(binding.collection, ids)
+  })
+  if (idsByCollection.size === 0) return data
+
+  const docs = new Map<string, Record<string, any>>()
+  await Promise.all(
+    Array.from(idsByCollection, async ([collection, ids]) => {
+      try {
+        for (const doc of await resolver(collection, Array.from(ids))) {
+          docs.set(`${collection}:${doc.id}`, doc)
+        }
+      } catch (error) {
+        console.warn(`[payload-puck] Could not resolve data bindings to '${collection}':`, error)
+      }
+    })
+  )
+
+  // Copy the data so the caller's (possibly cached) page isn't changed
+  const resolved = structuredClone(data)
+  forEachComponent(resolved, (item) => {
+    const binding = item.props?.binding
+    if (!isActiveBinding(binding)) return
+    const doc = docs.get(`${binding.collection}:${binding.id}`)
+    if (doc) item.props = applyDataBinding(item.props, binding, doc)
+  })
+  return resolved
+}
+
+/**
+ * Creates a resolver that reads bound documents with `payload.find`.
+ * Access control applies unless `overrideAccess` is set, so by default
+ * only documents a public visitor may read are shown.
+ *
+ * @example
+ * ```tsx
+ * const payload = await getPayload({ config })
+ * <PageRenderer
+ *   data={page.puckData}
+ *   resolveBindings={createPayloadBindingResolver({ payload })}
+ * />
+ * ```
+ */
+export function createPayloadBindingResolver(
+  options: PayloadBindingResolverOptions
+): DataBindingResolver {
+  const { payload, depth = 1, locale, draft = false, req, overrideAccess = false } = options
+  const collections =
+    options.collections ??
+    (payload.config.custom?.puck?.dataBindings as { collections?: string[] } | null | undefined)
+      ?.collections ??
+    []
+
+  return async (collection, ids) => {
+    if (!collections.includes(collection)) {
+      console.warn(
+        `[payload-puck] Data binding to '${collection}' ignored - add it to the dataBindings.collections option`
+      )
+      return []
+    }
+
+    const { docs } = await payload.find({
+      collection: collection as CollectionSlug,
+      where: { id: { in: ids } },
+      locale: locale as TypedLocale | undefined,
+      depth,
+      draft,
+      limit: ids.length,
+      pagination: false,
+      overrideAccess,
+      ...(req && { req, user: req.user }),
+    })
+    return docs as Array<Record<string, any>>
+  }
+}
@@ -0,0 +1,683 @@
+/**
+ * Puck Data Diff Utilities
+ *
+ * Compares two versions of Puck data component by component (matched by
+ * `props.id`), restores single components from an older version, and
+ * merges concurrent edits to the same page.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Minimal shape of a Puck component item
+ */
+interface ComponentItem {
+  type: string
+  props: Record<string, unknown>
+}
+
+/**
+ * Where a component sits in the Puck tree
+ */
+export interface ComponentLocation {
+  /** ID of the parent component, or null for root content and zones */
+  parentId: string | null
+  /** Slot prop name on the parent, `content` for root content, or the zone key */
+  slot: string
+  /** Position within the slot */
+  index: number
+}
+
+/**
+ * A single changed prop
+ */
+export interface PropChange {
+  key: string
+  before: unknown
+  after: unknown
+}
+
+/**
+ * Kind of change to a component
+ */
+export type ComponentChangeType = 'added' | 'removed' | 'moved' | 'changed'
+
+/**
+ * A change to a single component. A component that was both moved and
+ * edited appears twice: once as `moved` and once as `changed`.
+ */
+export interface ComponentChange {
+  change: ComponentChangeType
+  id: string
+  type: string
+  /** Location in the older version (removed, moved, changed) */
+  before?: ComponentLocation
+  /** Location in the newer version (added, moved, changed) */
+  after?: ComponentLocation
+  /** Changed props (changed only). Slot contents are compared as separate components. */
+  props?: PropChange[]
+}
+
+/**
+ * Structural diff between two versions of Puck data
+ */
+export interface PuckDataDiff {
+  components: ComponentChange[]
+  /** Changed root props (page title, layout, etc.) */
+  root: PropChange[]
+  summary: Record<ComponentChangeType, number>
+  hasChanges: boolean
+}
+
+interface FlatComponent {
+  item: ComponentItem
+  location: ComponentLocation
+  containerKey: string
+}
+
+// =============================================================================
+// Tree Helpers
+// =============================================================================
+
+function isComponentItem(value: unknown): value is ComponentItem {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof (value as ComponentItem).type === 'string' &&
+    !!(value as ComponentItem).props &&
+    typeof (value as ComponentItem).props === 'object'
+  )
+}
+
+function isComponentArray(value: unknown): value is ComponentItem[] {
+  return Array.isArray(value) && value.length > 0 && value.every(isComponentItem)
+}
+
+function getContainerKey(parentId: string | null, slot: string): string {
+  return parentId ? `${parentId}:${slot}` : `root:${slot}`
+}
+
+function getTopLevelContainers(data: unknown): Array<[slot: string, items: ComponentItem[]]> {
+  const obj = (data || {}) as { content?: unknown; zones?: Record<string, unknown> }
+  const containers: Array<[string, ComponentItem[]]> = [
+    ['content', Array.isArray(obj.content) ? obj.content.filter(isComponentItem) : []],
+  ]
+  for (const [zone, items] of Object.entries(obj.zones || {})) {
+    if (Array.isArray(items)) containers.push([zone, items.filter(isComponentItem)])
+  }
+  return containers
+}
+
+/**
+ * Indexes every component by ID, along with the ordered IDs of every slot
+ */
+function flatten(data: unknown): {
+  components: Map<string, FlatComponent>
+  containers: Map<string, string[]>
+} {
+  const components = new Map<string, FlatComponent>()
+  const containers = new Map<string, string[]>()
+
+  const visit = (items: ComponentItem[], parentId: string | null, slot: string) => {
+    const containerKey = getContainerKey(parentId, slot)
+    const ids: string[] = []
+
+    items.forEach((item, index) => {
+      const id = item.props.id as string | undefined
+      if (!id) return
+      ids.push(id)
+      components.set(id, { item, location: { parentId, slot, index }, containerKey })
+
+      for (const [key, value] of Object.entries(item.props)) {
+        if (isComponentArray(value)) visit(value, id, key)
+      }
+    })
+
+    containers.set(containerKey, ids)
+  }
+
+  for (const [slot, items] of getTopLevelContainers(data)) {
+    visit(items, null, slot)
+  }
+
+  return { components, containers }
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (typeof a !== typeof b || a === null || b === null || typeof a !== 'object') {
+    return false
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+
+  if (Array.isArray(a)) {
+    const arrB = b as unknown[]
+    return a.length === arrB.length && a.every((value, i) => isEqual(value, arrB[i]))
+  }
+
+  const objA = a as Record<string, unknown>
+  const objB = b as Record<string, unknown>
+  const keys = new Set([...Object.keys(objA), ...Object.keys(objB)])
+  for (const key of keys) {
+    if (!isEqual(objA[key], objB[key])) return false
+  }
+  return true
+}
+
+/**
+ * Compares two prop objects, ignoring `id` and slot contents
+ */
+function diffProps(
+  before: Record<string, unknown> = {},
+  after: Record<string, unknown> = {}
+): PropChange[] {
+  const changes: PropChange[] = []
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+
+  for (const key of keys) {
+    if (key === 'id') continue
+    if (isComponentArray(before[key]) || isComponentArray(after[key])) continue
+    if (!isEqual(before[key], after[key])) {
+      changes.push({ key, before: before[key], after: after[key] })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Returns the IDs that keep their relative order (longest common subsequence).
+ * Anything else in both lists was moved.
+ */
+function getStableIds(before: string[], after: string[]): Set<string> {
+  const lengths: number[][] = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0)
+  )
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        before[i] === after[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const stable = new Set<string>()
+  let i = 0
+  let j = 0
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      stable.add(before[i])
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+
+  return stable
+}
+
+// =============================================================================
+// Diff
+// =============================================================================
+
+/**
+ * Computes a structural diff between two versions of Puck data.
+ *
+ * Components are matched by `props.id`. A component counts as moved when its
+ * parent slot changed or its order relative to its unchanged siblings changed,
+ * so inserting one component doesn't mark every following sibling as moved.
+ *
+ * @example
+ * ```ts
+ * const diff = diffPuckData(olderVersion.puckData, newerVersion.puckData)
+ * console.log(`${diff.summary.added} added, ${diff.summary.removed} removed`)
+ * ```
+ */
+export function diffPuckData(before: unknown, after: unknown): PuckDataDiff {
+  const prev = flatten(before)
+  const next = flatten(after)
+  const components: ComponentChange[] = []
+
+  // Components that stay in the same slot but change order
+  const movedInPlace = new Set<string>()
+  for (const [containerKey, afterIds] of next.containers) {
+    const shared = (ids: string[]) =>
+      ids.filter(
+        (id) =>
+          prev.components.get(id)?.containerKey === containerKey &&
+          next.components.get(id)?.containerKey === containerKey
+      )
+    const beforeShared = shared(prev.containers.get(containerKey) || [])
+    const afterShared = shared(afterIds)
+    const stable = getStableIds(beforeShared, afterShared)
+    for (const id of afterShared) {
+      if (!stable.has(id)) movedInPlace.add(id)
+    }
+  }
+
+  for (const [id, prevComponent] of prev.components) {
+    const nextComponent = next.components.get(id)
+
+    if (!nextComponent) {
+      components.push({
+        change: 'removed',
+        id,
+        type: prevComponent.item.type,
+        before: prevComponent.location,
+      })
+      continue
+    }
+
+    if (prevComponent.containerKey !== nextComponent.containerKey || movedInPlace.has(id)) {
+      components.push({
+        change: 'moved',
+        id,
+        type: nextComponent.item.type,
+        before: prevComponent.location,
+        after: nextComponent.location,
+      })
+    }
+
+    const props = diffProps(prevComponent.item.props, nextComponent.item.props)
+    if (prevComponent.item.type !== nextComponent.item.type) {
+      props.unshift({ key: 'type', before: prevComponent.item.type, after: nextComponent.item.type })
+    }
+    if (props.length > 0) {
+      components.push({
+        change: 'changed',
+        id,
+        type: nextComponent.item.type,
+        before: prevComponent.location,
+        after: nextComponent.location,
+        props,
+      })
+    }
+  }
+
+  for (const [id, nextComponent] of next.components) {
+    if (!prev.components.has(id)) {
+      components.push({
+        change: 'added',
+        id,
+        type: nextComponent.item.type,
+        after: nextComponent.location,
+      })
+    }
+  }
+
+  const root = diffProps(
+    (before as { root?: { props?: Record<string, unknown> } } | null)?.root?.props,
+    (after as { root?: { props?: Record<string, unknown> } } | null)?.root?.props
+  )
+
+  const summary: Record<ComponentChangeType, number> = { added: 0, removed: 0, moved: 0, changed: 0 }
+  for (const change of components) summary[change.change]++
+
+  return {
+    components,
+    root,
+    summary,
+    hasChanges: components.length > 0 || root.length > 0,
+  }
+}
+
+// =============================================================================
+// Single Component Restore
+// =============================================================================
+
+function generateId(type: string): string {
+  const random =
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID()
+      : Math.random().toString(36).slice(2)
+  return `${type}-${random}`
+}
+
+/**
+ * Gives new IDs to nested components whose IDs are already used elsewhere
+ */
+function reassignTakenIds(item: ComponentItem, takenIds: Set<string>): ComponentItem {
+  const props = { ...item.props }
+  for (const [key, value] of Object.entries(props)) {
+    if (isComponentArray(value)) {
+      props[key] = value.map((child) => {
+        const childId = child.props.id as string | undefined
+        const reassigned = reassignTakenIds(child, takenIds)
+        return childId && takenIds.has(childId)
+          ? { ...reassigned, props: { ...reassigned.props, id: generateId(child.type) } }
+          : reassigned
+      })
+    }
+  }
+  return { ...item, props }
+}
+
+function collectIds(items: ComponentItem[], ids = new Set<string>()): Set<string> {
+  for (const item of items) {
+    if (item.props.id) ids.add(item.props.id as string)
+    for (const value of Object.values(item.props)) {
+      if (isComponentArray(value)) collectIds(value, ids)
+    }
+  }
+  return ids
+}
+
+/**
+ * Applies `fn` to the list of every slot, root content and zone in the tree
+ */
+function mapContainers<T>(
+  data: T,
+  fn: (items: ComponentItem[], parentId: string | null, slot: string) => ComponentItem[]
+): T {
+  const mapItems = (items: ComponentItem[], parentId: string | null, slot: string) =>
+    fn(
+      items.map((item) => {
+        let props = item.props
+        for (const [key, value] of Object.entries(item.props)) {
+          if (Array.isArray(value) && value.every(isComponentItem)) {
+            props = props === item.props ? { ...props } : props
+            props[key] = mapItems(value, item.props.id as string, key)
+          }
+        }
+        return props === item.props ? item : { ...item, props }
+      }),
+      parentId,
+      slot
+    )
+
+  const obj = data as { content?: unknown; zones?: Record<string, unknown> }
+  const content = mapItems(
+    Array.isArray(obj.content) ? obj.content.filter(isComponentItem) : [],
+    null,
+    'content'
+  )
+  const zones = obj.zones
+    ? Object.fromEntries(
+        Object.entries(obj.zones).map(([zone, items]) => [
+          zone,
+          Array.isArray(items) ? mapItems(items.filter(isComponentItem), null, zone) : items,
+        ])
+      )
+    : obj.zones
+
+  return { ...data, content, ...(zones && { zones }) }
+}
+
+/**
+ * Restores a single component (including its nested components) from another
+ * version into the current data.
+ *
+ * - If the component still exists, it is replaced in place.
+ * - If it was removed, it is re-inserted at its old position when the old
+ *   parent slot still exists, otherwise appended to the root content.
+ *
+ * Nested components whose IDs are now used elsewhere get new IDs.
+ *
+ * @returns The updated data, or the current data unchanged if the component
+ * doesn't exist in the source version
+ */
+export function restoreComponentFromData<T>(current: T, source: unknown, componentId: string): T {
+  const sourceComponent = flatten(source).components.get(componentId)
+  if (!sourceComponent) return current
+
+  const currentFlat = flatten(current)
+  const existing = currentFlat.components.get(componentId)
+
+  // IDs used in the current data outside the component being replaced
+  const replacedIds = existing ? collectIds([existing.item]) : new Set<string>()
+  const takenIds = new Set([...currentFlat.components.keys()].filter((id) => !replacedIds.has(id)))
+  const restored = reassignTakenIds(sourceComponent.item, takenIds)
+
+  if (existing) {
+    return mapContainers(current, (items) =>
+      items.map((item) => (item.props.id === componentId ? restored : item))
+    )
+  }
+
+  return insertComponent(current, restored, sourceComponent.location)
+}
+
+/**
+ * Inserts a component at a location. Falls back to the end of the root
+ * content when the parent no longer exists.
+ */
+function insertComponent<T>(data: T, component: ComponentItem, location: ComponentLocation): T {
+  const { parentId, slot, index } = location
+  const flat = flatten(data)
+  const targetKey = flat.containers.has(getContainerKey(parentId, slot))
+    ? getContainerKey(parentId, slot)
+    : // Parent slots that are empty in the current data aren't indexed - insert into them if the parent exists
+      parentId && flat.components.has(parentId)
+      ? getContainerKey(parentId, slot)
+      : getContainerKey(null, 'content')
+
+  let inserted = false
+  const updated = mapContainers(data, (items, itemsParentId, itemsSlot) => {
+    if (inserted || getContainerKey(itemsParentId, itemsSlot) !== targetKey) return items
+    inserted = true
+    const position = targetKey === getContainerKey(parentId, slot) ? Math.min(index, items.length) : items.length
+    return [...items.slice(0, position), component, ...items.slice(position)]
+  })
+
+  if (inserted) return updated
+
+  // Empty slot props aren't arrays of components yet - set the slot on the parent directly
+  return mapContainers(data, (items) =>
+    items.map((item) =>
+      item.props.id === parentId
+        ? { ...item, props: { ...item.props, [slot]: [component] } }
+        : item
+    )
+  )
+}
+
+function removeComponent<T>(data: T, componentId: string): T {
+  return mapContainers(data, (items) => items.filter((item) => item.props.id !== componentId))
+}
+
+// =============================================================================
+// Three-way Merge
+// =============================================================================
+
+/**
+ * A component (or root prop) changed differently in both versions
+ */
+export interface PuckMergeConflict {
+  /** Component ID, or `root` for page settings */
+  id: string
+  /** Component type, or `root` for page settings */
+  type: string
+  /** Changed root prop (root conflicts only) */
+  key?: string
+}
+
+/**
+ * Result of merging two versions of Puck data
+ */
+export interface PuckMergeResult<T> {
+  data: T
+  /** Changes that overlap. Their version is kept for these. */
+  conflicts: PuckMergeConflict[]
+}
+
+function getRootProps(data: unknown): Record<string, unknown> {
+  return (data as { root?: { props?: Record<string, unknown> } } | null)?.root?.props || {}
+}
+
+function getTouchedIds(diff: PuckDataDiff): Map<string, Set<ComponentChangeType>> {
+  const touched = new Map<string, Set<ComponentChangeType>>()
+  for (const change of diff.components) {
+    const changes = touched.get(change.id) || new Set<ComponentChangeType>()
+    changes.add(change.change)
+    touched.set(change.id, changes)
+  }
+  return touched
+}
+
+/**
+ * Whether a component ended up the same in both versions (ignoring position within its slot)
+ */
+function isSameComponent(a?: FlatComponent, b?: FlatComponent): boolean {
+  if (!a || !b) return !a && !b
+  return (
+    a.item.type === b.item.type &&
+    a.containerKey === b.containerKey &&
+    diffProps(a.item.props, b.item.props).length === 0
+  )
+}
+
+/**
+ * Removes nested components that existed in the base version, so an added
+ * container only carries the components that were added with it
+ */
+function keepAddedChildren(item: ComponentItem, baseIds: Map<string, FlatComponent>): ComponentItem {
+  const props = { ...item.props }
+  for (const [key, value] of Object.entries(props)) {
+    if (isComponentArray(value)) {
+      props[key] = value
+        .filter((child) => !baseIds.has(child.props.id as string))
+        .map((child) => keepAddedChildren(child, baseIds))
+    }
+  }
+  return { ...item, props }
+}
+
+/**
+ * Three-way merge of Puck data, used when two editors saved the same page.
+ *
+ * Starts from `theirs` (the newer saved version) and replays the changes
+ * made in `ours` since `base` (the version both started from): added,
+ * removed and moved components, changed props and changed root props.
+ *
+ * Components changed in both versions are conflicts - `theirs` wins for
+ * those, including edits inside a component the other side removed.
+ *
+ * @example
+ * ```ts
+ * const { data, conflicts } = mergePuckData(loadedData, editorData, latestData)
+ * if (conflicts.length === 0) dispatch({ type: 'setData', data })
+ * ```
+ */
+export function mergePuckData<T>(base: unknown, ours: T, theirs: T): PuckMergeResult<T> {
+  const baseFlat = flatten(base)
+  const oursFlat = flatten(ours)
+  const theirsFlat = flatten(theirs)
+  const oursDiff = diffPuckData(base, ours)
+  const oursTouched = getTouchedIds(oursDiff)
+  const theirsTouched = getTouchedIds(diffPuckData(base, theirs))
+  const conflicts: PuckMergeConflict[] = []
+  const conflictIds = new Set<string>()
+
+  const addConflict = (id: string) => {
+    if (conflictIds.has(id)) return
+    conflictIds.add(id)
+    const component = oursFlat.components.get(id) || theirsFlat.components.get(id) || baseFlat.components.get(id)
+    conflicts.push({ id, type: component?.item.type || 'unknown' })
+  }
+
+  // Components changed the same way on both sides - a move on one side and
+  // an edit on the other don't overlap
+  for (const [id, changes] of oursTouched) {
+    const theirChanges = theirsTouched.get(id)
+    if (!theirChanges) continue
+    const oursComponent = oursFlat.components.get(id)
+    const theirsComponent = theirsFlat.components.get(id)
+    if (isSameComponent(oursComponent, theirsComponent)) continue
+
+    const overlaps =
+      changes.has('removed') ||
+      theirChanges.has('removed') ||
+      (changes.has('changed') && theirChanges.has('changed')) ||
+      (changes.has('moved') && theirChanges.has('moved'))
+    if (overlaps) addConflict(id)
+  }
+
+  // Components removed on one side with changes inside them on the other
+  const checkRemoved = (
+    touched: Map<string, Set<ComponentChangeType>>,
+    otherTouched: Map<string, Set<ComponentChangeType>>,
+    otherFlat: ReturnType<typeof flatten>
+  ) => {
+    for (const [id, changes] of touched) {
+      const other = otherFlat.components.get(id)
+      if (!changes.has('removed') || !other) continue
+      for (const nestedId of collectIds([other.item])) {
+        if (nestedId !== id && otherTouched.has(nestedId)) addConflict(nestedId)
+      }
+    }
+  }
+  checkRemoved(oursTouched, theirsTouched, theirsFlat)
+  checkRemoved(theirsTouched, oursTouched, oursFlat)
+
+  let data = theirs
+
+  // Removed
+  for (const [id, changes] of oursTouched) {
+    if (changes.has('removed') && !conflictIds.has(id)) data = removeComponent(data, id)
+  }
+
+  // Added and moved, in tree order so parents exist before their children
+  for (const [id, component] of oursFlat.components) {
+    const changes = oursTouched.get(id)
+    if (!changes || conflictIds.has(id)) continue
+
+    if (changes.has('added')) {
+      if (!flatten(data).components.has(id)) {
+        data = insertComponent(data, keepAddedChildren(component.item, baseFlat.components), component.location)
+      }
+    } else if (changes.has('moved') && !isSameComponent(component, theirsFlat.components.get(id))) {
+      const existing = flatten(data).components.get(id)
+      if (existing) {
+        data = insertComponent(removeComponent(data, id), existing.item, component.location)
+      }
+    }
+  }
+
+  // Changed props
+  for (const change of oursDiff.components) {
+    if (change.change !== 'changed' || conflictIds.has(change.id)) continue
+    const updates = change.props || []
+    data = mapContainers(data, (items) =>
+      items.map((item) => {
+        if (item.props.id !== change.id) return item
+        const props = { ...item.props }
+        let type = item.type
+        for (const { key, after } of updates) {
+          if (key === 'type') type = after as string
+          else if (after === undefined) delete props[key]
+          else props[key] = after
+        }
+        return { ...item, type, props }
+      })
+    )
+  }
+
+  // Root props, key by key
+  if (oursDiff.root.length > 0) {
+    const baseRoot = getRootProps(base)
+    const theirsRoot = getRootProps(theirs)
+    const rootProps = { ...getRootProps(data) }
+
+    for (const { key, after } of oursDiff.root) {
+      const theirsChanged = !isEqual(baseRoot[key], theirsRoot[key])
+      if (theirsChanged && !isEqual(theirsRoot[key], after)) {
+        conflicts.push({ id: 'root', type: 'root', key })
+        continue
+      }
+      if (after === undefined) delete rootProps[key]
+      else rootProps[key] = after
+    }
+
+    const root = (data as { root?: Record<string, unknown> }).root
+    data = { ...data, root: { ...root, props: rootProps } }
+  }
+
+  return { data, conflicts }
+}
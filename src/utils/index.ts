@@ -1,8 +1,11 @@
 /**
- * Migration and Validation Utilities
+ * Migration, Validation, Diff, Component ID, URL and Schema Utilities
  *
  * This module provides utilities for migrating legacy Payload CMS pages
- * to Puck format and validating Puck data structures.
+ * to Puck format, validating Puck data structures, comparing versions,
+ * regenerating component IDs, resolving page URLs, generating sitemaps,
+ * resolving data bindings and generating a JSON Schema and TypeScript types
+ * from a Puck config.
  *
  * @example
  * ```ts
@@ -70,7 +73,105 @@ export {
   assertPuckData,
   // JSON parsing helper
   parsePuckDataJson,
+  // Validation against a Puck config
+  validatePuckDataAgainstConfig,
   // Types
   type ValidationResult,
   type ValidationOptions,
+  type PuckDataIssue,
+  type ConfigValidationOptions,
+  type ConfigValidationResult,
 } from './validation.js'
+
+// =============================================================================
+// Diff Exports
+// =============================================================================
+
+export {
+  // Structural diff between two versions
+  diffPuckData,
+  // Single component restore
+  restoreComponentFromData,
+  // Three-way merge of concurrent edits
+  mergePuckData,
+  // Types
+  type PuckDataDiff,
+  type ComponentChange,
+  type ComponentChangeType,
+  type ComponentLocation,
+  type PropChange,
+  type PuckMergeConflict,
+  type PuckMergeResult,
+} from './diff.js'
+
+// =============================================================================
+// Component ID Exports
+// =============================================================================
+
+export {
+  // New component IDs for duplicated pages
+  regenerateComponentIds,
+} from './componentIds.js'
+
+// =============================================================================
+// Page URL Exports
+// =============================================================================
+
+export {
+  // Public path of a page from the previewUrl option
+  resolvePagePath,
+  resolvePreviewUrlPrefix,
+  // Types
+  type PreviewUrlConfig,
+} from './pageUrl.js'
+
+// =============================================================================
+// Sitemap Exports
+// =============================================================================
+
+export {
+  // URLs of published pages
+  findSitemapEntries,
+  getSitemapCollections,
+  // XML rendering
+  renderSitemapXml,
+  renderSitemapIndexXml,
+  chunkSitemapEntries,
+  SITEMAP_MAX_URLS,
+  // Types
+  type SitemapEntry,
+  type SitemapCollection,
+  type FindSitemapEntriesOptions,
+} from './sitemap.js'
+
+// =============================================================================
+// Data Binding Exports
+// =============================================================================
+
+export {
+  // Server-side resolution
+  resolveDataBindings,
+  createPayloadBindingResolver,
+  hasDataBindings,
+  // Applying a single binding
+  applyDataBinding,
+  isActiveBinding,
+  getFieldValue,
+  // Types
+  type BindableProp,
+  type DataBindingResolver,
+  type PayloadBindingResolverOptions,
+} from './dataBindings.js'
+
+// =============================================================================
+// Config Schema Exports
+// =============================================================================
+
+export {
+  // JSON Schema for puckData
+  createPuckDataSchema,
+  // TypeScript declarations for component props
+  createPuckConfigTypes,
+  // Types
+  type PuckConfigSchemaOptions,
+} from './configSchema.js'
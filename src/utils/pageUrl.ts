@@ -0,0 +1,56 @@
+/**
+ * Page URL Resolution
+ *
+ * Resolves the public URL of a page from the `previewUrl` plugin option,
+ * the same way the editor's "View" button does.
+ */
+
+/**
+ * The `previewUrl` plugin option
+ * @see PuckPluginOptions.previewUrl
+ */
+export type PreviewUrlConfig = string | ((page: any) => string | ((slug: string) => string))
+
+/**
+ * Resolves the URL prefix for a page from the `previewUrl` option.
+ *
+ * A function returning a slug-to-URL function is called with '' to get the
+ * prefix, so it must return just the prefix for an empty slug.
+ */
+export function resolvePreviewUrlPrefix(
+  page: Record<string, any>,
+  previewUrl: PreviewUrlConfig | undefined
+): string | undefined {
+  if (!previewUrl) return undefined
+  if (typeof previewUrl === 'string') return previewUrl
+
+  const result = previewUrl(page)
+  return typeof result === 'function' ? result('') : result
+}
+
+/**
+ * Resolves the public path of a page, e.g. '/', '/about' or '/blog/my-post'.
+ *
+ * Homepages resolve to the prefix (or '/'). Otherwise the slug is appended
+ * to the prefix. With page-tree integration the slug already contains the
+ * folder path.
+ */
+export function resolvePagePath(
+  page: Record<string, any>,
+  previewUrl?: PreviewUrlConfig
+): string {
+  const slug = page.isHomepage ? '' : String(page.slug ?? '').replace(/^\/+|\/+$/g, '')
+
+  let path: string
+  if (typeof previewUrl === 'function') {
+    const result = previewUrl(page)
+    path = typeof result === 'function' ? result(slug) : slug ? `${result}/${slug}` : result
+  } else {
+    const prefix = previewUrl ?? ''
+    path = slug ? `${prefix}/${slug}` : prefix
+  }
+
+  // Normalize to a single leading slash and no trailing slash
+  const normalized = `/${path}`.replace(/\/{2,}/g, '/')
+  return normalized.length > 1 ? normalized.replace(/\/$/, '') : normalized
+}
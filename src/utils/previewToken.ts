@@ -0,0 +1,70 @@
+/**
+ * Preview Link Tokens
+ *
+ * Signed, expiring tokens that grant read access to the latest draft of a
+ * single page. Tokens are signed with the Payload secret, so they can be
+ * verified by any server sharing the Payload config.
+ *
+ * Server-only (uses Node's crypto module).
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+
+/**
+ * Default lifetime of a preview link in seconds (7 days)
+ */
+export const DEFAULT_PREVIEW_LINK_EXPIRY = 60 * 60 * 24 * 7
+
+/**
+ * Page a preview token grants access to
+ */
+export interface PreviewTokenPayload {
+  collection: string
+  id: string
+  locale?: string
+  /** Expiry as a Unix timestamp in seconds */
+  exp: number
+}
+
+function sign(value: string, secret: string): string {
+  return createHmac('sha256', secret).update(value).digest('base64url')
+}
+
+/**
+ * Creates a signed preview token for a page
+ */
+export function createPreviewToken(
+  payload: Omit<PreviewTokenPayload, 'exp'>,
+  secret: string,
+  expiresIn: number = DEFAULT_PREVIEW_LINK_EXPIRY
+): { token: string; expiresAt: string } {
+  const exp = Math.floor(Date.now() / 1000) + expiresIn
+  const body = Buffer.from(JSON.stringify({ ...payload, exp })).toString('base64url')
+
+  return {
+    token: `${body}.${sign(body, secret)}`,
+    expiresAt: new Date(exp * 1000).toISOString(),
+  }
+}
+
+/**
+ * Verifies a preview token. Returns its payload, or null if the token is
+ * malformed, has an invalid signature or has expired.
+ */
+export function verifyPreviewToken(token: string, secret: string): PreviewTokenPayload | null {
+  const [body, signature] = token.split('.')
+  if (!body || !signature) return null
+
+  const expected = Buffer.from(sign(body, secret))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString()) as PreviewTokenPayload
+    if (typeof payload.collection !== 'string' || typeof payload.id !== 'string') return null
+    if (typeof payload.exp !== 'number' || payload.exp * 1000 < Date.now()) return null
+    return payload
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Sitemap Generation
+ *
+ * Collects the public URLs of published Puck pages and renders them as
+ * `sitemap.xml` documents. Shared by the plugin's sitemap endpoint and the
+ * Next.js `createSitemap()` helper.
+ */
+
+import type { CollectionSlug, Payload, TypedLocale, Where } from 'payload'
+import { resolvePagePath, type PreviewUrlConfig } from './pageUrl.js'
+
+/**
+ * Maximum number of URLs in a single sitemap, per the sitemaps.org protocol
+ */
+export const SITEMAP_MAX_URLS = 50000
+
+/**
+ * A page URL in the sitemap. Compatible with Next.js `MetadataRoute.Sitemap` entries.
+ */
+export interface SitemapEntry {
+  /** Absolute URL of the page */
+  url: string
+  /** The page's `updatedAt`, used for `<lastmod>` */
+  lastModified?: string
+}
+
+/**
+ * A Puck collection to list in the sitemap
+ */
+export interface SitemapCollection {
+  slug: string
+  /**
+   * Resolves page paths, like the plugin's `previewUrl` option
+   * @default '/' (pages are served at `/<slug>`)
+   */
+  previewUrl?: PreviewUrlConfig
+}
+
+export interface FindSitemapEntriesOptions {
+  /**
+   * Public site URL the page paths are appended to, e.g. 'https://example.com'
+   */
+  siteUrl: string
+  /**
+   * Collections to list
+   * @default the Puck collections configured in the plugin, with their `previewUrl`
+   */
+  collections?: Array<string | SitemapCollection>
+  /**
+   * Locale to read pages in (localized collections only)
+   */
+  locale?: string
+  /**
+   * Additional filter for the pages to list (published pages only are listed)
+   */
+  where?: Where
+}
+
+// Pages are read in batches so large sites don't load every page at once
+const BATCH_SIZE = 1000
+
+/**
+ * The Puck collections configured in the plugin, with their `previewUrl`
+ */
+export function getSitemapCollections(payload: Payload): SitemapCollection[] {
+  const puck = payload.config.custom?.puck as
+    | {
+        collections?: string[]
+        collectionOptions?: Record<string, { previewUrl?: PreviewUrlConfig }>
+      }
+    | undefined
+
+  return (puck?.collections ?? ['pages']).map((slug) => ({
+    slug,
+    previewUrl: puck?.collectionOptions?.[slug]?.previewUrl,
+  }))
+}
+
+/**
+ * Finds the published pages of the Puck collections and resolves their
+ * public URLs. Only pages an anonymous visitor may read are listed, and
+ * pages with `meta.noindex` or `meta.excludeFromSitemap` are left out. With page-tree integration the slug already contains the folder
+ * segments, so nested pages resolve to their full path.
+ */
+export async function findSitemapEntries(
+  payload: Payload,
+  options: FindSitemapEntriesOptions
+): Promise<SitemapEntry[]> {
+  const { locale, where } = options
+  const siteUrl = options.siteUrl.replace(/\/+$/, '')
+  const configured = getSitemapCollections(payload)
+  const collections = options.collections
+    ? options.collections.map((entry) =>
+        typeof entry === 'string'
+          ? (configured.find((c) => c.slug === entry) ?? { slug: entry })
+          : entry
+      )
+    : configured
+
+  const entries: SitemapEntry[] = []
+  const seen = new Set<string>()
+
+  for (const { slug, previewUrl } of collections) {
+    const collectionConfig = payload.config.collections.find((c) => c.slug === slug)
+    if (!collectionConfig) {
+      throw new Error(`Collection '${slug}' not found`)
+    }
+
+    const hasPuckData = collectionConfig.flattenedFields.some(
+      (field) => 'name' in field && field.name === 'puckData'
+    )
+
+    const conditions: Where[] = where ? [where] : []
+    if (
+      collectionConfig.versions &&
+      typeof collectionConfig.versions === 'object' &&
+      collectionConfig.versions.drafts
+    ) {
+      conditions.push({ _status: { equals: 'published' } })
+    }
+
+    let page = 1
+    let hasNextPage = true
+    while (hasNextPage) {
+      const result = await payload.find({
+        collection: slug as CollectionSlug,
+        where: conditions.length > 0 ? { and: conditions } : undefined,
+        locale: locale as TypedLocale | undefined,
+        // Page content isn't needed for URLs
+        select: hasPuckData ? ({ puckData: false } as any) : undefined,
+        sort: 'createdAt',
+        depth: 0,
+        draft: false,
+        page,
+        limit: BATCH_SIZE,
+        // Only list pages an anonymous visitor can read
+        overrideAccess: false,
+      })
+
+      for (const doc of result.docs as Record<string, any>[]) {
+        // Filtered here rather than in the query, so pages without a `meta` group still match
+        if (doc.meta?.noindex || doc.meta?.excludeFromSitemap) continue
+        const url = `${siteUrl}${resolvePagePath(doc, previewUrl)}`
+        if (seen.has(url)) continue
+        seen.add(url)
+        entries.push({
+          url,
+          ...(doc.updatedAt && { lastModified: new Date(doc.updatedAt).toISOString() }),
+        })
+      }
+
+      hasNextPage = result.hasNextPage
+      page += 1
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Splits sitemap entries into chunks of at most `SITEMAP_MAX_URLS`
+ */
+export function chunkSitemapEntries(
+  entries: SitemapEntry[],
+  size: number = SITEMAP_MAX_URLS
+): SitemapEntry[][] {
+  const chunks: SitemapEntry[][] = []
+  for (let i = 0; i < entries.length; i += size) {
+    chunks.push(entries.slice(i, i + size))
+  }
+  return chunks.length > 0 ? chunks : [[]]
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * Renders a `<urlset>` sitemap document
+ */
+export function renderSitemapXml(entries: SitemapEntry[]): string {
+  const urls = entries.map(
+    (entry) =>
+      `<url><loc>${escapeXml(entry.url)}</loc>${
+        entry.lastModified ? `<lastmod>${entry.lastModified}</lastmod>` : ''
+      }</url>`
+  )
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls,
+    '</urlset>',
+    '',
+  ].join('\n')
+}
+
+/**
+ * Renders a `<sitemapindex>` document listing sitemaps
+ */
+export function renderSitemapIndexXml(
+  sitemaps: Array<{ url: string; lastModified?: string }>
+): string {
+  const items = sitemaps.map(
+    (sitemap) =>
+      `<sitemap><loc>${escapeXml(sitemap.url)}</loc>${
+        sitemap.lastModified ? `<lastmod>${sitemap.lastModified}</lastmod>` : ''
+      }</sitemap>`
+  )
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...items,
+    '</sitemapindex>',
+    '',
+  ].join('\n')
+}
+
+/**
+ * The most recent `lastModified` of a list of entries
+ */
+export function getLatestModified(entries: SitemapEntry[]): string | undefined {
+  let latest: string | undefined
+  for (const entry of entries) {
+    if (entry.lastModified && (!latest || entry.lastModified > latest)) {
+      latest = entry.lastModified
+    }
+  }
+  return latest
+}
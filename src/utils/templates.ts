@@ -0,0 +1,292 @@
+/**
+ * Synced Template Utilities
+ *
+ * Helpers for Template components in linked mode, where the content is
+ * resolved from a `puck-templates` document at render time. The page keeps
+ * the content from its last save, which is rendered when the template can't
+ * be resolved.
+ */
+
+import type { CollectionSlug, Payload, TypedLocale } from 'payload'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Template component mode
+ * - `copy`: template content is copied into the page and edited locally
+ * - `linked`: the page references the template; content always comes from the template
+ */
+export type TemplateMode = 'copy' | 'linked'
+
+/**
+ * Loads the current content of a template, or null if it can't be read
+ */
+export type LinkedTemplateResolver = (templateId: string) => Promise<unknown[] | null>
+
+export interface PayloadTemplateResolverOptions {
+  /**
+   * Payload instance to read templates from
+   */
+  payload: Payload
+  /**
+   * Locale to read templates in
+   */
+  locale?: string
+}
+
+/**
+ * Minimal shape of a Puck component item
+ */
+interface ComponentItem {
+  type: string
+  props: Record<string, unknown>
+}
+
+/**
+ * A template reference found in Puck data
+ */
+export interface TemplateReference {
+  templateId: string
+  mode: TemplateMode
+  /** ID of the Template component instance */
+  componentId?: string
+}
+
+/**
+ * Component type name used by the Template component
+ */
+export const TEMPLATE_COMPONENT_TYPE = 'Template'
+
+// =============================================================================
+// Tree Walking
+// =============================================================================
+
+function isComponentItem(value: unknown): value is ComponentItem {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof (value as ComponentItem).type === 'string' &&
+    !!(value as ComponentItem).props &&
+    typeof (value as ComponentItem).props === 'object'
+  )
+}
+
+function isComponentArray(value: unknown): value is ComponentItem[] {
+  return Array.isArray(value) && value.length > 0 && value.every(isComponentItem)
+}
+
+/**
+ * Maps every component in a list, recursing into slot props (arrays of components).
+ * The callback receives each item after its children have been mapped.
+ */
+function mapComponents(
+  items: ComponentItem[],
+  fn: (item: ComponentItem) => ComponentItem
+): ComponentItem[] {
+  return items.map((item) => {
+    let props = item.props
+    for (const [key, value] of Object.entries(item.props)) {
+      if (isComponentArray(value)) {
+        props = props === item.props ? { ...props } : props
+        props[key] = mapComponents(value, fn)
+      }
+    }
+    return fn(props === item.props ? item : { ...item, props })
+  })
+}
+
+/**
+ * Applies `mapComponents` to `content` and all legacy `zones` of Puck data
+ */
+function mapData<T>(data: T, fn: (item: ComponentItem) => ComponentItem): T {
+  if (!data || typeof data !== 'object') return data
+  const obj = data as { content?: unknown; zones?: Record<string, unknown> }
+
+  const content = Array.isArray(obj.content)
+    ? mapComponents(obj.content.filter(isComponentItem), fn)
+    : obj.content
+
+  let zones = obj.zones
+  if (zones && typeof zones === 'object') {
+    zones = Object.fromEntries(
+      Object.entries(zones).map(([zone, items]) => [
+        zone,
+        Array.isArray(items) ? mapComponents(items.filter(isComponentItem), fn) : items,
+      ])
+    )
+  }
+
+  return { ...data, content, zones }
+}
+
+// =============================================================================
+// Public Helpers
+// =============================================================================
+
+/**
+ * Returns true if the component is a Template in linked mode with a template selected
+ */
+export function isLinkedTemplate(item: unknown): boolean {
+  return (
+    isComponentItem(item) &&
+    item.type === TEMPLATE_COMPONENT_TYPE &&
+    item.props.mode === 'linked' &&
+    !!item.props.templateId
+  )
+}
+
+/**
+ * Collects all template references (linked and copied) from Puck data
+ *
+ * @example
+ * ```ts
+ * const refs = collectTemplateReferences(page.puckData)
+ * const usesHero = refs.some((ref) => ref.templateId === heroId && ref.mode === 'linked')
+ * ```
+ */
+export function collectTemplateReferences(data: unknown): TemplateReference[] {
+  const refs: TemplateReference[] = []
+  mapData(data, (item) => {
+    if (item.type === TEMPLATE_COMPONENT_TYPE && item.props.templateId) {
+      refs.push({
+        templateId: String(item.props.templateId),
+        mode: item.props.mode === 'linked' ? 'linked' : 'copy',
+        componentId: item.props.id as string | undefined,
+      })
+    }
+    return item
+  })
+  return refs
+}
+
+/**
+ * Value stored in the `templateRefs` index for a template reference
+ */
+export function getTemplateRefKey(templateId: string, mode: TemplateMode): string {
+  return `${templateId}:${mode}`
+}
+
+/**
+ * Builds the `templateRefs` index of Puck data: one key per Template
+ * component, so usage queries don't have to load `puckData`
+ */
+export function createTemplateRefs(data: unknown): string[] {
+  return collectTemplateReferences(data).map((ref) => getTemplateRefKey(ref.templateId, ref.mode))
+}
+
+/**
+ * Prepares template content for insertion into a linked Template.
+ * Nested Templates linking back to `templateId` are detached to prevent
+ * infinite resolution loops.
+ */
+export function prepareLinkedTemplateContent(content: unknown, templateId: string): unknown[] {
+  if (!Array.isArray(content)) return []
+  return mapComponents(content.filter(isComponentItem), (item) =>
+    isLinkedTemplate(item) && String(item.props.templateId) === String(templateId)
+      ? { ...item, props: { ...item.props, mode: 'copy' } }
+      : item
+  )
+}
+
+/**
+ * Whether the data has a linked Template, including in slots and zones
+ */
+export function hasLinkedTemplates(data: unknown): boolean {
+  return collectTemplateReferences(data).some((ref) => ref.mode === 'linked')
+}
+
+/**
+ * Replaces the content of linked Templates with the templates' current
+ * content, including templates linked inside templates. Templates that
+ * can't be loaded keep the content saved with the page. Each template is
+ * loaded once.
+ *
+ * @example
+ * ```ts
+ * const data = await resolveLinkedTemplates(
+ *   page.puckData,
+ *   createPayloadTemplateResolver({ payload })
+ * )
+ * ```
+ */
+export async function resolveLinkedTemplates<T>(data: T, resolver: LinkedTemplateResolver): Promise<T> {
+  if (!hasLinkedTemplates(data)) return data
+
+  const loaded = new Map<string, Promise<unknown[] | null>>()
+  const load = (templateId: string) => {
+    let content = loaded.get(templateId)
+    if (!content) {
+      content = resolver(templateId).catch((error) => {
+        console.error(`[payload-puck] Failed to resolve linked template ${templateId}:`, error)
+        return null
+      })
+      loaded.set(templateId, content)
+    }
+    return content
+  }
+
+  // `ancestors` stops templates that link back to a template they're in
+  const resolveItems = async (items: ComponentItem[], ancestors: string[]): Promise<ComponentItem[]> =>
+    Promise.all(
+      items.map(async (item) => {
+        const props = { ...item.props }
+        const templateId = isLinkedTemplate(item) ? String(item.props.templateId) : null
+
+        if (templateId && !ancestors.includes(templateId)) {
+          const content = await load(templateId)
+          if (content) {
+            props.content = prepareLinkedTemplateContent(content, templateId)
+          }
+        }
+
+        const childAncestors = templateId ? [...ancestors, templateId] : ancestors
+        for (const [key, value] of Object.entries(props)) {
+          if (isComponentArray(value)) {
+            props[key] = await resolveItems(value, childAncestors)
+          }
+        }
+        return { ...item, props }
+      })
+    )
+
+  const obj = data as { content?: unknown; zones?: Record<string, unknown> }
+  const content = Array.isArray(obj.content)
+    ? await resolveItems(obj.content.filter(isComponentItem), [])
+    : obj.content
+
+  let zones = obj.zones
+  if (zones && typeof zones === 'object') {
+    zones = Object.fromEntries(
+      await Promise.all(
+        Object.entries(zones).map(async ([zone, items]) => [
+          zone,
+          Array.isArray(items) ? await resolveItems(items.filter(isComponentItem), []) : items,
+        ])
+      )
+    )
+  }
+
+  return { ...data, content, zones }
+}
+
+/**
+ * Creates a resolver that reads templates from the `puck-templates`
+ * collection with `payload.findByID`
+ */
+export function createPayloadTemplateResolver({
+  payload,
+  locale,
+}: PayloadTemplateResolverOptions): LinkedTemplateResolver {
+  return async (templateId) => {
+    const template = await payload.findByID({
+      collection: 'puck-templates' as CollectionSlug,
+      id: templateId,
+      depth: 0,
+      locale: locale as TypedLocale | undefined,
+    })
+    const content = (template as { content?: unknown }).content
+    return Array.isArray(content) ? content : null
+  }
+}
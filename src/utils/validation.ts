@@ -4,6 +4,7 @@
  * Provides validation functions for ensuring Puck data structures are well-formed.
  */
 
+import type { Config as PuckConfig, Field as PuckField } from '@puckeditor/core'
 import type { PuckPageData, PuckRootProps } from '../types/index.js'
 
 // =============================================================================
@@ -351,3 +352,290 @@ export function parsePuckDataJson(
 
   return result
 }
+
+// =============================================================================
+// Config Validation
+// =============================================================================
+
+/**
+ * A problem found when validating Puck data against a Puck config
+ */
+export interface PuckDataIssue {
+  /** Path in the Puck data, e.g. 'content.2.props.title' */
+  path: string
+  message: string
+  /** ID of the component the issue belongs to (absent for root props) */
+  componentId?: string
+  /** Type of the component the issue belongs to */
+  componentType?: string
+}
+
+/**
+ * Options for validating Puck data against a Puck config
+ */
+export interface ConfigValidationOptions {
+  /**
+   * Required props per component type, with 'root' for root props.
+   * Fields with `metadata: { required: true }` are required too.
+   *
+   * @example { root: ['title'], Heading: ['text'] }
+   */
+  requiredFields?: Record<string, string[]>
+
+  /**
+   * Whether to report missing required fields
+   * @default true
+   */
+  checkRequired?: boolean
+}
+
+/**
+ * Result of validating Puck data against a Puck config
+ */
+export interface ConfigValidationResult {
+  valid: boolean
+  issues: PuckDataIssue[]
+}
+
+interface ComponentContext {
+  componentId?: string
+  componentType?: string
+  label: string
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || value === ''
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * Validates Puck data against the components and fields of a Puck config.
+ *
+ * Reports unknown component types, prop values that don't match their field
+ * type (including select/radio options, number and array limits, and slot
+ * allow/disallow lists), missing required fields and duplicate component IDs.
+ * Only static `fields` are checked - fields added by `resolveFields` and
+ * `custom`/`external` fields are not validated.
+ *
+ * @param data - The Puck data to validate
+ * @param config - The Puck config the data was created with
+ * @param options - Validation options
+ * @returns Validation result with an issue per problem
+ *
+ * @example
+ * ```ts
+ * import { baseConfig } from '@delmaredigital/payload-puck/config'
+ *
+ * const { valid, issues } = validatePuckDataAgainstConfig(page.puckData, baseConfig, {
+ *   requiredFields: { Heading: ['text'] },
+ * })
+ * ```
+ */
+export function validatePuckDataAgainstConfig(
+  data: unknown,
+  config: PuckConfig,
+  options: ConfigValidationOptions = {}
+): ConfigValidationResult {
+  const { requiredFields = {}, checkRequired = true } = options
+  const issues: PuckDataIssue[] = []
+  const seenIds = new Map<string, string>()
+
+  if (!isPlainObject(data)) {
+    return { valid: false, issues: [{ path: '', message: 'Puck data must be an object' }] }
+  }
+
+  const addIssue = (path: string, message: string, context: ComponentContext) => {
+    issues.push({
+      path,
+      message: `${context.label}: ${message}`,
+      ...(context.componentId && { componentId: context.componentId }),
+      ...(context.componentType && { componentType: context.componentType }),
+    })
+  }
+
+  const validateFields = (
+    fields: Record<string, PuckField> | undefined,
+    values: Record<string, unknown>,
+    path: string,
+    context: ComponentContext,
+    required: string[]
+  ) => {
+    if (!fields) return
+
+    for (const [name, field] of Object.entries(fields)) {
+      const value = values[name]
+      const fieldPath = `${path}.${name}`
+      const label = field.label || name
+
+      if (isEmptyValue(value)) {
+        if (checkRequired && (required.includes(name) || field.metadata?.required === true)) {
+          addIssue(fieldPath, `${label} is required`, context)
+        }
+        continue
+      }
+
+      switch (field.type) {
+        case 'text':
+        case 'textarea':
+          if (typeof value !== 'string') {
+            addIssue(fieldPath, `${label} must be text`, context)
+          }
+          break
+
+        case 'richtext':
+          if (typeof value !== 'string' && !isPlainObject(value)) {
+            addIssue(fieldPath, `${label} must be rich text`, context)
+          }
+          break
+
+        case 'number':
+          if (typeof value !== 'number' || !Number.isFinite(value)) {
+            addIssue(fieldPath, `${label} must be a number`, context)
+          } else if (field.min !== undefined && value < field.min) {
+            addIssue(fieldPath, `${label} must be at least ${field.min}`, context)
+          } else if (field.max !== undefined && value > field.max) {
+            addIssue(fieldPath, `${label} must be at most ${field.max}`, context)
+          }
+          break
+
+        case 'select':
+        case 'radio': {
+          const serialized = JSON.stringify(value)
+          const isOption = field.options.some(
+            (option) => option.value === value || JSON.stringify(option.value) === serialized
+          )
+          if (!isOption) {
+            addIssue(fieldPath, `${label} has an invalid option: ${serialized}`, context)
+          }
+          break
+        }
+
+        case 'array':
+          if (!Array.isArray(value)) {
+            addIssue(fieldPath, `${label} must be a list`, context)
+            break
+          }
+          if (field.min !== undefined && value.length < field.min) {
+            addIssue(fieldPath, `${label} needs at least ${field.min} items`, context)
+          }
+          if (field.max !== undefined && value.length > field.max) {
+            addIssue(fieldPath, `${label} allows at most ${field.max} items`, context)
+          }
+          value.forEach((item, index) => {
+            if (!isPlainObject(item)) {
+              addIssue(`${fieldPath}.${index}`, `${label} item ${index + 1} must be an object`, context)
+            } else {
+              validateFields(field.arrayFields, item, `${fieldPath}.${index}`, context, [])
+            }
+          })
+          break
+
+        case 'object':
+          if (!isPlainObject(value)) {
+            addIssue(fieldPath, `${label} must be an object`, context)
+          } else {
+            validateFields(field.objectFields, value, fieldPath, context, [])
+          }
+          break
+
+        case 'slot':
+          if (!Array.isArray(value)) {
+            addIssue(fieldPath, `${label} must be a list of components`, context)
+            break
+          }
+          for (const item of value) {
+            const type = isPlainObject(item) ? item.type : undefined
+            if (typeof type !== 'string') continue
+            if (
+              (field.allow && !field.allow.includes(type)) ||
+              (field.disallow && field.disallow.includes(type))
+            ) {
+              addIssue(fieldPath, `${type} is not allowed in ${label}`, context)
+            }
+          }
+          validateComponents(value, fieldPath)
+          break
+
+        // custom and external fields hold arbitrary values
+        default:
+          break
+      }
+    }
+  }
+
+  const validateComponents = (items: unknown[], path: string) => {
+    items.forEach((item, index) => {
+      const itemPath = `${path}.${index}`
+
+      if (!isPlainObject(item) || typeof item.type !== 'string' || !isPlainObject(item.props)) {
+        addIssue(itemPath, 'Invalid component', { label: 'Content' })
+        return
+      }
+
+      const props = item.props
+      const componentId = typeof props.id === 'string' ? props.id : undefined
+      const componentConfig = config.components[item.type]
+      const context: ComponentContext = {
+        componentId,
+        componentType: item.type,
+        label: componentConfig?.label || item.type,
+      }
+
+      if (!componentId) {
+        addIssue(`${itemPath}.props.id`, 'Missing component ID', context)
+      } else if (seenIds.has(componentId)) {
+        addIssue(
+          `${itemPath}.props.id`,
+          `Duplicate component ID "${componentId}" (also used at ${seenIds.get(componentId)})`,
+          context
+        )
+      } else {
+        seenIds.set(componentId, itemPath)
+      }
+
+      if (!componentConfig) {
+        addIssue(itemPath, `Unknown component type "${item.type}"`, context)
+        return
+      }
+
+      validateFields(
+        componentConfig.fields as Record<string, PuckField> | undefined,
+        props,
+        `${itemPath}.props`,
+        context,
+        requiredFields[item.type] ?? []
+      )
+    })
+  }
+
+  // Root props
+  const rootProps = isPlainObject(data.root) && isPlainObject(data.root.props) ? data.root.props : {}
+  validateFields(
+    config.root?.fields as Record<string, PuckField> | undefined,
+    rootProps,
+    'root.props',
+    { label: 'Page' },
+    requiredFields.root ?? []
+  )
+
+  // Content (slots are validated as part of their parent component)
+  if (Array.isArray(data.content)) {
+    validateComponents(data.content, 'content')
+  } else {
+    issues.push({ path: 'content', message: 'Page: content must be a list of components' })
+  }
+
+  // Legacy drop zones
+  if (isPlainObject(data.zones)) {
+    for (const [zone, items] of Object.entries(data.zones)) {
+      if (Array.isArray(items)) {
+        validateComponents(items, `zones.${zone}`)
+      }
+    }
+  }
+
+  return { valid: issues.length === 0, issues }
+}
@@ -0,0 +1,72 @@
+/**
+ * Webhook Signatures
+ *
+ * Webhook payloads are signed with the endpoint's secret. The signature
+ * header has the form `t=<unix seconds>,v1=<hex HMAC-SHA256>`, where the
+ * HMAC is computed over `<t>.<raw request body>`.
+ *
+ * Server-only (uses Node's crypto module).
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+
+/**
+ * Default tolerance for the signature timestamp in seconds (5 minutes)
+ */
+export const DEFAULT_WEBHOOK_TOLERANCE = 60 * 5
+
+function sign(body: string, secret: string, timestamp: number): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/**
+ * Creates the `X-Puck-Signature` header value for a webhook body
+ */
+export function createWebhookSignature(
+  body: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestamp},v1=${sign(body, secret, timestamp)}`
+}
+
+/**
+ * Verifies the `X-Puck-Signature` header of a received webhook. Returns false
+ * if the header is malformed, the signature doesn't match or the timestamp is
+ * older than `tolerance` seconds.
+ *
+ * @example
+ * ```typescript
+ * import { verifyWebhookSignature } from '@delmaredigital/payload-puck/plugin'
+ *
+ * export async function POST(request: Request) {
+ *   const body = await request.text()
+ *   const signature = request.headers.get('x-puck-signature') ?? ''
+ *   if (!verifyWebhookSignature(body, signature, process.env.PUCK_WEBHOOK_SECRET!)) {
+ *     return new Response('Invalid signature', { status: 401 })
+ *   }
+ *   const { event, page } = JSON.parse(body)
+ *   // ...
+ * }
+ * ```
+ */
+export function verifyWebhookSignature(
+  body: string,
+  header: string,
+  secret: string,
+  tolerance: number = DEFAULT_WEBHOOK_TOLERANCE
+): boolean {
+  const parts = Object.fromEntries(
+    header.split(',').map((part) => {
+      const index = part.indexOf('=')
+      return [part.slice(0, index).trim(), part.slice(index + 1).trim()]
+    })
+  )
+  const timestamp = Number(parts.t)
+  if (!Number.isInteger(timestamp) || !parts.v1) return false
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > tolerance) return false
+
+  const expected = Buffer.from(sign(body, secret, timestamp))
+  const actual = Buffer.from(parts.v1)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
@@ -12,6 +12,7 @@ import { DefaultTemplate } from '@payloadcms/next/templates'
 import { getVisibleEntities } from '@payloadcms/ui/shared'
 import { PuckEditor } from '../editor/PuckEditor.js'
 import { mapPayloadFieldsToRootProps } from '../api/utils/mapRootProps.js'
+import { resolvePreviewUrlPrefix, type PreviewUrlConfig } from '../utils/pageUrl.js'
 
 export interface PuckEditorViewProps extends AdminViewProps {
   // Additional props can be passed via plugin config
@@ -73,13 +74,57 @@ export async function PuckEditorView({
 
   // Get puck config from plugin custom settings
   const puckConfig = (payload.config as any).custom?.puck?.config
-  const layouts = (payload.config as any).custom?.puck?.layouts
+  const puckCollections = (payload.config as any).custom?.puck?.collections as string[] | undefined
+  // Per-collection settings take precedence over the plugin-level defaults
+  const collectionOptions = (payload.config as any).custom?.puck?.collectionOptions?.[collection]
+  const layouts = collectionOptions?.layouts ?? (payload.config as any).custom?.puck?.layouts
   const explicitPageTreeConfig = (payload.config as any).custom?.puck?.pageTree
   const aiConfig = (payload.config as any).custom?.puck?.ai
   const editorStylesheets = (payload.config as any).custom?.puck?.editorStylesheets as string[] | undefined
-  const previewUrlConfig = (payload.config as any).custom?.puck?.previewUrl as
-    | string
-    | ((page: any) => string | ((slug: string) => string))
+  const previewUrlConfig = (collectionOptions?.previewUrl ??
+    (payload.config as any).custom?.puck?.previewUrl) as PreviewUrlConfig | undefined
+
+  if (puckCollections && !puckCollections.includes(collection)) {
+    return (
+      <DefaultTemplate
+        i18n={req.i18n}
+        locale={req.locale as Locale | undefined}
+        params={params}
+        payload={payload}
+        permissions={initPageResult.permissions}
+        searchParams={searchParams}
+        user={req.user ?? undefined}
+        visibleEntities={visibleEntities}
+      >
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            height: '50vh',
+            color: 'var(--theme-elevation-500)',
+          }}
+        >
+          <p>Collection &quot;{collection}&quot; is not configured for Puck.</p>
+        </div>
+      </DefaultTemplate>
+    )
+  }
+
+  // Resolve the locale being edited when puckData is localized for this collection
+  const localization = (payload.config as any).custom?.puck?.localization as
+    | { defaultLocale: string; locales: Array<{ code: string; label: string }> }
+    | null
+    | undefined
+  const editorLocale =
+    collectionOptions?.localized && localization
+      ? (req.locale as string | undefined) || localization.defaultLocale
+      : undefined
+
+  // Edit locking - heartbeat three times per timeout so a missed beat doesn't drop the lock
+  const editLocking = (payload.config as any).custom?.puck?.editLocking as
+    | { timeout: number }
+    | null
     | undefined
 
   // Fetch the page data
@@ -94,6 +139,8 @@ export async function PuckEditorView({
       id: pageId,
       draft: true, // Always get draft for editing
       depth: needsRelationships ? 1 : 0,
+      // Load only the edited locale - untranslated pages start empty instead of showing fallback content
+      ...(editorLocale && { locale: editorLocale as any, fallbackLocale: false }),
     })
   } catch (err) {
     console.error('[PuckEditorView] Error fetching page:', err)
@@ -107,22 +154,7 @@ export async function PuckEditorView({
   // IMPORTANT: When the config returns a function, we call it with '' to get the prefix.
   // This relies on the function using the pattern: (slug) => slug ? `/${org}/${slug}` : `/${org}`
   // See PuckPluginOptions.previewUrl JSDoc in src/types/index.ts for details.
-  let previewUrlPrefix: string | undefined
-  if (previewUrlConfig && page) {
-    if (typeof previewUrlConfig === 'function') {
-      const result = previewUrlConfig(page)
-      if (typeof result === 'string') {
-        // Function returned a string prefix directly (e.g., '/acme')
-        previewUrlPrefix = result
-      } else if (typeof result === 'function') {
-        // Function returned a slug-to-URL function - call with '' to extract prefix
-        // e.g., (slug) => slug ? `/acme/${slug}` : `/acme` called with '' returns '/acme'
-        previewUrlPrefix = result('')
-      }
-    } else {
-      previewUrlPrefix = previewUrlConfig
-    }
-  }
+  const previewUrlPrefix = page ? resolvePreviewUrlPrefix(page, previewUrlConfig) : undefined
 
   // Fetch AI prompts from collection if enabled
   let aiExamplePrompts = aiConfig?.examplePrompts || []
@@ -172,10 +204,11 @@ export async function PuckEditorView({
   }
 
   // Build back URL to collection
-  const backUrl = `${adminRoute}/collections/${collection}/${pageId}`
+  const backUrl = `${adminRoute}/collections/${collection}/${pageId}${editorLocale ? `?locale=${editorLocale}` : ''}`
 
   // Build initial data, syncing Payload fields to root.props
-  let initialData = page?.puckData || { content: [], root: { props: {} } }
+  let initialData = page?.puckData ||
+    collectionOptions?.defaultPuckData || { content: [], root: { props: {} } }
 
   if (page) {
     // Map Payload document fields to root.props format
@@ -251,6 +284,23 @@ export async function PuckEditorView({
             hasContextCollection={!!aiConfig?.contextCollection}
             aiComponentInstructions={aiConfig?.componentInstructions}
             editorStylesheets={editorStylesheets}
+            locale={editorLocale}
+            locales={editorLocale ? localization?.locales : undefined}
+            initialSchedule={
+              collectionOptions?.scheduling
+                ? {
+                    publishAt: page?.publishAt ?? null,
+                    unpublishAt: page?.unpublishAt ?? null,
+                    scheduledBy: page?.scheduledBy ?? null,
+                  }
+                : undefined
+            }
+            initialUpdatedAt={page?.updatedAt}
+            enableEditLocking={!!editLocking}
+            lockHeartbeatInterval={editLocking ? (editLocking.timeout * 1000) / 3 : undefined}
+            enablePreviewLinks={Boolean((payload.config as any).custom?.puck?.previewLinks)}
+            enableAuditLog={Boolean((payload.config as any).custom?.puck?.auditLog)}
+            enableDuplicate
           />
         </div>
       )}